@@ -1,100 +1,477 @@
-
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo, useDeferredValue } from 'react';
 import * as THREE from 'three';
 import { Viewer } from './components/Viewer';
+import type { ViewerHandle } from './components/Viewer';
 import { Controls } from './components/Controls';
 import { loadPly } from './services/plyLoader';
+import { downloadBlob, exportPly, selectExportRows } from './services/plyExporter';
+import { activeCropVolumes, activeSceneCropVolumes, countCroppedPoints, createCropTester, createDefaultCrop, updateCropVolume } from './services/cropVolumes';
+import { POINT_DELETED, POINT_HIDDEN, clearSelection, countPointStates, createPointStates, deleteSelected, hideSelected, invertSelection, selectAllPoints, unhideAll } from './services/splatSelection';
+import type { PointStateCounts, PointStatesByModel } from './services/splatSelection';
+import type { SelectionCommand } from './components/SelectionControls';
+import type { IcpStatus } from './components/RegistrationControls';
+import { addMeasurementPoint, finishMeasurement } from './services/measurements';
+import { MIN_REGISTRATION_PAIRS, addRegistrationPoint, estimateTransform, identityMatrix, rmsPairError, sampleWorldPoints } from './services/registration';
+import { alignWithIcp } from './services/icpAligner';
+import type { IcpAlignment } from './services/icpAligner';
+import { MAX_SCENE_MODELS, alignModelCenter, applyWorldMatrix, createDefaultCoordinateSystem, createDefaultTransformations, createSceneModel, drawnSceneModels, modelMatrix, modelWorldBounds, sceneWorldBounds, updateSceneModel, worldToFileMatrix } from './services/sceneModels';
+import { VIEW_PRESET_DIRECTIONS, cameraPathDuration, createBookmark, createCameraPath, createTurntablePath, focusCameraPose, presetViewPose } from './services/cameraPaths';
+import type { ViewPreset } from './services/cameraPaths';
+import { annotationWorldPosition, createAnnotation, parseAnnotationsJson, serializeAnnotations } from './services/annotations';
+import { exportFrameSequence } from './services/videoExport';
+import { addPngText, canvasToPng } from './services/pngFiles';
+import { computeScalarHistogram, fitPlane, sampleScalarField, scalarFieldProperty, scalarPropertyNames } from './services/scalarFields';
+import { DEFAULT_SPLAT_FILTERS, countFilteredSplats, createSplatFilterTester, isSplatFilterActive } from './services/splatFilters';
+import { createClipTester, updateClipPlane } from './services/clipPlanes';
+import { collectSlicePoints, writeSliceCsv, writeSlicePly } from './services/sliceExport';
+import type { SplatFilterCounts } from './services/splatFilters';
+import { DEFAULT_RENDER_QUALITY } from './services/renderQuality';
+import { cropFromState, decodeViewStateHash, encodeViewStateHash, modelSettingsFromState, parseViewStateJson, serializeViewState, unsavedViewSettings, viewSettingsFromState } from './services/viewState';
+import type { SerializedModel, ViewSettings, ViewState } from './services/viewState';
+import { useEditHistory } from './hooks/useEditHistory';
+import { useCameraPathPlayback } from './hooks/useCameraPathPlayback';
+import { useOutlierScores } from './hooks/useOutlierScores';
 import { RenderMode } from './types';
-import type { PlyData, Transformations, CropSettings, AppearanceSettings, HelperSettings, PerformanceStats } from './types';
+import type { PlyData, SceneModel, Transformations, CoordinateSystem, CropSettings, CropVolume, AppearanceSettings, HelperSettings, PerformanceStats, SelectionSettings, MeasurementSettings, RegistrationSettings, CameraBookmark, CameraPathSettings, CameraPose, CameraProjection, NavigationSettings, LodSettings, ColormapSettings, ScalarField, SplatFilterSettings, Annotation, AnnotationSettings, ClipPlane, ClippingSettings, RenderQualitySettings, VideoExportSettings, ScreenshotSettings } from './types';
 
-const App: React.FC = () => {
-  const [plyData, setPlyData] = useState<PlyData | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [loadingProgress, setLoadingProgress] = useState(0);
-  const [error, setError] = useState<string | null>(null);
-  const [splatDataAvailable, setSplatDataAvailable] = useState(false);
+const applyStateAction = <T,>(action: React.SetStateAction<T>, prev: T): T =>
+  typeof action === 'function' ? (action as (prev: T) => T)(prev) : action;
 
-  const defaultTransformations: Transformations = {
-    position: new THREE.Vector3(0, 0, 0),
-    rotation: new THREE.Euler(0, 0, 0),
-    scale: 1,
-  };
+const concatFloat32 = (arrays: Float32Array[]) => {
+  const result = new Float32Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset = 0;
+  for (const a of arrays) {
+    result.set(a, offset);
+    offset += a.length;
+  }
+  return result;
+};
 
-  const [transformations, setTransformations] = useState<Transformations>(defaultTransformations);
+// ICP runs on a stride subsample of each model; the target grid is built from more points so
+// that the moving samples find close neighbours
+const ICP_SOURCE_SAMPLES = 20000;
+const ICP_TARGET_SAMPLES = 100000;
+const ICP_MAX_ITERATIONS = 50;
+const HISTOGRAM_SAMPLES = 100000;
+const HISTOGRAM_BINS = 64;
+const PLANE_FIT_SAMPLES = 50000;
+const SPLAT_SIZE_SAMPLES = 100000;
+// Flying to an annotation brings the camera this close, as a fraction of its model's diagonal
+const ANNOTATION_VIEW_DISTANCE = 0.25;
 
-  const [crop, setCrop] = useState<CropSettings>({
-    min: new THREE.Vector3(),
-    max: new THREE.Vector3(),
-    enabled: false,
-  });
+const App: React.FC = () => {
+  const [models, setModels] = useState<SceneModel[]>([]);
+  const [activeModelId, setActiveModelId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const activeModel = models.find(m => m.id === activeModelId) ?? null;
+  const plyData = activeModel?.plyData ?? null;
+  const isLoading = models.some(m => m.isLoading);
 
   const [appearance, setAppearance] = useState<AppearanceSettings>({
     pointSize: 5.0,
     opacity: 1.0,
     backgroundColor: '#1a202c', // gray-900
     splatScale: 1.0,
+    shDegree: 3,
   });
 
   const [helpers, setHelpers] = useState<HelperSettings>({
       showAxes: true,
       showGrid: true,
   });
-  
-  const [renderMode, setRenderMode] = useState<RenderMode>(RenderMode.ORIGINAL);
 
-  const [stats, setStats] = useState<PerformanceStats>({ fps: 0, pointCount: 0 });
+  const [navigation, setNavigation] = useState<NavigationSettings>({ mode: 'orbit', flySpeed: 0.1, projection: 'perspective' });
+
+  const [colormap, setColormap] = useState<ColormapSettings>({
+    field: 'y',
+    colormap: 'viridis',
+    range: null,
+    plane: new THREE.Plane(new THREE.Vector3(0, 1, 0), 0),
+  });
+
+  const [lod, setLod] = useState<LodSettings>({ enabled: true, splatBudget: 4e6 });
+
+  const [filters, setFilters] = useState<SplatFilterSettings>(DEFAULT_SPLAT_FILTERS);
+  const [quality, setQuality] = useState<RenderQualitySettings>(DEFAULT_RENDER_QUALITY);
+
+  const [clipping, setClipping] = useState<ClippingSettings>({ enabled: true, planes: [], selectedPlaneId: null });
+  const sceneBounds = useMemo(() => sceneWorldBounds(models), [models]);
+
+  const [stats, setStats] = useState<PerformanceStats>({ fps: 0, pointCount: 0, drawnCount: null });
 
   const handleFpsUpdate = useCallback((fps: number) => {
     setStats(s => ({ ...s, fps }));
   }, []);
 
+  const handleDrawnCountChange = useCallback((drawnCount: number | null) => {
+    setStats(s => ({ ...s, drawnCount }));
+  }, []);
+
+  const totalPointCount = models.reduce((sum, m) => sum + (m.plyData?.pointCount ?? 0), 0);
+  useEffect(() => {
+    setStats(s => ({ ...s, pointCount: totalPointCount }));
+  }, [totalPointCount]);
+
+  const updateActiveModel = useCallback((update: (model: SceneModel) => Partial<SceneModel>) => {
+    setModels(ms => ms.map(m => (m.id === activeModelId ? { ...m, ...update(m) } : m)));
+  }, [activeModelId]);
+
+  // Setters for the active model's settings, so the controls can edit them like plain state
+  const setTransformations = useCallback((action: React.SetStateAction<Transformations>) => {
+    updateActiveModel(m => ({ transformations: applyStateAction(action, m.transformations) }));
+  }, [updateActiveModel]);
+
+  const setCoordinateSystem = useCallback((action: React.SetStateAction<CoordinateSystem>) => {
+    updateActiveModel(m => ({ coordinateSystem: applyStateAction(action, m.coordinateSystem) }));
+  }, [updateActiveModel]);
+
+  const setCrop = useCallback((action: React.SetStateAction<CropSettings>) => {
+    updateActiveModel(m => ({ crop: applyStateAction(action, m.crop) }));
+  }, [updateActiveModel]);
+
+  const setRenderMode = useCallback((action: React.SetStateAction<RenderMode>) => {
+    updateActiveModel(m => ({ renderMode: applyStateAction(action, m.renderMode) }));
+  }, [updateActiveModel]);
+
+  const transformations: Transformations = activeModel?.transformations ?? createDefaultTransformations();
+  const crop: CropSettings = activeModel?.crop ?? { volumes: [], selectedVolumeId: null, enabled: false };
+
   const resetControls = useCallback(() => {
-    setTransformations(defaultTransformations);
+    setTransformations(createDefaultTransformations());
     if(plyData) {
-      setCrop({
-        min: plyData.boundingBox.min.clone(),
-        max: plyData.boundingBox.max.clone(),
-        enabled: false,
-      })
+      setCrop(createDefaultCrop(plyData.boundingBox));
     }
-  }, [plyData]);
+  }, [plyData, setTransformations, setCrop]);
 
-  const handleLoad = async (source: File) => {
-    setIsLoading(true);
+  const handleCropVolumeChange = useCallback((id: string, changes: Partial<CropVolume>) => {
+    setCrop(c => updateCropVolume(c, id, changes));
+  }, [setCrop]);
+
+  // Crop volumes share one budget across the scene, so the crops of every drawn model are needed to
+  // test a model's points; the array is kept while the crops are unchanged, e.g. during transform edits
+  const sceneCropsRef = useRef<{ modelIds: string[]; crops: CropSettings[] }>({ modelIds: [], crops: [] });
+  const drawnModels = drawnSceneModels(models);
+  if (
+    drawnModels.length !== sceneCropsRef.current.crops.length ||
+    drawnModels.some((m, i) => m.id !== sceneCropsRef.current.modelIds[i] || m.crop !== sceneCropsRef.current.crops[i])
+  ) {
+    sceneCropsRef.current = { modelIds: drawnModels.map(m => m.id), crops: drawnModels.map(m => m.crop) };
+  }
+  const { modelIds: drawnModelIds, crops: sceneCrops } = sceneCropsRef.current;
+  const activeDrawnIndex = drawnModelIds.indexOf(activeModelId ?? '');
+
+  // Counting walks every point, so let slider drags render before the statistic catches up
+  const deferredCrops = useDeferredValue(sceneCrops);
+  const keptPointCount = useMemo(() => {
+    if (!plyData || !deferredCrops[activeDrawnIndex]?.enabled) return plyData ? plyData.pointCount : null;
+    return countCroppedPoints(plyData.positions, plyData.pointCount, deferredCrops, activeDrawnIndex);
+  }, [plyData, deferredCrops, activeDrawnIndex]);
+  // Enabled volumes of the active model that are dropped because the scene's budget is used up
+  const droppedCropVolumeCount = activeCropVolumes(crop).length -
+    activeSceneCropVolumes(sceneCrops).filter(v => v.model === activeDrawnIndex).length;
+
+  const [selection, setSelection] = useState<SelectionSettings>({ tool: 'none', brushRadius: 20 });
+  const edits = useEditHistory<PointStatesByModel>({});
+  const pointStates = edits.state;
+  const pointStateCounts = useMemo((): PointStateCounts | null => {
+    const states = Object.values(pointStates);
+    if (states.length === 0) return null;
+    return states.map(countPointStates).reduce((sum, c) => ({
+      selected: sum.selected + c.selected,
+      hidden: sum.hidden + c.hidden,
+      deleted: sum.deleted + c.deleted,
+    }));
+  }, [pointStates]);
+
+  /** Filters a model's points to the shown ones: cropped, clipped, hidden and deleted points are left out. */
+  const shownPointFilter = useCallback((model: SceneModel) => {
+    const data = model.plyData!;
+    const keep = createCropTester(sceneCrops, drawnModelIds.indexOf(model.id));
+    const unclipped = createClipTester(clipping, modelMatrix(model));
+    const states = pointStates[model.id];
+    return (i: number) => {
+      if (states && states[i] & (POINT_HIDDEN | POINT_DELETED)) return false;
+      const x = data.positions[i * 3], y = data.positions[i * 3 + 1], z = data.positions[i * 3 + 2];
+      return keep(x, y, z) && unclipped(x, y, z);
+    };
+  }, [pointStates, clipping, sceneCrops, drawnModelIds]);
+
+  const handleSelectionCommand = useCallback((command: SelectionCommand) => {
+    const ids = Object.keys(pointStates);
+    if (ids.length === 0) return;
+    const apply = {
+      selectAll: selectAllPoints,
+      clear: clearSelection,
+      invert: invertSelection,
+      hide: hideSelected,
+      unhideAll: unhideAll,
+      delete: deleteSelected,
+    }[command];
+    // Commands act on the visible models only
+    const visibleIds = new Set(models.filter(m => m.visible).map(m => m.id));
+    const next: PointStatesByModel = { ...pointStates };
+    for (const id of ids) {
+      if (visibleIds.has(id)) next[id] = apply(pointStates[id]);
+    }
+    edits.push(next);
+  }, [pointStates, models, edits.push]);
+
+  const [measure, setMeasure] = useState<MeasurementSettings>({
+    tool: null,
+    measurements: [],
+    draft: [],
+    unitScale: 1,
+    unitLabel: 'm',
+  });
+
+  const [registration, setRegistration] = useState<RegistrationSettings>({
+    movingModelId: null,
+    fixedModelId: null,
+    picking: false,
+    pairs: [],
+    pendingMoving: null,
+    withScale: false,
+    icpMaxDistance: 0.05,
+    lastResult: null,
+  });
+  const [icpStatus, setIcpStatus] = useState<IcpStatus | null>(null);
+  const icpRef = useRef<IcpAlignment | null>(null);
+
+  useEffect(() => () => icpRef.current?.cancel(), []);
+
+  const [annotations, setAnnotations] = useState<AnnotationSettings>({ placing: false, selectedId: null });
+
+  const handlePickPoint = useCallback((point: THREE.Vector3, modelId: string) => {
+    if (annotations.placing) {
+      const model = models.find(m => m.id === modelId);
+      if (!model) return;
+      // Annotations are kept in model space so they follow the model's transformations
+      const annotation = createAnnotation(point.clone().applyMatrix4(modelMatrix(model).invert()), model.annotations);
+      setModels(ms => updateSceneModel(ms, modelId, { annotations: [...model.annotations, annotation] }));
+      setActiveModelId(modelId);
+      setAnnotations({ placing: false, selectedId: annotation.id });
+    } else if (registration.picking) {
+      const model = models.find(m => m.id === modelId);
+      if (!model) return;
+      // Pairs are kept in model space so they stay on the points when the alignment moves the model
+      const local = point.clone().applyMatrix4(modelMatrix(model).invert());
+      setRegistration(r => addRegistrationPoint(r, modelId, local));
+    } else {
+      setMeasure(m => addMeasurementPoint(m, point));
+    }
+  }, [annotations.placing, registration.picking, models]);
+
+  const handleFinishMeasurement = useCallback(() => {
+    setMeasure(finishMeasurement);
+  }, []);
+
+  // Selection, measurement, pair picking and annotation placing all take over mouse clicks, so only one is active at a time
+  useEffect(() => {
+    if (!measure.tool) return;
+    setSelection(s => s.tool === 'none' ? s : { ...s, tool: 'none' });
+    setRegistration(r => r.picking ? { ...r, picking: false, pendingMoving: null } : r);
+    setAnnotations(a => a.placing ? { ...a, placing: false } : a);
+  }, [measure.tool]);
+
+  useEffect(() => {
+    if (selection.tool === 'none') return;
+    setMeasure(m => m.tool ? { ...m, tool: null, draft: [] } : m);
+    setRegistration(r => r.picking ? { ...r, picking: false, pendingMoving: null } : r);
+    setAnnotations(a => a.placing ? { ...a, placing: false } : a);
+  }, [selection.tool]);
+
+  useEffect(() => {
+    if (!registration.picking) return;
+    setSelection(s => s.tool === 'none' ? s : { ...s, tool: 'none' });
+    setMeasure(m => m.tool ? { ...m, tool: null, draft: [] } : m);
+    setAnnotations(a => a.placing ? { ...a, placing: false } : a);
+  }, [registration.picking]);
+
+  useEffect(() => {
+    if (!annotations.placing) return;
+    setSelection(s => s.tool === 'none' ? s : { ...s, tool: 'none' });
+    setMeasure(m => m.tool ? { ...m, tool: null, draft: [] } : m);
+    setRegistration(r => r.picking ? { ...r, picking: false, pendingMoving: null } : r);
+  }, [annotations.placing]);
+
+  const handleAlignPairs = () => {
+    const moving = models.find(m => m.id === registration.movingModelId);
+    const fixed = models.find(m => m.id === registration.fixedModelId);
+    if (!moving || !fixed || registration.pairs.length < MIN_REGISTRATION_PAIRS) return;
+    const movingMatrix = modelMatrix(moving);
+    const fixedMatrix = modelMatrix(fixed);
+    const source = registration.pairs.flatMap(p => p.moving.clone().applyMatrix4(movingMatrix).toArray());
+    const target = registration.pairs.flatMap(p => p.fixed.clone().applyMatrix4(fixedMatrix).toArray());
+    try {
+      const matrix = estimateTransform(source, target, registration.withScale);
+      setError(null);
+      setModels(ms => updateSceneModel(ms, moving.id, { transformations: applyWorldMatrix(moving.transformations, matrix) }));
+      setRegistration(r => ({
+        ...r,
+        picking: false,
+        pendingMoving: null,
+        lastResult: { method: 'pairs', rmsError: rmsPairError(source, target, matrix), pairCount: registration.pairs.length },
+      }));
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleRefineIcp = async () => {
+    const moving = models.find(m => m.id === registration.movingModelId);
+    const fixed = models.find(m => m.id === registration.fixedModelId);
+    const fixedBounds = fixed && modelWorldBounds(fixed);
+    if (!moving?.plyData || !fixed?.plyData || !fixedBounds || icpRef.current) return;
+
+    // Only points the user can see take part
+    const sample = (model: SceneModel, maxSamples: number) => {
+      const data = model.plyData!;
+      return sampleWorldPoints(data.positions, data.pointCount, modelMatrix(model).elements, maxSamples, shownPointFilter(model));
+    };
+
+    const alignment = alignWithIcp(
+      sample(moving, ICP_SOURCE_SAMPLES),
+      sample(fixed, ICP_TARGET_SAMPLES),
+      identityMatrix(),
+      {
+        maxIterations: ICP_MAX_ITERATIONS,
+        maxDistance: fixedBounds.getSize(new THREE.Vector3()).length() * registration.icpMaxDistance,
+        withScale: registration.withScale,
+        tolerance: 1e-4,
+      },
+      (iteration, rmsError) => setIcpStatus({ iteration, rmsError })
+    );
+    icpRef.current = alignment;
+    setIcpStatus({ iteration: 0, rmsError: 0 });
     setError(null);
-    setLoadingProgress(0);
-    setSplatDataAvailable(false);
-    
-    setRenderMode(RenderMode.ORIGINAL);
-    
+    setRegistration(r => ({ ...r, picking: false, pendingMoving: null }));
     try {
-      const data = await loadPly(source, setLoadingProgress);
-      setPlyData(data);
-      setStats(s => ({ ...s, pointCount: data.pointCount }));
-      
-      const hasSplatData = !!(data.scales && data.rotations);
-      setSplatDataAvailable(hasSplatData);
-      // Automatically switch to splat mode if available and not already set
-      if(hasSplatData) {
-          setRenderMode(RenderMode.SPLAT);
+      const result = await alignment.result;
+      // The result is a world-space correction, applied on top of whatever transform the model has now
+      setModels(ms => ms.map(m => (m.id === moving.id ? { ...m, transformations: applyWorldMatrix(m.transformations, result.matrix) } : m)));
+      setRegistration(r => ({ ...r, lastResult: { method: 'icp', rmsError: result.rmsError, pairCount: result.pairCount } }));
+    } catch (e: any) {
+      if (icpRef.current === alignment) setError(e.message);
+    } finally {
+      if (icpRef.current === alignment) icpRef.current = null;
+      setIcpStatus(null);
+    }
+  };
+
+  const handleCancelIcp = () => {
+    const alignment = icpRef.current;
+    icpRef.current = null;
+    alignment?.cancel();
+  };
+
+  const hasMeasurementDraft = measure.draft.length > 0;
+  const hasPendingPair = !!registration.pendingMoving;
+
+  // Keyboard shortcuts for the selection and measurement commands, ignored while typing in a form field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, select, textarea')) return;
+      const mod = e.ctrlKey || e.metaKey;
+      const key = e.key.toLowerCase();
+      if (mod && key === 'z' && !e.shiftKey) {
+        edits.undo();
+      } else if (mod && (key === 'y' || (key === 'z' && e.shiftKey))) {
+        edits.redo();
+      } else if (key === 'delete' || key === 'backspace') {
+        handleSelectionCommand('delete');
+      } else if (key === 'enter' && hasMeasurementDraft) {
+        handleFinishMeasurement();
+      } else if (key === 'escape') {
+        if (hasPendingPair) {
+          setRegistration(r => ({ ...r, pendingMoving: null }));
+        } else if (hasMeasurementDraft) {
+          setMeasure(m => ({ ...m, draft: [] }));
+        } else {
+          handleSelectionCommand('clear');
+        }
       } else {
-          setRenderMode(RenderMode.ORIGINAL);
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [edits.undo, edits.redo, handleSelectionCommand, handleFinishMeasurement, hasMeasurementDraft, hasPendingPair]);
+
+  // Model entries of an opened view whose files have not been loaded yet. The ref is read by loads
+  // in flight, so that each entry is claimed by one file
+  const [pendingModels, setPendingModels] = useState<SerializedModel[]>([]);
+  const pendingModelsRef = useRef<SerializedModel[]>([]);
+  const updatePendingModels = (next: SerializedModel[]) => {
+    pendingModelsRef.current = next;
+    setPendingModels(next);
+  };
+
+  // One controller per model still loading, so removing a model cancels its load
+  const loadAbortRefs = useRef(new Map<string, AbortController>());
+
+  useEffect(() => () => loadAbortRefs.current.forEach(c => c.abort()), []);
+
+  const handleLoad = async (source: File) => {
+    if (models.length >= MAX_SCENE_MODELS) {
+      setError(`The scene holds at most ${MAX_SCENE_MODELS} models. Remove one before loading another.`);
+      return;
+    }
+    const model = createSceneModel(source.name);
+    const controller = new AbortController();
+    loadAbortRefs.current.set(model.id, controller);
+    const updateModel = (changes: Partial<SceneModel>) => setModels(ms => updateSceneModel(ms, model.id, changes));
+    const restored = pendingModelsRef.current.find(m => m.file === source.name);
+    if (restored) updatePendingModels(pendingModelsRef.current.filter(m => m !== restored));
+
+    setError(null);
+    setModels(ms => [...ms, model]);
+    setActiveModelId(model.id);
+
+    let renderModeChosen = false;
+    const showData = (data: PlyData) => {
+      updateModel({ plyData: data });
+      if (renderModeChosen) return;
+      renderModeChosen = true;
+
+      // Georeferenced models share the origin of the first one, so they line up in world space
+      if (data.offset.lengthSq() > 0) {
+        setModels(ms => {
+          const shared = ms.find(m => m.id !== model.id && m.origin.lengthSq() > 0)?.origin;
+          return updateSceneModel(ms, model.id, { origin: (shared ?? data.offset).clone() });
+        });
+      }
+
+      const hasSplatData = !!(data.scales && data.rotations);
+      if (restored) {
+        const { crop: _crop, ...settings } = modelSettingsFromState(restored, hasSplatData);
+        updateModel({ splatDataAvailable: hasSplatData, ...settings });
+        return;
       }
+      // Automatically switch to splat mode if available
+      updateModel({ splatDataAvailable: hasSplatData, renderMode: hasSplatData ? RenderMode.SPLAT : RenderMode.ORIGINAL });
+    };
 
-      setCrop({
-        min: data.boundingBox.min.clone(),
-        max: data.boundingBox.max.clone(),
-        enabled: false,
-      })
-      setTransformations(defaultTransformations);
+    try {
+      const data = await loadPly(source, loadingProgress => updateModel({ loadingProgress }), { onPartial: showData, signal: controller.signal });
+      showData(data);
+      // Crop volumes are restored once the bounds are final, as they replace the default crop
+      const crop = restored ? cropFromState(restored.crop) : createDefaultCrop(data.boundingBox);
+      updateModel({ sourceFile: source, crop, isLoading: false, loadingProgress: 0 });
+      edits.mapAll(states => ({ ...states, [model.id]: createPointStates(data.pointCount) }));
     } catch (e: any) {
+      // The model was removed while loading
+      if (controller.signal.aborted) return;
       console.error(e);
       setError(e.message || 'An unknown error occurred while loading the model.');
-      setPlyData(null);
-      setStats(s => ({ ...s, pointCount: 0 }));
+      setModels(ms => ms.filter(m => m.id !== model.id));
+      setActiveModelId(id => id === model.id ? null : id);
+      if (restored) updatePendingModels([...pendingModelsRef.current, restored]);
     } finally {
-      setIsLoading(false);
-      setLoadingProgress(0);
+      loadAbortRefs.current.delete(model.id);
     }
   };
 
@@ -102,53 +479,663 @@ const App: React.FC = () => {
     handleLoad(file);
   };
 
+  const handleRemoveModel = (id: string) => {
+    loadAbortRefs.current.get(id)?.abort();
+    const remaining = models.filter(m => m.id !== id);
+    setModels(remaining);
+    if (activeModelId === id) setActiveModelId(remaining[remaining.length - 1]?.id ?? null);
+    if (id === registration.movingModelId || id === registration.fixedModelId) {
+      handleCancelIcp();
+      setRegistration(r => ({
+        ...r,
+        movingModelId: r.movingModelId === id ? null : r.movingModelId,
+        fixedModelId: r.fixedModelId === id ? null : r.fixedModelId,
+        picking: false,
+        pairs: [],
+        pendingMoving: null,
+        lastResult: null,
+      }));
+    }
+    edits.mapAll(states => {
+      if (!(id in states)) return states;
+      const { [id]: _removed, ...rest } = states;
+      return rest;
+    });
+  };
+
+  const handleToggleModelVisibility = (id: string) => {
+    setModels(ms => ms.map(m => (m.id === id ? { ...m, visible: !m.visible } : m)));
+  };
+
+  const handleAlignModel = (id: string) => {
+    const model = models.find(m => m.id === id);
+    if (!model || !activeModel) return;
+    const aligned = alignModelCenter(model, activeModel);
+    if (aligned) setModels(ms => updateSceneModel(ms, id, { transformations: aligned }));
+  };
+
+  const handleExport = async () => {
+    const sourceFile = activeModel?.sourceFile;
+    if (!plyData || !sourceFile) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const rows = selectExportRows(plyData, sceneCrops, activeDrawnIndex, pointStates[activeModel.id]);
+      const blob = await exportPly(sourceFile, rows, activeModel);
+      const baseName = sourceFile.name.replace(/\.[^.]+$/, '');
+      downloadBlob(blob, `${baseName}_edited.ply`);
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'An unknown error occurred while exporting the model.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const viewerRef = useRef<ViewerHandle>(null);
+
+  const propertyNames = useMemo(() => scalarPropertyNames(models.flatMap(m => (m.plyData ? [m.plyData] : []))), [models]);
+  const isColormapShown = models.some(m => m.plyData && m.renderMode === RenderMode.COLORMAP);
+
+  // Distances to the camera are measured from the view at the time, so they are refreshed on request
+  const [histogramVersion, setHistogramVersion] = useState(0);
+  const deferredModels = useDeferredValue(models);
+  const scalarHistogram = useMemo(() => {
+    if (!isColormapShown) return null;
+    const shown = deferredModels.filter(m => m.plyData && m.visible);
+    const context = {
+      cameraPosition: viewerRef.current?.getCameraPose()?.position ?? new THREE.Vector3(),
+      plane: colormap.plane,
+    };
+    const maxSamples = Math.ceil(HISTOGRAM_SAMPLES / Math.max(1, shown.length));
+    const samples = shown.map(model => sampleScalarField(model, colormap.field, context, maxSamples, shownPointFilter(model)));
+    return computeScalarHistogram(concatFloat32(samples), HISTOGRAM_BINS);
+  }, [isColormapShown, deferredModels, colormap.field, colormap.plane, shownPointFilter, histogramVersion]);
+
+  const colormapRange = useMemo((): [number, number] =>
+    colormap.range ?? (scalarHistogram ? [scalarHistogram.min, scalarHistogram.max] : [0, 1]),
+  [colormap.range, scalarHistogram]);
+
+  // Point data of the loaded models, kept as the same array while it does not change
+  const loadedDataRef = useRef<PlyData[]>([]);
+  const loadedData = models.flatMap(m => (m.plyData ? [m.plyData] : []));
+  if (loadedData.length !== loadedDataRef.current.length || loadedData.some((d, i) => d !== loadedDataRef.current[i])) {
+    loadedDataRef.current = loadedData;
+  }
+  const outliers = useOutlierScores(loadedDataRef.current, filters.outlierNeighbors, filters.removeOutliers);
+
+  const deferredFilters = useDeferredValue(filters);
+  const filterCounts = useMemo((): SplatFilterCounts | null => {
+    if (!isSplatFilterActive(deferredFilters)) return null;
+    const counts: SplatFilterCounts = { opacity: 0, size: 0, outlier: 0, total: 0 };
+    for (const model of deferredModels) {
+      if (!model.plyData || !model.visible) continue;
+      const c = countFilteredSplats(model.plyData, deferredFilters, model.transformations.scale, outliers.scores.get(model.plyData), shownPointFilter(model));
+      counts.opacity += c.opacity;
+      counts.size += c.size;
+      counts.outlier += c.outlier;
+      counts.total += c.total;
+    }
+    return counts;
+  }, [deferredFilters, deferredModels, outliers.scores, shownPointFilter]);
+
+  // Sizes at the 1st and 99th percentile, where the size filters start when switched on
+  const splatSizeRange = useMemo((): [number, number] | null => {
+    const shown = deferredModels.filter(m => m.plyData?.scales && m.visible);
+    if (shown.length === 0) return null;
+    const context = { cameraPosition: new THREE.Vector3(), plane: new THREE.Plane() };
+    const maxSamples = Math.ceil(SPLAT_SIZE_SAMPLES / shown.length);
+    const sizes = concatFloat32(shown.map(model => sampleScalarField(model, 'splatSize', context, maxSamples))).sort();
+    if (sizes.length === 0) return null;
+    return [sizes[Math.floor((sizes.length - 1) * 0.01)], sizes[Math.ceil((sizes.length - 1) * 0.99)]];
+  }, [deferredModels]);
+
+  const handleFitPlane = () => {
+    const shown = models.filter(m => m.plyData && m.visible);
+    const maxSamples = Math.ceil(PLANE_FIT_SAMPLES / Math.max(1, shown.length));
+    const samples = shown.map(model =>
+      sampleWorldPoints(model.plyData!.positions, model.plyData!.pointCount, modelMatrix(model).elements, maxSamples, shownPointFilter(model))
+    );
+    try {
+      const plane = fitPlane(concatFloat32(samples));
+      setColormap(c => ({ ...c, plane, range: null }));
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+  const [bookmarks, setBookmarks] = useState<CameraBookmark[]>([]);
+  const [cameraPath, setCameraPath] = useState<CameraPathSettings>({ keyframeIds: [], segmentDuration: 3, loop: false });
+
+  const handleSaveBookmark = () => {
+    const pose = viewerRef.current?.getCameraPose();
+    if (pose) setBookmarks(bs => [...bs, createBookmark(`View ${bs.length + 1}`, pose)]);
+  };
+
+  const handleGoToBookmark = (id: string) => {
+    const bookmark = bookmarks.find(b => b.id === id);
+    if (bookmark) viewerRef.current?.flyTo(bookmark);
+  };
+
+  const handleRenameBookmark = (id: string, name: string) => {
+    setBookmarks(bs => bs.map(b => (b.id === id ? { ...b, name } : b)));
+  };
+
+  const handleRemoveBookmark = (id: string) => {
+    setBookmarks(bs => bs.filter(b => b.id !== id));
+    setCameraPath(p => ({ ...p, keyframeIds: p.keyframeIds.filter(k => k !== id) }));
+  };
+
+  const pathKeyframes = useMemo(
+    () => cameraPath.keyframeIds.map(id => bookmarks.find(b => b.id === id)).filter((b): b is CameraBookmark => !!b),
+    [cameraPath.keyframeIds, bookmarks]
+  );
+  const pathDuration = cameraPathDuration(pathKeyframes.length, cameraPath.segmentDuration, cameraPath.loop);
+  const cameraPathSampler = useMemo(
+    () => (pathKeyframes.length >= 2 ? createCameraPath(pathKeyframes, cameraPath.loop) : null),
+    [pathKeyframes, cameraPath.loop]
+  );
+  const applyPathPose = useCallback((pose: CameraPose) => viewerRef.current?.setCameraPose(pose), []);
+  const playback = useCameraPathPlayback({ path: cameraPathSampler, duration: pathDuration, loop: cameraPath.loop, onPose: applyPathPose });
+
+  const [videoExport, setVideoExport] = useState<VideoExportSettings>({
+    source: 'turntable',
+    format: 'webm',
+    width: 1920,
+    height: 1080,
+    fps: 30,
+    turntableDuration: 10,
+  });
+  const [videoProgress, setVideoProgress] = useState<{ done: number; total: number } | null>(null);
+  const videoAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => videoAbortRef.current?.abort(), []);
+
+  const handleExportVideo = async () => {
+    const viewer = viewerRef.current;
+    const startPose = viewer?.getCameraPose();
+    const bounds = sceneWorldBounds(models);
+    if (!viewer || !startPose || !bounds || videoAbortRef.current) return;
+    const { source, format, fps } = videoExport;
+    // Video encoders need even frame sizes
+    const width = Math.max(2, Math.round(videoExport.width / 2) * 2);
+    const height = Math.max(2, Math.round(videoExport.height / 2) * 2);
+
+    let posesAt: (progress: number) => CameraPose;
+    let closed: boolean;
+    let duration: number;
+    if (source === 'path') {
+      if (!cameraPathSampler) return;
+      posesAt = cameraPathSampler;
+      closed = cameraPath.loop;
+      duration = pathDuration;
+    } else {
+      posesAt = createTurntablePath(bounds.getCenter(new THREE.Vector3()), startPose);
+      closed = true;
+      duration = videoExport.turntableDuration;
+    }
+    // Closed paths end where they start, so their last frame is left out and the video loops seamlessly
+    const intervals = Math.max(1, Math.round(duration * fps));
+    const frameCount = closed ? intervals : intervals + 1;
+
+    playback.pause();
+    const controller = new AbortController();
+    videoAbortRef.current = controller;
+    setVideoProgress({ done: 0, total: frameCount });
+    setError(null);
+    try {
+      const blob = await exportFrameSequence({
+        frameCount,
+        fps,
+        width,
+        height,
+        format,
+        renderFrame: i => viewer.renderOffscreen(posesAt(i / intervals), width, height),
+        onProgress: done => setVideoProgress({ done, total: frameCount }),
+        signal: controller.signal,
+      });
+      const baseName = source === 'path' ? 'camera_path' : 'turntable';
+      downloadBlob(blob, format === 'webm' ? `${baseName}.webm` : `${baseName}_frames.zip`);
+    } catch (e: any) {
+      if (!controller.signal.aborted) {
+        console.error(e);
+        setError(e.message || 'An unknown error occurred while exporting the video.');
+      }
+    } finally {
+      videoAbortRef.current = null;
+      setVideoProgress(null);
+    }
+  };
+
+  const [screenshot, setScreenshot] = useState<ScreenshotSettings>({ scale: 2, transparent: false });
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  const handleCaptureScreenshot = async () => {
+    const viewer = viewerRef.current;
+    const pose = viewer?.getCameraPose();
+    if (!viewer || !pose) return;
+    const viewport = viewer.getViewportSize();
+    const width = Math.round(viewport.width * screenshot.scale);
+    const height = Math.round(viewport.height * screenshot.scale);
+    const names = models.filter(m => m.visible && m.plyData).map(m => m.name);
+    setIsCapturing(true);
+    setError(null);
+    try {
+      // Let the button show its busy state before the render blocks the page
+      await new Promise(requestAnimationFrame);
+      const canvas = viewer.renderOffscreen(pose, width, height, { transparent: screenshot.transparent });
+      const png = addPngText(await canvasToPng(canvas), {
+        Title: names.join(', '),
+        Software: 'Gaussian Splat Viewer',
+        Camera: JSON.stringify({ position: pose.position.toArray(), target: pose.target.toArray(), fov: pose.fov }),
+      });
+      const baseName = names.length === 1 ? names[0].replace(/\.[^.]+$/, '') : 'scene';
+      downloadBlob(new Blob([png], { type: 'image/png' }), `${baseName}_${width}x${height}.png`);
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'An unknown error occurred while capturing the screenshot.');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  // Camera of an opened view, held until its models have loaded, since framing a new model
+  // moves the camera
+  const [pendingCamera, setPendingCamera] = useState<CameraPose | null>(null);
+  const drawnModelCount = models.filter(m => m.plyData).length;
+
+  useEffect(() => {
+    if (!pendingCamera) return;
+    viewerRef.current?.setCameraPose(pendingCamera);
+    if (pendingModels.length === 0) setPendingCamera(null);
+  }, [pendingCamera, drawnModelCount, pendingModels.length]);
+
+  const handleCameraInteraction = useCallback(() => {
+    playback.pause();
+    setPendingCamera(null);
+  }, [playback.pause]);
+
+  // Everything App holds besides these is tool, export or performance state
+  const currentViewSettings = (): ViewSettings => ({
+    camera: viewerRef.current?.getCameraPose() ?? null,
+    navigation,
+    appearance,
+    helpers,
+    quality,
+    colormap,
+    filters,
+    clipping,
+    models,
+    bookmarks,
+    cameraPath,
+  });
+
+  const currentViewState = () => serializeViewState(currentViewSettings());
+
+  // Development builds check that a saved view restores every setting, so that a setting without
+  // a place in the format is noticed; production builds leave the check out
+  useEffect(() => {
+    if (process.env.NODE_ENV === 'production') return;
+    try {
+      const unsaved = unsavedViewSettings(currentViewSettings());
+      if (unsaved.length > 0) console.error(`Saved views do not restore ${unsaved.join(', ')}.`);
+    } catch (e) {
+      console.error('Saved views cannot be opened again:', e);
+    }
+  }, [navigation, appearance, helpers, quality, colormap, filters, clipping, models, bookmarks, cameraPath]);
+
+  const applyViewState = (state: ViewState) => {
+    playback.pause();
+    const settings = viewSettingsFromState(state);
+    if (settings.navigation) setNavigation(settings.navigation);
+    setAppearance(settings.appearance);
+    setHelpers(settings.helpers);
+    setQuality(settings.quality);
+    setColormap(settings.colormap);
+    setUncheckedColormapField(settings.colormap.field);
+    setFilters(settings.filters);
+    setClipping(settings.clipping);
+    setBookmarks(settings.bookmarks);
+    setCameraPath(settings.cameraPath);
+
+    // Entries apply to loaded models with the same file name; the rest wait for their files
+    const claimed = new Set<string>();
+    const unmatched: SerializedModel[] = [];
+    for (const entry of state.models) {
+      const model = models.find(m => m.name === entry.file && m.plyData && !m.isLoading && !claimed.has(m.id));
+      if (!model) {
+        unmatched.push(entry);
+        continue;
+      }
+      claimed.add(model.id);
+      setModels(ms => updateSceneModel(ms, model.id, modelSettingsFromState(entry, model.splatDataAvailable)));
+    }
+    updatePendingModels(unmatched);
+
+    const { camera } = settings;
+    if (camera) viewerRef.current?.setCameraPose(camera);
+    setPendingCamera(camera);
+  };
+
+  // A view may color by a file property, which can only be checked once its models have loaded
+  const [uncheckedColormapField, setUncheckedColormapField] = useState<ScalarField | null>(null);
+  const modelsLoading = models.some(m => m.isLoading);
+
+  useEffect(() => {
+    if (!uncheckedColormapField || pendingModels.length > 0 || modelsLoading) return;
+    setUncheckedColormapField(null);
+    const property = scalarFieldProperty(uncheckedColormapField);
+    if (!property || propertyNames.includes(property)) return;
+    setError(`The view colors by the property "${property}", which none of the loaded files has. Elevation is shown instead.`);
+    setColormap(c => (c.field === uncheckedColormapField ? { ...c, field: 'y', range: null } : c));
+  }, [uncheckedColormapField, pendingModels.length, modelsLoading, propertyNames]);
+
+  // Links open with the view in the hash; hash changes load the new view
+  const applyViewStateRef = useRef(applyViewState);
+  applyViewStateRef.current = applyViewState;
+
+  useEffect(() => {
+    const applyHash = () => {
+      try {
+        const state = decodeViewStateHash(window.location.hash);
+        if (state) applyViewStateRef.current(state);
+      } catch (e: any) {
+        setError(e.message);
+      }
+    };
+    applyHash();
+    window.addEventListener('hashchange', applyHash);
+    return () => window.removeEventListener('hashchange', applyHash);
+  }, []);
+
+  const handleSaveProject = () => {
+    const json = JSON.stringify(currentViewState(), null, 2);
+    const baseName = activeModel ? activeModel.name.replace(/\.[^.]+$/, '') : 'view';
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${baseName}_project.json`);
+  };
+
+  const handleOpenProject = async (file: File) => {
+    setError(null);
+    try {
+      applyViewState(parseViewStateJson(await file.text()));
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'An unknown error occurred while opening the project.');
+    }
+  };
+
+  const handleUpdateAnnotation = (modelId: string, id: string, changes: Partial<Annotation>) => {
+    setModels(ms => ms.map(m => (m.id === modelId ? { ...m, annotations: m.annotations.map(a => (a.id === id ? { ...a, ...changes } : a)) } : m)));
+  };
+
+  const handleRemoveAnnotation = (modelId: string, id: string) => {
+    setModels(ms => ms.map(m => (m.id === modelId ? { ...m, annotations: m.annotations.filter(a => a.id !== id) } : m)));
+    setAnnotations(a => (a.selectedId === id ? { ...a, selectedId: null } : a));
+  };
+
+  const handleGoToAnnotation = useCallback((modelId: string, id: string) => {
+    const model = models.find(m => m.id === modelId);
+    const annotation = model?.annotations.find(a => a.id === id);
+    const from = viewerRef.current?.getCameraPose();
+    if (!model || !annotation) return;
+    setActiveModelId(modelId);
+    setAnnotations(a => ({ ...a, selectedId: id }));
+    if (!from) return;
+    const point = annotationWorldPosition(annotation, model);
+    const bounds = modelWorldBounds(model);
+    const distance = from.position.distanceTo(point);
+    const viewDistance = bounds ? bounds.getSize(new THREE.Vector3()).length() * ANNOTATION_VIEW_DISTANCE : distance;
+    // Approach from the current direction, without backing away when already close
+    viewerRef.current?.flyTo(focusCameraPose(from, point, distance > 0 ? Math.min(1, viewDistance / distance) : 1));
+  }, [models]);
+
+  const handleExportAnnotations = () => {
+    if (!activeModel) return;
+    const json = JSON.stringify(serializeAnnotations(activeModel), null, 2);
+    const baseName = activeModel.name.replace(/\.[^.]+$/, '');
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${baseName}.annotations.json`);
+  };
+
+  const handleImportAnnotations = async (file: File) => {
+    if (!activeModel) return;
+    setError(null);
+    try {
+      const imported = parseAnnotationsJson(await file.text(), activeModel.plyData?.offset);
+      setModels(ms => updateSceneModel(ms, activeModel.id, { annotations: [...activeModel.annotations, ...imported] }));
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'An unknown error occurred while importing the annotations.');
+    }
+  };
+
+  const handleClipPlaneChange = useCallback((id: string, changes: Partial<ClipPlane>) => {
+    setClipping(c => updateClipPlane(c, id, changes));
+  }, []);
+
+  /** Flies to a standard view of the active model, or of the whole scene when no model is active. */
+  const handleViewPreset = useCallback((view: ViewPreset) => {
+    const bounds = (activeModel && modelWorldBounds(activeModel)) || sceneWorldBounds(models);
+    const from = viewerRef.current?.getCameraPose();
+    if (!bounds || !from) return;
+    viewerRef.current?.flyTo(presetViewPose(bounds, VIEW_PRESET_DIRECTIONS[view], from.fov));
+  }, [activeModel, models]);
+
+  const handleProjectionChange = useCallback((projection: CameraProjection) => {
+    setNavigation(n => ({ ...n, projection }));
+  }, []);
+
+  /** Looks at the scene along a standard view with an orthographic camera, or returns to the perspective camera. */
+  const handleSectionView = (view: ViewPreset | 'perspective') => {
+    handleProjectionChange(view === 'perspective' ? 'perspective' : 'orthographic');
+    if (view !== 'perspective') handleViewPreset(view);
+  };
+
+  /**
+   * Downloads the points left by the crop, the filters and the clipping planes, in the original
+   * coordinates of each model's file.
+   */
+  const handleExportSlice = (format: 'csv' | 'ply') => {
+    const shown = models.filter(m => m.plyData && m.visible);
+    const points = collectSlicePoints(shown.map(model => {
+      const data = model.plyData!;
+      const isShown = shownPointFilter(model);
+      const passes = createSplatFilterTester(data, filters, model.transformations.scale, outliers.scores.get(data));
+      return { data, matrix: worldToFileMatrix(model).multiply(modelMatrix(model)), include: (i: number) => isShown(i) && passes(i) };
+    }));
+    if (points.count === 0) {
+      setError('No points are shown to export.');
+      return;
+    }
+    setError(null);
+    const baseName = shown.length === 1 ? shown[0].name.replace(/\.[^.]+$/, '') : 'scene';
+    if (format === 'csv') {
+      downloadBlob(new Blob([writeSliceCsv(points)], { type: 'text/csv' }), `${baseName}_slice.csv`);
+    } else {
+      downloadBlob(new Blob([writeSlicePly(points)], { type: 'application/octet-stream' }), `${baseName}_slice.ply`);
+    }
+  };
+
+  const handleCopyShareLink = async () => {
+    // Replacing the entry does not fire hashchange, so the view is not applied again
+    window.history.replaceState(null, '', `#${encodeViewStateHash(currentViewState())}`);
+    await navigator.clipboard.writeText(window.location.href);
+  };
+
+  const hasData = models.some(m => m.plyData);
+  const loadingModels = models.filter(m => m.isLoading);
+  const loadingProgress = loadingModels.length > 0
+    ? loadingModels.reduce((sum, m) => sum + m.loadingProgress, 0) / loadingModels.length
+    : 0;
+
   return (
     <div className="w-screen h-screen flex bg-gray-900 overflow-hidden">
-      {isLoading && (
-        <div className="absolute inset-0 bg-black/70 flex flex-col justify-center items-center z-50">
-            <div className="w-16 h-16 border-4 border-t-cyan-500 border-gray-600 rounded-full animate-spin"></div>
-            <p className="mt-4 text-white text-lg">Loading Model...</p>
-            {loadingProgress > 0 && loadingProgress < 1 && (
-                <div className="w-64 mt-2 bg-gray-600 rounded-full h-2.5">
-                    <div className="bg-cyan-500 h-2.5 rounded-full" style={{ width: `${loadingProgress * 100}%` }}></div>
-                </div>
-            )}
-        </div>
-      )}
       <main className="flex-grow h-full relative">
-        <Viewer 
-          plyData={plyData} 
-          transformations={transformations}
-          crop={crop}
+        {isLoading && !hasData && (
+          <div className="absolute inset-0 bg-black/70 flex flex-col justify-center items-center z-50">
+              <div className="w-16 h-16 border-4 border-t-cyan-500 border-gray-600 rounded-full animate-spin"></div>
+              <p className="mt-4 text-white text-lg">Loading Model...</p>
+              {loadingProgress > 0 && loadingProgress < 1 && (
+                  <div className="w-64 mt-2 bg-gray-600 rounded-full h-2.5">
+                      <div className="bg-cyan-500 h-2.5 rounded-full" style={{ width: `${loadingProgress * 100}%` }}></div>
+                  </div>
+              )}
+          </div>
+        )}
+        {isLoading && hasData && (
+          // Clouds are already visible: keep the viewer usable and show progress on top
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-gray-900/80 px-4 py-2 rounded-md z-50 flex items-center space-x-3">
+              <span className="text-sm text-white">Loading {Math.round(loadingProgress * 100)}%</span>
+              <div className="w-48 bg-gray-600 rounded-full h-2">
+                  <div className="bg-cyan-500 h-2 rounded-full" style={{ width: `${loadingProgress * 100}%` }}></div>
+              </div>
+          </div>
+        )}
+        <Viewer
+          ref={viewerRef}
+          models={models}
+          activeModelId={activeModelId}
           appearance={appearance}
-          renderMode={renderMode}
           helpers={helpers}
           onFpsUpdate={handleFpsUpdate}
           onResetControls={resetControls}
+          onCropVolumeChange={handleCropVolumeChange}
+          pointStates={pointStates}
+          selection={selection}
+          onPointStatesChange={edits.push}
+          measure={measure}
+          registration={registration}
+          isPicking={!!measure.tool || registration.picking || annotations.placing}
+          onPickPoint={handlePickPoint}
+          onFinishMeasurement={handleFinishMeasurement}
+          annotations={annotations}
+          onSelectAnnotation={handleGoToAnnotation}
+          navigation={navigation}
+          onViewPreset={handleViewPreset}
+          onProjectionChange={handleProjectionChange}
+          lod={lod}
+          colormap={colormap}
+          colormapRange={colormapRange}
+          filters={filters}
+          quality={quality}
+          outlierScores={outliers.scores}
+          clipping={clipping}
+          onClipPlaneChange={handleClipPlaneChange}
+          onDrawnCountChange={handleDrawnCountChange}
+          onRenderWarning={setError}
+          onCameraInteraction={handleCameraInteraction}
         />
       </main>
       <aside className="flex-shrink-0 h-full">
-        <Controls 
+        <Controls
           onFileChange={handleFileChange}
-          isLoading={isLoading}
+          onExport={handleExport}
+          canExport={!!activeModel?.sourceFile}
+          isExporting={isExporting}
           error={error}
+          models={models}
+          activeModelId={activeModelId}
+          onSelectModel={setActiveModelId}
+          onToggleModelVisibility={handleToggleModelVisibility}
+          onRemoveModel={handleRemoveModel}
+          onAlignModel={handleAlignModel}
           transformations={transformations}
           setTransformations={setTransformations}
+          coordinateSystem={activeModel?.coordinateSystem ?? createDefaultCoordinateSystem()}
+          setCoordinateSystem={setCoordinateSystem}
+          modelOrigin={activeModel?.origin ?? new THREE.Vector3()}
           crop={crop}
           setCrop={setCrop}
           appearance={appearance}
           setAppearance={setAppearance}
           helpers={helpers}
           setHelpers={setHelpers}
-          renderMode={renderMode}
+          renderMode={activeModel?.renderMode ?? RenderMode.ORIGINAL}
           setRenderMode={setRenderMode}
-          splatDataAvailable={splatDataAvailable}
+          splatDataAvailable={activeModel?.splatDataAvailable ?? false}
+          maxShDegree={Math.max(0, ...models.map(m => m.plyData?.shDegree ?? 0))}
           stats={stats}
           dataBounds={plyData?.boundingBox || null}
+          keptPointCount={keptPointCount}
+          droppedCropVolumeCount={droppedCropVolumeCount}
+          selection={selection}
+          setSelection={setSelection}
+          pointStateCounts={pointStateCounts}
+          onSelectionCommand={handleSelectionCommand}
+          measure={measure}
+          setMeasure={setMeasure}
+          registration={registration}
+          setRegistration={setRegistration}
+          onAlignPairs={handleAlignPairs}
+          onRefineIcp={handleRefineIcp}
+          onCancelIcp={handleCancelIcp}
+          icpStatus={icpStatus}
+          bookmarks={bookmarks}
+          onSaveBookmark={handleSaveBookmark}
+          onGoToBookmark={handleGoToBookmark}
+          onRenameBookmark={handleRenameBookmark}
+          onRemoveBookmark={handleRemoveBookmark}
+          cameraPath={cameraPath}
+          setCameraPath={setCameraPath}
+          cameraPathDuration={pathDuration}
+          isPlayingPath={playback.isPlaying}
+          pathPlayhead={playback.time}
+          onPlayPath={playback.play}
+          onPausePath={playback.pause}
+          onSeekPath={playback.seek}
+          videoExport={videoExport}
+          setVideoExport={setVideoExport}
+          videoProgress={videoProgress}
+          onExportVideo={handleExportVideo}
+          onCancelVideoExport={() => videoAbortRef.current?.abort()}
+          screenshot={screenshot}
+          setScreenshot={setScreenshot}
+          viewportSize={viewerRef.current?.getViewportSize() ?? { width: 0, height: 0 }}
+          onCaptureScreenshot={handleCaptureScreenshot}
+          isCapturing={isCapturing}
+          navigation={navigation}
+          setNavigation={setNavigation}
+          onViewPreset={handleViewPreset}
+          lod={lod}
+          setLod={setLod}
+          colormap={colormap}
+          setColormap={setColormap}
+          propertyNames={propertyNames}
+          scalarHistogram={scalarHistogram}
+          colormapRange={colormapRange}
+          onFitPlane={handleFitPlane}
+          onRefreshHistogram={() => setHistogramVersion(v => v + 1)}
+          isColormapShown={isColormapShown}
+          filters={filters}
+          setFilters={setFilters}
+          quality={quality}
+          setQuality={setQuality}
+          filterCounts={filterCounts}
+          splatSizeRange={splatSizeRange}
+          outlierProgress={outliers.progress}
+          clipping={clipping}
+          setClipping={setClipping}
+          sceneBounds={sceneBounds}
+          onSectionView={handleSectionView}
+          onExportSlice={handleExportSlice}
+          annotations={annotations}
+          setAnnotations={setAnnotations}
+          onUpdateAnnotation={handleUpdateAnnotation}
+          onRemoveAnnotation={handleRemoveAnnotation}
+          onGoToAnnotation={handleGoToAnnotation}
+          onExportAnnotations={handleExportAnnotations}
+          onImportAnnotations={handleImportAnnotations}
+          onSaveProject={handleSaveProject}
+          onOpenProject={handleOpenProject}
+          onCopyShareLink={handleCopyShareLink}
+          pendingModelFiles={pendingModels.map(m => m.file)}
+          onDismissPendingModels={() => updatePendingModels([])}
+          onUndo={edits.undo}
+          onRedo={edits.redo}
+          canUndo={edits.canUndo}
+          canRedo={edits.canRedo}
         />
       </aside>
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,101 @@
+import React, { useRef } from 'react';
+import type { Annotation, AnnotationSettings, SceneModel } from '../types';
+
+interface AnnotationControlsProps {
+  annotations: AnnotationSettings;
+  setAnnotations: React.Dispatch<React.SetStateAction<AnnotationSettings>>;
+  /** Model whose annotations are listed, imported and exported. */
+  model: SceneModel | null;
+  onUpdate: (modelId: string, id: string, changes: Partial<Annotation>) => void;
+  onRemove: (modelId: string, id: string) => void;
+  onGoTo: (modelId: string, id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-xs font-semibold text-white transition-colors disabled:bg-gray-500 disabled:text-gray-300';
+const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+export const AnnotationControls: React.FC<AnnotationControlsProps> = ({ annotations, setAnnotations, model, onUpdate, onRemove, onGoTo, onExport, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const list = model?.annotations ?? [];
+  const selected = list.find(a => a.id === annotations.selectedId) ?? null;
+  const hasData = !!model?.plyData;
+
+  return (
+    <div className="space-y-4">
+      <button
+        className={`${buttonClass} w-full ${annotations.placing ? '!bg-cyan-600' : ''}`}
+        onClick={() => setAnnotations(a => ({ ...a, placing: !a.placing }))}
+        disabled={!hasData}
+      >
+        {annotations.placing ? 'Click a Point on the Model…' : 'Add Annotation'}
+      </button>
+
+      {model && list.length > 0 && (
+        <div className="space-y-1">
+          {list.map(annotation => (
+            <div
+              key={annotation.id}
+              className={`flex items-center space-x-2 rounded-md px-2 py-1 ${annotation.id === annotations.selectedId ? 'bg-gray-700' : 'bg-gray-800'}`}
+            >
+              <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ background: annotation.color }} />
+              <button onClick={() => onGoTo(model.id, annotation.id)} className="flex-grow min-w-0 text-left text-sm text-gray-200 truncate hover:text-cyan-400" title="Fly to this annotation">
+                {annotation.title || 'Untitled'}
+              </button>
+              <button onClick={() => onRemove(model.id, annotation.id)} className="text-gray-400 hover:text-red-400 text-sm px-1" title="Remove annotation">
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {model && selected && (
+        <div className="space-y-2">
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={selected.title}
+              onChange={e => onUpdate(model.id, selected.id, { title: e.target.value })}
+              className={inputClass}
+              placeholder="Title"
+            />
+            <input
+              type="color"
+              value={selected.color}
+              onChange={e => onUpdate(model.id, selected.id, { color: e.target.value })}
+              className="w-10 h-8 p-0 border-none rounded-md cursor-pointer flex-shrink-0"
+              title="Marker color"
+            />
+          </div>
+          <textarea
+            value={selected.description}
+            onChange={e => onUpdate(model.id, selected.id, { description: e.target.value })}
+            className={`${inputClass} resize-y`}
+            rows={3}
+            placeholder="Description"
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button className={buttonClass} onClick={() => fileInputRef.current?.click()} disabled={!hasData}>Import</button>
+        <button className={buttonClass} onClick={onExport} disabled={list.length === 0}>Export</button>
+      </div>
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={e => {
+          if (e.target.files && e.target.files[0]) onImport(e.target.files[0]);
+          e.target.value = '';
+        }}
+        accept=".json,application/json"
+        className="hidden"
+      />
+      <p className="text-xs text-gray-400">
+        Annotations are pinned to the active model and move with it. Click a label or list entry to fly to it; labels fade behind the cloud.
+      </p>
+    </div>
+  );
+};
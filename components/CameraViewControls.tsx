@@ -0,0 +1,131 @@
+import React from 'react';
+import type { CameraBookmark, CameraPathSettings } from '../types';
+import { Slider } from './ui/Slider';
+import { Toggle } from './ui/Toggle';
+
+interface CameraViewControlsProps {
+  bookmarks: CameraBookmark[];
+  onSaveBookmark: () => void;
+  onGoToBookmark: (id: string) => void;
+  onRenameBookmark: (id: string, name: string) => void;
+  onRemoveBookmark: (id: string) => void;
+  cameraPath: CameraPathSettings;
+  setCameraPath: React.Dispatch<React.SetStateAction<CameraPathSettings>>;
+  /** Length of the camera path in seconds. */
+  pathDuration: number;
+  isPlaying: boolean;
+  playhead: number;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (time: number) => void;
+  disabled: boolean;
+}
+
+const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-xs font-semibold text-white transition-colors disabled:bg-gray-500 disabled:text-gray-300';
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+export const CameraViewControls: React.FC<CameraViewControlsProps> = ({
+  bookmarks,
+  onSaveBookmark,
+  onGoToBookmark,
+  onRenameBookmark,
+  onRemoveBookmark,
+  cameraPath,
+  setCameraPath,
+  pathDuration,
+  isPlaying,
+  playhead,
+  onPlay,
+  onPause,
+  onSeek,
+  disabled,
+}) => {
+  const bookmarkName = (id: string) => bookmarks.find(b => b.id === id)?.name ?? '';
+
+  return (
+    <div className="space-y-4">
+      <button className={`${buttonClass} w-full`} onClick={onSaveBookmark} disabled={disabled}>Save Current View</button>
+
+      {bookmarks.length > 0 && (
+        <div className="space-y-1">
+          {bookmarks.map(bookmark => (
+            <div key={bookmark.id} className="flex items-center space-x-1 bg-gray-800 rounded-md px-2 py-1">
+              <input
+                type="text"
+                value={bookmark.name}
+                onChange={e => onRenameBookmark(bookmark.id, e.target.value)}
+                className="flex-grow min-w-0 bg-transparent text-sm text-gray-200 focus:outline-none focus:bg-gray-700 rounded px-1"
+              />
+              <button onClick={() => onGoToBookmark(bookmark.id)} className="text-xs text-gray-400 hover:text-cyan-400 px-1" title="Fly to this view">
+                Go
+              </button>
+              <button
+                onClick={() => setCameraPath(p => ({ ...p, keyframeIds: [...p.keyframeIds, bookmark.id] }))}
+                className="text-xs text-gray-400 hover:text-cyan-400 px-1"
+                title="Append this view to the camera path"
+              >
+                + Path
+              </button>
+              <button onClick={() => onRemoveBookmark(bookmark.id)} className="text-gray-400 hover:text-red-400 text-sm px-1" title="Remove view">
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-gray-300 block">Camera Path</label>
+        {cameraPath.keyframeIds.length === 0 ? (
+          <p className="text-xs text-gray-400">Add saved views to fly through them in order.</p>
+        ) : (
+          <ol className="space-y-1">
+            {cameraPath.keyframeIds.map((id, i) => (
+              <li key={i} className="flex items-center justify-between text-sm text-gray-300">
+                <span className="truncate">{i + 1}. {bookmarkName(id)}</span>
+                <button
+                  onClick={() => setCameraPath(p => ({ ...p, keyframeIds: p.keyframeIds.filter((_, j) => j !== i) }))}
+                  className="text-gray-400 hover:text-red-400 text-xs px-1"
+                  title="Remove keyframe"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <Slider
+        label="Seconds per Segment"
+        min={0.5}
+        max={20}
+        step={0.5}
+        value={cameraPath.segmentDuration}
+        onChange={e => setCameraPath(p => ({ ...p, segmentDuration: parseFloat(e.target.value) }))}
+        unit="s"
+      />
+      <Toggle label="Loop" checked={cameraPath.loop} onChange={() => setCameraPath(p => ({ ...p, loop: !p.loop }))} />
+
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <button className={buttonClass} onClick={isPlaying ? onPause : onPlay} disabled={pathDuration <= 0}>
+            {isPlaying ? 'Pause' : 'Play'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={pathDuration}
+            step={0.01}
+            value={Math.min(playhead, pathDuration)}
+            onChange={e => onSeek(parseFloat(e.target.value))}
+            disabled={pathDuration <= 0}
+            className="flex-grow h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+          />
+        </div>
+        <div className="text-xs text-gray-400 text-right font-mono">{formatTime(playhead)} / {formatTime(pathDuration)}</div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React from 'react';
+import * as THREE from 'three';
+import type { CameraProjection, ClipPlane, ClippingSettings } from '../types';
+import { Slider } from './ui/Slider';
+import { Toggle } from './ui/Toggle';
+import { MAX_CLIP_PLANES, clipPlaneNormal, createClipPlane, flippedClipRotation, updateClipPlane } from '../services/clipPlanes';
+import type { ViewPreset } from '../services/cameraPaths';
+
+interface ClippingControlsProps {
+  clipping: ClippingSettings;
+  setClipping: React.Dispatch<React.SetStateAction<ClippingSettings>>;
+  /** World bounds of the loaded models, or null when nothing is loaded. */
+  sceneBounds: THREE.Box3 | null;
+  projection: CameraProjection;
+  onSectionView: (view: ViewPreset | 'perspective') => void;
+  onExportSlice: (format: 'csv' | 'ply') => void;
+}
+
+const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-xs font-semibold text-white transition-colors disabled:bg-gray-500 disabled:text-gray-300';
+
+const AXES = ['x', 'y', 'z'] as const;
+
+const SECTION_VIEWS: { view: ViewPreset; label: string }[] = [
+  { view: 'top', label: 'Top' },
+  { view: 'front', label: 'Front' },
+  { view: 'right', label: 'Side' },
+];
+
+/** Name of a plane from the world axis its normal is closest to. */
+const planeLabel = (plane: ClipPlane) => {
+  const n = clipPlaneNormal(plane);
+  const axis = AXES.reduce((best, a) => (Math.abs(n[a]) > Math.abs(n[best]) ? a : best), 'x');
+  return `${plane.slab ? 'Slab' : 'Cut'} ${axis.toUpperCase()}`;
+};
+
+export const ClippingControls: React.FC<ClippingControlsProps> = ({ clipping, setClipping, sceneBounds, projection, onSectionView, onExportSlice }) => {
+  const selected = clipping.planes.find(p => p.id === clipping.selectedPlaneId) ?? null;
+  const diagonal = sceneBounds ? Math.max(sceneBounds.getSize(new THREE.Vector3()).length(), 1e-3) : 1;
+  const sceneCenter = sceneBounds ? sceneBounds.getCenter(new THREE.Vector3()) : new THREE.Vector3();
+
+  const update = (id: string, changes: Partial<ClipPlane>) => setClipping(c => updateClipPlane(c, id, changes));
+
+  const addPlane = (axis: 'x' | 'y' | 'z') => {
+    const plane = createClipPlane(sceneBounds, axis);
+    setClipping(c => ({ ...c, planes: [...c.planes, plane], selectedPlaneId: plane.id }));
+  };
+
+  const removePlane = (id: string) => {
+    setClipping(c => {
+      const planes = c.planes.filter(p => p.id !== id);
+      const selectedPlaneId = c.selectedPlaneId === id ? (planes[0]?.id ?? null) : c.selectedPlaneId;
+      return { ...c, planes, selectedPlaneId };
+    });
+  };
+
+  // Position of the selected plane along its normal, relative to the scene center
+  const normal = selected ? clipPlaneNormal(selected) : null;
+  const offset = selected && normal ? normal.dot(selected.center.clone().sub(sceneCenter)) : 0;
+
+  return (
+    <div className="space-y-4">
+      <Toggle label="Enable Clipping" checked={clipping.enabled} onChange={() => setClipping(c => ({ ...c, enabled: !c.enabled }))} />
+      {sceneBounds && clipping.enabled && (
+        <>
+          <div className="space-y-2">
+            {clipping.planes.map(plane => (
+              <div
+                key={plane.id}
+                onClick={() => setClipping(c => ({ ...c, selectedPlaneId: plane.id }))}
+                className={`flex items-center space-x-2 p-2 rounded-md cursor-pointer ${plane.id === clipping.selectedPlaneId ? 'bg-gray-700' : 'bg-gray-800 hover:bg-gray-700/60'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={plane.enabled}
+                  onClick={e => e.stopPropagation()}
+                  onChange={() => update(plane.id, { enabled: !plane.enabled })}
+                  className="accent-cyan-500"
+                />
+                <span className={`w-2 h-2 rounded-full ${plane.slab ? 'bg-amber-400' : 'bg-cyan-400'}`} />
+                <span className="flex-grow text-sm">{planeLabel(plane)}</span>
+                <button
+                  onClick={e => { e.stopPropagation(); removePlane(plane.id); }}
+                  className="text-gray-400 hover:text-red-400 text-sm px-1"
+                  title="Remove plane"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {AXES.map(axis => (
+              <button key={axis} onClick={() => addPlane(axis)} disabled={clipping.planes.length >= MAX_CLIP_PLANES} className={buttonClass}>
+                + Plane {axis.toUpperCase()}
+              </button>
+            ))}
+          </div>
+
+          {selected && normal && (
+            <div className="space-y-4 border-t border-gray-700 pt-3">
+              <Slider
+                label="Position"
+                min={-diagonal / 2}
+                max={diagonal / 2}
+                step={diagonal / 1000}
+                value={offset}
+                onChange={e => update(selected.id, { center: selected.center.clone().addScaledVector(normal, +e.target.value - offset) })}
+              />
+              <Toggle label="Slab" checked={selected.slab} onChange={() => update(selected.id, { slab: !selected.slab })} />
+              {selected.slab ? (
+                <Slider
+                  label="Thickness"
+                  min={0.1}
+                  max={20}
+                  step={0.1}
+                  value={selected.thickness / diagonal * 100}
+                  onChange={e => update(selected.id, { thickness: +e.target.value / 100 * diagonal })}
+                  unit="% of scene"
+                />
+              ) : (
+                <button className={`${buttonClass} w-full`} onClick={() => update(selected.id, { rotation: flippedClipRotation(selected) })}>
+                  Flip Side
+                </button>
+              )}
+              <p className="text-xs text-gray-400">
+                {selected.slab
+                  ? `Keeps a ${Number(selected.thickness.toPrecision(3))} unit thick slice around the plane.`
+                  : 'Removes the points on the side the plane faces. Drag the gizmo to move or rotate it.'}
+              </p>
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-gray-300 block">Section View</label>
+        <div className="grid grid-cols-4 gap-1">
+          {SECTION_VIEWS.map(({ view, label }) => (
+            <button key={view} onClick={() => onSectionView(view)} disabled={!sceneBounds} className={buttonClass}>
+              {label}
+            </button>
+          ))}
+          <button
+            onClick={() => onSectionView('perspective')}
+            disabled={projection === 'perspective'}
+            className={buttonClass}
+            title="Return to the perspective camera"
+          >
+            3D
+          </button>
+        </div>
+        <p className="text-xs text-gray-400">Top, front and side views use an orthographic camera, for measured drawings.</p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-gray-300 block">Export Shown Points</label>
+        <div className="grid grid-cols-2 gap-2">
+          <button className={buttonClass} onClick={() => onExportSlice('csv')} disabled={!sceneBounds}>CSV</button>
+          <button className={buttonClass} onClick={() => onExportSlice('ply')} disabled={!sceneBounds}>PLY</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React from 'react';
+import * as THREE from 'three';
+import type { ColormapName, ColormapSettings, ScalarField } from '../types';
+import { COLORMAPS, colormapCss, colormapGradient } from '../services/colormaps';
+import { BUILT_IN_SCALAR_FIELDS, propertyScalarField } from '../services/scalarFields';
+import type { ScalarHistogram } from '../services/scalarFields';
+
+interface ColormapControlsProps {
+  colormap: ColormapSettings;
+  setColormap: React.Dispatch<React.SetStateAction<ColormapSettings>>;
+  /** Scalar properties found in the loaded files. */
+  propertyNames: string[];
+  /** Distribution of the field over the visible models, or null while there is no data. */
+  histogram: ScalarHistogram | null;
+  /** Values at the ends of the colormap. */
+  range: [number, number];
+  /** Fits the distance plane to the visible models. */
+  onFitPlane: () => void;
+  /** Recomputes the histogram, for fields that change with the view. */
+  onRefreshHistogram: () => void;
+  /** Whether any model is drawn in colormap mode. */
+  isColormapShown: boolean;
+}
+
+const selectClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500';
+const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500';
+const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-xs font-semibold text-white transition-colors disabled:bg-gray-500 disabled:text-gray-300';
+
+const formatValue = (value: number) =>
+  value === 0 || (Math.abs(value) >= 0.01 && Math.abs(value) < 1e8) ? value.toFixed(2) : value.toExponential(2);
+
+export const ColormapControls: React.FC<ColormapControlsProps> = ({
+  colormap,
+  setColormap,
+  propertyNames,
+  histogram,
+  range,
+  onFitPlane,
+  onRefreshHistogram,
+  isColormapShown,
+}) => {
+  const [low, high] = range;
+  const span = high - low;
+  const maxCount = histogram ? Math.max(1, ...histogram.counts) : 1;
+  // Auto ranges are rounded for display; typed values are shown as entered
+  const shown = (value: number) => (colormap.range ? value : Number(value.toPrecision(4)));
+
+  const setBound = (index: 0 | 1, text: string) => {
+    const value = parseFloat(text);
+    if (!Number.isFinite(value)) return;
+    setColormap(c => {
+      const next = [...(c.range ?? range)] as [number, number];
+      next[index] = value;
+      return { ...c, range: next };
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {!isColormapShown && (
+        <p className="text-xs text-gray-400">Set a model's render mode to Scalar Field to see these colors.</p>
+      )}
+      <div>
+        <label className="text-sm font-medium text-gray-300 mb-1 block">Field</label>
+        <select
+          value={colormap.field}
+          // A new field has its own value range
+          onChange={e => setColormap(c => ({ ...c, field: e.target.value as ScalarField, range: null }))}
+          className={selectClass}
+        >
+          {BUILT_IN_SCALAR_FIELDS.map(({ field, label }) => (
+            <option key={field} value={field}>{label}</option>
+          ))}
+          {propertyNames.length > 0 && (
+            <optgroup label="File Properties">
+              {propertyNames.map(name => (
+                <option key={name} value={propertyScalarField(name)}>{name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </div>
+
+      {colormap.field === 'planeDistance' && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-400">
+            Signed distance to the plane with normal ({colormap.plane.normal.toArray().map(v => v.toFixed(2)).join(', ')})
+            {' '}at {formatValue(-colormap.plane.constant)} from the origin.
+          </p>
+          <div className="grid grid-cols-2 gap-1">
+            <button onClick={onFitPlane} className={buttonClass} title="Least-squares plane through the visible points">Fit to Visible</button>
+            <button
+              onClick={() => setColormap(c => ({ ...c, plane: new THREE.Plane(new THREE.Vector3(0, 1, 0), 0), range: null }))}
+              className={buttonClass}
+            >
+              Ground (Y = 0)
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label className="text-sm font-medium text-gray-300 mb-1 block">Colormap</label>
+        <select
+          value={colormap.colormap}
+          onChange={e => setColormap(c => ({ ...c, colormap: e.target.value as ColormapName }))}
+          className={selectClass}
+        >
+          {(Object.keys(COLORMAPS) as ColormapName[]).map(name => (
+            <option key={name} value={name}>{COLORMAPS[name].label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-1">
+          <label className="text-sm font-medium text-gray-300">Range</label>
+          <div className="flex space-x-1">
+            {colormap.field === 'cameraDistance' && (
+              <button onClick={onRefreshHistogram} className={buttonClass} title="Measure the distances from the current view">Update</button>
+            )}
+            <button onClick={() => setColormap(c => ({ ...c, range: null }))} className={buttonClass} disabled={!colormap.range} title="Fit the range to the data">
+              Auto
+            </button>
+          </div>
+        </div>
+        {histogram && (
+          <div className="flex items-end h-16 space-x-px mb-1" title={`${histogram.counts.reduce((a, b) => a + b, 0)} sampled points`}>
+            {histogram.counts.map((count, i) => {
+              const center = histogram.min + (histogram.max - histogram.min) * (i + 0.5) / histogram.counts.length;
+              const t = span !== 0 ? (center - low) / span : 0.5;
+              return (
+                <div
+                  key={i}
+                  className="flex-1"
+                  style={{ height: `${Math.max(count > 0 ? 2 : 0, (count / maxCount) * 100)}%`, background: colormapCss(colormap.colormap, t) }}
+                />
+              );
+            })}
+          </div>
+        )}
+        {histogram && (
+          <div className="flex justify-between text-xs text-gray-500 mb-2">
+            <span>{formatValue(histogram.min)}</span>
+            <span>data</span>
+            <span>{formatValue(histogram.max)}</span>
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          <input type="number" step="any" value={shown(low)} onChange={e => setBound(0, e.target.value)} className={inputClass} title="Value at the start of the colormap" />
+          <input type="number" step="any" value={shown(high)} onChange={e => setBound(1, e.target.value)} className={inputClass} title="Value at the end of the colormap" />
+        </div>
+      </div>
+
+      <div>
+        <div className="h-3 rounded" style={{ background: colormapGradient(colormap.colormap) }} />
+        <div className="flex justify-between text-xs text-gray-400 mt-1">
+          <span>{formatValue(low)}</span>
+          <span>{formatValue((low + high) / 2)}</span>
+          <span>{formatValue(high)}</span>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">Values outside the range take the end colors.</p>
+      </div>
+    </div>
+  );
+};
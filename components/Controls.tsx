@@ -1,15 +1,52 @@
 
 import React, { useState, useRef } from 'react';
 import * as THREE from 'three';
-import { Transformations, CropSettings, AppearanceSettings, RenderMode, PerformanceStats, HelperSettings } from '../types';
+import { SceneModel, Annotation, AnnotationSettings, Transformations, CoordinateSystem, CropSettings, AppearanceSettings, RenderMode, PerformanceStats, HelperSettings, SelectionSettings, MeasurementSettings, RegistrationSettings, CameraBookmark, CameraPathSettings, NavigationSettings, LodSettings, ColormapSettings, SplatFilterSettings, ClippingSettings, RenderQualitySettings, VideoExportSettings, ScreenshotSettings } from '../types';
+import type { PointStateCounts } from '../services/splatSelection';
 import { Slider } from './ui/Slider';
+import { Toggle } from './ui/Toggle';
+import { CropControls } from './CropControls';
+import { SelectionControls } from './SelectionControls';
+import type { SelectionCommand } from './SelectionControls';
+import { MeasurementControls } from './MeasurementControls';
+import { LayerList } from './LayerList';
+import { CameraViewControls } from './CameraViewControls';
+import { NavigationControls } from './NavigationControls';
+import { LodControls } from './LodControls';
+import { ColormapControls } from './ColormapControls';
+import type { ScalarHistogram } from '../services/scalarFields';
+import { FilterControls } from './FilterControls';
+import { QualityControls } from './QualityControls';
+import { AnnotationControls } from './AnnotationControls';
+import { ClippingControls } from './ClippingControls';
+import { CoordinateSystemControls } from './CoordinateSystemControls';
+import type { ViewPreset } from '../services/cameraPaths';
+import type { SplatFilterCounts } from '../services/splatFilters';
+import { VideoExportControls } from './VideoExportControls';
+import { ScreenshotControls } from './ScreenshotControls';
+import { ProjectControls } from './ProjectControls';
+import { RegistrationControls } from './RegistrationControls';
+import type { IcpStatus } from './RegistrationControls';
+import { SPLAT_FILE_ACCEPT } from '../services/splatFormats';
 
 interface ControlsProps {
   onFileChange: (file: File) => void;
-  isLoading: boolean;
+  onExport: () => void;
+  canExport: boolean;
+  isExporting: boolean;
   error: string | null;
+  models: SceneModel[];
+  activeModelId: string | null;
+  onSelectModel: (id: string) => void;
+  onToggleModelVisibility: (id: string) => void;
+  onRemoveModel: (id: string) => void;
+  onAlignModel: (id: string) => void;
   transformations: Transformations;
   setTransformations: React.Dispatch<React.SetStateAction<Transformations>>;
+  coordinateSystem: CoordinateSystem;
+  setCoordinateSystem: React.Dispatch<React.SetStateAction<CoordinateSystem>>;
+  /** Georeference origin of the active model, see `SceneModel.origin`. */
+  modelOrigin: THREE.Vector3;
   crop: CropSettings;
   setCrop: React.Dispatch<React.SetStateAction<CropSettings>>;
   appearance: AppearanceSettings;
@@ -19,8 +56,89 @@ interface ControlsProps {
   renderMode: RenderMode;
   setRenderMode: React.Dispatch<React.SetStateAction<RenderMode>>;
   splatDataAvailable: boolean;
+  maxShDegree: number;
   stats: PerformanceStats;
-  dataBounds: { min: THREE.Vector3; max: THREE.Vector3 } | null;
+  dataBounds: THREE.Box3 | null;
+  keptPointCount: number | null;
+  droppedCropVolumeCount: number;
+  selection: SelectionSettings;
+  setSelection: React.Dispatch<React.SetStateAction<SelectionSettings>>;
+  pointStateCounts: PointStateCounts | null;
+  onSelectionCommand: (command: SelectionCommand) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  measure: MeasurementSettings;
+  setMeasure: React.Dispatch<React.SetStateAction<MeasurementSettings>>;
+  registration: RegistrationSettings;
+  setRegistration: React.Dispatch<React.SetStateAction<RegistrationSettings>>;
+  onAlignPairs: () => void;
+  onRefineIcp: () => void;
+  onCancelIcp: () => void;
+  icpStatus: IcpStatus | null;
+  bookmarks: CameraBookmark[];
+  onSaveBookmark: () => void;
+  onGoToBookmark: (id: string) => void;
+  onRenameBookmark: (id: string, name: string) => void;
+  onRemoveBookmark: (id: string) => void;
+  cameraPath: CameraPathSettings;
+  setCameraPath: React.Dispatch<React.SetStateAction<CameraPathSettings>>;
+  cameraPathDuration: number;
+  isPlayingPath: boolean;
+  pathPlayhead: number;
+  onPlayPath: () => void;
+  onPausePath: () => void;
+  onSeekPath: (time: number) => void;
+  videoExport: VideoExportSettings;
+  setVideoExport: React.Dispatch<React.SetStateAction<VideoExportSettings>>;
+  videoProgress: { done: number; total: number } | null;
+  onExportVideo: () => void;
+  onCancelVideoExport: () => void;
+  screenshot: ScreenshotSettings;
+  setScreenshot: React.Dispatch<React.SetStateAction<ScreenshotSettings>>;
+  viewportSize: { width: number; height: number };
+  onCaptureScreenshot: () => void;
+  isCapturing: boolean;
+  navigation: NavigationSettings;
+  setNavigation: React.Dispatch<React.SetStateAction<NavigationSettings>>;
+  onViewPreset: (view: ViewPreset) => void;
+  lod: LodSettings;
+  setLod: React.Dispatch<React.SetStateAction<LodSettings>>;
+  colormap: ColormapSettings;
+  setColormap: React.Dispatch<React.SetStateAction<ColormapSettings>>;
+  propertyNames: string[];
+  scalarHistogram: ScalarHistogram | null;
+  colormapRange: [number, number];
+  onFitPlane: () => void;
+  onRefreshHistogram: () => void;
+  isColormapShown: boolean;
+  filters: SplatFilterSettings;
+  setFilters: React.Dispatch<React.SetStateAction<SplatFilterSettings>>;
+  quality: RenderQualitySettings;
+  setQuality: React.Dispatch<React.SetStateAction<RenderQualitySettings>>;
+  filterCounts: SplatFilterCounts | null;
+  splatSizeRange: [number, number] | null;
+  outlierProgress: number | null;
+  clipping: ClippingSettings;
+  setClipping: React.Dispatch<React.SetStateAction<ClippingSettings>>;
+  /** World bounds of the loaded models. */
+  sceneBounds: THREE.Box3 | null;
+  onSectionView: (view: ViewPreset | 'perspective') => void;
+  onExportSlice: (format: 'csv' | 'ply') => void;
+  annotations: AnnotationSettings;
+  setAnnotations: React.Dispatch<React.SetStateAction<AnnotationSettings>>;
+  onUpdateAnnotation: (modelId: string, id: string, changes: Partial<Annotation>) => void;
+  onRemoveAnnotation: (modelId: string, id: string) => void;
+  onGoToAnnotation: (modelId: string, id: string) => void;
+  onExportAnnotations: () => void;
+  onImportAnnotations: (file: File) => void;
+  onSaveProject: () => void;
+  onOpenProject: (file: File) => void;
+  onCopyShareLink: () => Promise<void>;
+  /** Files named by an opened view that have not been loaded yet. */
+  pendingModelFiles: string[];
+  onDismissPendingModels: () => void;
 }
 
 const ControlSection: React.FC<{ title: string; children: React.ReactNode; defaultOpen?: boolean }> = ({ title, children, defaultOpen = false }) => {
@@ -36,22 +154,23 @@ const ControlSection: React.FC<{ title: string; children: React.ReactNode; defau
   );
 };
 
-const Toggle: React.FC<{ label: string; checked: boolean; onChange: () => void; }> = ({ label, checked, onChange }) => (
-    <div className="flex items-center justify-between">
-        <label className="text-sm font-medium text-gray-300">{label}</label>
-        <button onClick={onChange} className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${checked ? 'bg-cyan-500' : 'bg-gray-600'}`}>
-            <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${checked ? 'translate-x-6' : 'translate-x-1'}`}/>
-        </button>
-    </div>
-);
-
-
 export const Controls: React.FC<ControlsProps> = ({
   onFileChange,
-  isLoading,
+  onExport,
+  canExport,
+  isExporting,
   error,
+  models,
+  activeModelId,
+  onSelectModel,
+  onToggleModelVisibility,
+  onRemoveModel,
+  onAlignModel,
   transformations,
   setTransformations,
+  coordinateSystem,
+  setCoordinateSystem,
+  modelOrigin,
   crop,
   setCrop,
   appearance,
@@ -61,8 +180,87 @@ export const Controls: React.FC<ControlsProps> = ({
   renderMode,
   setRenderMode,
   splatDataAvailable,
+  maxShDegree,
   stats,
-  dataBounds
+  dataBounds,
+  keptPointCount,
+  droppedCropVolumeCount,
+  selection,
+  setSelection,
+  pointStateCounts,
+  onSelectionCommand,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  measure,
+  setMeasure,
+  registration,
+  setRegistration,
+  onAlignPairs,
+  onRefineIcp,
+  onCancelIcp,
+  icpStatus,
+  bookmarks,
+  onSaveBookmark,
+  onGoToBookmark,
+  onRenameBookmark,
+  onRemoveBookmark,
+  cameraPath,
+  setCameraPath,
+  cameraPathDuration,
+  isPlayingPath,
+  pathPlayhead,
+  onPlayPath,
+  onPausePath,
+  onSeekPath,
+  videoExport,
+  setVideoExport,
+  videoProgress,
+  onExportVideo,
+  onCancelVideoExport,
+  screenshot,
+  setScreenshot,
+  viewportSize,
+  onCaptureScreenshot,
+  isCapturing,
+  navigation,
+  setNavigation,
+  onViewPreset,
+  lod,
+  setLod,
+  colormap,
+  setColormap,
+  propertyNames,
+  scalarHistogram,
+  colormapRange,
+  onFitPlane,
+  onRefreshHistogram,
+  isColormapShown,
+  filters,
+  setFilters,
+  quality,
+  setQuality,
+  filterCounts,
+  splatSizeRange,
+  outlierProgress,
+  clipping,
+  setClipping,
+  sceneBounds,
+  onSectionView,
+  onExportSlice,
+  annotations,
+  setAnnotations,
+  onUpdateAnnotation,
+  onRemoveAnnotation,
+  onGoToAnnotation,
+  onExportAnnotations,
+  onImportAnnotations,
+  onSaveProject,
+  onOpenProject,
+  onCopyShareLink,
+  pendingModelFiles,
+  onDismissPendingModels
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -74,6 +272,8 @@ export const Controls: React.FC<ControlsProps> = ({
     if (e.target.files && e.target.files[0]) {
       onFileChange(e.target.files[0]);
     }
+    // Allow picking the same file again
+    e.target.value = '';
   };
 
   return (
@@ -83,6 +283,11 @@ export const Controls: React.FC<ControlsProps> = ({
         <div className="flex justify-between items-center bg-gray-800 p-2 rounded-md mb-4">
             <div className="text-sm">FPS: <span className="font-mono text-cyan-400">{stats.fps}</span></div>
             <div className="text-sm">Points: <span className="font-mono text-cyan-400">{(stats.pointCount / 1e6).toFixed(2)}M</span></div>
+            {stats.drawnCount !== null && (
+              <div className="text-sm" title="Splats drawn in the last frame / splat budget">
+                Drawn: <span className="font-mono text-cyan-400">{(stats.drawnCount / 1e6).toFixed(2)}M / {(lod.splatBudget / 1e6).toFixed(1)}M</span>
+              </div>
+            )}
         </div>
       </div>
       
@@ -91,16 +296,44 @@ export const Controls: React.FC<ControlsProps> = ({
           <div className="space-y-3">
              <button
               onClick={handleFileButtonClick}
-              className="w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md font-semibold text-white transition-colors disabled:bg-gray-500"
-              disabled={isLoading}
+              className="w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md font-semibold text-white transition-colors"
             >
-              Load from Disk
+              {models.length > 0 ? 'Add Model from Disk' : 'Load from Disk'}
             </button>
-            <input type="file" ref={fileInputRef} onChange={handleLocalFileChange} className="hidden" accept=".ply" />
+            <input type="file" ref={fileInputRef} onChange={handleLocalFileChange} className="hidden" accept={SPLAT_FILE_ACCEPT} />
+            {pendingModelFiles.length > 0 && (
+              <div className="bg-gray-800 rounded-md p-2 space-y-1">
+                <div className="text-xs text-gray-300">Load these files to restore the saved view:</div>
+                <ul className="text-xs font-mono text-cyan-400">
+                  {pendingModelFiles.map((file, i) => <li key={i} className="truncate" title={file}>{file}</li>)}
+                </ul>
+                <button className="text-xs text-gray-400 hover:text-red-400" onClick={onDismissPendingModels}>Dismiss</button>
+              </div>
+            )}
             {error && <div className="text-red-400 text-sm p-2 bg-red-900/50 rounded">{error}</div>}
           </div>
         </ControlSection>
 
+        <ControlSection title="Project">
+          <ProjectControls onSaveProject={onSaveProject} onOpenProject={onOpenProject} onCopyLink={onCopyShareLink} />
+        </ControlSection>
+
+        <ControlSection title="Layers" defaultOpen={true}>
+          <div className="space-y-3">
+            <LayerList
+              models={models}
+              activeModelId={activeModelId}
+              onSelectModel={onSelectModel}
+              onToggleModelVisibility={onToggleModelVisibility}
+              onRemoveModel={onRemoveModel}
+              onAlignModel={onAlignModel}
+            />
+            {models.length > 1 && (
+              <p className="text-xs text-gray-400">Render mode, transformations, cropping and export apply to the highlighted model.</p>
+            )}
+          </div>
+        </ControlSection>
+
         <ControlSection title="Appearance" defaultOpen={true}>
           <div className="space-y-4">
             {renderMode === RenderMode.SPLAT && splatDataAvailable ? (
@@ -117,17 +350,48 @@ export const Controls: React.FC<ControlsProps> = ({
                 className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
               >
                   <option value={0}>Original Colors</option>
-                  <option value={1}>Elevation Colormap</option>
+                  <option value={1}>Scalar Field</option>
                   {splatDataAvailable && <option value={2}>Splat</option>}
               </select>
             </div>
+            {renderMode === RenderMode.SPLAT && maxShDegree > 0 && (
+              <div>
+                <label className="text-sm font-medium text-gray-300 mb-1 block">SH Degree</label>
+                <select
+                  value={Math.min(appearance.shDegree, maxShDegree)}
+                  onChange={e => setAppearance(s => ({ ...s, shDegree: Number(e.target.value) }))}
+                  className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                >
+                    {Array.from({ length: maxShDegree + 1 }, (_, degree) => (
+                      <option key={degree} value={degree}>{degree === 0 ? '0 (Diffuse only)' : degree}</option>
+                    ))}
+                </select>
+              </div>
+            )}
             <div>
               <label className="text-sm font-medium text-gray-300 mb-1 block">Background</label>
               <input type="color" value={appearance.backgroundColor} onChange={(e) => setAppearance(s => ({ ...s, backgroundColor: e.target.value }))} className="w-full h-8 p-0 border-none rounded-md cursor-pointer" />
             </div>
           </div>
         </ControlSection>
+
+        <ControlSection title="Rendering Quality">
+          <QualityControls quality={quality} setQuality={setQuality} />
+        </ControlSection>
         
+        <ControlSection title="Colormap">
+          <ColormapControls
+            colormap={colormap}
+            setColormap={setColormap}
+            propertyNames={propertyNames}
+            histogram={scalarHistogram}
+            range={colormapRange}
+            onFitPlane={onFitPlane}
+            onRefreshHistogram={onRefreshHistogram}
+            isColormapShown={isColormapShown}
+          />
+        </ControlSection>
+
         <ControlSection title="Helpers" defaultOpen={true}>
             <div className="space-y-3">
                 <Toggle label="Show Axes" checked={helpers.showAxes} onChange={() => setHelpers(h => ({...h, showAxes: !h.showAxes}))} />
@@ -135,8 +399,41 @@ export const Controls: React.FC<ControlsProps> = ({
             </div>
         </ControlSection>
 
+        <ControlSection title="Level of Detail">
+          <LodControls lod={lod} setLod={setLod} drawnCount={stats.drawnCount} />
+        </ControlSection>
+
+        <ControlSection title="Navigation">
+          <NavigationControls navigation={navigation} setNavigation={setNavigation} onViewPreset={onViewPreset} disabled={!models.some(m => m.plyData)} />
+        </ControlSection>
+
+        <ControlSection title="Camera Views">
+            <CameraViewControls
+              bookmarks={bookmarks}
+              onSaveBookmark={onSaveBookmark}
+              onGoToBookmark={onGoToBookmark}
+              onRenameBookmark={onRenameBookmark}
+              onRemoveBookmark={onRemoveBookmark}
+              cameraPath={cameraPath}
+              setCameraPath={setCameraPath}
+              pathDuration={cameraPathDuration}
+              isPlaying={isPlayingPath}
+              playhead={pathPlayhead}
+              onPlay={onPlayPath}
+              onPause={onPausePath}
+              onSeek={onSeekPath}
+              disabled={!models.some(m => m.plyData)}
+            />
+        </ControlSection>
+
         <ControlSection title="Transform">
             <div className="space-y-4">
+                <CoordinateSystemControls
+                  coordinateSystem={coordinateSystem}
+                  setCoordinateSystem={setCoordinateSystem}
+                  origin={modelOrigin}
+                  disabled={!models.some(m => m.id === activeModelId && m.plyData)}
+                />
                 <Slider label="Scale" min={0.1} max={5} step={0.01} value={transformations.scale} onChange={e => setTransformations(t => ({...t, scale: +e.target.value}))} />
                 <Slider label="Rotate X" min={-180} max={180} step={1} unit="°" value={THREE.MathUtils.radToDeg(transformations.rotation.x)} onChange={e => setTransformations(t => ({...t, rotation: t.rotation.clone().set(THREE.MathUtils.degToRad(+e.target.value), t.rotation.y, t.rotation.z)}))} />
                 <Slider label="Rotate Y" min={-180} max={180} step={1} unit="°" value={THREE.MathUtils.radToDeg(transformations.rotation.y)} onChange={e => setTransformations(t => ({...t, rotation: t.rotation.clone().set(t.rotation.x, THREE.MathUtils.degToRad(+e.target.value), t.rotation.z)}))} />
@@ -147,22 +444,105 @@ export const Controls: React.FC<ControlsProps> = ({
             </div>
         </ControlSection>
 
+        <ControlSection title="Registration">
+            <RegistrationControls
+              registration={registration}
+              setRegistration={setRegistration}
+              models={models}
+              onAlignPairs={onAlignPairs}
+              onRefineIcp={onRefineIcp}
+              onCancelIcp={onCancelIcp}
+              icpStatus={icpStatus}
+            />
+        </ControlSection>
+
         <ControlSection title="Cropping">
-            <div className="space-y-4">
-                <Toggle label="Enable Cropping" checked={crop.enabled} onChange={() => setCrop(c => ({...c, enabled: !c.enabled}))} />
-                {dataBounds && crop.enabled && (
-                    <>
-                        <Slider label="X Min" min={dataBounds.min.x} max={dataBounds.max.x} step={0.01} value={crop.min.x} onChange={e => setCrop(c => ({...c, min: c.min.clone().setX(+e.target.value)}))} />
-                        <Slider label="X Max" min={dataBounds.min.x} max={dataBounds.max.x} step={0.01} value={crop.max.x} onChange={e => setCrop(c => ({...c, max: c.max.clone().setX(+e.target.value)}))} />
-                        <Slider label="Y Min" min={dataBounds.min.y} max={dataBounds.max.y} step={0.01} value={crop.min.y} onChange={e => setCrop(c => ({...c, min: c.min.clone().setY(+e.target.value)}))} />
-                        <Slider label="Y Max" min={dataBounds.min.y} max={dataBounds.max.y} step={0.01} value={crop.max.y} onChange={e => setCrop(c => ({...c, max: c.max.clone().setY(+e.target.value)}))} />
-                        <Slider label="Z Min" min={dataBounds.min.z} max={dataBounds.max.z} step={0.01} value={crop.min.z} onChange={e => setCrop(c => ({...c, min: c.min.clone().setZ(+e.target.value)}))} />
-                        <Slider label="Z Max" min={dataBounds.min.z} max={dataBounds.max.z} step={0.01} value={crop.max.z} onChange={e => setCrop(c => ({...c, max: c.max.clone().setZ(+e.target.value)}))} />
-                    </>
-                )}
+            <CropControls crop={crop} setCrop={setCrop} dataBounds={dataBounds} keptPointCount={keptPointCount} droppedVolumeCount={droppedCropVolumeCount} pointCount={stats.pointCount} />
+        </ControlSection>
+
+        <ControlSection title="Quality Filters">
+          <FilterControls filters={filters} setFilters={setFilters} counts={filterCounts} sizeRange={splatSizeRange} outlierProgress={outlierProgress} />
+        </ControlSection>
+
+        <ControlSection title="Clipping">
+          <ClippingControls
+            clipping={clipping}
+            setClipping={setClipping}
+            sceneBounds={sceneBounds}
+            projection={navigation.projection}
+            onSectionView={onSectionView}
+            onExportSlice={onExportSlice}
+          />
+        </ControlSection>
+
+        <ControlSection title="Selection">
+            <SelectionControls
+              selection={selection}
+              setSelection={setSelection}
+              counts={pointStateCounts}
+              onCommand={onSelectionCommand}
+              onUndo={onUndo}
+              onRedo={onRedo}
+              canUndo={canUndo}
+              canRedo={canRedo}
+            />
+        </ControlSection>
+
+        <ControlSection title="Measure">
+            <MeasurementControls measure={measure} setMeasure={setMeasure} disabled={!dataBounds} />
+        </ControlSection>
+
+        <ControlSection title="Annotations">
+          <AnnotationControls
+            annotations={annotations}
+            setAnnotations={setAnnotations}
+            model={models.find(m => m.id === activeModelId) ?? null}
+            onUpdate={onUpdateAnnotation}
+            onRemove={onRemoveAnnotation}
+            onGoTo={onGoToAnnotation}
+            onExport={onExportAnnotations}
+            onImport={onImportAnnotations}
+          />
+        </ControlSection>
+
+        <ControlSection title="Export">
+            <div className="space-y-3">
+                <p className="text-xs text-gray-400">
+                    Saves a 3DGS PLY with the current transform baked in{crop.enabled ? ', keeping only points that pass the crop volumes' : ''}. Deleted points are left out.
+                </p>
+                <button
+                  onClick={onExport}
+                  className="w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md font-semibold text-white transition-colors disabled:bg-gray-500"
+                  disabled={!canExport || isExporting}
+                >
+                  {isExporting ? 'Exporting...' : 'Export PLY'}
+                </button>
             </div>
         </ControlSection>
 
+        <ControlSection title="Screenshot">
+            <ScreenshotControls
+              settings={screenshot}
+              setSettings={setScreenshot}
+              viewportSize={viewportSize}
+              onCapture={onCaptureScreenshot}
+              isCapturing={isCapturing}
+              disabled={!models.some(m => m.plyData)}
+            />
+        </ControlSection>
+
+        <ControlSection title="Video Export">
+            <VideoExportControls
+              settings={videoExport}
+              setSettings={setVideoExport}
+              hasCameraPath={cameraPathDuration > 0}
+              progress={videoProgress}
+              onExport={onExportVideo}
+              onCancel={onCancelVideoExport}
+              disabled={!models.some(m => m.plyData)}
+            />
+        </ControlSection>
+
       </div>
     </div>
   );
@@ -0,0 +1,64 @@
+import React from 'react';
+import * as THREE from 'three';
+import type { CoordinateSystem, UpAxis } from '../types';
+
+interface CoordinateSystemControlsProps {
+  coordinateSystem: CoordinateSystem;
+  setCoordinateSystem: React.Dispatch<React.SetStateAction<CoordinateSystem>>;
+  /** Georeference origin of the model in file coordinates; zero when it was not recentered. */
+  origin: THREE.Vector3;
+  disabled: boolean;
+}
+
+const selectClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50';
+const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-xs font-semibold text-white transition-colors disabled:bg-gray-500 disabled:text-gray-300';
+
+const UP_AXES: { up: UpAxis; label: string }[] = [
+  { up: '+y', label: '+Y (Three.js, glTF)' },
+  { up: '-y', label: '-Y (COLMAP, OpenCV)' },
+  { up: '+z', label: '+Z (photogrammetry, GIS)' },
+  { up: '-z', label: '-Z' },
+  { up: '+x', label: '+X' },
+  { up: '-x', label: '-X' },
+];
+
+export const CoordinateSystemControls: React.FC<CoordinateSystemControlsProps> = ({ coordinateSystem, setCoordinateSystem, origin, disabled }) => (
+  <div className="space-y-3">
+    <div>
+      <label className="text-sm font-medium text-gray-300 mb-1 block">Up Axis</label>
+      <select
+        value={coordinateSystem.up}
+        onChange={e => setCoordinateSystem(c => ({ ...c, up: e.target.value as UpAxis }))}
+        disabled={disabled}
+        className={selectClass}
+      >
+        {UP_AXES.map(({ up, label }) => (
+          <option key={up} value={up}>{label}</option>
+        ))}
+      </select>
+    </div>
+    <div>
+      <label className="text-sm font-medium text-gray-300 mb-1 block">Handedness</label>
+      <div className="grid grid-cols-2 gap-2">
+        {(['right', 'left'] as const).map(handedness => (
+          <button
+            key={handedness}
+            onClick={() => setCoordinateSystem(c => ({ ...c, handedness }))}
+            disabled={disabled}
+            className={`${buttonClass} ${coordinateSystem.handedness === handedness ? '!bg-cyan-600' : ''}`}
+          >
+            {handedness === 'right' ? 'Right-handed' : 'Left-handed'}
+          </button>
+        ))}
+      </div>
+    </div>
+    <p className="text-xs text-gray-400">
+      The up axis drives elevation coloring, the grid and the standard views.
+    </p>
+    {origin.lengthSq() > 0 && (
+      <p className="text-xs text-gray-400">
+        Georeferenced: recentered by ({origin.toArray().join(', ')}). Scalar coloring and exports use the original coordinates.
+      </p>
+    )}
+  </div>
+);
@@ -0,0 +1,153 @@
+import React from 'react';
+import * as THREE from 'three';
+import { CropMode, CropShape } from '../types';
+import type { CropSettings, CropVolume } from '../types';
+import { Slider } from './ui/Slider';
+import { Toggle } from './ui/Toggle';
+import { CROP_SHAPE_NAMES, MAX_CROP_VOLUMES, createCropVolume, updateCropVolume } from '../services/cropVolumes';
+
+interface CropControlsProps {
+  crop: CropSettings;
+  setCrop: React.Dispatch<React.SetStateAction<CropSettings>>;
+  dataBounds: THREE.Box3 | null;
+  /** Points kept by the crop, or null while unknown. */
+  keptPointCount: number | null;
+  /** Enabled volumes of this crop left out because the scene's shared budget is used up. */
+  droppedVolumeCount: number;
+  pointCount: number;
+}
+
+const AXES = ['x', 'y', 'z'] as const;
+
+export const CropControls: React.FC<CropControlsProps> = ({ crop, setCrop, dataBounds, keptPointCount, droppedVolumeCount, pointCount }) => {
+  const selected = crop.volumes.find(v => v.id === crop.selectedVolumeId) ?? null;
+
+  const update = (id: string, changes: Partial<CropVolume>) => setCrop(c => updateCropVolume(c, id, changes));
+
+  const addVolume = (shape: CropShape) => {
+    if (!dataBounds) return;
+    const volume = createCropVolume(shape, dataBounds);
+    setCrop(c => ({ ...c, volumes: [...c.volumes, volume], selectedVolumeId: volume.id }));
+  };
+
+  const removeVolume = (id: string) => {
+    setCrop(c => {
+      const volumes = c.volumes.filter(v => v.id !== id);
+      const selectedVolumeId = c.selectedVolumeId === id ? (volumes[0]?.id ?? null) : c.selectedVolumeId;
+      return { ...c, volumes, selectedVolumeId };
+    });
+  };
+
+  const size = dataBounds ? dataBounds.getSize(new THREE.Vector3()) : new THREE.Vector3(1, 1, 1);
+  const maxDim = Math.max(size.x, size.y, size.z, 1e-3);
+
+  return (
+    <div className="space-y-4">
+      <Toggle label="Enable Cropping" checked={crop.enabled} onChange={() => setCrop(c => ({...c, enabled: !c.enabled}))} />
+      {dataBounds && crop.enabled && (
+        <>
+          <div className="space-y-2">
+            {crop.volumes.map(volume => (
+              <div
+                key={volume.id}
+                onClick={() => setCrop(c => ({ ...c, selectedVolumeId: volume.id }))}
+                className={`flex items-center space-x-2 p-2 rounded-md cursor-pointer ${volume.id === crop.selectedVolumeId ? 'bg-gray-700' : 'bg-gray-800 hover:bg-gray-700/60'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={volume.enabled}
+                  onClick={e => e.stopPropagation()}
+                  onChange={() => update(volume.id, { enabled: !volume.enabled })}
+                  className="accent-cyan-500"
+                />
+                <span className={`w-2 h-2 rounded-full ${volume.mode === CropMode.INCLUDE ? 'bg-cyan-400' : 'bg-red-400'}`} />
+                <span className="flex-grow text-sm">{CROP_SHAPE_NAMES[volume.shape]}</span>
+                <select
+                  value={volume.mode}
+                  onClick={e => e.stopPropagation()}
+                  onChange={e => update(volume.id, { mode: Number(e.target.value) })}
+                  className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                >
+                  <option value={CropMode.INCLUDE}>Include</option>
+                  <option value={CropMode.EXCLUDE}>Exclude</option>
+                </select>
+                <button
+                  onClick={e => { e.stopPropagation(); removeVolume(volume.id); }}
+                  className="text-gray-400 hover:text-red-400 text-sm px-1"
+                  title="Remove volume"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {[CropShape.BOX, CropShape.SPHERE, CropShape.CYLINDER].map(shape => (
+              <button
+                key={shape}
+                onClick={() => addVolume(shape)}
+                disabled={crop.volumes.length >= MAX_CROP_VOLUMES}
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-xs font-semibold text-white transition-colors disabled:bg-gray-500"
+              >
+                + {CROP_SHAPE_NAMES[shape]}
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="space-y-4 border-t border-gray-700 pt-3">
+              {AXES.map(axis => (
+                <Slider
+                  key={`center-${axis}`}
+                  label={`Center ${axis.toUpperCase()}`}
+                  min={dataBounds.min[axis] - size[axis] * 0.5}
+                  max={dataBounds.max[axis] + size[axis] * 0.5}
+                  step={0.01}
+                  value={selected.center[axis]}
+                  onChange={e => update(selected.id, { center: selected.center.clone().setComponent(AXES.indexOf(axis), +e.target.value) })}
+                />
+              ))}
+              {AXES.map(axis => (
+                <Slider
+                  key={`size-${axis}`}
+                  label={`Size ${axis.toUpperCase()}`}
+                  min={0.01}
+                  max={maxDim * 2}
+                  step={0.01}
+                  value={selected.size[axis]}
+                  onChange={e => update(selected.id, { size: selected.size.clone().setComponent(AXES.indexOf(axis), +e.target.value) })}
+                />
+              ))}
+              {AXES.map(axis => (
+                <Slider
+                  key={`rotation-${axis}`}
+                  label={`Rotate ${axis.toUpperCase()}`}
+                  min={-180}
+                  max={180}
+                  step={1}
+                  unit="°"
+                  value={THREE.MathUtils.radToDeg(selected.rotation[axis])}
+                  onChange={e => {
+                    const rotation = selected.rotation.clone();
+                    rotation[axis] = THREE.MathUtils.degToRad(+e.target.value);
+                    update(selected.id, { rotation });
+                  }}
+                />
+              ))}
+            </div>
+          )}
+
+          <div className="text-xs text-gray-400">
+            {droppedVolumeCount > 0 && (
+              <p className="text-yellow-400">
+                Only the first {MAX_CROP_VOLUMES} enabled volumes in the scene are applied; {droppedVolumeCount} of this model's are left out.
+              </p>
+            )}
+            Kept points: <span className="font-mono text-cyan-400">{keptPointCount === null ? '…' : keptPointCount.toLocaleString()}</span> / {pointCount.toLocaleString()}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
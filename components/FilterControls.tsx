@@ -0,0 +1,122 @@
+import React from 'react';
+import type { SplatFilterSettings } from '../types';
+import type { SplatFilterCounts } from '../services/splatFilters';
+import { Slider } from './ui/Slider';
+import { Toggle } from './ui/Toggle';
+
+interface FilterControlsProps {
+  filters: SplatFilterSettings;
+  setFilters: React.Dispatch<React.SetStateAction<SplatFilterSettings>>;
+  /** Splats of the visible models hidden by each filter, or null while no filter is on. */
+  counts: SplatFilterCounts | null;
+  /** Typical splat sizes (1st and 99th percentile), or null when no visible model has splat scales. */
+  sizeRange: [number, number] | null;
+  /** Completed fraction of the outlier scoring, or null when it is not running. */
+  outlierProgress: number | null;
+}
+
+const selectClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500';
+const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+const NEIGHBOR_COUNTS = [4, 8, 16, 32];
+
+const HiddenCount: React.FC<{ count: number | undefined }> = ({ count }) =>
+  count ? <p className="text-xs text-gray-400">Hides <span className="font-mono text-cyan-400">{count.toLocaleString()}</span> splats</p> : null;
+
+export const FilterControls: React.FC<FilterControlsProps> = ({ filters, setFilters, counts, sizeRange, outlierProgress }) => {
+  const setSize = (key: 'minSize' | 'maxSize', text: string) => {
+    const value = parseFloat(text);
+    if (Number.isFinite(value) && value >= 0) setFilters(f => ({ ...f, [key]: value }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Slider
+          label="Min Opacity"
+          min={0}
+          max={1}
+          step={0.01}
+          value={filters.minOpacity}
+          onChange={e => setFilters(f => ({ ...f, minOpacity: parseFloat(e.target.value) }))}
+        />
+        <HiddenCount count={counts?.opacity} />
+      </div>
+
+      <div className="space-y-2">
+        <Toggle
+          label="Hide Small Splats"
+          checked={filters.minSize !== null}
+          onChange={() => setFilters(f => ({ ...f, minSize: f.minSize === null ? sizeRange?.[0] ?? 0 : null }))}
+        />
+        {filters.minSize !== null && (
+          <input
+            type="number"
+            step="any"
+            min={0}
+            value={Number(filters.minSize.toPrecision(4))}
+            onChange={e => setSize('minSize', e.target.value)}
+            className={inputClass}
+            title="Splats whose longest axis is shorter than this, in world units, are hidden"
+          />
+        )}
+        <Toggle
+          label="Hide Large Splats"
+          checked={filters.maxSize !== null}
+          onChange={() => setFilters(f => ({ ...f, maxSize: f.maxSize === null ? sizeRange?.[1] ?? 1 : null }))}
+        />
+        {filters.maxSize !== null && (
+          <input
+            type="number"
+            step="any"
+            min={0}
+            value={Number(filters.maxSize.toPrecision(4))}
+            onChange={e => setSize('maxSize', e.target.value)}
+            className={inputClass}
+            title="Splats whose longest axis is longer than this, in world units, are hidden"
+          />
+        )}
+        <HiddenCount count={counts?.size} />
+      </div>
+
+      <div className="space-y-2">
+        <Toggle label="Remove Outliers" checked={filters.removeOutliers} onChange={() => setFilters(f => ({ ...f, removeOutliers: !f.removeOutliers }))} />
+        {filters.removeOutliers && (
+          <>
+            <div>
+              <label className="text-sm font-medium text-gray-300 mb-1 block">Neighbours</label>
+              <select
+                value={filters.outlierNeighbors}
+                onChange={e => setFilters(f => ({ ...f, outlierNeighbors: parseInt(e.target.value, 10) }))}
+                className={selectClass}
+              >
+                {NEIGHBOR_COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+            <Slider
+              label="Threshold"
+              min={0.5}
+              max={5}
+              step={0.1}
+              value={filters.outlierThreshold}
+              onChange={e => setFilters(f => ({ ...f, outlierThreshold: parseFloat(e.target.value) }))}
+              unit="σ"
+            />
+            <p className="text-xs text-gray-400">
+              {outlierProgress !== null
+                ? `Measuring neighbour distances… ${Math.round(outlierProgress * 100)}%`
+                : 'Hides splats whose mean distance to their nearest neighbours is this many standard deviations above the average.'}
+            </p>
+            <HiddenCount count={counts?.outlier} />
+          </>
+        )}
+      </div>
+
+      {counts && (
+        <div className="text-xs text-gray-400">
+          Hidden by filters: <span className="font-mono text-cyan-400">{counts.total.toLocaleString()}</span>
+        </div>
+      )}
+    </div>
+  );
+};
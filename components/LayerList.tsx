@@ -0,0 +1,65 @@
+import React from 'react';
+import type { SceneModel } from '../types';
+
+interface LayerListProps {
+  models: SceneModel[];
+  activeModelId: string | null;
+  onSelectModel: (id: string) => void;
+  onToggleModelVisibility: (id: string) => void;
+  onRemoveModel: (id: string) => void;
+  /** Moves a model so its center matches the active model's. */
+  onAlignModel: (id: string) => void;
+}
+
+export const LayerList: React.FC<LayerListProps> = ({ models, activeModelId, onSelectModel, onToggleModelVisibility, onRemoveModel, onAlignModel }) => {
+  if (models.length === 0) {
+    return <p className="text-xs text-gray-400">Load a file to add it to the scene.</p>;
+  }
+  return (
+    <div className="space-y-2">
+      {models.map(model => {
+        const isActive = model.id === activeModelId;
+        return (
+          <div
+            key={model.id}
+            onClick={() => onSelectModel(model.id)}
+            className={`flex items-center space-x-2 p-2 rounded-md cursor-pointer ${isActive ? 'bg-gray-700' : 'bg-gray-800 hover:bg-gray-700/60'}`}
+          >
+            <input
+              type="checkbox"
+              checked={model.visible}
+              onClick={e => e.stopPropagation()}
+              onChange={() => onToggleModelVisibility(model.id)}
+              className="accent-cyan-500"
+              title="Visible"
+            />
+            <div className="flex-grow min-w-0">
+              <div className={`text-sm truncate ${model.visible ? 'text-gray-200' : 'text-gray-500'}`} title={model.name}>{model.name}</div>
+              <div className="text-xs text-gray-400">
+                {model.isLoading
+                  ? `Loading ${Math.round(model.loadingProgress * 100)}%`
+                  : `${((model.plyData?.pointCount ?? 0) / 1e6).toFixed(2)}M points`}
+              </div>
+            </div>
+            {!isActive && model.plyData && (
+              <button
+                onClick={e => { e.stopPropagation(); onAlignModel(model.id); }}
+                className="text-xs text-gray-400 hover:text-cyan-400 px-1"
+                title="Move this model's center onto the active model's center"
+              >
+                Align
+              </button>
+            )}
+            <button
+              onClick={e => { e.stopPropagation(); onRemoveModel(model.id); }}
+              className="text-gray-400 hover:text-red-400 text-sm px-1"
+              title="Remove model"
+            >
+              ✕
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
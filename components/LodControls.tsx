@@ -0,0 +1,35 @@
+import React from 'react';
+import type { LodSettings } from '../types';
+import { Slider } from './ui/Slider';
+import { Toggle } from './ui/Toggle';
+
+interface LodControlsProps {
+  lod: LodSettings;
+  setLod: React.Dispatch<React.SetStateAction<LodSettings>>;
+  /** Splats drawn in the last frame, or null while no model has its octree yet. */
+  drawnCount: number | null;
+}
+
+export const LodControls: React.FC<LodControlsProps> = ({ lod, setLod, drawnCount }) => (
+  <div className="space-y-4">
+    <Toggle label="Level of Detail" checked={lod.enabled} onChange={() => setLod(l => ({ ...l, enabled: !l.enabled }))} />
+    {lod.enabled && (
+      <>
+        <Slider
+          label="Splat Budget"
+          min={0.5}
+          max={20}
+          step={0.5}
+          value={lod.splatBudget / 1e6}
+          onChange={e => setLod(l => ({ ...l, splatBudget: parseFloat(e.target.value) * 1e6 }))}
+          unit="M"
+        />
+        <p className="text-xs text-gray-400">
+          {drawnCount === null
+            ? 'Building the octree once a model has loaded completely; until then every splat is drawn.'
+            : 'Parts of the scene outside the view are skipped and distant ones are drawn as merged splats, so at most this many splats are drawn per frame.'}
+        </p>
+      </>
+    )}
+  </div>
+);
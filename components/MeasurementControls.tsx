@@ -0,0 +1,103 @@
+import React from 'react';
+import type { MeasurementSettings, MeasurementType } from '../types';
+import { MEASUREMENT_TYPE_NAMES, MIN_MEASUREMENT_POINTS, finishMeasurement, formatMeasurement, measurementValue } from '../services/measurements';
+
+interface MeasurementControlsProps {
+  measure: MeasurementSettings;
+  setMeasure: React.Dispatch<React.SetStateAction<MeasurementSettings>>;
+  disabled: boolean;
+}
+
+const TOOLS: MeasurementType[] = ['distance', 'polyline', 'area', 'height'];
+
+const TOOL_HINTS: Record<MeasurementType, string> = {
+  distance: 'Click two points on the cloud.',
+  polyline: 'Click points along the path; double-click or press Enter to finish.',
+  area: 'Click the corners of the polygon; double-click or press Enter to finish.',
+  height: 'Click two points; the vertical difference is measured.',
+};
+
+const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-xs font-semibold text-white transition-colors disabled:bg-gray-500 disabled:text-gray-300';
+const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+export const MeasurementControls: React.FC<MeasurementControlsProps> = ({ measure, setMeasure, disabled }) => {
+  const selectTool = (tool: MeasurementType | null) => setMeasure(m => ({ ...m, tool: m.tool === tool ? null : tool, draft: [] }));
+  const canFinish = !!measure.tool && measure.draft.length >= MIN_MEASUREMENT_POINTS[measure.tool];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-4 gap-1">
+        {TOOLS.map(tool => (
+          <button
+            key={tool}
+            onClick={() => selectTool(tool)}
+            disabled={disabled}
+            className={`${buttonClass} ${measure.tool === tool ? '!bg-cyan-600' : ''}`}
+          >
+            {MEASUREMENT_TYPE_NAMES[tool]}
+          </button>
+        ))}
+      </div>
+      {measure.tool && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-400">{TOOL_HINTS[measure.tool]}</p>
+          {(measure.tool === 'polyline' || measure.tool === 'area') && (
+            <div className="grid grid-cols-2 gap-2">
+              <button className={buttonClass} disabled={!canFinish} onClick={() => setMeasure(finishMeasurement)}>Finish</button>
+              <button className={buttonClass} disabled={measure.draft.length === 0} onClick={() => setMeasure(m => ({ ...m, draft: [] }))}>Cancel</button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-sm font-medium text-gray-300 mb-1 block">Unit Scale</label>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={measure.unitScale}
+            onChange={e => {
+              const unitScale = parseFloat(e.target.value);
+              if (unitScale > 0) setMeasure(m => ({ ...m, unitScale }));
+            }}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="text-sm font-medium text-gray-300 mb-1 block">Unit</label>
+          <input
+            type="text"
+            value={measure.unitLabel}
+            onChange={e => setMeasure(m => ({ ...m, unitLabel: e.target.value }))}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {measure.measurements.length > 0 && (
+        <div className="space-y-1">
+          {measure.measurements.map((measurement, i) => (
+            <div key={measurement.id} className="flex items-center justify-between bg-gray-800 rounded-md px-2 py-1 text-sm">
+              <span className="text-gray-300">{i + 1}. {MEASUREMENT_TYPE_NAMES[measurement.type]}</span>
+              <span className="flex items-center space-x-2">
+                <span className="font-mono text-yellow-400">
+                  {formatMeasurement(measurement.type, measurementValue(measurement.type, measurement.points), measure.unitScale, measure.unitLabel)}
+                </span>
+                <button
+                  onClick={() => setMeasure(m => ({ ...m, measurements: m.measurements.filter(x => x.id !== measurement.id) }))}
+                  className="text-gray-400 hover:text-red-400 px-1"
+                  title="Remove measurement"
+                >
+                  ✕
+                </button>
+              </span>
+            </div>
+          ))}
+          <button className={`${buttonClass} w-full`} onClick={() => setMeasure(m => ({ ...m, measurements: [] }))}>Clear All</button>
+        </div>
+      )}
+    </div>
+  );
+};
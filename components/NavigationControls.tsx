@@ -0,0 +1,91 @@
+import React from 'react';
+import type { CameraProjection, NavigationMode, NavigationSettings } from '../types';
+import type { ViewPreset } from '../services/cameraPaths';
+import { Slider } from './ui/Slider';
+
+interface NavigationControlsProps {
+  navigation: NavigationSettings;
+  setNavigation: React.Dispatch<React.SetStateAction<NavigationSettings>>;
+  /** Flies to a standard view of the active model. */
+  onViewPreset: (view: ViewPreset) => void;
+  /** No model is loaded. */
+  disabled: boolean;
+}
+
+const MODES: { mode: NavigationMode; label: string; help: string }[] = [
+  { mode: 'orbit', label: 'Orbit', help: 'Drag to orbit, right-drag to pan, scroll to zoom.' },
+  { mode: 'fly', label: 'Fly', help: 'W/A/S/D or the arrow keys move, Q/E move down and up, Shift moves faster. Drag to look around, scroll to step forward.' },
+  { mode: 'trackball', label: 'Trackball', help: 'Drag to tumble freely, including roll; right-drag to pan, scroll to zoom.' },
+];
+
+const PROJECTIONS: { projection: CameraProjection; label: string }[] = [
+  { projection: 'perspective', label: 'Perspective' },
+  { projection: 'orthographic', label: 'Orthographic' },
+];
+
+const PRESETS: { view: ViewPreset; label: string }[] = [
+  { view: 'top', label: 'Top' },
+  { view: 'front', label: 'Front' },
+  { view: 'left', label: 'Left' },
+  { view: 'iso', label: 'Iso' },
+  { view: 'bottom', label: 'Bottom' },
+  { view: 'back', label: 'Back' },
+  { view: 'right', label: 'Right' },
+];
+
+const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-xs font-semibold text-white transition-colors disabled:bg-gray-500 disabled:text-gray-300';
+
+export const NavigationControls: React.FC<NavigationControlsProps> = ({ navigation, setNavigation, onViewPreset, disabled }) => (
+  <div className="space-y-4">
+    <div className="grid grid-cols-3 gap-1">
+      {MODES.map(({ mode, label }) => (
+        <button
+          key={mode}
+          onClick={() => setNavigation(n => ({ ...n, mode }))}
+          className={`${buttonClass} ${navigation.mode === mode ? '!bg-cyan-600' : ''}`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+    {navigation.mode === 'fly' && (
+      <Slider
+        label="Fly Speed"
+        min={1}
+        max={100}
+        step={1}
+        value={navigation.flySpeed * 100}
+        onChange={e => setNavigation(n => ({ ...n, flySpeed: parseFloat(e.target.value) / 100 }))}
+        unit="% of scene/s"
+      />
+    )}
+    <p className="text-xs text-gray-400">
+      {MODES.find(m => m.mode === navigation.mode)?.help} Double-click a splat to fly to it.
+    </p>
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-gray-300 block">Projection</label>
+      <div className="grid grid-cols-2 gap-1">
+        {PROJECTIONS.map(({ projection, label }) => (
+          <button
+            key={projection}
+            onClick={() => setNavigation(n => ({ ...n, projection }))}
+            className={`${buttonClass} ${navigation.projection === projection ? '!bg-cyan-600' : ''}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-gray-300 block">Standard Views</label>
+      <div className="grid grid-cols-4 gap-1">
+        {PRESETS.map(({ view, label }) => (
+          <button key={view} onClick={() => onViewPreset(view)} disabled={disabled} className={buttonClass}>
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400">Views frame the active model. The cube in the corner of the view shows the orientation; click a face to look at it.</p>
+    </div>
+  </div>
+);
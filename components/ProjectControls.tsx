@@ -0,0 +1,45 @@
+import React, { useRef, useState } from 'react';
+
+interface ProjectControlsProps {
+  onSaveProject: () => void;
+  onOpenProject: (file: File) => void;
+  /** Puts the view in the address bar; resolves once the link is on the clipboard. */
+  onCopyLink: () => Promise<void>;
+}
+
+const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-xs font-semibold text-white transition-colors disabled:bg-gray-500 disabled:text-gray-300';
+
+export const ProjectControls: React.FC<ProjectControlsProps> = ({ onSaveProject, onOpenProject, onCopyLink }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [linkStatus, setLinkStatus] = useState<'copied' | 'inAddressBar' | null>(null);
+
+  const handleCopyLink = () => {
+    onCopyLink().then(() => setLinkStatus('copied'), () => setLinkStatus('inAddressBar'));
+    setTimeout(() => setLinkStatus(null), 2500);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        <button className={buttonClass} onClick={onSaveProject}>Save</button>
+        <button className={buttonClass} onClick={() => fileInputRef.current?.click()}>Open</button>
+        <button className={buttonClass} onClick={handleCopyLink}>Copy Link</button>
+      </div>
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={e => {
+          if (e.target.files && e.target.files[0]) onOpenProject(e.target.files[0]);
+          e.target.value = '';
+        }}
+        accept=".json,application/json"
+        className="hidden"
+      />
+      <p className="text-xs text-gray-400">
+        {linkStatus === 'copied' && 'Link copied to the clipboard.'}
+        {linkStatus === 'inAddressBar' && 'The link is in the address bar.'}
+        {!linkStatus && 'Saves the camera and navigation, the display, quality, colormap, filter and clipping settings, the views and each model\'s transform, axes, crop and render mode. Model files are referenced by name.'}
+      </p>
+    </div>
+  );
+};
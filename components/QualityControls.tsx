@@ -0,0 +1,102 @@
+import React from 'react';
+import type { RenderQualitySettings, SplatAntialiasing } from '../types';
+import { DEFAULT_RENDER_QUALITY } from '../services/renderQuality';
+import { Slider } from './ui/Slider';
+import { Toggle } from './ui/Toggle';
+
+interface QualityControlsProps {
+  quality: RenderQualitySettings;
+  setQuality: React.Dispatch<React.SetStateAction<RenderQualitySettings>>;
+}
+
+const selectClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500';
+const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-xs font-semibold text-white transition-colors disabled:bg-gray-500 disabled:text-gray-300';
+
+const ANTIALIASING_OPTIONS: { value: SplatAntialiasing; label: string }[] = [
+  { value: 'none', label: 'Off' },
+  { value: 'lowPass', label: 'Low-pass filter (3DGS)' },
+  { value: 'mip', label: 'Mip-Splatting' },
+];
+
+export const QualityControls: React.FC<QualityControlsProps> = ({ quality, setQuality }) => {
+  const isToneDefault =
+    quality.exposure === DEFAULT_RENDER_QUALITY.exposure &&
+    quality.gamma === DEFAULT_RENDER_QUALITY.gamma &&
+    quality.saturation === DEFAULT_RENDER_QUALITY.saturation;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="text-sm font-medium text-gray-300 mb-1 block">Antialiasing</label>
+        <select
+          value={quality.antialiasing}
+          onChange={e => setQuality(q => ({ ...q, antialiasing: e.target.value as SplatAntialiasing }))}
+          className={selectClass}
+        >
+          {ANTIALIASING_OPTIONS.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-400 mt-1">
+          {quality.antialiasing === 'mip'
+            ? 'Also fades splats smaller than a pixel instead of enlarging them, which keeps distant detail from glowing.'
+            : 'Widens splats thinner than a pixel, which most captures were trained with; turning it off makes thin structures flicker.'}
+        </p>
+      </div>
+      <Slider
+        label="Cutoff"
+        min={1.5}
+        max={4}
+        step={0.1}
+        value={quality.cutoff}
+        onChange={e => setQuality(q => ({ ...q, cutoff: parseFloat(e.target.value) }))}
+        unit="σ"
+      />
+      <Toggle
+        label="Premultiplied Alpha"
+        checked={quality.premultipliedAlpha}
+        onChange={() => setQuality(q => ({ ...q, premultipliedAlpha: !q.premultipliedAlpha }))}
+      />
+
+      <div className="space-y-4 border-t border-gray-700 pt-3">
+        <Slider
+          label="Exposure"
+          min={-3}
+          max={3}
+          step={0.1}
+          value={quality.exposure}
+          onChange={e => setQuality(q => ({ ...q, exposure: parseFloat(e.target.value) }))}
+          unit=" EV"
+        />
+        <Slider
+          label="Gamma"
+          min={0.5}
+          max={2.5}
+          step={0.05}
+          value={quality.gamma}
+          onChange={e => setQuality(q => ({ ...q, gamma: parseFloat(e.target.value) }))}
+        />
+        <Slider
+          label="Saturation"
+          min={0}
+          max={2}
+          step={0.05}
+          value={quality.saturation}
+          onChange={e => setQuality(q => ({ ...q, saturation: parseFloat(e.target.value) }))}
+        />
+        <button
+          className={`${buttonClass} w-full`}
+          disabled={isToneDefault}
+          onClick={() => setQuality(q => ({
+            ...q,
+            exposure: DEFAULT_RENDER_QUALITY.exposure,
+            gamma: DEFAULT_RENDER_QUALITY.gamma,
+            saturation: DEFAULT_RENDER_QUALITY.saturation,
+          }))}
+        >
+          Reset Tone
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React from 'react';
+import type { RegistrationSettings, SceneModel } from '../types';
+import { MIN_REGISTRATION_PAIRS } from '../services/registration';
+import { Slider } from './ui/Slider';
+import { Toggle } from './ui/Toggle';
+
+/** Progress of a running ICP refinement; iteration 0 until the first one completes. */
+export interface IcpStatus {
+  iteration: number;
+  rmsError: number;
+}
+
+interface RegistrationControlsProps {
+  registration: RegistrationSettings;
+  setRegistration: React.Dispatch<React.SetStateAction<RegistrationSettings>>;
+  models: SceneModel[];
+  onAlignPairs: () => void;
+  onRefineIcp: () => void;
+  onCancelIcp: () => void;
+  /** Set while ICP runs. */
+  icpStatus: IcpStatus | null;
+}
+
+const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-xs font-semibold text-white transition-colors disabled:bg-gray-500 disabled:text-gray-300';
+const selectClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+const formatError = (value: number) => (value < 0.01 ? value.toExponential(2) : value.toFixed(3));
+
+export const RegistrationControls: React.FC<RegistrationControlsProps> = ({ registration, setRegistration, models, onAlignPairs, onRefineIcp, onCancelIcp, icpStatus }) => {
+  const loaded = models.filter(m => m.plyData && !m.isLoading);
+  if (loaded.length < 2) {
+    return <p className="text-xs text-gray-400">Load two models to align one onto the other.</p>;
+  }
+
+  const { movingModelId, fixedModelId, pairs, pendingMoving, picking } = registration;
+  const modelName = (id: string | null) => models.find(m => m.id === id)?.name ?? '';
+  const ready = !!movingModelId && !!fixedModelId && movingModelId !== fixedModelId
+    && loaded.some(m => m.id === movingModelId) && loaded.some(m => m.id === fixedModelId);
+  const isRunning = !!icpStatus;
+
+  // Changing either model invalidates the picked pairs
+  const selectModel = (key: 'movingModelId' | 'fixedModelId', id: string) =>
+    setRegistration(r => ({ ...r, [key]: id || null, pairs: [], pendingMoving: null, lastResult: null }));
+
+  const renderSelect = (label: string, key: 'movingModelId' | 'fixedModelId') => (
+    <div>
+      <label className="text-sm font-medium text-gray-300 mb-1 block">{label}</label>
+      <select value={registration[key] ?? ''} onChange={e => selectModel(key, e.target.value)} className={selectClass} disabled={isRunning}>
+        <option value="">Choose a model</option>
+        {loaded.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        {renderSelect('Moving', 'movingModelId')}
+        {renderSelect('Fixed', 'fixedModelId')}
+      </div>
+
+      <div className="space-y-2">
+        <button
+          className={`${buttonClass} w-full ${picking ? '!bg-cyan-600' : ''}`}
+          disabled={!ready || isRunning}
+          onClick={() => setRegistration(r => ({ ...r, picking: !r.picking, pendingMoving: null }))}
+        >
+          {picking ? 'Stop Picking Pairs' : 'Pick Point Pairs'}
+        </button>
+        {picking && ready && (
+          <p className="text-xs text-gray-400">
+            Click a point on <span className="text-orange-400">{pendingMoving ? modelName(fixedModelId) : modelName(movingModelId)}</span>
+            {pendingMoving ? ' that matches the last one.' : '.'} Pick at least {MIN_REGISTRATION_PAIRS} pairs spread over the overlap.
+          </p>
+        )}
+        {pairs.length > 0 && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-300">{pairs.length} point pair{pairs.length === 1 ? '' : 's'}</span>
+            <span className="space-x-2">
+              <button
+                className="text-xs text-gray-400 hover:text-cyan-400"
+                onClick={() => setRegistration(r => ({ ...r, pairs: r.pairs.slice(0, -1), pendingMoving: null }))}
+              >
+                Remove Last
+              </button>
+              <button
+                className="text-xs text-gray-400 hover:text-red-400"
+                onClick={() => setRegistration(r => ({ ...r, pairs: [], pendingMoving: null }))}
+              >
+                Clear
+              </button>
+            </span>
+          </div>
+        )}
+      </div>
+
+      <Toggle
+        label="Estimate Scale"
+        checked={registration.withScale}
+        onChange={() => setRegistration(r => ({ ...r, withScale: !r.withScale }))}
+      />
+      <Slider
+        label="ICP Search Distance"
+        min={0.5}
+        max={20}
+        step={0.5}
+        value={registration.icpMaxDistance * 100}
+        onChange={e => setRegistration(r => ({ ...r, icpMaxDistance: parseFloat(e.target.value) / 100 }))}
+        unit="%"
+      />
+
+      <div className="grid grid-cols-2 gap-2">
+        <button className={buttonClass} disabled={!ready || isRunning || pairs.length < MIN_REGISTRATION_PAIRS} onClick={onAlignPairs}>
+          Align from Pairs
+        </button>
+        {isRunning ? (
+          <button className={buttonClass} onClick={onCancelIcp}>Cancel ICP</button>
+        ) : (
+          <button className={buttonClass} disabled={!ready} onClick={onRefineIcp} title="Refine the current alignment with iterative closest points">
+            Refine with ICP
+          </button>
+        )}
+      </div>
+
+      {icpStatus && (
+        <p className="text-xs text-gray-400">
+          ICP iteration {icpStatus.iteration}{icpStatus.iteration > 0 ? `, RMS ${formatError(icpStatus.rmsError)}` : ''}...
+        </p>
+      )}
+      {!icpStatus && registration.lastResult && (
+        <div className="flex justify-between items-center bg-gray-800 p-2 rounded-md text-sm">
+          <span className="text-gray-300">
+            RMS error ({registration.lastResult.method === 'icp' ? `ICP, ${registration.lastResult.pairCount} points` : `${registration.lastResult.pairCount} pairs`})
+          </span>
+          <span className="font-mono text-cyan-400">{formatError(registration.lastResult.rmsError)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
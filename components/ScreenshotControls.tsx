@@ -0,0 +1,47 @@
+import React from 'react';
+import type { ScreenshotSettings } from '../types';
+import { Toggle } from './ui/Toggle';
+
+interface ScreenshotControlsProps {
+  settings: ScreenshotSettings;
+  setSettings: React.Dispatch<React.SetStateAction<ScreenshotSettings>>;
+  /** Canvas size in CSS pixels, which the scale multiplies. */
+  viewportSize: { width: number; height: number };
+  onCapture: () => void;
+  isCapturing: boolean;
+  disabled: boolean;
+}
+
+const SCALES = [1, 2, 4, 8];
+
+const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-xs font-semibold text-white transition-colors disabled:bg-gray-500 disabled:text-gray-300';
+
+export const ScreenshotControls: React.FC<ScreenshotControlsProps> = ({ settings, setSettings, viewportSize, onCapture, isCapturing, disabled }) => (
+  <div className="space-y-4">
+    <div>
+      <label className="text-sm font-medium text-gray-300 mb-1 block">Size</label>
+      <div className="grid grid-cols-4 gap-1">
+        {SCALES.map(scale => (
+          <button
+            key={scale}
+            onClick={() => setSettings(s => ({ ...s, scale }))}
+            className={`${buttonClass} ${settings.scale === scale ? '!bg-cyan-600' : ''}`}
+          >
+            {scale}×
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400 mt-1">
+        {Math.round(viewportSize.width * settings.scale)} × {Math.round(viewportSize.height * settings.scale)} pixels
+      </p>
+    </div>
+    <Toggle label="Transparent Background" checked={settings.transparent} onChange={() => setSettings(s => ({ ...s, transparent: !s.transparent }))} />
+    <button
+      onClick={onCapture}
+      className="w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md font-semibold text-white transition-colors disabled:bg-gray-500"
+      disabled={disabled || isCapturing}
+    >
+      {isCapturing ? 'Rendering...' : 'Save Screenshot'}
+    </button>
+  </div>
+);
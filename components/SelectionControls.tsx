@@ -0,0 +1,73 @@
+import React from 'react';
+import type { SelectionSettings, SelectionTool } from '../types';
+import type { PointStateCounts } from '../services/splatSelection';
+import { Slider } from './ui/Slider';
+
+export type SelectionCommand = 'selectAll' | 'clear' | 'invert' | 'hide' | 'unhideAll' | 'delete';
+
+interface SelectionControlsProps {
+  selection: SelectionSettings;
+  setSelection: React.Dispatch<React.SetStateAction<SelectionSettings>>;
+  /** Null while no editable model is loaded. */
+  counts: PointStateCounts | null;
+  onCommand: (command: SelectionCommand) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+const TOOLS: { tool: SelectionTool; label: string }[] = [
+  { tool: 'none', label: 'Orbit' },
+  { tool: 'rect', label: 'Rect' },
+  { tool: 'lasso', label: 'Lasso' },
+  { tool: 'brush', label: 'Brush' },
+];
+
+const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-xs font-semibold text-white transition-colors disabled:bg-gray-500 disabled:text-gray-300';
+
+export const SelectionControls: React.FC<SelectionControlsProps> = ({ selection, setSelection, counts, onCommand, onUndo, onRedo, canUndo, canRedo }) => {
+  const disabled = !counts;
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-4 gap-1">
+        {TOOLS.map(({ tool, label }) => (
+          <button
+            key={tool}
+            onClick={() => setSelection(s => ({ ...s, tool }))}
+            disabled={disabled && tool !== 'none'}
+            className={`${buttonClass} ${selection.tool === tool ? '!bg-cyan-600' : ''}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {selection.tool === 'brush' && (
+        <Slider label="Brush Radius" min={2} max={100} step={1} unit="px" value={selection.brushRadius} onChange={e => setSelection(s => ({ ...s, brushRadius: +e.target.value }))} />
+      )}
+      <p className="text-xs text-gray-400">Drag to select. Hold Shift to add, Alt or Ctrl to subtract.</p>
+
+      <div className="grid grid-cols-3 gap-2">
+        <button className={buttonClass} disabled={disabled} onClick={() => onCommand('selectAll')}>Select All</button>
+        <button className={buttonClass} disabled={disabled || !counts.selected} onClick={() => onCommand('clear')}>Clear</button>
+        <button className={buttonClass} disabled={disabled} onClick={() => onCommand('invert')}>Invert</button>
+        <button className={buttonClass} disabled={disabled || !counts.selected} onClick={() => onCommand('hide')}>Hide</button>
+        <button className={buttonClass} disabled={disabled || !counts.hidden} onClick={() => onCommand('unhideAll')}>Unhide All</button>
+        <button className={`${buttonClass} hover:!bg-red-600`} disabled={disabled || !counts.selected} onClick={() => onCommand('delete')}>Delete</button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button className={buttonClass} disabled={!canUndo} onClick={onUndo}>Undo</button>
+        <button className={buttonClass} disabled={!canRedo} onClick={onRedo}>Redo</button>
+      </div>
+
+      {counts && (
+        <div className="text-xs text-gray-400 space-y-0.5">
+          <div>Selected: <span className="font-mono text-cyan-400">{counts.selected.toLocaleString()}</span></div>
+          <div>Hidden: <span className="font-mono text-cyan-400">{counts.hidden.toLocaleString()}</span></div>
+          <div>Deleted: <span className="font-mono text-cyan-400">{counts.deleted.toLocaleString()}</span></div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import type { SelectionSettings } from '../types';
+import type { ScreenRegion, SelectionOp } from '../services/splatSelection';
+
+interface SelectionOverlayProps {
+  selection: SelectionSettings;
+  onRegion: (region: ScreenRegion, op: SelectionOp) => void;
+}
+
+// Shift adds to the selection, Alt or Ctrl/Cmd subtracts from it
+const opFromEvent = (e: React.PointerEvent): SelectionOp =>
+  e.shiftKey ? 'add' : (e.altKey || e.ctrlKey || e.metaKey) ? 'subtract' : 'replace';
+
+/**
+ * Captures pointer drags over the viewer while a selection tool is active and draws the
+ * rectangle, lasso or brush stroke being traced.
+ */
+export const SelectionOverlay: React.FC<SelectionOverlayProps> = ({ selection, onRegion }) => {
+  const [points, setPoints] = useState<[number, number][]>([]);
+  const opRef = useRef<SelectionOp>('replace');
+  const [cursor, setCursor] = useState<[number, number] | null>(null);
+
+  if (selection.tool === 'none') return null;
+
+  const localPoint = (e: React.PointerEvent): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [e.clientX - rect.left, e.clientY - rect.top];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    opRef.current = opFromEvent(e);
+    setPoints([localPoint(e)]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const p = localPoint(e);
+    setCursor(p);
+    if (points.length === 0) return;
+    if (selection.tool === 'rect') {
+      setPoints([points[0], p]);
+    } else {
+      const last = points[points.length - 1];
+      // Skip samples closer than a couple of pixels to keep the stroke short
+      if (Math.hypot(p[0] - last[0], p[1] - last[1]) >= 2) setPoints([...points, p]);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (points.length === 0) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    const op = opRef.current;
+    if (selection.tool === 'rect') {
+      const end = points[points.length - 1];
+      onRegion({ type: 'rect', x0: points[0][0], y0: points[0][1], x1: end[0], y1: end[1] }, op);
+    } else if (selection.tool === 'lasso') {
+      onRegion({ type: 'lasso', points }, op);
+    } else {
+      onRegion({ type: 'brush', points, radius: selection.brushRadius }, op);
+    }
+    setPoints([]);
+  };
+
+  const path = points.map(([x, y]) => `${x},${y}`).join(' ');
+
+  return (
+    <div
+      className="absolute inset-0 cursor-crosshair"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={() => setCursor(null)}
+    >
+      <svg className="w-full h-full pointer-events-none">
+        {selection.tool === 'rect' && points.length === 2 && (
+          <rect
+            x={Math.min(points[0][0], points[1][0])}
+            y={Math.min(points[0][1], points[1][1])}
+            width={Math.abs(points[1][0] - points[0][0])}
+            height={Math.abs(points[1][1] - points[0][1])}
+            className="fill-cyan-400/10 stroke-cyan-400"
+            strokeDasharray="4 3"
+          />
+        )}
+        {selection.tool === 'lasso' && points.length > 1 && (
+          <polygon points={path} className="fill-cyan-400/10 stroke-cyan-400" strokeDasharray="4 3" />
+        )}
+        {selection.tool === 'brush' && points.length > 0 && (
+          <polyline
+            points={points.length === 1 ? `${path} ${path}` : path}
+            fill="none"
+            className="stroke-cyan-400/30"
+            strokeWidth={selection.brushRadius * 2}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        )}
+        {selection.tool === 'brush' && cursor && (
+          <circle cx={cursor[0]} cy={cursor[1]} r={selection.brushRadius} fill="none" className="stroke-cyan-400" />
+        )}
+      </svg>
+    </div>
+  );
+};
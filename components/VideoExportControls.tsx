@@ -0,0 +1,141 @@
+import React from 'react';
+import type { VideoExportFormat, VideoExportSettings, VideoExportSource } from '../types';
+import { Slider } from './ui/Slider';
+
+interface VideoExportControlsProps {
+  settings: VideoExportSettings;
+  setSettings: React.Dispatch<React.SetStateAction<VideoExportSettings>>;
+  /** Whether the camera path has at least two keyframes. */
+  hasCameraPath: boolean;
+  /** Set while frames are rendered. */
+  progress: { done: number; total: number } | null;
+  onExport: () => void;
+  onCancel: () => void;
+  disabled: boolean;
+}
+
+const RESOLUTION_PRESETS: [string, number, number][] = [
+  ['720p', 1280, 720],
+  ['1080p', 1920, 1080],
+  ['1440p', 2560, 1440],
+  ['4K', 3840, 2160],
+  ['Square 1080', 1080, 1080],
+];
+
+const FRAME_RATES = [24, 25, 30, 60];
+
+const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-xs font-semibold text-white transition-colors disabled:bg-gray-500 disabled:text-gray-300';
+const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+const parseFrameSize = (value: string, fallback: number) => {
+  const size = parseInt(value, 10);
+  return size > 0 ? Math.min(size, 8192) : fallback;
+};
+
+export const VideoExportControls: React.FC<VideoExportControlsProps> = ({ settings, setSettings, hasCameraPath, progress, onExport, onCancel, disabled }) => {
+  const preset = RESOLUTION_PRESETS.find(([, w, h]) => w === settings.width && h === settings.height);
+  const isExporting = !!progress;
+  const canExport = !disabled && (settings.source === 'turntable' || hasCameraPath);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-sm font-medium text-gray-300 mb-1 block">Camera</label>
+          <select
+            value={settings.source}
+            onChange={e => setSettings(s => ({ ...s, source: e.target.value as VideoExportSource }))}
+            className={inputClass}
+            disabled={isExporting}
+          >
+            <option value="turntable">Turntable</option>
+            <option value="path">Camera Path</option>
+          </select>
+        </div>
+        <div>
+          <label className="text-sm font-medium text-gray-300 mb-1 block">Format</label>
+          <select
+            value={settings.format}
+            onChange={e => setSettings(s => ({ ...s, format: e.target.value as VideoExportFormat }))}
+            className={inputClass}
+            disabled={isExporting}
+          >
+            <option value="webm">WebM Video</option>
+            <option value="png">PNG Sequence (ZIP)</option>
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="text-sm font-medium text-gray-300 mb-1 block">Resolution</label>
+        <select
+          value={preset ? preset[0] : 'custom'}
+          onChange={e => {
+            const match = RESOLUTION_PRESETS.find(([name]) => name === e.target.value);
+            if (match) setSettings(s => ({ ...s, width: match[1], height: match[2] }));
+          }}
+          className={inputClass}
+          disabled={isExporting}
+        >
+          {RESOLUTION_PRESETS.map(([name, w, h]) => <option key={name} value={name}>{name} ({w}x{h})</option>)}
+          <option value="custom" disabled>Custom</option>
+        </select>
+        <div className="grid grid-cols-2 gap-2 mt-2">
+          <input type="number" min={2} step={2} value={settings.width} onChange={e => setSettings(s => ({ ...s, width: parseFrameSize(e.target.value, s.width) }))} className={inputClass} disabled={isExporting} title="Width in pixels" />
+          <input type="number" min={2} step={2} value={settings.height} onChange={e => setSettings(s => ({ ...s, height: parseFrameSize(e.target.value, s.height) }))} className={inputClass} disabled={isExporting} title="Height in pixels" />
+        </div>
+      </div>
+
+      <div>
+        <label className="text-sm font-medium text-gray-300 mb-1 block">Frame Rate</label>
+        <div className="grid grid-cols-4 gap-1">
+          {FRAME_RATES.map(fps => (
+            <button
+              key={fps}
+              onClick={() => setSettings(s => ({ ...s, fps }))}
+              disabled={isExporting}
+              className={`${buttonClass} ${settings.fps === fps ? '!bg-cyan-600' : ''}`}
+            >
+              {fps}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings.source === 'turntable' ? (
+        <Slider
+          label="Turntable Duration"
+          min={2}
+          max={60}
+          step={1}
+          value={settings.turntableDuration}
+          onChange={e => setSettings(s => ({ ...s, turntableDuration: parseFloat(e.target.value) }))}
+          unit="s"
+        />
+      ) : (
+        !hasCameraPath && <p className="text-xs text-gray-400">Add at least two views to the camera path under Camera Views.</p>
+      )}
+
+      {progress ? (
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Rendering frame {progress.done} of {progress.total}</span>
+            <span>{Math.round(progress.done / progress.total * 100)}%</span>
+          </div>
+          <div className="w-full bg-gray-600 rounded-full h-2">
+            <div className="bg-cyan-500 h-2 rounded-full" style={{ width: `${progress.done / progress.total * 100}%` }}></div>
+          </div>
+          <button className={`${buttonClass} w-full`} onClick={onCancel}>Cancel</button>
+        </div>
+      ) : (
+        <button
+          onClick={onExport}
+          className="w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md font-semibold text-white transition-colors disabled:bg-gray-500"
+          disabled={!canExport}
+        >
+          {settings.format === 'webm' ? 'Export Video' : 'Export Frames'}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useEffect, useRef } from 'react';
+import type { MutableRefObject } from 'react';
+import * as THREE from 'three';
+import type { CameraProjection } from '../types';
+import type { ViewPreset } from '../services/cameraPaths';
+
+interface ViewCubeProps {
+  cameraRef: MutableRefObject<THREE.PerspectiveCamera | null>;
+  projection: CameraProjection;
+  onViewPreset: (view: ViewPreset) => void;
+  onProjectionChange: (projection: CameraProjection) => void;
+}
+
+/** Edge length of the cube in CSS pixels. */
+const CUBE_SIZE = 64;
+
+// Each face starts facing the viewer (+Z) and is turned to face its world direction; CSS y points down
+const FACES: { view: ViewPreset; label: string; transform: string }[] = [
+  { view: 'front', label: 'Front', transform: '' },
+  { view: 'back', label: 'Back', transform: 'rotateY(180deg)' },
+  { view: 'right', label: 'Right', transform: 'rotateY(90deg)' },
+  { view: 'left', label: 'Left', transform: 'rotateY(-90deg)' },
+  { view: 'top', label: 'Top', transform: 'rotateX(90deg)' },
+  { view: 'bottom', label: 'Bottom', transform: 'rotateX(-90deg)' },
+];
+
+const buttonClass = 'px-1.5 py-0.5 bg-gray-700/80 hover:bg-gray-600 rounded text-[10px] font-semibold text-white transition-colors';
+
+/**
+ * Cube turned with the camera so that it shows the world axes as the view does. Clicking a face
+ * looks at the scene from that side.
+ */
+export const ViewCube: React.FC<ViewCubeProps> = ({ cameraRef, projection, onViewPreset, onProjectionChange }) => {
+  const cubeRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const rotation = new THREE.Matrix4();
+    const last = new THREE.Matrix4().makeScale(0, 0, 0);
+    let frameId: number;
+    const update = () => {
+      frameId = requestAnimationFrame(update);
+      const camera = cameraRef.current;
+      const cube = cubeRef.current;
+      if (!camera || !cube) return;
+      rotation.extractRotation(camera.matrixWorldInverse);
+      if (rotation.equals(last)) return;
+      last.copy(rotation);
+      // Three's view space has y up and CSS has y down, so flip y on both sides of the rotation
+      const e = rotation.elements.map((v, i) => ((i % 4 === 1) !== (Math.floor(i / 4) === 1) ? -v : v));
+      cube.style.transform = `matrix3d(${e.join(',')})`;
+    };
+    update();
+    return () => cancelAnimationFrame(frameId);
+  }, [cameraRef]);
+
+  return (
+    <div className="absolute bottom-4 right-4 flex flex-col items-center space-y-2 select-none">
+      <div style={{ width: CUBE_SIZE, height: CUBE_SIZE }}>
+        <div ref={cubeRef} className="relative w-full h-full" style={{ transformStyle: 'preserve-3d' }}>
+          {FACES.map(({ view, label, transform }) => (
+            <button
+              key={view}
+              onClick={() => onViewPreset(view)}
+              className="absolute inset-0 flex items-center justify-center bg-gray-700/80 hover:bg-cyan-600/90 border border-gray-400/60 text-[11px] font-semibold text-gray-100 transition-colors"
+              style={{ transform: `${transform} translateZ(${CUBE_SIZE / 2}px)`, backfaceVisibility: 'hidden' }}
+              title={`${label} view`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex space-x-1">
+        <button className={buttonClass} onClick={() => onViewPreset('iso')} title="Isometric view">Iso</button>
+        <button
+          className={buttonClass}
+          onClick={() => onProjectionChange(projection === 'perspective' ? 'orthographic' : 'perspective')}
+          title="Switch between perspective and orthographic projection"
+        >
+          {projection === 'perspective' ? 'Persp' : 'Ortho'}
+        </button>
+      </div>
+    </div>
+  );
+};
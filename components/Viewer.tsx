@@ -1,82 +1,312 @@
-
-import React, { useRef, useEffect, useCallback } from 'react';
+import React, { useRef, useEffect, useCallback, useMemo, useState, forwardRef, useImperativeHandle } from 'react';
 import * as THREE from 'three';
-import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import type { PlyData, Transformations, CropSettings, AppearanceSettings, RenderMode, HelperSettings } from '../types';
+import type { PlyData, SceneModel, CropSettings, CropVolume, AppearanceSettings, HelperSettings, SelectionSettings, MeasurementSettings, RegistrationSettings, CameraPose, ColormapSettings, LodSettings, AnnotationSettings, NavigationMode, NavigationSettings, SplatFilterSettings, ClipPlane, ClippingSettings, CameraProjection, RenderQualitySettings } from '../types';
 import { IconButton } from './ui/IconButton';
 import { ResetIcon } from './icons/ResetIcon';
+import { MoveIcon } from './icons/MoveIcon';
+import { RotateIcon } from './icons/RotateIcon';
+import { ScaleIcon } from './icons/ScaleIcon';
+import { useCropGizmo } from '../hooks/useCropGizmo';
+import type { GizmoMode } from '../hooks/useCropGizmo';
+import { useMeasurementOverlay } from '../hooks/useMeasurementOverlay';
+import { useRegistrationOverlay } from '../hooks/useRegistrationOverlay';
+import { useAnnotationOverlay } from '../hooks/useAnnotationOverlay';
+import { useClipPlaneGizmo } from '../hooks/useClipPlaneGizmo';
+import { useSplatOctrees } from '../hooks/useSplatOctrees';
+import { createColormapTexture } from '../services/colormaps';
+import { proxyScalarValues, scalarFieldOffset, scalarFieldProperty, scalarFieldShaderIndex } from '../services/scalarFields';
+import { SelectionOverlay } from './SelectionOverlay';
+import { ViewCube } from './ViewCube';
+import { CROP_SHADER_CHUNK, createCropTester, packCropUniforms } from '../services/cropVolumes';
+import { CLIP_SHADER_CHUNK, createClipTester, packClipUniforms } from '../services/clipPlanes';
+import { DEFAULT_SPLAT_FILTERS, SPLAT_FILTER_SHADER_CHUNK, createSplatFilterTester, packSplatFilterUniforms } from '../services/splatFilters';
+import { LOW_PASS_VARIANCE, SPLAT_ANTIALIASING_MODES } from '../services/renderQuality';
+import { POINT_DELETED, POINT_HIDDEN, POINT_SELECTED, selectPointsInRegion } from '../services/splatSelection';
+import type { PointStatesByModel, ScreenRegion, SelectionOp } from '../services/splatSelection';
+import { pickPoint } from '../services/pointPicking';
+import type { PickResult } from '../services/pointPicking';
+import { MAX_SCENE_MODELS, combineSceneData, drawnSceneModels, modelMatrix, sceneWorldBounds } from '../services/sceneModels';
+import { cloneCameraPose, easeInOut, focusCameraPose, interpolateCameraPose } from '../services/cameraPaths';
+import type { ViewPreset } from '../services/cameraPaths';
+import { FlyControls, createCameraControls } from '../services/cameraControls';
+import { applyCameraProjection, syncOrthographicCamera } from '../services/cameraProjection';
+import type { CameraControls } from '../services/cameraControls';
+import { sortSplatsByDepth } from '../services/splatSort';
+import { createSplatSorter } from '../services/splatSorter';
+import type { SplatSorter } from '../services/splatSorter';
+import type { SceneBuffers } from '../services/sceneModels';
+import { SH_TEXELS_PER_POINT, SH_TEXTURE_WIDTH, createShTexture } from '../services/sphericalHarmonics';
+import { buildDrawList, sameLodSelection, selectLodNodes } from '../services/splatLod';
+import type { LodModel, LodSelection } from '../services/splatLod';
+import type { SplatOctree } from '../services/splatOctree';
 
 interface ViewerProps {
-  plyData: PlyData | null;
-  transformations: Transformations;
-  crop: CropSettings;
+  /** Models in layer order; only the first `MAX_SCENE_MODELS` are drawn. */
+  models: SceneModel[];
+  /** Model edited by the crop gizmo. */
+  activeModelId: string | null;
   appearance: AppearanceSettings;
-  renderMode: RenderMode;
   helpers: HelperSettings;
   onFpsUpdate: (fps: number) => void;
   onResetControls: () => void;
+  onCropVolumeChange: (id: string, changes: Partial<CropVolume>) => void;
+  /** Per-point flags from `services/splatSelection.ts` for each fully loaded model. */
+  pointStates: PointStatesByModel;
+  selection: SelectionSettings;
+  onPointStatesChange: (states: PointStatesByModel) => void;
+  measure: MeasurementSettings;
+  registration: RegistrationSettings;
+  /** Clicks on the cloud pick points, for the measurement and registration tools. */
+  isPicking: boolean;
+  /** Called with the world-space position of the point clicked while picking, and its model. */
+  onPickPoint: (point: THREE.Vector3, modelId: string) => void;
+  onFinishMeasurement: () => void;
+  annotations: AnnotationSettings;
+  /** Called when the label of an annotation is clicked. */
+  onSelectAnnotation: (modelId: string, annotationId: string) => void;
+  navigation: NavigationSettings;
+  /** Called when a face of the view cube is clicked. */
+  onViewPreset: (view: ViewPreset) => void;
+  onProjectionChange: (projection: CameraProjection) => void;
+  lod: LodSettings;
+  /** Coloring of the models in colormap mode. */
+  colormap: ColormapSettings;
+  /** Field values at the ends of the colormap: the settings' range, or the data's when it has none. */
+  colormapRange: [number, number];
+  filters: SplatFilterSettings;
+  /** Outlier scores of the point data scored so far, from `useOutlierScores`. */
+  outlierScores: Map<PlyData, Float32Array>;
+  clipping: ClippingSettings;
+  onClipPlaneChange: (id: string, changes: Partial<ClipPlane>) => void;
+  quality: RenderQualitySettings;
+  /** Called when the number of splats drawn per frame changes; null while the level of detail is inactive. */
+  onDrawnCountChange?: (count: number | null) => void;
+  /** Called when the scene cannot be drawn in full quality, e.g. when its spherical harmonics do not fit on the GPU. */
+  onRenderWarning?: (message: string) => void;
+  /** Called when the user starts moving the camera. */
+  onCameraInteraction?: () => void;
+}
+
+/** Imperative camera access for bookmarks and camera paths. */
+export interface ViewerHandle {
+  /** The current viewpoint, or null before the scene is set up. */
+  getCameraPose: () => CameraPose | null;
+  /** Moves the camera to `pose` at once, ending any flight. */
+  setCameraPose: (pose: CameraPose) => void;
+  /** Flies the camera to `pose` over `duration` milliseconds. */
+  flyTo: (pose: CameraPose, duration?: number) => void;
+  /**
+   * Renders the scene from `pose` at `width` x `height` pixels, independently of the canvas size,
+   * in tiles when the image exceeds the GPU's render target size. The splats are sorted for that
+   * view before drawing, so every frame is complete. The returned canvas is reused by the next call.
+   */
+  renderOffscreen: (pose: CameraPose, width: number, height: number, options?: OffscreenRenderOptions) => HTMLCanvasElement;
+  /** Size of the canvas in CSS pixels. */
+  getViewportSize: () => { width: number; height: number };
+}
+
+export interface OffscreenRenderOptions {
+  /** Leave the background transparent instead of filling it with the background color. */
+  transparent?: boolean;
+}
+
+// Offscreen images are drawn in tiles of at most this size, which bounds GPU memory per pass
+const MAX_TILE_SIZE = 4096;
+// Browsers cap canvas area at about 16k x 16k pixels
+const MAX_OFFSCREEN_PIXELS = 16384 * 16384;
+
+// Double-click focus halves the distance to the clicked splat
+const FOCUS_DISTANCE_FACTOR = 0.5;
+const FOCUS_FLIGHT_DURATION = 600;
+
+interface CameraFlight {
+  from: CameraPose;
+  to: CameraPose;
+  start: number;
+  duration: number;
 }
 
+const EMPTY_CROP: CropSettings = { volumes: [], selectedVolumeId: null, enabled: false };
+
 // --- GLSL Shaders for Gaussian Splat Rendering ---
 
 const vertexShader = `
   // Attributes from BufferGeometry
   attribute vec3 color;
-  attribute float elevation;
+  attribute float a_opacity;
+  attribute float a_scalar; // Value of the file property shown by the colormap
+  attribute float a_outlier; // Outlier score, see services/outlierScores.ts
   attribute vec3 a_scale;
   attribute vec4 a_rotation; // xyzw
+  attribute float a_state; // Selection flags
+  attribute float a_model; // Index into the per-model uniforms
 
   // Uniforms passed from React/Three.js
   uniform float u_point_size;
   uniform float u_scale;
   uniform float u_splat_scale;
-  uniform vec3 u_crop_min;
-  uniform vec3 u_crop_max;
-  uniform bool u_crop_enabled;
-  uniform int u_render_mode; // 0: original, 1: colormap, 2: splat
+  uniform int u_antialiasing; // See SPLAT_ANTIALIASING_MODES
+  uniform float u_cutoff; // Extent of a splat in standard deviations
+  uniform float u_exposure; // Color multiplier, 2 to the exposure in stops
+  uniform float u_gamma;
+  uniform float u_saturation;
+  uniform mat4 u_model_matrix[${MAX_SCENE_MODELS}];
+  uniform int u_model_render_mode[${MAX_SCENE_MODELS}]; // 0: original, 1: colormap, 2: splat
+  uniform int u_model_visible[${MAX_SCENE_MODELS}];
+  uniform int u_model_has_scalar[${MAX_SCENE_MODELS}]; // Whether the model has the property in a_scalar
   uniform vec2 u_focal; // Camera focal length (fx, fy)
+  uniform float u_ortho_distance; // Depth whose scale an orthographic view shows, or 0 in perspective
+  uniform highp sampler2DArray u_sh_texture; // Higher-order SH coefficients, ${SH_TEXELS_PER_POINT} RGBA texels per point
+  uniform int u_sh_layer_rows; // Rows of the texture in each layer
+  uniform int u_sh_degree;
+  uniform int u_scalar_field; // See scalarFieldShaderIndex
+  uniform vec2 u_model_scalar_range[${MAX_SCENE_MODELS}]; // Values at the ends of the colormap, less scalarFieldOffset
+  uniform vec4 u_scalar_plane; // Normal and constant of the plane for distances
+  uniform sampler2D u_colormap;
 
   // Varyings passed to Fragment Shader
   varying vec3 v_color;
+  varying float v_opacity;
   varying float v_discard;
+  varying float v_render_mode;
   varying vec2 v_conic;
   varying vec3 v_cov_a;
   varying vec3 v_cov_b;
-  varying float v_radius; // Pass splat radius to fragment shader
+  varying float v_radius; // Splat radius in pixels, up to the cutoff
+
+  ${CROP_SHADER_CHUNK}
+  ${SPLAT_FILTER_SHADER_CHUNK}
+  ${CLIP_SHADER_CHUNK}
+
+
+  // Value shown by the colormap, computed like sampleScalarField in services/scalarFields.ts
+  float scalarValue(vec3 world_pos, mat4 model_matrix) {
+    if (u_scalar_field == 1) return world_pos.x;
+    if (u_scalar_field == 2) return world_pos.y;
+    if (u_scalar_field == 3) return world_pos.z;
+    if (u_scalar_field == 4) return a_opacity;
+    if (u_scalar_field == 5) return max(a_scale.x, max(a_scale.y, a_scale.z)) * length(model_matrix[0].xyz);
+    if (u_scalar_field == 6) return distance(world_pos, cameraPosition);
+    if (u_scalar_field == 7) return dot(u_scalar_plane.xyz, world_pos) + u_scalar_plane.w;
+    return a_scalar;
+  }
+
+  // Exposure, saturation and gamma for the colors of the capture; colormaps are left as they are
+  vec3 gradeColor(vec3 c) {
+    c *= u_exposure;
+    c = mix(vec3(dot(c, vec3(0.2126, 0.7152, 0.0722))), c, u_saturation);
+    return pow(max(c, 0.0), vec3(1.0 / u_gamma));
+  }
 
+  // Spherical harmonic basis constants (degrees 1-3), as in the reference 3DGS rasterizer
+  const float SH_C1 = 0.4886025119029199;
+  const float SH_C2_0 = 1.0925484305920792;
+  const float SH_C2_1 = -1.0925484305920792;
+  const float SH_C2_2 = 0.31539156525252005;
+  const float SH_C2_3 = -1.0925484305920792;
+  const float SH_C2_4 = 0.5462742152960396;
+  const float SH_C3_0 = -0.5900435899266435;
+  const float SH_C3_1 = 2.890611442640554;
+  const float SH_C3_2 = -0.4570457994644658;
+  const float SH_C3_3 = 0.3731763325901154;
+  const float SH_C3_4 = -0.4570457994644658;
+  const float SH_C3_5 = 1.445305721320277;
+  const float SH_C3_6 = -0.5900435899266435;
 
-  // Viridis colormap function
-  vec3 viridis( float t ) {
-    vec3 c = vec3(t);
-    c.x = -3.916112 * c.x * c.x * c.x + 5.646949 * c.x * c.x + -1.385481 * c.x + 0.222733;
-    c.y = -2.253683 * c.y * c.y * c.y + 3.093823 * c.y * c.y + 0.117286 * c.y + 0.024924;
-    c.z = 2.875323 * c.z * c.z * c.z + -3.489865 * c.z * c.z + 1.297495 * c.z + 0.203291;
-    return c;
+  // View-dependent color contribution of SH degrees 1..u_sh_degree for a model-space view direction
+  vec3 evalShRest(vec3 dir) {
+    // Degree 1, 2 and 3 need 9, 24 and 45 floats, i.e. 3, 6 and 12 texels
+    int texelCount = u_sh_degree == 1 ? 3 : (u_sh_degree == 2 ? 6 : ${SH_TEXELS_PER_POINT});
+    float sh[${SH_TEXELS_PER_POINT * 4}];
+    int base = gl_VertexID * ${SH_TEXELS_PER_POINT};
+    for (int i = 0; i < ${SH_TEXELS_PER_POINT}; i++) {
+      if (i >= texelCount) break;
+      int t = base + i;
+      int row = t / ${SH_TEXTURE_WIDTH};
+      vec4 texel = texelFetch(u_sh_texture, ivec3(t % ${SH_TEXTURE_WIDTH}, row % u_sh_layer_rows, row / u_sh_layer_rows), 0);
+      sh[i * 4] = texel.x;
+      sh[i * 4 + 1] = texel.y;
+      sh[i * 4 + 2] = texel.z;
+      sh[i * 4 + 3] = texel.w;
+    }
+    #define SH(k) vec3(sh[3 * (k)], sh[3 * (k) + 1], sh[3 * (k) + 2])
+
+    float x = dir.x, y = dir.y, z = dir.z;
+    vec3 result = SH_C1 * (-y * SH(0) + z * SH(1) - x * SH(2));
+    if (u_sh_degree > 1) {
+      float xx = x * x, yy = y * y, zz = z * z;
+      result += SH_C2_0 * x * y * SH(3) +
+                SH_C2_1 * y * z * SH(4) +
+                SH_C2_2 * (2.0 * zz - xx - yy) * SH(5) +
+                SH_C2_3 * x * z * SH(6) +
+                SH_C2_4 * (xx - yy) * SH(7);
+      if (u_sh_degree > 2) {
+        result += SH_C3_0 * y * (3.0 * xx - yy) * SH(8) +
+                  SH_C3_1 * x * y * z * SH(9) +
+                  SH_C3_2 * y * (4.0 * zz - xx - yy) * SH(10) +
+                  SH_C3_3 * z * (2.0 * zz - 3.0 * xx - 3.0 * yy) * SH(11) +
+                  SH_C3_4 * x * (4.0 * zz - xx - yy) * SH(12) +
+                  SH_C3_5 * z * (xx - yy) * SH(13) +
+                  SH_C3_6 * x * (xx - 3.0 * yy) * SH(14);
+      }
+    }
+    #undef SH
+    return result;
   }
 
   void main() {
     v_discard = 0.0;
-    // Cropping
-    if (u_crop_enabled) {
-      if (position.x < u_crop_min.x || position.x > u_crop_max.x ||
-          position.y < u_crop_min.y || position.y > u_crop_max.y ||
-          position.z < u_crop_min.z || position.z > u_crop_max.z) {
-        v_discard = 1.0;
-      }
+    int model = int(a_model + 0.5);
+    int render_mode = u_model_render_mode[model];
+    v_render_mode = float(render_mode);
+    mat4 model_matrix = u_model_matrix[model];
+    mat4 model_view = viewMatrix * model_matrix;
+    if (u_model_visible[model] == 0) {
+      v_discard = 1.0;
+    }
+    // Cropping, quality filters and clipping planes
+    if (isCropped(position, model) || isFiltered(a_opacity, a_scale, a_outlier, model_matrix) || isClipped((model_matrix * vec4(position, 1.0)).xyz)) {
+      v_discard = 1.0;
+    }
+    int state = int(a_state + 0.5);
+    if ((state & ${POINT_HIDDEN | POINT_DELETED}) != 0) {
+      v_discard = 1.0;
     }
 
     // Color
-    if (u_render_mode == 0 || u_render_mode == 2) { // Original or Splat
+    if (render_mode == 0 || render_mode == 2) { // Original or Splat
       v_color = color;
+    } else if (u_scalar_field == 0 && u_model_has_scalar[model] == 0) {
+      v_color = vec3(0.5); // Colormap of a property the model does not have
     } else { // Colormap
-      v_color = viridis(elevation);
+      float value = scalarValue((model_matrix * vec4(position, 1.0)).xyz, model_matrix);
+      vec2 range = u_model_scalar_range[model];
+      float span = range.y - range.x;
+      float t = span != 0.0 ? (value - range.x) / span : 0.5;
+      v_color = texture2D(u_colormap, vec2(clamp(t, 0.0, 1.0), 0.5)).rgb;
+    }
+    if (render_mode == 2 && u_sh_degree > 0) {
+      // Direction from the camera to the splat, expressed in model space; all rays are parallel in an orthographic view
+      vec3 world_pos = (model_matrix * vec4(position, 1.0)).xyz;
+      vec3 view_dir = u_ortho_distance > 0.0 ? -vec3(viewMatrix[0][2], viewMatrix[1][2], viewMatrix[2][2]) : world_pos - cameraPosition;
+      vec3 dir = normalize(transpose(mat3(model_matrix)) * view_dir);
+      v_color = max(color + evalShRest(dir), 0.0);
     }
+    if (render_mode == 0 || render_mode == 2) {
+      v_color = gradeColor(v_color);
+    }
+    if ((state & ${POINT_SELECTED}) != 0) {
+      v_color = mix(v_color, vec3(1.0, 0.85, 0.1), 0.6);
+    }
+    v_opacity = a_opacity;
     
-    vec4 cam_pos = modelViewMatrix * vec4(position, 1.0);
+    vec4 cam_pos = model_view * vec4(position, 1.0);
     vec4 pos_hom = projectionMatrix * cam_pos;
     float P = 1.0 / pos_hom.w; // Perspective factor
+    // An orthographic view scales every splat as the perspective view does at one depth
+    float depth = u_ortho_distance > 0.0 ? -u_ortho_distance : cam_pos.z;
     
-    if (u_render_mode == 2) { // Advanced Splat rendering
+    if (render_mode == 2) { // Advanced Splat rendering
         // Normalize quaternion
         vec4 q = normalize(vec4(a_rotation.yzw, a_rotation.x)); // convert from xyzw to wxyz for math
         
@@ -104,31 +334,41 @@ const vertexShader = `
             -cam_pos.x / cam_pos.z, -cam_pos.y / cam_pos.z, 0.0
         );
         mat3 J = mat3(
-            u_focal.x / cam_pos.z, 0.0, 0.0,
-            0.0, u_focal.y / cam_pos.z, 0.0,
+            u_focal.x / depth, 0.0, 0.0,
+            0.0, u_focal.y / depth, 0.0,
             0.0, 0.0, 0.0
         );
-        mat3 W = transpose(mat3(modelViewMatrix));
+        mat3 W = transpose(mat3(model_view));
         
         // 2D projected covariance
         mat3 cov = transpose(J * W * V * transpose(W) * transpose(J));
         
-        // Calculate point size from eigenvalues of projected covariance
+        // Low-pass filter: widen every splat so that none is thinner than about a pixel, as in the
+        // reference rasterizer. Mip-Splatting also scales the opacity by the ratio of the areas, so
+        // small splats keep their brightness instead of growing into blobs
+        float d_raw = cov[0][0] * cov[1][1] - cov[0][1] * cov[0][1];
+        if (u_antialiasing > 0) {
+          cov[0][0] += ${LOW_PASS_VARIANCE};
+          cov[1][1] += ${LOW_PASS_VARIANCE};
+        }
+
+        // Calculate point size from the larger eigenvalue of the projected covariance
         float d = cov[0][0] * cov[1][1] - cov[0][1] * cov[0][1];
         if (d <= 0.0) { v_discard = 1.0; }
+        if (u_antialiasing == 2) {
+          v_opacity *= sqrt(max(d_raw, 0.0) / max(d, 1e-12));
+        }
         float mid = 0.5 * (cov[0][0] + cov[1][1]);
-        float lambda1 = mid + sqrt(max(0.01, mid*mid - d));
-        float lambda2 = mid - sqrt(max(0.01, mid*mid - d));
-        float radius = 3.0 * sqrt(max(lambda1, lambda2));
+        float lambda1 = mid + sqrt(max(0.0, mid * mid - d));
 
-        v_radius = radius * u_splat_scale;
-        gl_PointSize = v_radius;
+        v_radius = u_cutoff * sqrt(lambda1) * u_splat_scale;
+        gl_PointSize = 2.0 * v_radius;
         
         v_cov_a = vec3(cov[0][0], cov[0][1], cov[1][1]);
         v_cov_b = vec3(cam_pos.z, d, 0.0);
 
     } else { // Simple point rendering
-        gl_PointSize = u_point_size * (200.0 / -cam_pos.z);
+        gl_PointSize = u_point_size * (200.0 / -depth);
     }
     
     gl_Position = pos_hom;
@@ -137,10 +377,13 @@ const vertexShader = `
 
 const fragmentShader = `
   uniform float u_opacity;
-  uniform int u_render_mode;
+  uniform float u_cutoff;
+  uniform bool u_premultiplied; // Whether the blending expects color times alpha
 
   varying vec3 v_color;
+  varying float v_opacity;
   varying float v_discard;
+  varying float v_render_mode;
   varying vec3 v_cov_a;
   varying vec3 v_cov_b;
   varying float v_radius;
@@ -152,8 +395,8 @@ const fragmentShader = `
     
     vec2 cxy = 2.0 * gl_PointCoord - 1.0;
     
-    if (u_render_mode == 2) { // Splat
-      vec2 scaled_cxy = cxy * (v_radius / 2.0);
+    if (int(v_render_mode + 0.5) == 2) { // Splat
+      vec2 scaled_cxy = cxy * v_radius;
 
       float det = v_cov_b.y;
       if (det <= 0.0) { discard; }
@@ -163,46 +406,136 @@ const fragmentShader = `
       
       // The "cube" artifact comes from the square shape of gl_PointCoord.
       // By discarding fragments far from the splat's center, we clip 
-      // the corners of the point sprite, which fixes the artifact. A value
-      // of 4.0 corresponds to a 2-sigma cutoff.
-      if (D > 4.0) {
+      // the corners of the point sprite, which fixes the artifact. D is the
+      // squared distance in standard deviations.
+      if (D > u_cutoff * u_cutoff) {
         discard;
       }
       
-      float alpha = u_opacity * exp(-0.5 * D);
-      gl_FragColor = vec4(v_color, alpha);
+      float alpha = u_opacity * v_opacity * exp(-0.5 * D);
+      gl_FragColor = vec4(u_premultiplied ? v_color * alpha : v_color, alpha);
 
     } else { // Simple point
       float r_squared = dot(cxy, cxy);
       if (r_squared > 1.0) {
         discard;
       }
-      float alpha = u_opacity * exp(-4.0 * r_squared);
-      gl_FragColor = vec4(v_color, alpha);
+      float alpha = u_opacity * v_opacity * exp(-4.0 * r_squared);
+      gl_FragColor = vec4(u_premultiplied ? v_color * alpha : v_color, alpha);
     }
   }
 `;
 
-export const Viewer: React.FC<ViewerProps> = ({ plyData, transformations, crop, appearance, renderMode, helpers, onFpsUpdate, onResetControls }) => {
+export const Viewer = forwardRef<ViewerHandle, ViewerProps>(({ models, activeModelId, appearance, helpers, onFpsUpdate, onResetControls, onCropVolumeChange, pointStates, selection, onPointStatesChange, measure, registration, isPicking, onPickPoint, onFinishMeasurement, annotations, onSelectAnnotation, navigation, onViewPreset, onProjectionChange, lod, colormap, colormapRange, filters, outlierScores, clipping, onClipPlaneChange, quality, onDrawnCountChange, onRenderWarning, onCameraInteraction }, ref) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
-  const controlsRef = useRef<OrbitControls | null>(null);
+  const controlsRef = useRef<CameraControls | null>(null);
+  const controlsModeRef = useRef<NavigationMode | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const pointsRef = useRef<THREE.Points | null>(null);
   const axesHelperRef = useRef<THREE.AxesHelper | null>(null);
   const gridHelperRef = useRef<THREE.GridHelper | null>(null);
+  const sorterRef = useRef<SplatSorter | null>(null);
+  const shTextureRef = useRef<THREE.DataArrayTexture | null>(null);
+  const colormapTextureRef = useRef<{ name: ColormapSettings['colormap']; texture: THREE.DataTexture } | null>(null);
+  const scalarAttributeRef = useRef<THREE.BufferAttribute | null>(null);
+  const outlierAttributeRef = useRef<THREE.BufferAttribute | null>(null);
+  const stateAttributeRef = useRef<THREE.BufferAttribute | null>(null);
+  const offsetsRef = useRef<number[]>([]);
+  const sceneBuffersRef = useRef<SceneBuffers | null>(null);
+  const offscreenTargetRef = useRef<THREE.WebGLRenderTarget | null>(null);
+  const offscreenCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const modelMatricesRef = useRef<THREE.Matrix4[]>([]);
+  const modelVisibleRef = useRef<boolean[]>([]);
+  // Octrees of the models in the current geometry, whose proxies follow the original points
+  const sceneOctreesRef = useRef<(SplatOctree | null)[]>([]);
+  const lodSelectionRef = useRef<{ selection: LodSelection; drawList: Uint32Array } | null>(null);
+  const drawnCountRef = useRef<number | null>(null);
+  // Models the camera has been framed on; new ones reframe it once their first points arrive
+  const framedModelIdsRef = useRef(new Set<string>());
+  const modelsRef = useRef(models);
+  modelsRef.current = models;
+  const [gizmoMode, setGizmoMode] = useState<GizmoMode>('translate');
+  const flightRef = useRef<CameraFlight | null>(null);
+  const lodRef = useRef(lod);
+  lodRef.current = lod;
+  const onDrawnCountChangeRef = useRef(onDrawnCountChange);
+  onDrawnCountChangeRef.current = onDrawnCountChange;
+  const onRenderWarningRef = useRef(onRenderWarning);
+  onRenderWarningRef.current = onRenderWarning;
+  const onCameraInteractionRef = useRef(onCameraInteraction);
+  onCameraInteractionRef.current = onCameraInteraction;
+  const navigationModeRef = useRef(navigation.mode);
+  navigationModeRef.current = navigation.mode;
+  const projectionRef = useRef(navigation.projection);
+  projectionRef.current = navigation.projection;
+  // Stands in for the camera where rays are cast while the view is orthographic
+  const orthographicCamera = useMemo(() => new THREE.OrthographicCamera(), []);
   
   const frameCount = useRef(0);
   const lastFpsTime = useRef(performance.now());
+
+  // Models drawn by the shared geometry, in the order of the shader's model index
+  const drawnModels = drawnSceneModels(models);
+  const activeModel = models.find(m => m.id === activeModelId) ?? null;
+
+  // The buffers are only rebuilt when the point data changes, not on every settings edit
+  const sceneDataRef = useRef<PlyData[]>([]);
+  const drawnData = drawnModels.map(m => m.plyData!);
+  if (drawnData.length !== sceneDataRef.current.length || drawnData.some((d, i) => d !== sceneDataRef.current[i])) {
+    sceneDataRef.current = drawnData;
+  }
+  const sceneData = sceneDataRef.current;
+  const octrees = useSplatOctrees(sceneData, lod.enabled);
   
+  /**
+   * Points to sort and draw for the current view under the splat budget, or undefined to draw every
+   * original point while no model has its octree. The draw list is only rebuilt when the chosen
+   * octree nodes change.
+   */
+  const selectDrawList = useCallback((camera: THREE.PerspectiveCamera, viewportHeight: number, orthographicDistance: number): Uint32Array | undefined => {
+    const buffers = sceneBuffersRef.current;
+    const octrees = sceneOctreesRef.current;
+    let drawList: Uint32Array | undefined;
+    if (buffers && lodRef.current.enabled && octrees.some(o => o)) {
+      const lodModels: LodModel[] = octrees.map((octree, m) => ({
+        octree,
+        matrix: modelMatricesRef.current[m] ?? new THREE.Matrix4(),
+        visible: modelVisibleRef.current[m] ?? true,
+        pointOffset: buffers.offsets[m],
+        pointCount: (buffers.offsets[m + 1] ?? buffers.originalPointCount) - buffers.offsets[m],
+        proxyOffset: buffers.proxyOffsets[m],
+      }));
+      const selection = selectLodNodes(lodModels, camera, viewportHeight, lodRef.current.splatBudget, orthographicDistance);
+      const last = lodSelectionRef.current;
+      if (last && sameLodSelection(last.selection, selection)) {
+        drawList = last.drawList;
+      } else {
+        drawList = buildDrawList(lodModels, selection);
+        lodSelectionRef.current = { selection, drawList };
+      }
+    } else {
+      lodSelectionRef.current = null;
+    }
+
+    const drawnCount = lodSelectionRef.current?.selection.splatCount ?? null;
+    if (drawnCount !== drawnCountRef.current) {
+      drawnCountRef.current = drawnCount;
+      onDrawnCountChangeRef.current?.(drawnCount);
+    }
+    return drawList;
+  }, []);
+
   const resetCamera = useCallback(() => {
-    if (controlsRef.current && plyData && cameraRef.current) {
+    const bounds = sceneWorldBounds(modelsRef.current);
+    if (controlsRef.current && bounds && cameraRef.current) {
+      flightRef.current = null;
       controlsRef.current.reset();
       const center = new THREE.Vector3();
-      plyData.boundingBox.getCenter(center);
+      bounds.getCenter(center);
       const size = new THREE.Vector3();
-      plyData.boundingBox.getSize(size);
+      bounds.getSize(size);
       const maxDim = Math.max(size.x, size.y, size.z);
       const fov = cameraRef.current!.fov * (Math.PI / 180);
       let cameraZ = Math.abs(maxDim / 2 / Math.tan(fov / 2));
@@ -213,7 +546,170 @@ export const Viewer: React.FC<ViewerProps> = ({ plyData, transformations, crop,
       controlsRef.current.target.copy(center);
       controlsRef.current.update();
     }
-  }, [plyData]);
+  }, []);
+
+  const getCameraPose = useCallback((): CameraPose | null => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!camera || !controls) return null;
+    return { position: camera.position.clone(), target: controls.target.clone(), fov: camera.fov };
+  }, []);
+
+  const applyCameraPose = useCallback((pose: CameraPose) => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!camera || !controls) return;
+    camera.position.copy(pose.position);
+    controls.target.copy(pose.target);
+    if (camera.fov !== pose.fov) {
+      camera.fov = pose.fov;
+      camera.updateProjectionMatrix();
+    }
+    controls.update();
+  }, []);
+
+  /** Replaces the camera controls with those of `mode`, keeping the current view. */
+  const installControls = useCallback((mode: NavigationMode) => {
+    const camera = cameraRef.current;
+    const renderer = rendererRef.current;
+    if (!camera || !renderer) return;
+    const previous = controlsRef.current;
+    const controls = createCameraControls(mode, camera, renderer.domElement);
+    if (previous) {
+      controls.target.copy(previous.target);
+      previous.dispose();
+    }
+    // Grabbing the camera ends a flight
+    controls.addEventListener('start', () => {
+      flightRef.current = null;
+      onCameraInteractionRef.current?.();
+    });
+    controls.update();
+    controlsRef.current = controls;
+    controlsModeRef.current = mode;
+  }, []);
+
+  const renderOffscreen = useCallback((pose: CameraPose, width: number, height: number, options: OffscreenRenderOptions = {}): HTMLCanvasElement => {
+    const renderer = rendererRef.current;
+    const scene = sceneRef.current;
+    const camera = cameraRef.current;
+    if (!renderer || !scene || !camera) throw new Error('The viewer is not ready.');
+    if (width * height > MAX_OFFSCREEN_PIXELS) {
+      throw new Error(`Images can have at most ${Math.round(MAX_OFFSCREEN_PIXELS / 1e6)} megapixels.`);
+    }
+
+    const frameCamera = new THREE.PerspectiveCamera(pose.fov, width / height, camera.near, camera.far);
+    frameCamera.up.copy(camera.up);
+    frameCamera.position.copy(pose.position);
+    frameCamera.lookAt(pose.target);
+    frameCamera.updateMatrixWorld();
+    const orthographicDistance = projectionRef.current === 'orthographic' ? Math.max(pose.position.distanceTo(pose.target), camera.near) : 0;
+    applyCameraProjection(frameCamera, projectionRef.current, orthographicDistance);
+
+    const points = pointsRef.current;
+    const buffers = sceneBuffersRef.current;
+    const uniforms = points ? (points.material as THREE.ShaderMaterial).uniforms : null;
+    const pointSize = uniforms?.u_point_size.value;
+    if (points && buffers && uniforms) {
+      const order = points.geometry.index!;
+      const viewMatrices = new Float32Array(modelMatricesRef.current.length * 16);
+      const modelView = new THREE.Matrix4();
+      modelMatricesRef.current.forEach((m, i) => modelView.multiplyMatrices(frameCamera.matrixWorldInverse, m).toArray(viewMatrices, i * 16));
+      // Offscreen images are drawn at full detail, without the level-of-detail proxies
+      sortSplatsByDepth(buffers.positions, buffers.originalPointCount, viewMatrices, order.array as Uint32Array, buffers.modelIndices);
+      order.needsUpdate = true;
+      points.geometry.setDrawRange(0, buffers.originalPointCount);
+      // The live view needs its own order back
+      sorterRef.current?.invalidate();
+
+      // Focal length and point sizes are in pixels of the full image, also when it is drawn in tiles
+      const focalY = height / (2.0 * Math.tan(pose.fov * Math.PI / 360.0));
+      uniforms.u_focal.value.set(focalY * frameCamera.aspect, focalY);
+      uniforms.u_ortho_distance.value = orthographicDistance;
+      // Keep points the same fraction of the frame as on screen
+      uniforms.u_point_size.value = pointSize * height / renderer.getDrawingBufferSize(new THREE.Vector2()).y;
+    }
+
+    const canvas = offscreenCanvasRef.current ?? document.createElement('canvas');
+    offscreenCanvasRef.current = canvas;
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d')!;
+
+    // Images larger than a render target are drawn tile by tile with an offset projection
+    const tileSize = Math.min(renderer.capabilities.maxTextureSize, MAX_TILE_SIZE);
+    const tiled = width > tileSize || height > tileSize;
+    const clearColor = renderer.getClearColor(new THREE.Color());
+    const clearAlpha = renderer.getClearAlpha();
+    if (options.transparent) renderer.setClearColor(clearColor, 0);
+    try {
+      for (let y = 0; y < height; y += tileSize) {
+        for (let x = 0; x < width; x += tileSize) {
+          const tileWidth = Math.min(tileSize, width - x);
+          const tileHeight = Math.min(tileSize, height - y);
+          if (tiled) {
+            frameCamera.setViewOffset(width, height, x, y, tileWidth, tileHeight);
+            applyCameraProjection(frameCamera, projectionRef.current, orthographicDistance);
+          }
+
+          let target = offscreenTargetRef.current;
+          if (!target || target.width !== tileWidth || target.height !== tileHeight) {
+            target?.dispose();
+            target = new THREE.WebGLRenderTarget(tileWidth, tileHeight, { samples: 4 });
+            offscreenTargetRef.current = target;
+          }
+          renderer.setRenderTarget(target);
+          renderer.render(scene, frameCamera);
+          const pixels = new Uint8Array(tileWidth * tileHeight * 4);
+          renderer.readRenderTargetPixels(target, 0, 0, tileWidth, tileHeight, pixels);
+
+          if (options.transparent) {
+            // Blending over a transparent clear leaves colors multiplied by alpha; PNG wants them straight
+            for (let i = 0; i < pixels.length; i += 4) {
+              const alpha = pixels[i + 3];
+              if (alpha === 0 || alpha === 255) continue;
+              for (let c = 0; c < 3; c++) pixels[i + c] = Math.min(255, Math.round(pixels[i + c] * 255 / alpha));
+            }
+          }
+
+          const image = context.createImageData(tileWidth, tileHeight);
+          // WebGL rows start at the bottom
+          const rowSize = tileWidth * 4;
+          for (let row = 0; row < tileHeight; row++) {
+            image.data.set(pixels.subarray((tileHeight - 1 - row) * rowSize, (tileHeight - row) * rowSize), row * rowSize);
+          }
+          context.putImageData(image, x, y);
+        }
+      }
+    } finally {
+      renderer.setRenderTarget(null);
+      renderer.setClearColor(clearColor, clearAlpha);
+      // The render loop restores the focal length and orthographic distance on its next frame
+      if (uniforms) uniforms.u_point_size.value = pointSize;
+    }
+    return canvas;
+  }, []);
+
+  /** Size of the canvas in CSS pixels. */
+  const getViewportSize = useCallback(() => ({
+    width: mountRef.current?.clientWidth ?? 0,
+    height: mountRef.current?.clientHeight ?? 0,
+  }), []);
+
+  useImperativeHandle(ref, () => ({
+    getCameraPose,
+    setCameraPose: (pose) => {
+      flightRef.current = null;
+      applyCameraPose(pose);
+    },
+    flyTo: (pose, duration = 1000) => {
+      const from = getCameraPose();
+      if (!from) return;
+      flightRef.current = { from, to: cloneCameraPose(pose), start: performance.now(), duration };
+    },
+    renderOffscreen,
+    getViewportSize,
+  }), [getCameraPose, applyCameraPose, renderOffscreen, getViewportSize]);
 
   // Initialize Scene
   useEffect(() => {
@@ -233,10 +729,7 @@ export const Viewer: React.FC<ViewerProps> = ({ plyData, transformations, crop,
     rendererRef.current = renderer;
     mount.appendChild(renderer.domElement);
 
-    const controls = new OrbitControls(camera, renderer.domElement);
-    controls.enableDamping = true;
-    controls.dampingFactor = 0.1;
-    controlsRef.current = controls;
+    installControls(navigationModeRef.current);
 
     // --- Helpers ---
     const axesHelper = new THREE.AxesHelper(1);
@@ -250,7 +743,36 @@ export const Viewer: React.FC<ViewerProps> = ({ plyData, transformations, crop,
     let animationFrameId: number;
     const animate = () => {
       animationFrameId = requestAnimationFrame(animate);
-      controls.update();
+      const flight = flightRef.current;
+      if (flight) {
+        const t = Math.min(1, (performance.now() - flight.start) / flight.duration);
+        applyCameraPose(interpolateCameraPose(flight.from, flight.to, easeInOut(t)));
+        if (t >= 1) flightRef.current = null;
+      }
+      controlsRef.current?.update();
+
+      // An orthographic view shows the scale of the orbit center, so orbit zoom still zooms it
+      const orthographic = projectionRef.current === 'orthographic';
+      const orthographicDistance = orthographic && controlsRef.current ? Math.max(camera.position.distanceTo(controlsRef.current.target), camera.near) : 0;
+      applyCameraProjection(camera, projectionRef.current, orthographicDistance);
+      if (orthographic) syncOrthographicCamera(orthographicCamera, camera);
+
+      // The splat footprint depends on the focal length, which changes with the FOV and the canvas height
+      if (pointsRef.current) {
+        const fovY = camera.fov * Math.PI / 180.0;
+        const focalY = mount.clientHeight / (2.0 * Math.tan(fovY / 2.0));
+        const uniforms = (pointsRef.current.material as THREE.ShaderMaterial).uniforms;
+        uniforms.u_focal.value.set(focalY * camera.aspect, focalY);
+        uniforms.u_ortho_distance.value = orthographicDistance;
+      }
+
+      // Keep the splats of all models ordered back-to-front for the current view
+      if (sorterRef.current) {
+        camera.updateMatrixWorld();
+        const drawList = selectDrawList(camera, mount.clientHeight, orthographicDistance);
+        sorterRef.current.update(camera.matrixWorldInverse.elements, modelMatricesRef.current.map(m => m.elements), drawList);
+      }
+
       renderer.render(scene, camera);
       
       frameCount.current++;
@@ -270,15 +792,7 @@ export const Viewer: React.FC<ViewerProps> = ({ plyData, transformations, crop,
         cam.aspect = mount.clientWidth / mount.clientHeight;
         cam.updateProjectionMatrix();
         rend.setSize(mount.clientWidth, mount.clientHeight);
-        
-        // Update focal length uniform on resize
-        if (pointsRef.current) {
-             const material = pointsRef.current.material as THREE.ShaderMaterial;
-             const fov_y = cam.fov * Math.PI / 180.0;
-             const focal_y = mount.clientHeight / (2.0 * Math.tan(fov_y / 2.0));
-             const focal_x = focal_y * cam.aspect;
-             material.uniforms.u_focal.value = new THREE.Vector2(focal_x, focal_y);
-        }
+        controlsRef.current?.handleResize?.();
       }
     };
     window.addEventListener('resize', handleResize);
@@ -286,108 +800,507 @@ export const Viewer: React.FC<ViewerProps> = ({ plyData, transformations, crop,
     return () => {
       window.removeEventListener('resize', handleResize);
       cancelAnimationFrame(animationFrameId);
+      sorterRef.current?.dispose();
+      sorterRef.current = null;
       if (mount.contains(renderer.domElement)) {
         mount.removeChild(renderer.domElement);
       }
+      offscreenTargetRef.current?.dispose();
+      offscreenTargetRef.current = null;
+      colormapTextureRef.current?.texture.dispose();
+      colormapTextureRef.current = null;
       renderer.dispose();
-      controls.dispose();
+      controlsRef.current?.dispose();
+      controlsRef.current = null;
+      controlsModeRef.current = null;
     };
-  }, [onFpsUpdate]);
+  }, [onFpsUpdate, applyCameraPose, installControls, selectDrawList, orthographicCamera]);
+
+  useEffect(() => {
+    if (controlsModeRef.current && controlsModeRef.current !== navigation.mode) installControls(navigation.mode);
+  }, [navigation.mode, installControls]);
+
+  // Fly speed follows the scene size, so that the same setting suits rooms and landscapes
+  useEffect(() => {
+    const controls = controlsRef.current;
+    if (!(controls instanceof FlyControls)) return;
+    const bounds = sceneWorldBounds(models);
+    const sceneSize = bounds ? bounds.getSize(new THREE.Vector3()).length() : 10;
+    controls.movementSpeed = navigation.flySpeed * Math.max(sceneSize, 1e-3);
+  }, [navigation, models]);
+
+  const activeModelMatrix = useMemo(
+    () => (activeModel ? modelMatrix(activeModel) : new THREE.Matrix4()),
+    [activeModel?.transformations, activeModel?.coordinateSystem, activeModel?.origin, activeModel?.plyData]
+  );
+  useCropGizmo({
+    sceneRef,
+    cameraRef,
+    rendererRef,
+    controlsRef,
+    orthographicCamera: navigation.projection === 'orthographic' ? orthographicCamera : null,
+    crop: activeModel?.plyData ? activeModel.crop : EMPTY_CROP,
+    modelMatrix: activeModelMatrix,
+    mode: gizmoMode,
+    onCropVolumeChange,
+  });
+
+  const sceneBounds = useMemo(() => sceneWorldBounds(models), [models]);
+  useClipPlaneGizmo({
+    sceneRef,
+    cameraRef,
+    rendererRef,
+    controlsRef,
+    orthographicCamera: navigation.projection === 'orthographic' ? orthographicCamera : null,
+    clipping,
+    size: sceneBounds ? sceneBounds.getSize(new THREE.Vector3()).length() : 10,
+    mode: gizmoMode === 'rotate' ? 'rotate' : 'translate',
+    onClipPlaneChange,
+  });
+
+  useMeasurementOverlay({
+    sceneRef,
+    cameraRef,
+    mountRef,
+    measure,
+  });
+
+  useRegistrationOverlay({
+    sceneRef,
+    registration,
+    models,
+  });
 
   // Update background and helpers
   useEffect(() => {
     if (rendererRef.current) rendererRef.current.setClearColor(appearance.backgroundColor, 1);
     if (axesHelperRef.current) axesHelperRef.current.visible = helpers.showAxes;
     if (gridHelperRef.current) gridHelperRef.current.visible = helpers.showGrid;
-    if (gridHelperRef.current && plyData) {
-        gridHelperRef.current.position.y = plyData.boundingBox.min.y;
+    const bounds = sceneWorldBounds(models);
+    if (gridHelperRef.current && bounds) {
+        gridHelperRef.current.position.y = bounds.min.y;
     }
-  }, [appearance.backgroundColor, helpers, plyData]);
+  }, [appearance.backgroundColor, helpers, models]);
 
-  // Handle new PLY data
+  // Handle new point data: all models share one geometry so their splats blend in a single sorted draw
   useEffect(() => {
     const scene = sceneRef.current;
-    if (!scene || !plyData) return;
+    if (!scene) return;
 
     if (pointsRef.current) {
       scene.remove(pointsRef.current);
       pointsRef.current.geometry.dispose();
       (pointsRef.current.material as THREE.ShaderMaterial).dispose();
+      pointsRef.current = null;
+    }
+    sorterRef.current?.dispose();
+    sorterRef.current = null;
+    stateAttributeRef.current = null;
+    scalarAttributeRef.current = null;
+    outlierAttributeRef.current = null;
+    sceneBuffersRef.current = null;
+    sceneOctreesRef.current = [];
+    lodSelectionRef.current = null;
+    shTextureRef.current?.dispose();
+    shTextureRef.current = null;
+
+    const drawnIds = new Set(drawnModels.map(m => m.id));
+    for (const id of framedModelIdsRef.current) {
+      if (!drawnIds.has(id)) framedModelIdsRef.current.delete(id);
+    }
+    if (sceneData.length === 0) return;
+
+    const buffers = combineSceneData(sceneData, octrees.map(o => o?.proxies ?? null));
+    offsetsRef.current = buffers.offsets;
+    sceneBuffersRef.current = buffers;
+    sceneOctreesRef.current = octrees;
+    if (buffers.shCoefficients) {
+      const renderer = rendererRef.current!;
+      const gl = renderer.getContext() as WebGL2RenderingContext;
+      shTextureRef.current = createShTexture(buffers.shCoefficients, renderer.capabilities.maxTextureSize, gl.getParameter(gl.MAX_ARRAY_TEXTURE_LAYERS));
+      if (!shTextureRef.current) {
+        onRenderWarningRef.current?.(`The ${buffers.pointCount.toLocaleString()} splats of the scene have more spherical harmonics than this GPU can hold; view-dependent color is turned off.`);
+      }
     }
 
     const geometry = new THREE.BufferGeometry();
-    geometry.setAttribute('position', new THREE.BufferAttribute(plyData.positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(plyData.colors, 3));
-    geometry.setAttribute('elevation', new THREE.BufferAttribute(plyData.elevations, 1));
-    if (plyData.scales && plyData.rotations) {
-        geometry.setAttribute('a_scale', new THREE.BufferAttribute(plyData.scales, 3));
-        geometry.setAttribute('a_rotation', new THREE.BufferAttribute(plyData.rotations, 4));
+    geometry.setAttribute('position', new THREE.BufferAttribute(buffers.positions, 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(buffers.colors, 3));
+    geometry.setAttribute('a_opacity', new THREE.BufferAttribute(buffers.opacities, 1));
+    geometry.setAttribute('a_model', new THREE.BufferAttribute(buffers.modelIndices, 1));
+    if (buffers.scales && buffers.rotations) {
+        geometry.setAttribute('a_scale', new THREE.BufferAttribute(buffers.scales, 3));
+        geometry.setAttribute('a_rotation', new THREE.BufferAttribute(buffers.rotations, 4));
     }
-    geometry.boundingBox = plyData.boundingBox.clone();
-    
+    const stateAttribute = new THREE.BufferAttribute(new Uint8Array(buffers.pointCount), 1);
+    stateAttribute.setUsage(THREE.DynamicDrawUsage);
+    geometry.setAttribute('a_state', stateAttribute);
+    stateAttributeRef.current = stateAttribute;
+
+    // Draw order is driven by an index buffer that the sort worker rewrites
+    const order = new Uint32Array(buffers.pointCount);
+    for (let i = 0; i < order.length; i++) order[i] = i;
+    const orderAttribute = new THREE.BufferAttribute(order, 1);
+    orderAttribute.setUsage(THREE.DynamicDrawUsage);
+    geometry.setIndex(orderAttribute);
+    // The proxies are only drawn once the level of detail picks them
+    geometry.setDrawRange(0, buffers.originalPointCount);
+
     const fov_y = cameraRef.current!.fov * Math.PI / 180.0;
     const focal_y = mountRef.current!.clientHeight / (2.0 * Math.tan(fov_y / 2.0));
     const focal_x = focal_y * cameraRef.current!.aspect;
 
+    // Per-model and crop uniforms are filled in by the uniform effect below
+    const noCrop = packCropUniforms([]);
+    const noFilter = packSplatFilterUniforms(DEFAULT_SPLAT_FILTERS);
+    const noClip = packClipUniforms({ enabled: false, planes: [], selectedPlaneId: null });
     const material = new THREE.ShaderMaterial({
       uniforms: {
         u_point_size: { value: appearance.pointSize },
         u_opacity: { value: appearance.opacity },
         u_splat_scale: { value: appearance.splatScale },
-        u_render_mode: { value: renderMode },
-        u_crop_min: { value: crop.min },
-        u_crop_max: { value: crop.max },
-        u_crop_enabled: { value: crop.enabled },
+        u_antialiasing: { value: SPLAT_ANTIALIASING_MODES[quality.antialiasing] },
+        u_cutoff: { value: quality.cutoff },
+        u_premultiplied: { value: quality.premultipliedAlpha },
+        u_exposure: { value: Math.pow(2, quality.exposure) },
+        u_gamma: { value: quality.gamma },
+        u_saturation: { value: quality.saturation },
+        u_model_matrix: { value: Array.from({ length: MAX_SCENE_MODELS }, () => new THREE.Matrix4()) },
+        u_model_render_mode: { value: new Array(MAX_SCENE_MODELS).fill(0) },
+        u_model_visible: { value: new Array(MAX_SCENE_MODELS).fill(0) },
+        u_crop_count: { value: noCrop.count },
+        u_crop_inverse: { value: noCrop.inverses },
+        u_crop_shape: { value: noCrop.shapes },
+        u_crop_mode: { value: noCrop.modes },
+        u_crop_model: { value: noCrop.models },
+        u_filter_min_opacity: { value: noFilter.minOpacity },
+        u_filter_size: { value: new THREE.Vector2(noFilter.minSize, noFilter.maxSize) },
+        u_filter_max_outlier: { value: noFilter.maxOutlier },
+        u_filter_point_count: { value: buffers.originalPointCount },
+        u_clip_count: { value: noClip.count },
+        u_clip_planes: { value: noClip.planes },
+        u_clip_slab: { value: noClip.slabs },
         u_focal: { value: new THREE.Vector2(focal_x, focal_y) },
+        u_ortho_distance: { value: 0 },
+        u_sh_texture: { value: shTextureRef.current },
+        u_sh_layer_rows: { value: shTextureRef.current?.image.height ?? 1 },
+        u_sh_degree: { value: shTextureRef.current ? Math.min(appearance.shDegree, buffers.shDegree) : 0 },
+        u_model_has_scalar: { value: new Array(MAX_SCENE_MODELS).fill(0) },
+        u_scalar_field: { value: 0 },
+        u_model_scalar_range: { value: Array.from({ length: MAX_SCENE_MODELS }, () => new THREE.Vector2(0, 1)) },
+        u_scalar_plane: { value: new THREE.Vector4(0, 1, 0, 0) },
+        u_colormap: { value: null },
       },
       vertexShader,
       fragmentShader,
       transparent: true,
       depthWrite: false,
       blending: THREE.NormalBlending,
+      premultipliedAlpha: quality.premultipliedAlpha,
     });
 
     const points = new THREE.Points(geometry, material);
+    // Positions are in per-model spaces, so the geometry's own bounds are meaningless
+    points.frustumCulled = false;
     pointsRef.current = points;
     scene.add(points);
+
+    sorterRef.current = createSplatSorter(buffers.positions, buffers.originalPointCount, (indices) => {
+      order.set(indices);
+      orderAttribute.needsUpdate = true;
+      geometry.setDrawRange(0, indices.length);
+    }, buffers.modelIndices);
     
-    resetCamera();
+    // Progressive loads refine a model in place; only frame the camera on a model's first data
+    const hasNewModel = drawnModels.some(m => !framedModelIdsRef.current.has(m.id));
+    drawnModels.forEach(m => framedModelIdsRef.current.add(m.id));
+    if (hasNewModel) resetCamera();
 
-  }, [plyData, resetCamera]);
+  }, [sceneData, octrees, resetCamera]);
+
+  // Upload the selection flags
+  useEffect(() => {
+    const attribute = stateAttributeRef.current;
+    if (!attribute) return;
+    const array = attribute.array as Uint8Array;
+    array.fill(0);
+    drawnModels.forEach((model, i) => {
+      const states = pointStates[model.id];
+      if (states && states.length === model.plyData!.pointCount) array.set(states, offsetsRef.current[i]);
+    });
+    attribute.needsUpdate = true;
+  }, [pointStates, sceneData]);
 
-  // Update shader uniforms and object transforms
+  // Update shader uniforms from the appearance and per-model settings
   useEffect(() => {
+    modelMatricesRef.current = drawnModels.map(m => modelMatrix(m));
+    modelVisibleRef.current = drawnModels.map(m => m.visible);
+
     const points = pointsRef.current;
     if (!points) return;
-    
-    points.position.copy(transformations.position);
-    points.rotation.copy(transformations.rotation);
-    points.scale.setScalar(transformations.scale);
 
     const material = points.material as THREE.ShaderMaterial;
     material.uniforms.u_point_size.value = appearance.pointSize;
     material.uniforms.u_opacity.value = appearance.opacity;
     material.uniforms.u_splat_scale.value = appearance.splatScale;
-    material.uniforms.u_render_mode.value = renderMode;
-    material.uniforms.u_crop_min.value = crop.min;
-    material.uniforms.u_crop_max.value = crop.max;
-    material.uniforms.u_crop_enabled.value = crop.enabled;
+    material.uniforms.u_antialiasing.value = SPLAT_ANTIALIASING_MODES[quality.antialiasing];
+    material.uniforms.u_cutoff.value = quality.cutoff;
+    // The blend function follows the material, so the shader output has to match it
+    material.uniforms.u_premultiplied.value = quality.premultipliedAlpha;
+    material.premultipliedAlpha = quality.premultipliedAlpha;
+    material.uniforms.u_exposure.value = Math.pow(2, quality.exposure);
+    material.uniforms.u_gamma.value = quality.gamma;
+    material.uniforms.u_saturation.value = quality.saturation;
+    drawnModels.forEach((model, i) => {
+      material.uniforms.u_model_matrix.value[i].copy(modelMatricesRef.current[i]);
+      material.uniforms.u_model_render_mode.value[i] = model.renderMode;
+      material.uniforms.u_model_visible.value[i] = model.visible ? 1 : 0;
+    });
+    const cropUniforms = packCropUniforms(drawnModels.map(m => m.crop));
+    material.uniforms.u_crop_count.value = cropUniforms.count;
+    material.uniforms.u_crop_inverse.value = cropUniforms.inverses;
+    material.uniforms.u_crop_shape.value = cropUniforms.shapes;
+    material.uniforms.u_crop_mode.value = cropUniforms.modes;
+    material.uniforms.u_crop_model.value = cropUniforms.models;
+    const filterUniforms = packSplatFilterUniforms(filters);
+    material.uniforms.u_filter_min_opacity.value = filterUniforms.minOpacity;
+    material.uniforms.u_filter_size.value.set(filterUniforms.minSize, filterUniforms.maxSize);
+    material.uniforms.u_filter_max_outlier.value = filterUniforms.maxOutlier;
+    const clipUniforms = packClipUniforms(clipping);
+    material.uniforms.u_clip_count.value = clipUniforms.count;
+    material.uniforms.u_clip_planes.value = clipUniforms.planes;
+    material.uniforms.u_clip_slab.value = clipUniforms.slabs;
+    const shDegree = Math.max(0, ...sceneData.map(d => d.shDegree));
+    material.uniforms.u_sh_degree.value = shTextureRef.current ? Math.min(appearance.shDegree, shDegree) : 0;
 
-  }, [transformations, appearance, renderMode, crop]);
+    const property = scalarFieldProperty(colormap.field);
+    drawnModels.forEach((model, i) => {
+      material.uniforms.u_model_has_scalar.value[i] = property && model.plyData!.scalarProperties?.[property] ? 1 : 0;
+      // Shifted here in double precision, as georeferenced values are too large for the shader's floats
+      const offset = scalarFieldOffset(model, colormap.field);
+      material.uniforms.u_model_scalar_range.value[i].set(colormapRange[0] - offset, colormapRange[1] - offset);
+    });
+    material.uniforms.u_scalar_field.value = scalarFieldShaderIndex(colormap.field);
+    material.uniforms.u_scalar_plane.value.set(colormap.plane.normal.x, colormap.plane.normal.y, colormap.plane.normal.z, colormap.plane.constant);
+    if (colormapTextureRef.current?.name !== colormap.colormap) {
+      colormapTextureRef.current?.texture.dispose();
+      colormapTextureRef.current = { name: colormap.colormap, texture: createColormapTexture(colormap.colormap) };
+    }
+    material.uniforms.u_colormap.value = colormapTextureRef.current.texture;
+
+  }, [models, appearance, sceneData, colormap, colormapRange, filters, clipping, quality]);
+
+  // Upload the file property shown by the colormap, averaged over the points below each proxy
+  useEffect(() => {
+    const geometry = pointsRef.current?.geometry;
+    const buffers = sceneBuffersRef.current;
+    const property = scalarFieldProperty(colormap.field);
+    if (!geometry || !buffers || !property) return;
+    // The attribute is kept once created, so switching fields does not leave buffers behind
+    let attribute = scalarAttributeRef.current;
+    if (!attribute) {
+      attribute = new THREE.BufferAttribute(new Float32Array(buffers.pointCount), 1);
+      geometry.setAttribute('a_scalar', attribute);
+      scalarAttributeRef.current = attribute;
+    }
+    const values = attribute.array as Float32Array;
+    values.fill(0);
+    sceneData.forEach((data, m) => {
+      const source = data.scalarProperties?.[property];
+      if (!source) return;
+      values.set(source.subarray(0, data.pointCount), buffers.offsets[m]);
+      const octree = sceneOctreesRef.current[m];
+      if (octree && buffers.proxyOffsets[m] >= 0) values.set(proxyScalarValues(octree, source), buffers.proxyOffsets[m]);
+    });
+    attribute.needsUpdate = true;
+  }, [colormap.field, sceneData, octrees]);
+
+  // Upload the outlier scores; proxies and models not scored yet get 0, which no threshold hides
+  useEffect(() => {
+    const geometry = pointsRef.current?.geometry;
+    const buffers = sceneBuffersRef.current;
+    if (!geometry || !buffers || outlierScores.size === 0) return;
+    let attribute = outlierAttributeRef.current;
+    if (!attribute) {
+      attribute = new THREE.BufferAttribute(new Float32Array(buffers.pointCount), 1);
+      geometry.setAttribute('a_outlier', attribute);
+      outlierAttributeRef.current = attribute;
+    }
+    const values = attribute.array as Float32Array;
+    values.fill(0);
+    sceneData.forEach((data, m) => {
+      const scores = outlierScores.get(data);
+      if (scores) values.set(scores.subarray(0, data.pointCount), buffers.offsets[m]);
+    });
+    attribute.needsUpdate = true;
+  }, [outlierScores, sceneData, octrees]);
+
+  /** Model-space test of the points the crop, the quality filters and the clipping planes keep, as drawn by the shader. */
+  const createVisibilityTester = (model: SceneModel) => {
+    const keep = createCropTester(drawnModels.map(m => m.crop), drawnModels.findIndex(m => m.id === model.id));
+    const data = model.plyData!;
+    const passes = createSplatFilterTester(data, filters, model.transformations.scale, outlierScores.get(data));
+    const unclipped = createClipTester(clipping, modelMatrix(model));
+    return (x: number, y: number, z: number, index: number) => passes(index) && keep(x, y, z) && unclipped(x, y, z);
+  };
   
+  /** Model-view-projection matrix of a model for the current camera. */
+  const getModelViewProjection = (camera: THREE.PerspectiveCamera, model: THREE.Matrix4) => {
+    camera.updateMatrixWorld();
+    return new THREE.Matrix4()
+      .multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse)
+      .multiply(model);
+  };
+
+  const handleSelectRegion = (region: ScreenRegion, op: SelectionOp) => {
+    const camera = cameraRef.current;
+    const mount = mountRef.current;
+    if (!camera || !mount) return;
+    const next: PointStatesByModel = { ...pointStates };
+    drawnModels.forEach(model => {
+      const states = pointStates[model.id];
+      if (!model.visible || !states) return;
+      next[model.id] = selectPointsInRegion(
+        model.plyData!.positions,
+        states,
+        getModelViewProjection(camera, modelMatrix(model)).elements,
+        { width: mount.clientWidth, height: mount.clientHeight },
+        region,
+        op,
+        createVisibilityTester(model)
+      );
+    });
+    onPointStatesChange(next);
+  };
+
+  // Latest point lookup for the canvas listeners below
+  const findPointRef = useRef<(x: number, y: number) => { point: THREE.Vector3; modelId: string } | null>(() => null);
+  findPointRef.current = (x, y) => {
+    const camera = cameraRef.current;
+    const mount = mountRef.current;
+    if (!camera || !mount) return null;
+    let best: PickResult | null = null;
+    let bestPoint: THREE.Vector3 | null = null;
+    let bestModelId = '';
+    for (const model of drawnModels) {
+      if (!model.visible) continue;
+      const data = model.plyData!;
+      const matrix = modelMatrix(model);
+      const pick = pickPoint(data.positions, data.pointCount, getModelViewProjection(camera, matrix).elements, {
+        x,
+        y,
+        viewport: { width: mount.clientWidth, height: mount.clientHeight },
+        radius: 8,
+        isVisible: createVisibilityTester(model),
+        pointStates: pointStates[model.id],
+      });
+      if (pick && (!best || pick.depth < best.depth)) {
+        best = pick;
+        bestPoint = new THREE.Vector3().fromArray(data.positions, pick.index * 3).applyMatrix4(matrix);
+        bestModelId = model.id;
+      }
+    }
+    return bestPoint ? { point: bestPoint, modelId: bestModelId } : null;
+  };
+  const onPickPointRef = useRef(onPickPoint);
+  onPickPointRef.current = onPickPoint;
+  const finishRef = useRef(onFinishMeasurement);
+  finishRef.current = onFinishMeasurement;
+
+  useAnnotationOverlay({
+    cameraRef,
+    mountRef,
+    models,
+    selectedId: annotations.selectedId,
+    onSelect: onSelectAnnotation,
+    findPointRef,
+  });
+
+  // Clicks (not drags, which orbit the camera) pick points
+  useEffect(() => {
+    const canvas = rendererRef.current?.domElement;
+    if (!canvas || !isPicking) return;
+    let down: { x: number; y: number } | null = null;
+    const handlePointerDown = (e: PointerEvent) => {
+      down = e.button === 0 ? { x: e.clientX, y: e.clientY } : null;
+    };
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!down || Math.hypot(e.clientX - down.x, e.clientY - down.y) > 4) return;
+      const rect = canvas.getBoundingClientRect();
+      const hit = findPointRef.current(e.clientX - rect.left, e.clientY - rect.top);
+      if (hit) onPickPointRef.current(hit.point, hit.modelId);
+    };
+    const handleDoubleClick = () => finishRef.current();
+    canvas.addEventListener('pointerdown', handlePointerDown);
+    canvas.addEventListener('pointerup', handlePointerUp);
+    canvas.addEventListener('dblclick', handleDoubleClick);
+    canvas.style.cursor = 'crosshair';
+    return () => {
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+      canvas.removeEventListener('pointerup', handlePointerUp);
+      canvas.removeEventListener('dblclick', handleDoubleClick);
+      canvas.style.cursor = '';
+    };
+  }, [isPicking]);
+
+  // Outside the picking tools, double-clicking a splat flies toward it and makes it the orbit center
+  useEffect(() => {
+    const canvas = rendererRef.current?.domElement;
+    if (!canvas || isPicking) return;
+    const handleDoubleClick = (e: MouseEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      const hit = findPointRef.current(e.clientX - rect.left, e.clientY - rect.top);
+      const from = getCameraPose();
+      if (!hit || !from) return;
+      onCameraInteractionRef.current?.();
+      flightRef.current = { from, to: focusCameraPose(from, hit.point, FOCUS_DISTANCE_FACTOR), start: performance.now(), duration: FOCUS_FLIGHT_DURATION };
+    };
+    canvas.addEventListener('dblclick', handleDoubleClick);
+    return () => canvas.removeEventListener('dblclick', handleDoubleClick);
+  }, [isPicking, getCameraPose]);
+
   const handleResetClick = () => {
-    resetCamera();
     onResetControls();
+    // Frame the scene once the reset transforms have been rendered
+    requestAnimationFrame(resetCamera);
   }
 
+  const activeCrop = activeModel?.crop;
+  const clipPlaneSelected = clipping.enabled && clipping.planes.some(p => p.id === clipping.selectedPlaneId);
+
   return (
     <div className="relative w-full h-full">
       <div ref={mountRef} className="w-full h-full" />
-      <div className="absolute top-4 right-4">
+      {Object.keys(pointStates).length > 0 && <SelectionOverlay selection={selection} onRegion={handleSelectRegion} />}
+      <div className="absolute top-4 right-4 flex space-x-2">
+        {clipPlaneSelected && !(activeCrop?.enabled && activeCrop.selectedVolumeId) && (
+          <>
+            <IconButton tooltip="Move Clipping Plane" onClick={() => setGizmoMode('translate')} active={gizmoMode !== 'rotate'}>
+                <MoveIcon />
+            </IconButton>
+            <IconButton tooltip="Rotate Clipping Plane" onClick={() => setGizmoMode('rotate')} active={gizmoMode === 'rotate'}>
+                <RotateIcon />
+            </IconButton>
+          </>
+        )}
+        {activeCrop?.enabled && activeCrop.selectedVolumeId && (
+          <>
+            <IconButton tooltip="Move Crop Volume" onClick={() => setGizmoMode('translate')} active={gizmoMode === 'translate'}>
+                <MoveIcon />
+            </IconButton>
+            <IconButton tooltip="Rotate Crop Volume" onClick={() => setGizmoMode('rotate')} active={gizmoMode === 'rotate'}>
+                <RotateIcon />
+            </IconButton>
+            <IconButton tooltip="Resize Crop Volume" onClick={() => setGizmoMode('scale')} active={gizmoMode === 'scale'}>
+                <ScaleIcon />
+            </IconButton>
+          </>
+        )}
         <IconButton tooltip="Reset View" onClick={handleResetClick}>
             <ResetIcon />
         </IconButton>
       </div>
+      <ViewCube cameraRef={cameraRef} projection={navigation.projection} onViewPreset={onViewPreset} onProjectionChange={onProjectionChange} />
     </div>
   );
-};
+});
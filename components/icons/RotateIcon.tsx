@@ -0,0 +1,18 @@
+import React from 'react';
+
+export const RotateIcon = () => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    className="h-5 w-5"
+    fill="none"
+    viewBox="0 0 24 24"
+    stroke="currentColor"
+    strokeWidth={2}
+  >
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      d="M4 12a8 8 0 0114.9-4M20 12a8 8 0 01-14.9 4M19 3v5h-5M5 21v-5h5"
+    />
+  </svg>
+);
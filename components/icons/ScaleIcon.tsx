@@ -0,0 +1,18 @@
+import React from 'react';
+
+export const ScaleIcon = () => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    className="h-5 w-5"
+    fill="none"
+    viewBox="0 0 24 24"
+    stroke="currentColor"
+    strokeWidth={2}
+  >
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      d="M4 14v6h6M4 20l7-7M20 10V4h-6M20 4l-7 7"
+    />
+  </svg>
+);
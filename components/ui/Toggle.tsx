@@ -0,0 +1,10 @@
+import React from 'react';
+
+export const Toggle: React.FC<{ label: string; checked: boolean; onChange: () => void; }> = ({ label, checked, onChange }) => (
+    <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-300">{label}</label>
+        <button onClick={onChange} className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${checked ? 'bg-cyan-500' : 'bg-gray-600'}`}>
+            <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${checked ? 'translate-x-6' : 'translate-x-1'}`}/>
+        </button>
+    </div>
+);
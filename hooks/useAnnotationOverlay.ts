@@ -0,0 +1,146 @@
+import { useEffect, useRef } from 'react';
+import type { MutableRefObject } from 'react';
+import * as THREE from 'three';
+import type { SceneModel } from '../types';
+import { annotationWorldPosition } from '../services/annotations';
+
+interface AnnotationOverlayOptions {
+  cameraRef: MutableRefObject<THREE.PerspectiveCamera | null>;
+  mountRef: MutableRefObject<HTMLDivElement | null>;
+  models: SceneModel[];
+  /** Annotation whose description is shown. */
+  selectedId: string | null;
+  /** Called when a label is clicked. */
+  onSelect: (modelId: string, annotationId: string) => void;
+  /** Front-most shown splat near a screen position, in CSS pixels; used to fade labels behind the cloud. */
+  findPointRef: MutableRefObject<(x: number, y: number) => { point: THREE.Vector3 } | null>;
+}
+
+interface Label {
+  element: HTMLDivElement;
+  /** World-space position the label is pinned to. */
+  anchor: THREE.Vector3;
+  occluded: boolean;
+}
+
+/** Opacity of labels with splats in front of them. */
+const OCCLUDED_OPACITY = 0.3;
+/** A splat hides a label when it is closer to the camera than this fraction of the label's distance. */
+const OCCLUSION_DEPTH_RATIO = 0.95;
+/** Occlusion is tested once the camera has rested this long, in milliseconds, as it scans the points. */
+const OCCLUSION_DELAY = 150;
+
+/**
+ * Shows the annotations of the visible models as HTML labels pinned to their points. Labels with
+ * splats in front of them fade out, and clicking a label selects its annotation.
+ * Must be called after the scene-initialising effect of the viewer.
+ */
+export const useAnnotationOverlay = ({ cameraRef, mountRef, models, selectedId, onSelect, findPointRef }: AnnotationOverlayOptions) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const labelsRef = useRef<Label[]>([]);
+  // Set when the labels or the camera changed since occlusion was last tested
+  const occlusionStaleRef = useRef(true);
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  useEffect(() => {
+    const camera = cameraRef.current;
+    const mount = mountRef.current;
+    if (!camera || !mount) return;
+
+    const container = document.createElement('div');
+    container.className = 'absolute inset-0 pointer-events-none overflow-hidden';
+    mount.appendChild(container);
+    containerRef.current = container;
+
+    const projected = new THREE.Vector3();
+    const lastView = new THREE.Matrix4();
+    let lastMove = performance.now();
+    let frameId: number;
+    const updateLabels = () => {
+      frameId = requestAnimationFrame(updateLabels);
+      const width = mount.clientWidth;
+      const height = mount.clientHeight;
+      const now = performance.now();
+      if (!lastView.equals(camera.matrixWorld)) {
+        lastView.copy(camera.matrixWorld);
+        lastMove = now;
+        occlusionStaleRef.current = true;
+      }
+      const testOcclusion = occlusionStaleRef.current && now - lastMove > OCCLUSION_DELAY;
+      if (testOcclusion) occlusionStaleRef.current = false;
+
+      for (const label of labelsRef.current) {
+        projected.copy(label.anchor).project(camera);
+        const visible = projected.z > -1 && projected.z < 1 && Math.abs(projected.x) <= 1 && Math.abs(projected.y) <= 1;
+        label.element.style.display = visible ? 'flex' : 'none';
+        if (!visible) continue;
+        const x = (projected.x + 1) * width / 2;
+        const y = (1 - projected.y) * height / 2;
+        label.element.style.transform = `translate(${x}px, ${y}px) translate(-50%, calc(-100% + 4px))`;
+        if (testOcclusion) {
+          const hit = findPointRef.current(x, y);
+          const distance = label.anchor.distanceTo(camera.position);
+          label.occluded = !!hit && hit.point.distanceTo(camera.position) < distance * OCCLUSION_DEPTH_RATIO;
+          label.element.style.opacity = label.occluded ? String(OCCLUDED_OPACITY) : '1';
+        }
+      }
+    };
+    updateLabels();
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      container.remove();
+      containerRef.current = null;
+      labelsRef.current = [];
+    };
+  }, [cameraRef, mountRef, findPointRef]);
+
+  // Rebuild the labels whenever the annotations or the models carrying them change
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const previous = new Map(labelsRef.current.map(l => [l.element.dataset.id, l.occluded]));
+    container.replaceChildren();
+    labelsRef.current = [];
+
+    for (const model of models) {
+      if (!model.plyData || !model.visible) continue;
+      for (const annotation of model.annotations) {
+        const selected = annotation.id === selectedId;
+        const element = document.createElement('div');
+        element.className = 'absolute left-0 top-0 flex flex-col items-center transition-opacity duration-200';
+        element.dataset.id = annotation.id;
+
+        const box = document.createElement('button');
+        box.className = `pointer-events-auto max-w-xs px-2 py-1 rounded text-left text-xs text-white bg-gray-900/85 border-l-4 ${selected ? 'ring-2 ring-white/70' : ''}`;
+        box.style.borderColor = annotation.color;
+        const title = document.createElement('div');
+        title.className = 'font-semibold whitespace-nowrap';
+        title.textContent = annotation.title || 'Untitled';
+        box.appendChild(title);
+        if (selected && annotation.description) {
+          const description = document.createElement('div');
+          description.className = 'mt-0.5 text-gray-300 whitespace-pre-wrap';
+          description.textContent = annotation.description;
+          box.appendChild(description);
+        }
+        box.addEventListener('click', () => onSelectRef.current(model.id, annotation.id));
+
+        const stem = document.createElement('div');
+        stem.className = 'w-px h-3';
+        stem.style.background = annotation.color;
+        const dot = document.createElement('div');
+        dot.className = 'w-2 h-2 rounded-full border border-white';
+        dot.style.background = annotation.color;
+        element.append(box, stem, dot);
+
+        const occluded = previous.get(annotation.id) ?? false;
+        element.style.opacity = occluded ? String(OCCLUDED_OPACITY) : '1';
+        container.appendChild(element);
+        labelsRef.current.push({ element, anchor: annotationWorldPosition(annotation, model), occluded });
+      }
+    }
+    occlusionStaleRef.current = true;
+  }, [models, selectedId]);
+};
@@ -0,0 +1,72 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { CameraPose } from '../types';
+
+interface CameraPathPlaybackOptions {
+  /** Pose at a progress in [0, 1], or null when there is no path to play. */
+  path: ((progress: number) => CameraPose) | null;
+  /** Length of the path in seconds. */
+  duration: number;
+  loop: boolean;
+  /** Called with the pose of every played or scrubbed frame. */
+  onPose: (pose: CameraPose) => void;
+}
+
+/**
+ * Plays a camera path in real time, with a playhead that can be scrubbed.
+ */
+export const useCameraPathPlayback = ({ path, duration, loop, onPose }: CameraPathPlaybackOptions) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+  const timeRef = useRef(0);
+  const onPoseRef = useRef(onPose);
+  onPoseRef.current = onPose;
+
+  const canPlay = !!path && duration > 0;
+
+  useEffect(() => {
+    if (!isPlaying || !path || duration <= 0) return;
+    // Resume from the playhead, or start over once the end was reached
+    const startTime = performance.now() - (timeRef.current >= duration ? 0 : timeRef.current) * 1000;
+    let frameId: number;
+    const step = () => {
+      let t = (performance.now() - startTime) / 1000;
+      const finished = !loop && t >= duration;
+      t = finished ? duration : t % duration;
+      timeRef.current = t;
+      setTime(t);
+      onPoseRef.current(path(t / duration));
+      if (finished) setIsPlaying(false);
+      else frameId = requestAnimationFrame(step);
+    };
+    frameId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, path, duration, loop]);
+
+  // Keep the playhead inside a path that got shorter
+  useEffect(() => {
+    if (timeRef.current > duration) {
+      timeRef.current = duration;
+      setTime(duration);
+    }
+  }, [duration]);
+
+  const play = useCallback(() => setIsPlaying(true), []);
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  /** Moves the playhead to `t` seconds and pauses. */
+  const seek = useCallback((t: number) => {
+    if (!path || duration <= 0) return;
+    setIsPlaying(false);
+    timeRef.current = t;
+    setTime(t);
+    onPoseRef.current(path(t / duration));
+  }, [path, duration]);
+
+  return {
+    isPlaying: isPlaying && canPlay,
+    time,
+    play,
+    pause,
+    seek,
+  };
+};
@@ -0,0 +1,154 @@
+import { useEffect, useRef } from 'react';
+import type { MutableRefObject } from 'react';
+import * as THREE from 'three';
+import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js';
+import type { ClipPlane, ClippingSettings } from '../types';
+import type { CameraControls } from '../services/cameraControls';
+
+export type ClipGizmoMode = 'translate' | 'rotate';
+
+interface ClipPlaneGizmoOptions {
+  sceneRef: MutableRefObject<THREE.Scene | null>;
+  cameraRef: MutableRefObject<THREE.PerspectiveCamera | null>;
+  rendererRef: MutableRefObject<THREE.WebGLRenderer | null>;
+  controlsRef: MutableRefObject<CameraControls | null>;
+  /** Camera the gizmo casts its rays from while the view is orthographic, or null for the viewer's camera. */
+  orthographicCamera: THREE.OrthographicCamera | null;
+  clipping: ClippingSettings;
+  /** Width of the drawn planes in world units, usually the scene diagonal. */
+  size: number;
+  mode: ClipGizmoMode;
+  onClipPlaneChange: (id: string, changes: Partial<ClipPlane>) => void;
+}
+
+const PLANE_COLOR = 0x22d3ee; // cyan-400
+const SLAB_COLOR = 0xfbbf24; // amber-400
+
+/**
+ * Draws the clipping planes as translucent squares, slabs as a pair of them, and attaches a
+ * TransformControls gizmo to the selected plane. Must be called after the scene-initialising
+ * effect of the viewer.
+ */
+export const useClipPlaneGizmo = ({ sceneRef, cameraRef, rendererRef, controlsRef, orthographicCamera, clipping, size, mode, onClipPlaneChange }: ClipPlaneGizmoOptions) => {
+  const groupRef = useRef<THREE.Group | null>(null);
+  const proxyRef = useRef<THREE.Object3D | null>(null);
+  const gizmoRef = useRef<TransformControls | null>(null);
+  const geometriesRef = useRef<{ fill: THREE.BufferGeometry; outline: THREE.BufferGeometry } | null>(null);
+  const draggingRef = useRef(false);
+  const selectedIdRef = useRef<string | null>(null);
+  const onChangeRef = useRef(onClipPlaneChange);
+  onChangeRef.current = onClipPlaneChange;
+
+  useEffect(() => {
+    const scene = sceneRef.current;
+    const camera = cameraRef.current;
+    const renderer = rendererRef.current;
+    if (!scene || !camera || !renderer) return;
+
+    const group = new THREE.Group();
+    const proxy = new THREE.Object3D();
+    scene.add(group, proxy);
+    groupRef.current = group;
+    proxyRef.current = proxy;
+    // A unit square in the XZ plane, so that local +Y is its normal
+    const fill = new THREE.PlaneGeometry(1, 1).rotateX(-Math.PI / 2);
+    geometriesRef.current = { fill, outline: new THREE.EdgesGeometry(fill) };
+
+    const gizmo = new TransformControls(camera, renderer.domElement);
+    gizmo.setSpace('local');
+    gizmo.addEventListener('dragging-changed', (e: any) => {
+      draggingRef.current = e.value;
+      if (controlsRef.current) controlsRef.current.enabled = !e.value;
+    });
+    gizmo.addEventListener('objectChange', () => {
+      if (!selectedIdRef.current) return;
+      onChangeRef.current(selectedIdRef.current, {
+        center: proxy.position.clone(),
+        rotation: proxy.rotation.clone(),
+      });
+    });
+    scene.add(gizmo.getHelper());
+    gizmoRef.current = gizmo;
+
+    return () => {
+      gizmo.detach();
+      scene.remove(gizmo.getHelper());
+      gizmo.dispose();
+      scene.remove(group, proxy);
+      group.traverse(obj => {
+        if (obj instanceof THREE.Mesh || obj instanceof THREE.LineSegments) (obj.material as THREE.Material).dispose();
+      });
+      fill.dispose();
+      geometriesRef.current!.outline.dispose();
+      gizmoRef.current = null;
+      groupRef.current = null;
+      proxyRef.current = null;
+      geometriesRef.current = null;
+    };
+  }, [sceneRef, cameraRef, rendererRef, controlsRef]);
+
+  useEffect(() => {
+    const camera = orthographicCamera ?? cameraRef.current;
+    if (gizmoRef.current && camera) gizmoRef.current.camera = camera;
+  }, [orthographicCamera, cameraRef]);
+
+  // Rebuild the planes and keep the gizmo on the selected one
+  useEffect(() => {
+    const group = groupRef.current;
+    const proxy = proxyRef.current;
+    const gizmo = gizmoRef.current;
+    const geometries = geometriesRef.current;
+    if (!group || !proxy || !gizmo || !geometries) return;
+
+    for (const child of [...group.children]) {
+      group.remove(child);
+      child.traverse(obj => {
+        if (obj instanceof THREE.Mesh || obj instanceof THREE.LineSegments) (obj.material as THREE.Material).dispose();
+      });
+    }
+    group.visible = clipping.enabled;
+
+    for (const plane of clipping.planes) {
+      const selected = plane.id === clipping.selectedPlaneId;
+      const color = plane.slab ? SLAB_COLOR : PLANE_COLOR;
+      const opacity = !plane.enabled ? 0.2 : selected ? 1.0 : 0.5;
+      const frame = new THREE.Group();
+      frame.position.copy(plane.center);
+      frame.rotation.copy(plane.rotation);
+      // A slab is drawn as its two faces, a cut as the plane itself
+      for (const offset of plane.slab ? [-plane.thickness / 2, plane.thickness / 2] : [0]) {
+        const face = new THREE.Mesh(
+          geometries.fill,
+          new THREE.MeshBasicMaterial({ color, transparent: true, opacity: opacity * 0.12, side: THREE.DoubleSide, depthWrite: false, depthTest: false })
+        );
+        const outline = new THREE.LineSegments(
+          geometries.outline,
+          new THREE.LineBasicMaterial({ color, transparent: true, opacity, depthTest: false })
+        );
+        for (const object of [face, outline]) {
+          object.position.y = offset;
+          object.scale.set(size, 1, size);
+          frame.add(object);
+        }
+      }
+      group.add(frame);
+    }
+
+    const selected = clipping.enabled ? clipping.planes.find(p => p.id === clipping.selectedPlaneId) : undefined;
+    selectedIdRef.current = selected?.id ?? null;
+    if (!selected) {
+      gizmo.detach();
+      return;
+    }
+    // While dragging, the proxy is the source of truth
+    if (!draggingRef.current) {
+      proxy.position.copy(selected.center);
+      proxy.rotation.copy(selected.rotation);
+    }
+    if (gizmo.object !== proxy) gizmo.attach(proxy);
+  }, [clipping, size]);
+
+  useEffect(() => {
+    gizmoRef.current?.setMode(mode);
+  }, [mode]);
+};
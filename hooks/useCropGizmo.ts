@@ -0,0 +1,153 @@
+import { useEffect, useRef } from 'react';
+import type { MutableRefObject } from 'react';
+import * as THREE from 'three';
+import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js';
+import { CropMode, CropShape } from '../types';
+import type { CropSettings, CropVolume } from '../types';
+import type { CameraControls } from '../services/cameraControls';
+
+export type GizmoMode = 'translate' | 'rotate' | 'scale';
+
+interface CropGizmoOptions {
+  sceneRef: MutableRefObject<THREE.Scene | null>;
+  cameraRef: MutableRefObject<THREE.PerspectiveCamera | null>;
+  rendererRef: MutableRefObject<THREE.WebGLRenderer | null>;
+  controlsRef: MutableRefObject<CameraControls | null>;
+  /** Camera the gizmo casts its rays from while the view is orthographic, or null for the viewer's camera. */
+  orthographicCamera: THREE.OrthographicCamera | null;
+  crop: CropSettings;
+  /** World matrix of the model the volumes belong to, see `modelMatrix`. */
+  modelMatrix: THREE.Matrix4;
+  mode: GizmoMode;
+  onCropVolumeChange: (id: string, changes: Partial<CropVolume>) => void;
+}
+
+const VOLUME_COLORS: Record<CropMode, number> = {
+  [CropMode.INCLUDE]: 0x22d3ee, // cyan-400
+  [CropMode.EXCLUDE]: 0xf87171, // red-400
+};
+
+const createUnitShapeGeometries = (): Record<CropShape, THREE.BufferGeometry> => ({
+  [CropShape.BOX]: new THREE.EdgesGeometry(new THREE.BoxGeometry(1, 1, 1)),
+  [CropShape.SPHERE]: new THREE.WireframeGeometry(new THREE.SphereGeometry(0.5, 16, 8)),
+  [CropShape.CYLINDER]: new THREE.WireframeGeometry(new THREE.CylinderGeometry(0.5, 0.5, 1, 24, 1, true)),
+});
+
+/**
+ * Draws the crop volumes as wireframes in model space and attaches a TransformControls gizmo
+ * to the selected one. Must be called after the scene-initialising effect of the viewer.
+ */
+export const useCropGizmo = ({ sceneRef, cameraRef, rendererRef, controlsRef, orthographicCamera, crop, modelMatrix, mode, onCropVolumeChange }: CropGizmoOptions) => {
+  const groupRef = useRef<THREE.Group | null>(null);
+  const proxyRef = useRef<THREE.Object3D | null>(null);
+  const gizmoRef = useRef<TransformControls | null>(null);
+  const geometriesRef = useRef<Record<CropShape, THREE.BufferGeometry> | null>(null);
+  const draggingRef = useRef(false);
+  const selectedIdRef = useRef<string | null>(null);
+  const onChangeRef = useRef(onCropVolumeChange);
+  onChangeRef.current = onCropVolumeChange;
+
+  useEffect(() => {
+    const scene = sceneRef.current;
+    const camera = cameraRef.current;
+    const renderer = rendererRef.current;
+    if (!scene || !camera || !renderer) return;
+
+    const group = new THREE.Group();
+    const proxy = new THREE.Object3D();
+    group.add(proxy);
+    scene.add(group);
+    groupRef.current = group;
+    proxyRef.current = proxy;
+    geometriesRef.current = createUnitShapeGeometries();
+
+    const gizmo = new TransformControls(camera, renderer.domElement);
+    gizmo.setSpace('local');
+    gizmo.addEventListener('dragging-changed', (e: any) => {
+      draggingRef.current = e.value;
+      if (controlsRef.current) controlsRef.current.enabled = !e.value;
+    });
+    gizmo.addEventListener('objectChange', () => {
+      if (!selectedIdRef.current) return;
+      onChangeRef.current(selectedIdRef.current, {
+        center: proxy.position.clone(),
+        rotation: proxy.rotation.clone(),
+        size: proxy.scale.clone(),
+      });
+    });
+    scene.add(gizmo.getHelper());
+    gizmoRef.current = gizmo;
+
+    return () => {
+      gizmo.detach();
+      scene.remove(gizmo.getHelper());
+      gizmo.dispose();
+      scene.remove(group);
+      group.traverse(obj => {
+        if (obj instanceof THREE.LineSegments) (obj.material as THREE.Material).dispose();
+      });
+      (Object.values(geometriesRef.current!) as THREE.BufferGeometry[]).forEach(g => g.dispose());
+      gizmoRef.current = null;
+      groupRef.current = null;
+      proxyRef.current = null;
+    };
+  }, [sceneRef, cameraRef, rendererRef, controlsRef]);
+
+  useEffect(() => {
+    const camera = orthographicCamera ?? cameraRef.current;
+    if (gizmoRef.current && camera) gizmoRef.current.camera = camera;
+  }, [orthographicCamera, cameraRef]);
+
+  // Rebuild the wireframes and keep the gizmo on the selected volume
+  useEffect(() => {
+    const group = groupRef.current;
+    const proxy = proxyRef.current;
+    const gizmo = gizmoRef.current;
+    const geometries = geometriesRef.current;
+    if (!group || !proxy || !gizmo || !geometries) return;
+
+    modelMatrix.decompose(group.position, group.quaternion, group.scale);
+    group.visible = crop.enabled;
+
+    for (const child of [...group.children]) {
+      if (child instanceof THREE.LineSegments) {
+        group.remove(child);
+        (child.material as THREE.Material).dispose();
+      }
+    }
+    for (const volume of crop.volumes) {
+      const selected = volume.id === crop.selectedVolumeId;
+      const lines = new THREE.LineSegments(
+        geometries[volume.shape],
+        new THREE.LineBasicMaterial({
+          color: VOLUME_COLORS[volume.mode],
+          transparent: true,
+          opacity: !volume.enabled ? 0.2 : selected ? 1.0 : 0.5,
+          depthTest: false,
+        })
+      );
+      lines.position.copy(volume.center);
+      lines.rotation.copy(volume.rotation);
+      lines.scale.copy(volume.size);
+      group.add(lines);
+    }
+
+    const selected = crop.enabled ? crop.volumes.find(v => v.id === crop.selectedVolumeId) : undefined;
+    selectedIdRef.current = selected?.id ?? null;
+    if (!selected) {
+      gizmo.detach();
+      return;
+    }
+    // While dragging, the proxy is the source of truth
+    if (!draggingRef.current) {
+      proxy.position.copy(selected.center);
+      proxy.rotation.copy(selected.rotation);
+      proxy.scale.copy(selected.size);
+    }
+    if (gizmo.object !== proxy) gizmo.attach(proxy);
+  }, [crop, modelMatrix]);
+
+  useEffect(() => {
+    gizmoRef.current?.setMode(mode);
+  }, [mode]);
+};
@@ -0,0 +1,60 @@
+import { useState, useCallback } from 'react';
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+/**
+ * Undo/redo stack of immutable snapshots. At most `limit` past states are kept; point-state
+ * snapshots cost one byte per point, so the limit bounds memory on large models.
+ */
+export const useEditHistory = <T,>(initial: T, limit = 50) => {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [] });
+
+  /** Records a new state; clears the redo stack. */
+  const push = useCallback((next: T) => {
+    setHistory(h => ({ past: [...h.past, h.present].slice(-limit), present: next, future: [] }));
+  }, [limit]);
+
+  /** Replaces the state and forgets all history, e.g. when a new model is loaded. */
+  const reset = useCallback((next: T) => {
+    setHistory({ past: [], present: next, future: [] });
+  }, []);
+
+  /**
+   * Applies `fn` to every snapshot without recording a step, e.g. to add or drop the entry
+   * of a model in all of them.
+   */
+  const mapAll = useCallback((fn: (state: T) => T) => {
+    setHistory(h => ({ past: h.past.map(fn), present: fn(h.present), future: h.future.map(fn) }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => h.past.length === 0 ? h : {
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future],
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => h.future.length === 0 ? h : {
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1),
+    });
+  }, []);
+
+  return {
+    state: history.present,
+    push,
+    reset,
+    mapAll,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
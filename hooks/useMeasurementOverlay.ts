@@ -0,0 +1,151 @@
+import { useEffect, useRef } from 'react';
+import type { MutableRefObject } from 'react';
+import * as THREE from 'three';
+import type { MeasurementSettings, MeasurementType } from '../types';
+import { formatMeasurement, measurementValue } from '../services/measurements';
+
+interface MeasurementOverlayOptions {
+  sceneRef: MutableRefObject<THREE.Scene | null>;
+  cameraRef: MutableRefObject<THREE.PerspectiveCamera | null>;
+  mountRef: MutableRefObject<HTMLDivElement | null>;
+  measure: MeasurementSettings;
+}
+
+interface Label {
+  element: HTMLDivElement;
+  /** World-space position the label is pinned to. */
+  anchor: THREE.Vector3;
+}
+
+const MEASUREMENT_COLOR = 0xfacc15; // yellow-400
+const DRAFT_COLOR = 0xfde68a; // yellow-200
+
+const createLine = (points: THREE.Vector3[], closed: boolean, color: number, opacity = 1.0) => {
+  const geometry = new THREE.BufferGeometry().setFromPoints(points);
+  const material = new THREE.LineBasicMaterial({ color, transparent: true, opacity, depthTest: false });
+  const line = closed ? new THREE.LineLoop(geometry, material) : new THREE.Line(geometry, material);
+  line.renderOrder = 1000;
+  return line;
+};
+
+const createMarkers = (points: THREE.Vector3[], color: number) => {
+  const geometry = new THREE.BufferGeometry().setFromPoints(points);
+  const material = new THREE.PointsMaterial({ color, size: 6, sizeAttenuation: false, depthTest: false });
+  const markers = new THREE.Points(geometry, material);
+  markers.renderOrder = 1000;
+  return markers;
+};
+
+/** Point above or below `from` at the height of `to`, the corner of a height measurement. */
+const verticalFoot = (from: THREE.Vector3, to: THREE.Vector3) => new THREE.Vector3(from.x, to.y, from.z);
+
+const labelAnchor = (type: MeasurementType, points: THREE.Vector3[]) => {
+  if (type === 'area') {
+    return points.reduce((sum, p) => sum.add(p), new THREE.Vector3()).divideScalar(points.length);
+  }
+  if (type === 'polyline') return points[points.length - 1].clone();
+  if (type === 'height') return points[0].clone().lerp(verticalFoot(points[0], points[1]), 0.5);
+  return points[0].clone().lerp(points[1], 0.5);
+};
+
+/**
+ * Draws the measurements as lines in the scene, with HTML labels that track them on screen.
+ * Must be called after the scene-initialising effect of the viewer.
+ */
+export const useMeasurementOverlay = ({ sceneRef, cameraRef, mountRef, measure }: MeasurementOverlayOptions) => {
+  const groupRef = useRef<THREE.Group | null>(null);
+  const labelContainerRef = useRef<HTMLDivElement | null>(null);
+  const labelsRef = useRef<Label[]>([]);
+
+  useEffect(() => {
+    const scene = sceneRef.current;
+    const camera = cameraRef.current;
+    const mount = mountRef.current;
+    if (!scene || !camera || !mount) return;
+
+    const group = new THREE.Group();
+    scene.add(group);
+    groupRef.current = group;
+
+    const container = document.createElement('div');
+    container.className = 'absolute inset-0 pointer-events-none overflow-hidden';
+    mount.appendChild(container);
+    labelContainerRef.current = container;
+
+    // Labels are repositioned every frame so they follow the camera
+    const projected = new THREE.Vector3();
+    let frameId: number;
+    const updateLabels = () => {
+      frameId = requestAnimationFrame(updateLabels);
+      const width = mount.clientWidth;
+      const height = mount.clientHeight;
+      for (const { element, anchor } of labelsRef.current) {
+        projected.copy(anchor).project(camera);
+        const visible = projected.z > -1 && projected.z < 1;
+        element.style.display = visible ? 'block' : 'none';
+        if (!visible) continue;
+        element.style.transform = `translate(${(projected.x + 1) * width / 2}px, ${(1 - projected.y) * height / 2}px) translate(-50%, -150%)`;
+      }
+    };
+    updateLabels();
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      scene.remove(group);
+      group.traverse(obj => {
+        if (obj instanceof THREE.Line || obj instanceof THREE.Points) {
+          obj.geometry.dispose();
+          (obj.material as THREE.Material).dispose();
+        }
+      });
+      container.remove();
+      groupRef.current = null;
+      labelContainerRef.current = null;
+      labelsRef.current = [];
+    };
+  }, [sceneRef, cameraRef, mountRef]);
+
+  // Rebuild the lines and labels whenever the measurements change
+  useEffect(() => {
+    const group = groupRef.current;
+    const container = labelContainerRef.current;
+    if (!group || !container) return;
+
+    for (const child of [...group.children]) {
+      group.remove(child);
+      if (child instanceof THREE.Line || child instanceof THREE.Points) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    }
+    container.replaceChildren();
+    labelsRef.current = [];
+
+    const addLabel = (text: string, anchor: THREE.Vector3, draft: boolean) => {
+      const element = document.createElement('div');
+      element.className = `absolute left-0 top-0 px-1.5 py-0.5 rounded text-xs font-mono whitespace-nowrap ${draft ? 'bg-gray-900/60 text-yellow-200' : 'bg-gray-900/80 text-yellow-400'}`;
+      element.textContent = text;
+      container.appendChild(element);
+      labelsRef.current.push({ element, anchor });
+    };
+
+    const addMeasurement = (type: MeasurementType, points: THREE.Vector3[], draft: boolean) => {
+      const color = draft ? DRAFT_COLOR : MEASUREMENT_COLOR;
+      if (points.length === 0) return;
+      group.add(createMarkers(points, color));
+      if (points.length < 2) return;
+      if (type === 'height') {
+        const foot = verticalFoot(points[0], points[1]);
+        group.add(createLine([points[0], foot], false, color));
+        group.add(createLine([foot, points[1]], false, color, 0.4));
+      } else {
+        group.add(createLine(points, type === 'area' && points.length > 2, color));
+      }
+      const value = measurementValue(type, points);
+      addLabel(formatMeasurement(type, value, measure.unitScale, measure.unitLabel), labelAnchor(type, points), draft);
+    };
+
+    for (const measurement of measure.measurements) addMeasurement(measurement.type, measurement.points, false);
+    if (measure.tool) addMeasurement(measure.tool, measure.draft, true);
+  }, [measure]);
+};
@@ -0,0 +1,92 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { PlyData } from '../types';
+import { scoreOutliersInWorker } from '../services/outlierScoring';
+import type { OutlierScoring } from '../services/outlierScoring';
+
+export interface OutlierScoresState {
+  /** Scores of the data sets scored so far with the current neighbour count. */
+  scores: Map<PlyData, Float32Array>;
+  /** Completed fraction of the running computations, or null when none is running. */
+  progress: number | null;
+}
+
+/**
+ * Outlier scores of each point data set, computed in the background once a model has loaded
+ * completely and while `enabled` is on. Changing the neighbour count discards all scores; finished
+ * ones are otherwise kept while their data is in use, so toggling does not recompute them.
+ */
+export const useOutlierScores = (datas: PlyData[], neighbors: number, enabled: boolean): OutlierScoresState => {
+  const scoresRef = useRef({ neighbors, byData: new Map<PlyData, Float32Array>() });
+  const runsRef = useRef(new Map<PlyData, OutlierScoring>());
+  const progressRef = useRef(new Map<PlyData, number>());
+  const [version, setVersion] = useState(0);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  useEffect(() => {
+    const present = new Set(datas);
+    const runs = runsRef.current;
+    const progresses = progressRef.current;
+    if (scoresRef.current.neighbors !== neighbors) {
+      scoresRef.current = { neighbors, byData: new Map() };
+      runs.forEach(run => run.cancel());
+      runs.clear();
+      setVersion(v => v + 1);
+    }
+    const scores = scoresRef.current.byData;
+    for (const [data, run] of runs) {
+      if (present.has(data) && enabled) continue;
+      runs.delete(data);
+      run.cancel();
+    }
+    for (const data of scores.keys()) {
+      if (!present.has(data)) scores.delete(data);
+    }
+    for (const data of progresses.keys()) {
+      if (!runs.has(data)) progresses.delete(data);
+    }
+
+    const updateProgress = () => {
+      const values = [...progresses.values()];
+      setProgress(values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null);
+    };
+    if (enabled) {
+      for (const data of datas) {
+        if (data.isPartial || scores.has(data) || runs.has(data)) continue;
+        const run = scoreOutliersInWorker(data, neighbors, p => {
+          if (runs.get(data) !== run) return;
+          progresses.set(data, p);
+          updateProgress();
+        });
+        runs.set(data, run);
+        progresses.set(data, 0);
+        run.result.then(
+          result => {
+            if (runs.get(data) !== run) return;
+            runs.delete(data);
+            progresses.delete(data);
+            scores.set(data, result);
+            updateProgress();
+            setVersion(v => v + 1);
+          },
+          err => {
+            // Cancelled runs were already removed; a failed one leaves the model unfiltered
+            if (runs.get(data) !== run) return;
+            runs.delete(data);
+            progresses.delete(data);
+            updateProgress();
+            console.error(err);
+          }
+        );
+      }
+    }
+    updateProgress();
+  }, [datas, neighbors, enabled]);
+
+  useEffect(() => () => {
+    runsRef.current.forEach(run => run.cancel());
+    runsRef.current.clear();
+  }, []);
+
+  const scores = useMemo(() => new Map(scoresRef.current.byData), [datas, neighbors, version]);
+  return { scores, progress };
+};
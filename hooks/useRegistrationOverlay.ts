@@ -0,0 +1,84 @@
+import { useEffect, useRef } from 'react';
+import type { MutableRefObject } from 'react';
+import * as THREE from 'three';
+import type { RegistrationSettings, SceneModel } from '../types';
+import { modelMatrix } from '../services/sceneModels';
+
+interface RegistrationOverlayOptions {
+  sceneRef: MutableRefObject<THREE.Scene | null>;
+  registration: RegistrationSettings;
+  models: SceneModel[];
+}
+
+const MOVING_COLOR = 0xfb923c; // orange-400
+const FIXED_COLOR = 0x22d3ee; // cyan-400
+const LINK_COLOR = 0xf9fafb; // gray-50
+
+const disposeChildren = (group: THREE.Group) => {
+  for (const child of [...group.children]) {
+    group.remove(child);
+    if (child instanceof THREE.LineSegments || child instanceof THREE.Points) {
+      child.geometry.dispose();
+      (child.material as THREE.Material).dispose();
+    }
+  }
+};
+
+/**
+ * Draws the registration point pairs: moving-model points in orange, fixed-model points in cyan,
+ * joined by a line. Points follow their models as the alignment moves them.
+ * Must be called after the scene-initialising effect of the viewer.
+ */
+export const useRegistrationOverlay = ({ sceneRef, registration, models }: RegistrationOverlayOptions) => {
+  const groupRef = useRef<THREE.Group | null>(null);
+
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    const group = new THREE.Group();
+    scene.add(group);
+    groupRef.current = group;
+    return () => {
+      disposeChildren(group);
+      scene.remove(group);
+      groupRef.current = null;
+    };
+  }, [sceneRef]);
+
+  const movingModel = models.find(m => m.id === registration.movingModelId);
+  const fixedModel = models.find(m => m.id === registration.fixedModelId);
+
+  useEffect(() => {
+    const group = groupRef.current;
+    if (!group) return;
+    disposeChildren(group);
+    if (!movingModel || !fixedModel) return;
+
+    const movingMatrix = modelMatrix(movingModel);
+    const fixedMatrix = modelMatrix(fixedModel);
+    const moving = registration.pairs.map(p => p.moving.clone().applyMatrix4(movingMatrix));
+    const fixed = registration.pairs.map(p => p.fixed.clone().applyMatrix4(fixedMatrix));
+    if (registration.pendingMoving) moving.push(registration.pendingMoving.clone().applyMatrix4(movingMatrix));
+
+    const addMarkers = (points: THREE.Vector3[], color: number) => {
+      if (points.length === 0) return;
+      const markers = new THREE.Points(
+        new THREE.BufferGeometry().setFromPoints(points),
+        new THREE.PointsMaterial({ color, size: 8, sizeAttenuation: false, depthTest: false })
+      );
+      markers.renderOrder = 1000;
+      group.add(markers);
+    };
+    addMarkers(moving, MOVING_COLOR);
+    addMarkers(fixed, FIXED_COLOR);
+
+    if (fixed.length > 0) {
+      const links = new THREE.LineSegments(
+        new THREE.BufferGeometry().setFromPoints(fixed.flatMap((p, i) => [moving[i], p])),
+        new THREE.LineBasicMaterial({ color: LINK_COLOR, transparent: true, opacity: 0.6, depthTest: false })
+      );
+      links.renderOrder = 1000;
+      group.add(links);
+    }
+  }, [registration.pairs, registration.pendingMoving, movingModel, fixedModel]);
+};
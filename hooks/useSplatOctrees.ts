@@ -0,0 +1,61 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { PlyData } from '../types';
+import type { SplatOctree } from '../services/splatOctree';
+import { buildOctreeInWorker } from '../services/octreeBuilder';
+import type { OctreeBuild } from '../services/octreeBuilder';
+
+/**
+ * Level-of-detail octree of each point data set, built in the background once a model has loaded
+ * completely. Entries are null while building, for partially loaded data and while `enabled` is off;
+ * finished octrees are kept while their data is in use, so toggling does not rebuild them.
+ */
+export const useSplatOctrees = (datas: PlyData[], enabled: boolean): (SplatOctree | null)[] => {
+  const octreesRef = useRef(new Map<PlyData, SplatOctree>());
+  const buildsRef = useRef(new Map<PlyData, OctreeBuild>());
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const present = new Set(datas);
+    const builds = buildsRef.current;
+    const octrees = octreesRef.current;
+    for (const [data, build] of builds) {
+      if (present.has(data) && enabled) continue;
+      builds.delete(data);
+      build.cancel();
+    }
+    for (const data of octrees.keys()) {
+      if (!present.has(data)) octrees.delete(data);
+    }
+    if (!enabled) return;
+
+    for (const data of datas) {
+      if (data.isPartial || octrees.has(data) || builds.has(data)) continue;
+      const build = buildOctreeInWorker(data);
+      builds.set(data, build);
+      build.result.then(
+        octree => {
+          if (builds.get(data) !== build) return;
+          builds.delete(data);
+          octrees.set(data, octree);
+          setVersion(v => v + 1);
+        },
+        err => {
+          // Cancelled builds were already removed; a failed one leaves the model drawn in full
+          if (builds.get(data) !== build) return;
+          builds.delete(data);
+          console.error(err);
+        }
+      );
+    }
+  }, [datas, enabled]);
+
+  useEffect(() => () => {
+    buildsRef.current.forEach(build => build.cancel());
+    buildsRef.current.clear();
+  }, []);
+
+  return useMemo(
+    () => datas.map(d => (enabled ? octreesRef.current.get(d) ?? null : null)),
+    [datas, enabled, version]
+  );
+};
@@ -0,0 +1,99 @@
+import * as THREE from 'three';
+import type { Annotation, SceneModel } from '../types';
+import { modelMatrix } from './sceneModels';
+
+/** Format version of annotation files; bump it when the format changes. */
+export const ANNOTATION_FILE_VERSION = 1;
+
+/** Colors given to new annotations in turn. */
+export const ANNOTATION_COLORS = ['#f43f5e', '#f59e0b', '#10b981', '#0ea5e9', '#8b5cf6', '#ec4899'];
+
+type Vec3 = [number, number, number];
+
+export interface AnnotationFile {
+  version: typeof ANNOTATION_FILE_VERSION;
+  /** Name of the file the annotated model was loaded from. */
+  model: string;
+  /** Positions are in the coordinates of the model file, before any recentering. */
+  annotations: { title: string; description: string; color: string; position: Vec3 }[];
+}
+
+const createAnnotationId = () => `note-${Math.random().toString(36).slice(2, 10)}`;
+
+/** A new annotation at `position` in model space, numbered after the model's existing ones. */
+export const createAnnotation = (position: THREE.Vector3, existing: Annotation[]): Annotation => ({
+  id: createAnnotationId(),
+  title: `Note ${existing.length + 1}`,
+  description: '',
+  color: ANNOTATION_COLORS[existing.length % ANNOTATION_COLORS.length],
+  position: position.clone(),
+});
+
+/** World-space position of an annotation of `model`. */
+export const annotationWorldPosition = (annotation: Annotation, model: SceneModel, target = new THREE.Vector3()): THREE.Vector3 =>
+  target.copy(annotation.position).applyMatrix4(modelMatrix(model));
+
+export const serializeAnnotations = (model: SceneModel): AnnotationFile => {
+  const offset = model.plyData?.offset ?? new THREE.Vector3();
+  return {
+    version: ANNOTATION_FILE_VERSION,
+    model: model.name,
+    annotations: model.annotations.map(({ title, description, color, position }) => ({
+      title,
+      description,
+      color,
+      position: [position.x + offset.x, position.y + offset.y, position.z + offset.z],
+    })),
+  };
+};
+
+const fail = (path: string, expected: string): never => {
+  throw new Error(`Invalid annotation file: ${path || 'the root'} should be ${expected}.`);
+};
+
+const readObject = (value: unknown, path: string): Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : fail(path, 'an object');
+
+const readString = (value: unknown, path: string): string => (typeof value === 'string' ? value : fail(path, 'a string'));
+
+const readAnnotation = (value: unknown, path: string, offset: THREE.Vector3): Annotation => {
+  const o = readObject(value, path);
+  const color = readString(o.color, `${path}.color`);
+  if (!/^#[0-9a-f]{6}$/i.test(color)) fail(`${path}.color`, 'a color like "#f43f5e"');
+  const position = o.position;
+  if (!Array.isArray(position) || position.length !== 3 || !position.every(v => typeof v === 'number' && Number.isFinite(v))) {
+    fail(`${path}.position`, 'an array of 3 numbers');
+  }
+  return {
+    id: createAnnotationId(),
+    title: readString(o.title, `${path}.title`),
+    description: readString(o.description, `${path}.description`),
+    color,
+    position: new THREE.Vector3().fromArray(position as number[]).sub(offset),
+  };
+};
+
+/**
+ * Reads the annotations of an annotation file. They get new ids, so a file can be imported next
+ * to the annotations a model already has.
+ *
+ * @param offset The recentering offset of the model's data, subtracted from the file's positions.
+ * @throws An error naming the first invalid field, or when the file comes from a newer version.
+ */
+export const parseAnnotationsJson = (text: string, offset = new THREE.Vector3()): Annotation[] => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('The annotation file is not valid JSON.');
+  }
+  const file = readObject(value, '');
+  const version = file.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) fail('version', 'a positive integer');
+  if ((version as number) > ANNOTATION_FILE_VERSION) {
+    throw new Error(`These annotations were saved by a newer version of the viewer (format ${version}); this one reads up to format ${ANNOTATION_FILE_VERSION}.`);
+  }
+  const annotations = file.annotations;
+  if (!Array.isArray(annotations)) fail('annotations', 'an array');
+  return (annotations as unknown[]).map((item, i) => readAnnotation(item, `annotations[${i}]`, offset));
+};
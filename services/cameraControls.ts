@@ -0,0 +1,209 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { TrackballControls } from 'three/examples/jsm/controls/TrackballControls.js';
+import type { NavigationMode } from '../types';
+
+/** Directions in camera space (right, up, backward) moved along while a key is held. */
+const MOVE_KEYS: Record<string, [number, number, number]> = {
+  KeyW: [0, 0, -1],
+  ArrowUp: [0, 0, -1],
+  KeyS: [0, 0, 1],
+  ArrowDown: [0, 0, 1],
+  KeyA: [-1, 0, 0],
+  ArrowLeft: [-1, 0, 0],
+  KeyD: [1, 0, 0],
+  ArrowRight: [1, 0, 0],
+  KeyE: [0, 1, 0],
+  KeyQ: [0, -1, 0],
+};
+
+/** Speed multiplier while Shift is held. */
+const BOOST_FACTOR = 4;
+
+/** Fraction of a second of movement per mouse wheel notch. */
+const WHEEL_STEP = 0.25;
+
+// Keeps the view direction away from straight up and down, where looking around flips
+const MIN_POLAR_ANGLE = 0.01;
+
+/** Longest time step applied at once, so a stalled frame does not throw the camera far. */
+const MAX_TIME_STEP = 0.1;
+
+const _offset = new THREE.Vector3();
+const _right = new THREE.Vector3();
+const _move = new THREE.Vector3();
+
+/**
+ * First-person navigation: WASD (or the arrow keys) moves, Q and E move down and up, Shift speeds
+ * up and dragging looks around. The camera keeps looking at `target`, which travels with it, so the
+ * pose carries over to and from the orbiting modes.
+ */
+export class FlyControls extends THREE.Controls {
+  // Set up by THREE.Controls
+  declare object: THREE.PerspectiveCamera;
+  declare domElement: HTMLElement | null;
+  declare enabled: boolean;
+  declare dispatchEvent: (event: { type: string }) => void;
+
+  target = new THREE.Vector3();
+  /** World units per second. */
+  movementSpeed = 1;
+
+  private pressed = new Set<string>();
+  private boost = false;
+  private drag: { x: number; y: number } | null = null;
+  private lastUpdate = performance.now();
+
+  constructor(camera: THREE.PerspectiveCamera, domElement: HTMLElement) {
+    super(camera, domElement);
+    this.connect(domElement);
+  }
+
+  connect(element: HTMLElement) {
+    super.connect(element);
+    element.addEventListener('pointerdown', this.handlePointerDown);
+    element.addEventListener('pointermove', this.handlePointerMove);
+    element.addEventListener('pointerup', this.handlePointerUp);
+    element.addEventListener('pointercancel', this.handlePointerUp);
+    element.addEventListener('wheel', this.handleWheel, { passive: false });
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.handleBlur);
+  }
+
+  disconnect() {
+    const element = this.domElement;
+    if (!element) return;
+    element.removeEventListener('pointerdown', this.handlePointerDown);
+    element.removeEventListener('pointermove', this.handlePointerMove);
+    element.removeEventListener('pointerup', this.handlePointerUp);
+    element.removeEventListener('pointercancel', this.handlePointerUp);
+    element.removeEventListener('wheel', this.handleWheel);
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('blur', this.handleBlur);
+  }
+
+  dispose() {
+    this.disconnect();
+  }
+
+  reset() {
+    this.pressed.clear();
+    this.drag = null;
+  }
+
+  update() {
+    const now = performance.now();
+    const delta = Math.min(MAX_TIME_STEP, (now - this.lastUpdate) / 1000);
+    this.lastUpdate = now;
+    const camera = this.object as THREE.PerspectiveCamera;
+
+    if (this.enabled && this.pressed.size > 0) {
+      _move.set(0, 0, 0);
+      this.pressed.forEach(code => _move.add(_offset.fromArray(MOVE_KEYS[code])));
+      if (_move.lengthSq() > 0) {
+        const distance = this.movementSpeed * delta * (this.boost ? BOOST_FACTOR : 1);
+        _move.normalize().applyQuaternion(camera.quaternion).multiplyScalar(distance);
+        this.translate(_move);
+      }
+    }
+    camera.lookAt(this.target);
+  }
+
+  private translate(offset: THREE.Vector3) {
+    this.object.position.add(offset);
+    this.target.add(offset);
+  }
+
+  private handlePointerDown = (e: PointerEvent) => {
+    if (!this.enabled || e.button !== 0) return;
+    this.drag = { x: e.clientX, y: e.clientY };
+    this.domElement!.setPointerCapture(e.pointerId);
+    this.dispatchEvent({ type: 'start' });
+  };
+
+  private handlePointerMove = (e: PointerEvent) => {
+    if (!this.drag || !this.enabled) return;
+    const camera = this.object as THREE.PerspectiveCamera;
+    // One pixel turns the view by one pixel's worth of the field of view
+    const radiansPerPixel = (camera.fov * Math.PI / 180) / this.domElement!.clientHeight;
+    this.look(-(e.clientX - this.drag.x) * radiansPerPixel, -(e.clientY - this.drag.y) * radiansPerPixel);
+    this.drag = { x: e.clientX, y: e.clientY };
+  };
+
+  private handlePointerUp = (e: PointerEvent) => {
+    if (!this.drag) return;
+    this.drag = null;
+    if (this.domElement!.hasPointerCapture(e.pointerId)) this.domElement!.releasePointerCapture(e.pointerId);
+    this.dispatchEvent({ type: 'end' });
+  };
+
+  private handleWheel = (e: WheelEvent) => {
+    if (!this.enabled) return;
+    e.preventDefault();
+    this.dispatchEvent({ type: 'start' });
+    _offset.subVectors(this.target, this.object.position).normalize();
+    this.translate(_offset.multiplyScalar(-Math.sign(e.deltaY) * this.movementSpeed * WHEEL_STEP));
+    this.dispatchEvent({ type: 'end' });
+  };
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    this.boost = e.shiftKey;
+    if (!this.enabled || !(e.code in MOVE_KEYS) || e.ctrlKey || e.metaKey || e.altKey) return;
+    if ((e.target as HTMLElement).closest?.('input, select, textarea')) return;
+    e.preventDefault();
+    if (this.pressed.size === 0) this.dispatchEvent({ type: 'start' });
+    this.pressed.add(e.code);
+  };
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    this.boost = e.shiftKey;
+    if (!this.pressed.delete(e.code)) return;
+    if (this.pressed.size === 0) this.dispatchEvent({ type: 'end' });
+  };
+
+  private handleBlur = () => {
+    this.pressed.clear();
+    this.boost = false;
+  };
+
+  /** Turns the view by `yaw` around the up axis and `pitch` toward it, in radians. */
+  private look(yaw: number, pitch: number) {
+    const camera = this.object;
+    const up = camera.up;
+    _offset.subVectors(this.target, camera.position).applyAxisAngle(up, yaw);
+    const polar = _offset.angleTo(up);
+    const nextPolar = THREE.MathUtils.clamp(polar - pitch, MIN_POLAR_ANGLE, Math.PI - MIN_POLAR_ANGLE);
+    _right.crossVectors(_offset, up).normalize();
+    _offset.applyAxisAngle(_right, polar - nextPolar);
+    this.target.copy(camera.position).add(_offset);
+  }
+}
+
+export type CameraControls = OrbitControls | TrackballControls | FlyControls;
+
+/**
+ * Camera controls for `mode`. All of them orbit, roll or fly relative to `target`, which the caller
+ * copies over when switching modes so that the view does not jump.
+ */
+export const createCameraControls = (mode: NavigationMode, camera: THREE.PerspectiveCamera, domElement: HTMLElement): CameraControls => {
+  // Only the trackball rolls the camera; the other modes keep it upright
+  if (mode !== 'trackball') camera.up.copy(THREE.Object3D.DEFAULT_UP);
+  switch (mode) {
+    case 'fly':
+      return new FlyControls(camera, domElement);
+    case 'trackball': {
+      const controls = new TrackballControls(camera, domElement);
+      controls.rotateSpeed = 3;
+      controls.dynamicDampingFactor = 0.15;
+      return controls;
+    }
+    default: {
+      const controls = new OrbitControls(camera, domElement);
+      controls.enableDamping = true;
+      controls.dampingFactor = 0.1;
+      return controls;
+    }
+  }
+};
@@ -0,0 +1,119 @@
+import * as THREE from 'three';
+import type { CameraBookmark, CameraPose } from '../types';
+
+const createBookmarkId = () => `view-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createBookmark = (name: string, pose: CameraPose): CameraBookmark => ({
+  id: createBookmarkId(),
+  name,
+  ...cloneCameraPose(pose),
+});
+
+export const cloneCameraPose = (pose: CameraPose): CameraPose => ({
+  position: pose.position.clone(),
+  target: pose.target.clone(),
+  fov: pose.fov,
+});
+
+/** Slow-in, slow-out easing of `t` in [0, 1]. */
+export const easeInOut = (t: number) => t * t * (3 - 2 * t);
+
+/** Straight-line blend between two poses, used for flights between bookmarks. */
+export const interpolateCameraPose = (from: CameraPose, to: CameraPose, t: number): CameraPose => ({
+  position: from.position.clone().lerp(to.position, t),
+  target: from.target.clone().lerp(to.target, t),
+  fov: from.fov + (to.fov - from.fov) * t,
+});
+
+/**
+ * Pose looking at `point` from the direction of the current camera, `distanceFactor` times as far
+ * away, so that the camera approaches the point and then orbits around it.
+ */
+export const focusCameraPose = (from: CameraPose, point: THREE.Vector3, distanceFactor: number): CameraPose => ({
+  position: from.position.clone().sub(point).multiplyScalar(distanceFactor).add(point),
+  target: point.clone(),
+  fov: from.fov,
+});
+
+export type ViewPreset = 'top' | 'bottom' | 'front' | 'back' | 'left' | 'right' | 'iso';
+
+/** Directions from the target to the camera of the standard views; the front looks along -Z. */
+export const VIEW_PRESET_DIRECTIONS: Record<ViewPreset, THREE.Vector3> = {
+  top: new THREE.Vector3(0, 1, 0),
+  bottom: new THREE.Vector3(0, -1, 0),
+  front: new THREE.Vector3(0, 0, 1),
+  back: new THREE.Vector3(0, 0, -1),
+  left: new THREE.Vector3(-1, 0, 0),
+  right: new THREE.Vector3(1, 0, 0),
+  iso: new THREE.Vector3(1, 1, 1).normalize(),
+};
+
+/** Space left around the bounds by `presetViewPose`, as a fraction of their size. */
+const PRESET_VIEW_MARGIN = 1.1;
+
+/**
+ * Pose looking at the center of `bounds` from `direction`, far enough away that the bounds fit
+ * the view vertically, also when it is orthographic.
+ */
+export const presetViewPose = (bounds: THREE.Box3, direction: THREE.Vector3, fov: number): CameraPose => {
+  const center = bounds.getCenter(new THREE.Vector3());
+  const radius = Math.max(bounds.getSize(new THREE.Vector3()).length() / 2, 1e-3);
+  const distance = radius * PRESET_VIEW_MARGIN / Math.tan(fov * Math.PI / 360);
+  return {
+    position: direction.clone().normalize().multiplyScalar(distance).add(center),
+    target: center,
+    fov,
+  };
+};
+
+/** Length in seconds of a path through `keyframeCount` keyframes. */
+export const cameraPathDuration = (keyframeCount: number, segmentDuration: number, loop: boolean) => {
+  const segments = loop ? keyframeCount : keyframeCount - 1;
+  return keyframeCount < 2 ? 0 : segments * segmentDuration;
+};
+
+/**
+ * Smooth camera path through `keyframes`: positions and targets follow centripetal Catmull-Rom
+ * splines, so the camera passes through every keyframe without overshooting, and the field of view
+ * is eased between keyframes. Each segment between consecutive keyframes takes the same time.
+ *
+ * @param loop Also fly from the last keyframe back to the first.
+ * @returns A function from path progress in [0, 1] to a camera pose.
+ */
+export const createCameraPath = (keyframes: CameraPose[], loop: boolean): ((progress: number) => CameraPose) => {
+  if (keyframes.length === 0) throw new Error('A camera path needs at least one keyframe.');
+  if (keyframes.length === 1) return () => cloneCameraPose(keyframes[0]);
+
+  const positions = new THREE.CatmullRomCurve3(keyframes.map(k => k.position.clone()), loop, 'centripetal');
+  const targets = new THREE.CatmullRomCurve3(keyframes.map(k => k.target.clone()), loop, 'centripetal');
+  const segments = loop ? keyframes.length : keyframes.length - 1;
+
+  return (progress: number) => {
+    const u = THREE.MathUtils.clamp(progress, 0, 1);
+    const scaled = u * segments;
+    const index = Math.min(Math.floor(scaled), segments - 1);
+    const from = keyframes[index];
+    const to = keyframes[(index + 1) % keyframes.length];
+    return {
+      position: positions.getPoint(u),
+      target: targets.getPoint(u),
+      fov: from.fov + (to.fov - from.fov) * easeInOut(scaled - index),
+    };
+  };
+};
+
+/**
+ * One full orbit around the vertical axis through `center`, starting from `start` and looking
+ * at `center` throughout.
+ *
+ * @returns A function from orbit progress in [0, 1] to a camera pose.
+ */
+export const createTurntablePath = (center: THREE.Vector3, start: CameraPose): ((progress: number) => CameraPose) => {
+  const offset = start.position.clone().sub(center);
+  const axis = new THREE.Vector3(0, 1, 0);
+  return (progress: number) => ({
+    position: offset.clone().applyAxisAngle(axis, progress * Math.PI * 2).add(center),
+    target: center.clone(),
+    fov: start.fov,
+  });
+};
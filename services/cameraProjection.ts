@@ -0,0 +1,58 @@
+import * as THREE from 'three';
+import type { CameraProjection } from '../types';
+
+/**
+ * Half the height of the view, in world units, at `distance` in front of the camera. An
+ * orthographic view of that height shows the same as the perspective view at that distance.
+ */
+export const viewHalfHeight = (camera: THREE.PerspectiveCamera, distance: number): number =>
+  distance * Math.tan(camera.fov * Math.PI / 360) / camera.zoom;
+
+/**
+ * Sets the projection matrix of `camera`. Orthographic views keep the perspective camera and its
+ * pose, so that the controls, picking and poses work unchanged, and replace the projection with one
+ * that shows what the perspective view shows at `targetDistance`; orbit zoom, which moves the
+ * camera, then zooms the orthographic view. Like `updateProjectionMatrix`, view offsets set by
+ * `setViewOffset` are respected.
+ */
+export const applyCameraProjection = (camera: THREE.PerspectiveCamera, projection: CameraProjection, targetDistance: number) => {
+  camera.updateProjectionMatrix();
+  if (projection === 'perspective') return;
+
+  const halfHeight = viewHalfHeight(camera, targetDistance);
+  const halfWidth = halfHeight * camera.aspect;
+  let left = -halfWidth, right = halfWidth, top = halfHeight, bottom = -halfHeight;
+  const view = camera.view;
+  if (view?.enabled) {
+    const scaleWidth = (right - left) / view.fullWidth;
+    const scaleHeight = (top - bottom) / view.fullHeight;
+    left += scaleWidth * view.offsetX;
+    right = left + scaleWidth * view.width;
+    top -= scaleHeight * view.offsetY;
+    bottom = top - scaleHeight * view.height;
+  }
+  // Points behind the camera are in view too, as the camera only marks the orbit distance
+  camera.projectionMatrix.makeOrthographic(left, right, top, bottom, -camera.far, camera.far);
+  camera.projectionMatrixInverse.copy(camera.projectionMatrix).invert();
+};
+
+/**
+ * Copies the pose and orthographic projection of `camera` to `target`. Tools that cast rays from
+ * the camera, like the transform gizmos, use `target` while the view is orthographic, as they treat
+ * every perspective camera as casting rays from its position.
+ */
+export const syncOrthographicCamera = (target: THREE.OrthographicCamera, camera: THREE.PerspectiveCamera) => {
+  target.position.copy(camera.position);
+  target.quaternion.copy(camera.quaternion);
+  target.updateMatrixWorld();
+  target.projectionMatrix.copy(camera.projectionMatrix);
+  target.projectionMatrixInverse.copy(camera.projectionMatrixInverse);
+  const m = camera.projectionMatrix.elements;
+  target.right = 1 / m[0];
+  target.left = -target.right;
+  target.top = 1 / m[5];
+  target.bottom = -target.top;
+  target.near = -camera.far;
+  target.far = camera.far;
+  target.zoom = 1;
+};
@@ -0,0 +1,121 @@
+import * as THREE from 'three';
+import type { ClipPlane, ClippingSettings } from '../types';
+
+/** Most clipping planes applied at once; matches the shader uniform arrays. */
+export const MAX_CLIP_PLANES = 6;
+
+/** Thickness of new slabs as a fraction of the scene diagonal. */
+const DEFAULT_SLAB_FRACTION = 0.02;
+
+const createPlaneId = () => `clip-${Math.random().toString(36).slice(2, 10)}`;
+
+/** Rotations turning +Y, the plane normal, onto each world axis. */
+const AXIS_ROTATIONS: Record<'x' | 'y' | 'z', THREE.Euler> = {
+  x: new THREE.Euler(0, 0, -Math.PI / 2),
+  y: new THREE.Euler(0, 0, 0),
+  z: new THREE.Euler(Math.PI / 2, 0, 0),
+};
+
+/**
+ * A plane through the center of `bounds` facing along `axis`. A plane facing up cuts away the upper
+ * half of the scene, as for a floor plan.
+ */
+export const createClipPlane = (bounds: THREE.Box3 | null, axis: 'x' | 'y' | 'z'): ClipPlane => {
+  const center = bounds ? bounds.getCenter(new THREE.Vector3()) : new THREE.Vector3();
+  const diagonal = bounds ? bounds.getSize(new THREE.Vector3()).length() : 1;
+  return {
+    id: createPlaneId(),
+    center,
+    rotation: AXIS_ROTATIONS[axis].clone(),
+    enabled: true,
+    slab: false,
+    thickness: diagonal * DEFAULT_SLAB_FRACTION || 0.1,
+  };
+};
+
+export const updateClipPlane = (settings: ClippingSettings, id: string, changes: Partial<ClipPlane>): ClippingSettings => ({
+  ...settings,
+  planes: settings.planes.map(p => (p.id === id ? { ...p, ...changes } : p)),
+});
+
+/** World-space unit normal of `plane`. */
+export const clipPlaneNormal = (plane: ClipPlane, target = new THREE.Vector3()): THREE.Vector3 =>
+  target.set(0, 1, 0).applyEuler(plane.rotation);
+
+/** Rotation of `plane` turned half a turn about its local X axis, so that it cuts the other side. */
+export const flippedClipRotation = (plane: ClipPlane): THREE.Euler =>
+  new THREE.Euler().setFromQuaternion(
+    new THREE.Quaternion().setFromEuler(plane.rotation).multiply(new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), Math.PI)),
+    plane.rotation.order
+  );
+
+/** The planes that cut the scene, at most `MAX_CLIP_PLANES`. */
+export const activeClipPlanes = (settings: ClippingSettings): ClipPlane[] =>
+  settings.enabled ? settings.planes.filter(p => p.enabled).slice(0, MAX_CLIP_PLANES) : [];
+
+/**
+ * Builds a point test matching the vertex shader, for picking and export.
+ * @param modelMatrix Transform of the tested points to world space, for testing them in model space.
+ * @returns A function that is true for points the planes keep.
+ */
+export const createClipTester = (settings: ClippingSettings, modelMatrix?: THREE.Matrix4): ((x: number, y: number, z: number) => boolean) => {
+  const planes = activeClipPlanes(settings);
+  if (planes.length === 0) return () => true;
+  // Signed world distances are linear in the model-space position, so the planes move to model space as is
+  const m = modelMatrix?.elements ?? new THREE.Matrix4().elements;
+  const coefficients = planes.map(plane => {
+    const n = clipPlaneNormal(plane);
+    return [
+      n.x * m[0] + n.y * m[1] + n.z * m[2],
+      n.x * m[4] + n.y * m[5] + n.z * m[6],
+      n.x * m[8] + n.y * m[9] + n.z * m[10],
+      n.x * m[12] + n.y * m[13] + n.z * m[14] - n.dot(plane.center),
+    ];
+  });
+  return (x, y, z) => {
+    for (let i = 0; i < planes.length; i++) {
+      const c = coefficients[i];
+      const d = c[0] * x + c[1] * y + c[2] * z + c[3];
+      if (planes[i].slab ? Math.abs(d) > planes[i].thickness / 2 : d > 0) return false;
+    }
+    return true;
+  };
+};
+
+export const CLIP_SHADER_CHUNK = `
+  uniform int u_clip_count;
+  uniform vec4 u_clip_planes[${MAX_CLIP_PLANES}]; // World-space normal and constant
+  uniform float u_clip_slab[${MAX_CLIP_PLANES}]; // Half the slab thickness, or 0 to remove the side in front
+
+  bool isClipped(vec3 world_pos) {
+    for (int i = 0; i < ${MAX_CLIP_PLANES}; i++) {
+      if (i >= u_clip_count) break;
+      float d = dot(u_clip_planes[i].xyz, world_pos) + u_clip_planes[i].w;
+      if (u_clip_slab[i] > 0.0 ? abs(d) > u_clip_slab[i] : d > 0.0) return true;
+    }
+    return false;
+  }
+`;
+
+export interface ClipUniformValues {
+  count: number;
+  planes: THREE.Vector4[];
+  slabs: number[];
+}
+
+/** Packs the active planes into the fixed-size arrays of the clipping shader uniforms. */
+export const packClipUniforms = (settings: ClippingSettings): ClipUniformValues => {
+  const planes = activeClipPlanes(settings);
+  const values: ClipUniformValues = {
+    count: planes.length,
+    planes: Array.from({ length: MAX_CLIP_PLANES }, () => new THREE.Vector4()),
+    slabs: new Array(MAX_CLIP_PLANES).fill(0),
+  };
+  planes.forEach((plane, i) => {
+    const normal = clipPlaneNormal(plane);
+    values.planes[i].set(normal.x, normal.y, normal.z, -normal.dot(plane.center));
+    // A slab of zero thickness would keep nothing; the shader treats it as a cut
+    values.slabs[i] = plane.slab ? Math.max(plane.thickness / 2, 1e-9) : 0;
+  });
+  return values;
+};
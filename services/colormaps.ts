@@ -0,0 +1,104 @@
+import * as THREE from 'three';
+import type { ColormapName } from '../types';
+
+type Rgb = [number, number, number];
+
+const clamp01 = (t: number) => Math.min(1, Math.max(0, t));
+
+/** Evaluates per-channel polynomials with coefficients from the constant term up. */
+const polynomial = (coefficients: Rgb[]) => (t: number): Rgb => {
+  const rgb: Rgb = [0, 0, 0];
+  for (let c = 0; c < 3; c++) {
+    let value = 0;
+    for (let k = coefficients.length - 1; k >= 0; k--) value = value * t + coefficients[k][c];
+    rgb[c] = clamp01(value);
+  }
+  return rgb;
+};
+
+/** Linear interpolation between evenly spaced colors. */
+const piecewise = (stops: Rgb[]) => (t: number): Rgb => {
+  const x = clamp01(t) * (stops.length - 1);
+  const i = Math.min(Math.floor(x), stops.length - 2);
+  const f = x - i;
+  return [0, 1, 2].map(c => stops[i][c] + (stops[i + 1][c] - stops[i][c]) * f) as Rgb;
+};
+
+export const COLORMAPS: Record<ColormapName, { label: string; sample: (t: number) => Rgb }> = {
+  // Cubic fit, as previously used for the elevation colormap
+  viridis: {
+    label: 'Viridis',
+    sample: polynomial([
+      [0.222733, 0.024924, 0.203291],
+      [-1.385481, 0.117286, 1.297495],
+      [5.646949, 3.093823, -3.489865],
+      [-3.916112, -2.253683, 2.875323],
+    ]),
+  },
+  // Polynomial approximation published with the Turbo colormap
+  turbo: {
+    label: 'Turbo',
+    sample: polynomial([
+      [0.13572138, 0.09140261, 0.1066733],
+      [4.6153926, 2.19418839, 12.64194608],
+      [-42.66032258, 4.84296658, -60.58204836],
+      [132.13108234, -14.18503333, 110.36276771],
+      [-152.94239396, 4.27729857, -89.90310912],
+      [59.28637943, 2.82956604, 27.34824973],
+    ]),
+  },
+  magma: {
+    label: 'Magma',
+    sample: polynomial([
+      [-0.002136485053939582, -0.000749655052795221, -0.005386127855323933],
+      [0.2516605407371642, 0.6775232436837668, 2.494026599312351],
+      [8.353717279216625, -3.577719514958484, 0.3144679030132573],
+      [-27.66873308576866, 14.26473078096533, -13.64921318813922],
+      [52.17613981234068, -27.94360607168351, 12.94416944238394],
+      [-50.76852536473588, 29.04658282127291, 4.23415299384598],
+      [18.65570506591883, -11.48977351997711, -5.601961508734096],
+    ]),
+  },
+  grayscale: {
+    label: 'Grayscale',
+    sample: t => [clamp01(t), clamp01(t), clamp01(t)],
+  },
+  // Blue to red through light gray, after Moreland's cool-warm map; the middle marks the range center
+  diverging: {
+    label: 'Diverging',
+    sample: piecewise([
+      [0.23, 0.299, 0.754],
+      [0.552, 0.69, 0.996],
+      [0.865, 0.865, 0.865],
+      [0.958, 0.604, 0.482],
+      [0.706, 0.016, 0.15],
+    ]),
+  },
+};
+
+export const COLORMAP_TEXTURE_SIZE = 256;
+
+/** Lookup texture of a colormap for the shader, sampled with a coordinate in [0, 1]. */
+export const createColormapTexture = (name: ColormapName): THREE.DataTexture => {
+  const data = new Uint8Array(COLORMAP_TEXTURE_SIZE * 4);
+  for (let i = 0; i < COLORMAP_TEXTURE_SIZE; i++) {
+    const rgb = COLORMAPS[name].sample(i / (COLORMAP_TEXTURE_SIZE - 1));
+    for (let c = 0; c < 3; c++) data[i * 4 + c] = Math.round(rgb[c] * 255);
+    data[i * 4 + 3] = 255;
+  }
+  const texture = new THREE.DataTexture(data, COLORMAP_TEXTURE_SIZE, 1, THREE.RGBAFormat, THREE.UnsignedByteType);
+  texture.minFilter = THREE.LinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+/** CSS color of a colormap at `t` in [0, 1]. */
+export const colormapCss = (name: ColormapName, t: number) => {
+  const [r, g, b] = COLORMAPS[name].sample(t).map(v => Math.round(v * 255));
+  return `rgb(${r}, ${g}, ${b})`;
+};
+
+/** CSS gradient running through a colormap from left to right, for legends. */
+export const colormapGradient = (name: ColormapName, stops = 16) =>
+  `linear-gradient(to right, ${Array.from({ length: stops }, (_, i) => colormapCss(name, i / (stops - 1))).join(', ')})`;
@@ -0,0 +1,176 @@
+import * as THREE from 'three';
+import { CropMode, CropShape } from '../types';
+import type { CropSettings, CropVolume } from '../types';
+
+/** Upper bound on simultaneously active volumes across the scene, fixed by the shader's uniform arrays. */
+export const MAX_CROP_VOLUMES = 8;
+
+export const CROP_SHAPE_NAMES: Record<CropShape, string> = {
+  [CropShape.BOX]: 'Box',
+  [CropShape.SPHERE]: 'Sphere',
+  [CropShape.CYLINDER]: 'Cylinder',
+};
+
+const createVolumeId = () => `crop-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Creates a volume of the given shape that encloses `bounds`.
+ */
+export const createCropVolume = (shape: CropShape, bounds: THREE.Box3, mode: CropMode = CropMode.INCLUDE): CropVolume => {
+  const center = bounds.getCenter(new THREE.Vector3());
+  const size = bounds.getSize(new THREE.Vector3());
+  if (shape === CropShape.SPHERE) {
+    size.setScalar(size.length());
+  } else if (shape === CropShape.CYLINDER) {
+    const diameter = Math.hypot(size.x, size.z);
+    size.set(diameter, size.y, diameter);
+  }
+  return { id: createVolumeId(), shape, mode, center, rotation: new THREE.Euler(), size, enabled: true };
+};
+
+/** Crop settings for freshly loaded data: a disabled include box around the model. */
+export const createDefaultCrop = (bounds: THREE.Box3): CropSettings => {
+  const box = createCropVolume(CropShape.BOX, bounds);
+  return { volumes: [box], selectedVolumeId: box.id, enabled: false };
+};
+
+export const updateCropVolume = (crop: CropSettings, id: string, changes: Partial<CropVolume>): CropSettings => ({
+  ...crop,
+  volumes: crop.volumes.map(v => (v.id === id ? { ...v, ...changes } : v)),
+});
+
+/** Matrix mapping model space into the unit space of the volume. */
+export const cropVolumeInverseMatrix = (volume: CropVolume, target = new THREE.Matrix4()): THREE.Matrix4 => {
+  const size = volume.size.clone().max(new THREE.Vector3(1e-6, 1e-6, 1e-6));
+  target.compose(volume.center, new THREE.Quaternion().setFromEuler(volume.rotation), size);
+  return target.invert();
+};
+
+/** Enabled volumes of one model, before the scene's shared budget is applied. */
+export const activeCropVolumes = (crop: CropSettings): CropVolume[] =>
+  crop.enabled ? crop.volumes.filter(v => v.enabled) : [];
+
+/**
+ * Enabled volumes of every model in the order they are sent to the shader, up to the shared
+ * budget of `MAX_CROP_VOLUMES`; volumes of later models are dropped first.
+ *
+ * @param crops Crop settings per model, indexed like the shader's model index.
+ */
+export const activeSceneCropVolumes = (crops: CropSettings[]): { volume: CropVolume; model: number }[] =>
+  crops
+    .flatMap((crop, model) => activeCropVolumes(crop).map(volume => ({ volume, model })))
+    .slice(0, MAX_CROP_VOLUMES);
+
+const insideUnitShape = (shape: CropShape, x: number, y: number, z: number): boolean => {
+  switch (shape) {
+    case CropShape.BOX:
+      return Math.abs(x) <= 0.5 && Math.abs(y) <= 0.5 && Math.abs(z) <= 0.5;
+    case CropShape.SPHERE:
+      return x * x + y * y + z * z <= 0.25;
+    case CropShape.CYLINDER:
+      return x * x + z * z <= 0.25 && Math.abs(y) <= 0.5;
+  }
+};
+
+/**
+ * Builds a model-space point test matching the vertex shader, for export and statistics. Only the
+ * volumes that fit the scene's shared budget are tested, like in the shader.
+ *
+ * @param crops Crop settings of the drawn models, indexed like the shader's model index.
+ * @param model Index into `crops` of the model whose points are tested.
+ * @returns A function that is true for points the crop keeps.
+ */
+export const createCropTester = (crops: CropSettings[], model: number): ((x: number, y: number, z: number) => boolean) => {
+  const volumes = activeSceneCropVolumes(crops).filter(v => v.model === model).map(v => v.volume);
+  if (volumes.length === 0) return () => true;
+  const matrices = volumes.map(v => cropVolumeInverseMatrix(v).elements);
+  const hasInclude = volumes.some(v => v.mode === CropMode.INCLUDE);
+  return (x, y, z) => {
+    let included = !hasInclude;
+    for (let i = 0; i < volumes.length; i++) {
+      const m = matrices[i];
+      const inside = insideUnitShape(
+        volumes[i].shape,
+        m[0] * x + m[4] * y + m[8] * z + m[12],
+        m[1] * x + m[5] * y + m[9] * z + m[13],
+        m[2] * x + m[6] * y + m[10] * z + m[14]
+      );
+      if (!inside) continue;
+      if (volumes[i].mode === CropMode.EXCLUDE) return false;
+      included = true;
+    }
+    return included;
+  };
+};
+
+/** Counts the points of `positions` kept by the crop of model `model`, see `createCropTester`. */
+export const countCroppedPoints = (positions: Float32Array, pointCount: number, crops: CropSettings[], model: number): number => {
+  const keep = createCropTester(crops, model);
+  let count = 0;
+  for (let i = 0; i < pointCount; i++) {
+    if (keep(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2])) count++;
+  }
+  return count;
+};
+
+export interface CropUniformValues {
+  count: number;
+  inverses: THREE.Matrix4[];
+  shapes: number[];
+  modes: number[];
+  models: number[];
+}
+
+/**
+ * Packs the active volumes of every model into the fixed-size arrays of the crop shader uniforms.
+ * Volumes beyond the shared budget of `MAX_CROP_VOLUMES` are dropped.
+ *
+ * @param crops Crop settings per model, indexed like the shader's model index.
+ */
+export const packCropUniforms = (crops: CropSettings[]): CropUniformValues => {
+  const volumes = activeSceneCropVolumes(crops);
+  const inverses = Array.from({ length: MAX_CROP_VOLUMES }, () => new THREE.Matrix4());
+  const shapes = new Array(MAX_CROP_VOLUMES).fill(0);
+  const modes = new Array(MAX_CROP_VOLUMES).fill(0);
+  const models = new Array(MAX_CROP_VOLUMES).fill(0);
+  volumes.forEach(({ volume, model }, i) => {
+    cropVolumeInverseMatrix(volume, inverses[i]);
+    shapes[i] = volume.shape;
+    modes[i] = volume.mode;
+    models[i] = model;
+  });
+  return { count: volumes.length, inverses, shapes, modes, models };
+};
+
+/** GLSL for the crop test; expects the uniforms filled from `packCropUniforms`. */
+export const CROP_SHADER_CHUNK = `
+  uniform int u_crop_count;
+  uniform mat4 u_crop_inverse[${MAX_CROP_VOLUMES}];
+  uniform int u_crop_shape[${MAX_CROP_VOLUMES}]; // 0: box, 1: sphere, 2: cylinder
+  uniform int u_crop_mode[${MAX_CROP_VOLUMES}]; // 0: include, 1: exclude
+  uniform int u_crop_model[${MAX_CROP_VOLUMES}]; // Model the volume belongs to
+
+  bool insideCropVolume(int i, vec3 p) {
+    vec3 l = (u_crop_inverse[i] * vec4(p, 1.0)).xyz;
+    if (u_crop_shape[i] == 0) return all(lessThanEqual(abs(l), vec3(0.5)));
+    if (u_crop_shape[i] == 1) return dot(l, l) <= 0.25;
+    return dot(l.xz, l.xz) <= 0.25 && abs(l.y) <= 0.5;
+  }
+
+  bool isCropped(vec3 p, int model) {
+    bool hasInclude = false;
+    bool included = false;
+    for (int i = 0; i < ${MAX_CROP_VOLUMES}; i++) {
+      if (i >= u_crop_count) break;
+      if (u_crop_model[i] != model) continue;
+      bool inside = insideCropVolume(i, p);
+      if (u_crop_mode[i] == 1) {
+        if (inside) return true;
+      } else {
+        hasInclude = true;
+        included = included || inside;
+      }
+    }
+    return hasInclude && !included;
+  }
+`;
@@ -0,0 +1,32 @@
+import { createComputedElementTable } from '../plyFormat';
+import type { PlyElementTable } from '../plyFormat';
+import { colorToShDc, opacityToLogit } from './encoding';
+
+const BYTES_PER_SPLAT = 32;
+
+/**
+ * Decodes the headerless `.splat` layout popularized by antimatter15/splat. Each splat is 32 bytes:
+ * position (3 x float32), linear scale (3 x float32), RGBA color (4 x uint8, alpha = opacity)
+ * and a quaternion (4 x uint8, w first, mapped from [-1, 1] to [0, 255]).
+ */
+export const decodeAntimatterSplat = (buffer: ArrayBuffer): PlyElementTable => {
+  if (buffer.byteLength % BYTES_PER_SPLAT !== 0) {
+    throw new Error(`Invalid .splat file: size ${buffer.byteLength} is not a multiple of ${BYTES_PER_SPLAT} bytes.`);
+  }
+  const count = buffer.byteLength / BYTES_PER_SPLAT;
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  const float = (offset: number) => (row: number) => view.getFloat32(row * BYTES_PER_SPLAT + offset, true);
+  const logScale = (offset: number) => (row: number) => Math.log(view.getFloat32(row * BYTES_PER_SPLAT + offset, true));
+  const color = (offset: number) => (row: number) => colorToShDc(bytes[row * BYTES_PER_SPLAT + offset] / 255);
+  const rotation = (offset: number) => (row: number) => (bytes[row * BYTES_PER_SPLAT + offset] - 128) / 128;
+
+  return createComputedElementTable('vertex', count, [
+    ['x', float(0)], ['y', float(4)], ['z', float(8)],
+    ['f_dc_0', color(24)], ['f_dc_1', color(25)], ['f_dc_2', color(26)],
+    ['opacity', (row) => opacityToLogit(bytes[row * BYTES_PER_SPLAT + 27] / 255)],
+    ['scale_0', logScale(12)], ['scale_1', logScale(16)], ['scale_2', logScale(20)],
+    ['rot_0', rotation(28)], ['rot_1', rotation(29)], ['rot_2', rotation(30)], ['rot_3', rotation(31)],
+  ]);
+};
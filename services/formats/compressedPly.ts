@@ -0,0 +1,116 @@
+import { createComputedElementTable, readPlyElement } from '../plyFormat';
+import type { PlyElementTable, PlyHeader } from '../plyFormat';
+import { colorToShDc, opacityToLogit } from './encoding';
+
+// Vertices are quantized relative to the bounds of the chunk of 256 they belong to.
+const CHUNK_SIZE = 256;
+
+/** True for the chunked, quantized PLY layout written by PlayCanvas and SuperSplat. */
+export const isCompressedPly = (header: PlyHeader): boolean => {
+  const vertex = header.elements.find(e => e.name === 'vertex');
+  return header.elements.some(e => e.name === 'chunk') && !!vertex?.properties.some(p => p.name === 'packed_position');
+};
+
+const unpack11_10_11 = (value: number, out: number[]) => {
+  out[0] = (value >>> 21) / 2047;
+  out[1] = ((value >>> 11) & 0x3ff) / 1023;
+  out[2] = (value & 0x7ff) / 2047;
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Decodes a compressed PLY into the standard 3DGS vertex properties.
+ * Positions and log scales are 11/10/11-bit values within per-chunk bounds, rotations use the
+ * "smallest three" 2/10/10/10 encoding, colors are RGBA8 (optionally within per-chunk color
+ * bounds) and the optional `sh` element stores f_rest_* as uint8.
+ */
+export const decodeCompressedPly = (buffer: ArrayBuffer, header: PlyHeader): PlyElementTable => {
+  const chunks = readPlyElement(buffer, header, 'chunk');
+  const vertices = readPlyElement(buffer, header, 'vertex');
+  const sh = header.elements.some(e => e.name === 'sh') ? readPlyElement(buffer, header, 'sh') : null;
+  const count = vertices.count;
+
+  const chunkFields = [
+    'min_x', 'min_y', 'min_z', 'max_x', 'max_y', 'max_z',
+    'min_scale_x', 'min_scale_y', 'min_scale_z', 'max_scale_x', 'max_scale_y', 'max_scale_z',
+    'min_r', 'min_g', 'min_b', 'max_r', 'max_g', 'max_b',
+  ];
+  for (const field of chunkFields.slice(0, 12)) {
+    if (chunks.indexOf(field) < 0) throw new Error(`Compressed PLY chunk element is missing "${field}".`);
+  }
+  const fieldCount = chunkFields.length;
+  const bounds = new Float32Array(chunks.count * fieldCount);
+  for (let c = 0; c < chunks.count; c++) {
+    chunkFields.forEach((field, f) => {
+      const p = chunks.indexOf(field);
+      // Without color bounds, colors span the full [0, 1] range
+      bounds[c * fieldCount + f] = p >= 0 ? chunks.getValue(c, p) : (f < 15 ? 0 : 1);
+    });
+  }
+  if (Math.ceil(count / CHUNK_SIZE) > chunks.count) {
+    throw new Error(`Compressed PLY has ${count} vertices but only ${chunks.count} chunks.`);
+  }
+
+  const [POSITION, ROTATION, SCALE, COLOR] = ['packed_position', 'packed_rotation', 'packed_scale', 'packed_color'].map(vertices.indexOf);
+  if ([POSITION, ROTATION, SCALE, COLOR].some(p => p < 0)) {
+    throw new Error('Compressed PLY vertex element must have packed_position, packed_rotation, packed_scale and packed_color.');
+  }
+
+  const unpacked = [0, 0, 0];
+  const bound = (row: number, field: number) => bounds[Math.floor(row / CHUNK_SIZE) * fieldCount + field];
+
+  const position = (axis: number) => (row: number) => {
+    unpack11_10_11(vertices.getValue(row, POSITION), unpacked);
+    return lerp(bound(row, axis), bound(row, 3 + axis), unpacked[axis]);
+  };
+  const scale = (axis: number) => (row: number) => {
+    unpack11_10_11(vertices.getValue(row, SCALE), unpacked);
+    return lerp(bound(row, 6 + axis), bound(row, 9 + axis), unpacked[axis]);
+  };
+  const color = (channel: number) => (row: number) => {
+    const value = ((vertices.getValue(row, COLOR) >>> (24 - channel * 8)) & 0xff) / 255;
+    return colorToShDc(lerp(bound(row, 12 + channel), bound(row, 15 + channel), value));
+  };
+
+  // Rotations are decoded once per row and shared by the four rot_* columns
+  let rotationRow = -1;
+  const q = [0, 0, 0, 0];
+  const rotation = (component: number) => (row: number) => {
+    if (row !== rotationRow) {
+      rotationRow = row;
+      const value = vertices.getValue(row, ROTATION);
+      const norm = Math.SQRT2;
+      const a = (((value >>> 20) & 0x3ff) / 1023 - 0.5) * norm;
+      const b = (((value >>> 10) & 0x3ff) / 1023 - 0.5) * norm;
+      const c = ((value & 0x3ff) / 1023 - 0.5) * norm;
+      const m = Math.sqrt(Math.max(0, 1 - (a * a + b * b + c * c)));
+      const largest = value >>> 30;
+      const rest = [a, b, c];
+      for (let i = 0, r = 0; i < 4; i++) q[i] = i === largest ? m : rest[r++];
+    }
+    return q[component];
+  };
+
+  const columns: [string, (row: number) => number][] = [
+    ['x', position(0)], ['y', position(1)], ['z', position(2)],
+    ['f_dc_0', color(0)], ['f_dc_1', color(1)], ['f_dc_2', color(2)],
+  ];
+  if (sh) {
+    if (sh.count !== count) throw new Error(`Compressed PLY sh element has ${sh.count} rows, expected ${count}.`);
+    sh.element.properties.forEach((p, index) => {
+      // uint8 values map back to the [-4, 4] range the writer quantized
+      columns.push([p.name, (row) => {
+        const v = sh.getValue(row, index);
+        return ((v === 0 ? 0 : (v + 0.5) / 256) - 0.5) * 8;
+      }]);
+    });
+  }
+  columns.push(
+    ['opacity', (row) => opacityToLogit((vertices.getValue(row, COLOR) & 0xff) / 255)],
+    ['scale_0', scale(0)], ['scale_1', scale(1)], ['scale_2', scale(2)],
+    ['rot_0', rotation(0)], ['rot_1', rotation(1)], ['rot_2', rotation(2)], ['rot_3', rotation(3)],
+  );
+
+  return createComputedElementTable('vertex', count, columns);
+};
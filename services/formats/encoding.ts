@@ -0,0 +1,14 @@
+import { SH_C0 } from '../sphericalHarmonics';
+
+// Keeps logits finite for fully transparent or fully opaque splats.
+const OPACITY_EPSILON = 1e-6;
+
+/** Inverse of the sigmoid 3DGS applies to stored opacities. */
+export const opacityToLogit = (opacity: number): number => {
+  const p = Math.min(1 - OPACITY_EPSILON, Math.max(OPACITY_EPSILON, opacity));
+  return Math.log(p / (1 - p));
+};
+
+/** Inverse of the `0.5 + SH_C0 * f_dc` color conversion. */
+export const colorToShDc = (color: number): number => (color - 0.5) / SH_C0;
+
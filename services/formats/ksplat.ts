@@ -0,0 +1,192 @@
+import { DataUtils } from 'three';
+import { createComputedElementTable } from '../plyFormat';
+import type { PlyElementTable } from '../plyFormat';
+import { shRestCoefficientCount } from '../sphericalHarmonics';
+import { colorToShDc, opacityToLogit } from './encoding';
+
+const HEADER_BYTES = 4096;
+const SECTION_HEADER_BYTES = 1024;
+// Default range used to quantize SH coefficients to uint8 at compression level 2.
+const DEFAULT_SH_8BIT_RANGE = 3;
+
+interface KsplatLevel {
+  bytesPerCenter: number;
+  bytesPerScale: number;
+  bytesPerRotation: number;
+  bytesPerShComponent: number;
+  scaleRange: number;
+}
+
+// Per-component storage of the three compression levels defined by GaussianSplats3D.
+const LEVELS: KsplatLevel[] = [
+  { bytesPerCenter: 12, bytesPerScale: 12, bytesPerRotation: 16, bytesPerShComponent: 4, scaleRange: 1 },
+  { bytesPerCenter: 6, bytesPerScale: 6, bytesPerRotation: 8, bytesPerShComponent: 2, scaleRange: 32767 },
+  { bytesPerCenter: 6, bytesPerScale: 6, bytesPerRotation: 8, bytesPerShComponent: 1, scaleRange: 32767 },
+];
+
+const BYTES_PER_COLOR = 4;
+
+interface KsplatSection {
+  firstRow: number;
+  splatCount: number;
+  bytesPerSplat: number;
+  dataBase: number;
+  bucketsBase: number;
+  bucketSize: number;
+  fullBucketCount: number;
+  /** Row index (local to the section) where each partially filled bucket starts. */
+  partialBucketStarts: number[];
+  compressionScaleFactor: number;
+  compressionScaleRange: number;
+  shDegree: number;
+}
+
+/**
+ * Decodes the `.ksplat` format of mkkellogg/GaussianSplats3D: a 4 KB main header, one 1 KB header per
+ * section and per-section splat data at compression level 0 (float32), 1 (float16 with bucketed uint16
+ * positions) or 2 (level 1 with uint8 spherical harmonics).
+ */
+export const decodeKsplat = (buffer: ArrayBuffer): PlyElementTable => {
+  if (buffer.byteLength < HEADER_BYTES) throw new Error('Invalid .ksplat file: header is truncated.');
+  const view = new DataView(buffer);
+  const versionMajor = view.getUint8(0);
+  const versionMinor = view.getUint8(1);
+  if (versionMajor !== 0 || versionMinor < 1) {
+    throw new Error(`Unsupported .ksplat version ${versionMajor}.${versionMinor}.`);
+  }
+  const maxSectionCount = view.getUint32(4, true);
+  const sectionCount = view.getUint32(8, true);
+  const compressionLevel = view.getUint16(20, true);
+  const level = LEVELS[compressionLevel];
+  if (!level) throw new Error(`Unsupported .ksplat compression level ${compressionLevel}.`);
+  const minShCoeff = view.getFloat32(36, true) || -DEFAULT_SH_8BIT_RANGE / 2;
+  const maxShCoeff = view.getFloat32(40, true) || DEFAULT_SH_8BIT_RANGE / 2;
+
+  const sections: KsplatSection[] = [];
+  let sectionBase = HEADER_BYTES + maxSectionCount * SECTION_HEADER_BYTES;
+  let firstRow = 0;
+  for (let i = 0; i < sectionCount; i++) {
+    const h = HEADER_BYTES + i * SECTION_HEADER_BYTES;
+    const splatCount = view.getUint32(h, true);
+    const maxSplatCount = view.getUint32(h + 4, true);
+    const bucketSize = view.getUint32(h + 8, true);
+    const bucketCount = view.getUint32(h + 12, true);
+    const bucketBlockSize = view.getFloat32(h + 16, true);
+    const bucketStorageSizeBytes = view.getUint16(h + 20, true);
+    const compressionScaleRange = view.getUint32(h + 24, true) || level.scaleRange;
+    const fullBucketCount = view.getUint32(h + 32, true);
+    const partiallyFilledBucketCount = view.getUint32(h + 36, true);
+    const shDegree = view.getUint16(h + 40, true);
+
+    const shComponents = shRestCoefficientCount(shDegree) * 3;
+    const bytesPerSplat = level.bytesPerCenter + level.bytesPerScale + level.bytesPerRotation + BYTES_PER_COLOR +
+      shComponents * level.bytesPerShComponent;
+    const bucketsMetaDataSizeBytes = partiallyFilledBucketCount * 4;
+    const bucketsStorageSizeBytes = bucketStorageSizeBytes * bucketCount + bucketsMetaDataSizeBytes;
+
+    // Partially filled buckets follow the full ones; their lengths are stored before the bucket centers
+    const partialBucketStarts: number[] = [];
+    let start = fullBucketCount * bucketSize;
+    for (let b = 0; b < partiallyFilledBucketCount; b++) {
+      partialBucketStarts.push(start);
+      start += view.getUint32(sectionBase + b * 4, true);
+    }
+
+    sections.push({
+      firstRow,
+      splatCount,
+      bytesPerSplat,
+      dataBase: sectionBase + bucketsStorageSizeBytes,
+      bucketsBase: sectionBase + bucketsMetaDataSizeBytes,
+      bucketSize,
+      fullBucketCount,
+      partialBucketStarts,
+      compressionScaleFactor: bucketBlockSize / 2 / compressionScaleRange,
+      compressionScaleRange,
+      shDegree,
+    });
+    sectionBase += bytesPerSplat * maxSplatCount + bucketsStorageSizeBytes;
+    firstRow += splatCount;
+  }
+  if (sectionBase > buffer.byteLength) throw new Error('Invalid .ksplat file: splat data is truncated.');
+
+  const count = firstRow;
+  const shDegree = sections.reduce((degree, s) => Math.max(degree, s.shDegree), 0);
+  const restPerChannel = shRestCoefficientCount(shDegree);
+
+  // Rows are read in order, so remember the section of the last lookup
+  let current = sections[0];
+  const locate = (row: number): KsplatSection => {
+    if (!current || row < current.firstRow || row >= current.firstRow + current.splatCount) {
+      current = sections.find(s => row >= s.firstRow && row < s.firstRow + s.splatCount)!;
+    }
+    return current;
+  };
+  const splatBase = (section: KsplatSection, row: number) => section.dataBase + (row - section.firstRow) * section.bytesPerSplat;
+
+  const bucketIndex = (section: KsplatSection, local: number): number => {
+    if (local < section.fullBucketCount * section.bucketSize) return Math.floor(local / section.bucketSize);
+    let b = section.partialBucketStarts.length - 1;
+    while (b > 0 && section.partialBucketStarts[b] > local) b--;
+    return section.fullBucketCount + b;
+  };
+
+  const half = (offset: number) => DataUtils.fromHalfFloat(view.getUint16(offset, true));
+
+  const position = (axis: number) => (row: number) => {
+    const section = locate(row);
+    const base = splatBase(section, row);
+    if (compressionLevel === 0) return view.getFloat32(base + axis * 4, true);
+    const bucket = bucketIndex(section, row - section.firstRow);
+    const center = view.getFloat32(section.bucketsBase + bucket * 12 + axis * 4, true);
+    return (view.getUint16(base + axis * 2, true) - section.compressionScaleRange) * section.compressionScaleFactor + center;
+  };
+
+  const scale = (axis: number) => (row: number) => {
+    const section = locate(row);
+    const offset = splatBase(section, row) + level.bytesPerCenter;
+    return Math.log(compressionLevel === 0 ? view.getFloat32(offset + axis * 4, true) : half(offset + axis * 2));
+  };
+
+  // Quaternions are stored w, x, y, z like rot_0..rot_3
+  const rotation = (component: number) => (row: number) => {
+    const section = locate(row);
+    const offset = splatBase(section, row) + level.bytesPerCenter + level.bytesPerScale;
+    return compressionLevel === 0 ? view.getFloat32(offset + component * 4, true) : half(offset + component * 2);
+  };
+
+  const colorOffset = level.bytesPerCenter + level.bytesPerScale + level.bytesPerRotation;
+  const colorByte = (row: number, channel: number) => {
+    const section = locate(row);
+    return view.getUint8(splatBase(section, row) + colorOffset + channel);
+  };
+
+  // SH components are interleaved per coefficient ([coefficient][rgb]); f_rest_* is channel-major
+  const shRest = (coefficient: number, channel: number) => (row: number) => {
+    const section = locate(row);
+    if (coefficient >= shRestCoefficientCount(section.shDegree)) return 0;
+    const offset = splatBase(section, row) + colorOffset + BYTES_PER_COLOR + (coefficient * 3 + channel) * level.bytesPerShComponent;
+    if (compressionLevel === 0) return view.getFloat32(offset, true);
+    if (compressionLevel === 1) return half(offset);
+    return minShCoeff + (view.getUint8(offset) / 255) * (maxShCoeff - minShCoeff);
+  };
+
+  const columns: [string, (row: number) => number][] = [
+    ['x', position(0)], ['y', position(1)], ['z', position(2)],
+    ['f_dc_0', (row) => colorToShDc(colorByte(row, 0) / 255)],
+    ['f_dc_1', (row) => colorToShDc(colorByte(row, 1) / 255)],
+    ['f_dc_2', (row) => colorToShDc(colorByte(row, 2) / 255)],
+  ];
+  for (let channel = 0; channel < 3; channel++) {
+    for (let k = 0; k < restPerChannel; k++) {
+      columns.push([`f_rest_${channel * restPerChannel + k}`, shRest(k, channel)]);
+    }
+  }
+  columns.push(
+    ['opacity', (row) => opacityToLogit(colorByte(row, 3) / 255)],
+    ['scale_0', scale(0)], ['scale_1', scale(1)], ['scale_2', scale(2)],
+    ['rot_0', rotation(0)], ['rot_1', rotation(1)], ['rot_2', rotation(2)], ['rot_3', rotation(3)],
+  );
+
+  return createComputedElementTable('vertex', count, columns);
+};
@@ -0,0 +1,15 @@
+import { parsePlyHeader, readPlyElement } from '../plyFormat';
+import type { PlyElementTable } from '../plyFormat';
+import { decodeCompressedPly, isCompressedPly } from './compressedPly';
+
+/** True when the data starts with the "ply" magic number. */
+export const isPly = (head: Uint8Array): boolean =>
+  head.length >= 3 && head[0] === 0x70 && head[1] === 0x6c && head[2] === 0x79;
+
+/**
+ * Reads the vertex element of a regular or compressed (PlayCanvas/SuperSplat) PLY file.
+ */
+export const decodePly = (buffer: ArrayBuffer): PlyElementTable => {
+  const header = parsePlyHeader(new Uint8Array(buffer));
+  return isCompressedPly(header) ? decodeCompressedPly(buffer, header) : readPlyElement(buffer, header, 'vertex');
+};
@@ -0,0 +1,120 @@
+import { DataUtils } from 'three';
+import { createComputedElementTable } from '../plyFormat';
+import type { PlyElementTable } from '../plyFormat';
+import { shRestCoefficientCount } from '../sphericalHarmonics';
+import { opacityToLogit } from './encoding';
+
+const SPZ_MAGIC = 0x5053474e; // "NGSP"
+const HEADER_BYTES = 16;
+// Scale applied to f_dc before quantizing colors to uint8.
+const COLOR_SCALE = 0.15;
+
+// SPZ stores data in a right-up-back frame while 3DGS PLYs are right-down-front.
+// Converting negates y and z, which flips the sign of every SH basis function that is odd in y or z.
+const SH_FLIP = [-1, -1, 1, -1, 1, 1, -1, 1, -1, 1, -1, -1, 1, -1, 1];
+
+/** True for gzip data, the outer container of every .spz file. */
+const isGzip = (head: Uint8Array): boolean => head.length >= 2 && head[0] === 0x1f && head[1] === 0x8b;
+
+const gunzip = async (buffer: ArrayBuffer): Promise<ArrayBuffer> => {
+  const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).arrayBuffer();
+};
+
+/**
+ * Decodes Niantic's gzipped `.spz` format (versions 1-3). Attributes are stored as separate arrays:
+ * fixed-point positions, uint8 alphas, colors, log scales, quaternions (3 bytes, or "smallest three"
+ * in 4 bytes from version 3) and uint8 spherical harmonics.
+ */
+export const decodeSpz = async (buffer: ArrayBuffer): Promise<PlyElementTable> => {
+  if (!isGzip(new Uint8Array(buffer, 0, Math.min(2, buffer.byteLength)))) throw new Error('Invalid .spz file: data is not gzip-compressed.');
+  const data = await gunzip(buffer);
+  if (data.byteLength < HEADER_BYTES) throw new Error('Invalid .spz file: header is truncated.');
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+
+  if (view.getUint32(0, true) !== SPZ_MAGIC) throw new Error('Invalid .spz file: bad magic number.');
+  const version = view.getUint32(4, true);
+  if (version < 1 || version > 3) throw new Error(`Unsupported .spz version ${version}.`);
+  const count = view.getUint32(8, true);
+  const shDegree = view.getUint8(12);
+  const fractionalBits = view.getUint8(13);
+  const restPerChannel = shRestCoefficientCount(shDegree);
+
+  const positionBytes = version === 1 ? 6 : 9;
+  const rotationBytes = version >= 3 ? 4 : 3;
+  const positionsBase = HEADER_BYTES;
+  const alphasBase = positionsBase + count * positionBytes;
+  const colorsBase = alphasBase + count;
+  const scalesBase = colorsBase + count * 3;
+  const rotationsBase = scalesBase + count * 3;
+  const shBase = rotationsBase + count * rotationBytes;
+  if (shBase + count * restPerChannel * 3 > data.byteLength) throw new Error('Invalid .spz file: data is truncated.');
+
+  const fixedPointScale = 1 / (1 << fractionalBits);
+  const rawPosition = (row: number, axis: number) => {
+    if (version === 1) return DataUtils.fromHalfFloat(view.getUint16(positionsBase + (row * 3 + axis) * 2, true));
+    const o = positionsBase + (row * 3 + axis) * 3;
+    // Sign-extend the 24-bit fixed point value
+    const v = (bytes[o] | (bytes[o + 1] << 8) | (bytes[o + 2] << 16)) << 8 >> 8;
+    return v * fixedPointScale;
+  };
+  const axisSign = [1, -1, -1];
+
+  // Quaternions are decoded once per row and shared by the four rot_* columns (w, x, y, z)
+  let rotationRow = -1;
+  const q = [0, 0, 0, 0]; // x, y, z, w
+  const decodeRotation = (row: number) => {
+    if (row === rotationRow) return;
+    rotationRow = row;
+    const o = rotationsBase + row * rotationBytes;
+    if (rotationBytes === 3) {
+      for (let i = 0; i < 3; i++) q[i] = bytes[o + i] / 127.5 - 1;
+      q[3] = Math.sqrt(Math.max(0, 1 - (q[0] * q[0] + q[1] * q[1] + q[2] * q[2])));
+      return;
+    }
+    let packed = (bytes[o] | (bytes[o + 1] << 8) | (bytes[o + 2] << 16) | (bytes[o + 3] << 24)) >>> 0;
+    const largest = packed >>> 30;
+    const mask = (1 << 9) - 1;
+    let sumSquares = 0;
+    for (let i = 3; i >= 0; i--) {
+      if (i === largest) continue;
+      const magnitude = packed & mask;
+      const negative = (packed >>> 9) & 1;
+      packed >>>= 10;
+      q[i] = Math.SQRT1_2 * (magnitude / mask) * (negative ? -1 : 1);
+      sumSquares += q[i] * q[i];
+    }
+    q[largest] = Math.sqrt(Math.max(0, 1 - sumSquares));
+  };
+  const rotation = (component: number) => (row: number) => {
+    decodeRotation(row);
+    // rot_0 is w; y and z flip with the change of frame
+    return component === 0 ? q[3] : q[component - 1] * axisSign[component - 1];
+  };
+
+  const columns: [string, (row: number) => number][] = [
+    ['x', (row) => rawPosition(row, 0)],
+    ['y', (row) => -rawPosition(row, 1)],
+    ['z', (row) => -rawPosition(row, 2)],
+  ];
+  for (let c = 0; c < 3; c++) {
+    columns.push([`f_dc_${c}`, (row) => (bytes[colorsBase + row * 3 + c] / 255 - 0.5) / COLOR_SCALE]);
+  }
+  // SH is interleaved per coefficient ([coefficient][rgb]); f_rest_* is channel-major
+  for (let c = 0; c < 3; c++) {
+    for (let k = 0; k < restPerChannel; k++) {
+      columns.push([`f_rest_${c * restPerChannel + k}`, (row) =>
+        SH_FLIP[k] * (bytes[shBase + (row * restPerChannel + k) * 3 + c] - 128) / 128]);
+    }
+  }
+  columns.push(['opacity', (row) => opacityToLogit(bytes[alphasBase + row] / 255)]);
+  for (let axis = 0; axis < 3; axis++) {
+    columns.push([`scale_${axis}`, (row) => bytes[scalesBase + row * 3 + axis] / 16 - 10]);
+  }
+  for (let component = 0; component < 4; component++) {
+    columns.push([`rot_${component}`, rotation(component)]);
+  }
+
+  return createComputedElementTable('vertex', count, columns);
+};
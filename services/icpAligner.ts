@@ -0,0 +1,30 @@
+import type { IcpOptions, IcpResult, RegistrationRequest, RegistrationResponse } from './registration';
+import { runInWorker } from './workerTask';
+import type { WorkerTask } from './workerTask';
+
+export type IcpAlignment = WorkerTask<IcpResult>;
+
+/**
+ * Runs ICP refinement in a Web Worker.
+ *
+ * @param source World-space points of the moving model, subsampled. Transferred to the worker.
+ * @param target World-space points of the fixed model, subsampled. Transferred to the worker.
+ * @param initial Transform applied to `source` before the first iteration.
+ * @param onProgress Called after each iteration with its RMS error.
+ */
+export const alignWithIcp = (
+  source: Float32Array,
+  target: Float32Array,
+  initial: number[],
+  options: IcpOptions,
+  onProgress?: (iteration: number, rmsError: number) => void
+): IcpAlignment => {
+  const worker = new Worker(new URL('./registration.worker.ts', import.meta.url), { type: 'module' });
+  const request: RegistrationRequest = { type: 'icp', source, target, initial, options };
+  return runInWorker<RegistrationResponse, IcpResult>(worker, request, {
+    description: 'ICP alignment',
+    readResult: msg => msg.result,
+    onProgress: msg => onProgress?.(msg.iteration, msg.rmsError),
+    transfer: [source.buffer, target.buffer],
+  });
+};
@@ -0,0 +1,86 @@
+import * as THREE from 'three';
+import type { Measurement, MeasurementSettings, MeasurementType } from '../types';
+
+export const MEASUREMENT_TYPE_NAMES: Record<MeasurementType, string> = {
+  distance: 'Distance',
+  polyline: 'Polyline',
+  area: 'Area',
+  height: 'Height',
+};
+
+/** Points needed before a measurement can be finished. */
+export const MIN_MEASUREMENT_POINTS: Record<MeasurementType, number> = {
+  distance: 2,
+  polyline: 2,
+  area: 3,
+  height: 2,
+};
+
+/** Types that are finished automatically once their minimum number of points is picked. */
+const FIXED_POINT_TYPES: MeasurementType[] = ['distance', 'height'];
+
+const createMeasurementId = () => `measure-${Math.random().toString(36).slice(2, 10)}`;
+
+/** Adds the current draft to the measurements if it has enough points, and clears it. */
+export const finishMeasurement = (settings: MeasurementSettings): MeasurementSettings => {
+  const { tool, draft } = settings;
+  if (!tool || draft.length < MIN_MEASUREMENT_POINTS[tool]) return { ...settings, draft: [] };
+  const measurement: Measurement = { id: createMeasurementId(), type: tool, points: draft };
+  return { ...settings, measurements: [...settings.measurements, measurement], draft: [] };
+};
+
+/**
+ * Appends a picked world-space point to the draft. Repeated picks of the same point
+ * (e.g. from a double click) are ignored.
+ */
+export const addMeasurementPoint = (settings: MeasurementSettings, point: THREE.Vector3): MeasurementSettings => {
+  const { tool, draft } = settings;
+  if (!tool) return settings;
+  if (draft.length > 0 && draft[draft.length - 1].equals(point)) return settings;
+  const next = { ...settings, draft: [...draft, point.clone()] };
+  if (FIXED_POINT_TYPES.includes(tool) && next.draft.length >= MIN_MEASUREMENT_POINTS[tool]) {
+    return finishMeasurement(next);
+  }
+  return next;
+};
+
+/** Area of a planar polygon from the length of its Newell normal. */
+const polygonArea = (points: THREE.Vector3[]): number => {
+  const normal = new THREE.Vector3();
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    normal.x += (a.y - b.y) * (a.z + b.z);
+    normal.y += (a.z - b.z) * (a.x + b.x);
+    normal.z += (a.x - b.x) * (a.y + b.y);
+  }
+  return normal.length() / 2;
+};
+
+const pathLength = (points: THREE.Vector3[]): number => {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) length += points[i].distanceTo(points[i - 1]);
+  return length;
+};
+
+/**
+ * Value of a measurement in scene units. Heights are measured along the scene's Y axis.
+ */
+export const measurementValue = (type: MeasurementType, points: THREE.Vector3[]): number => {
+  if (points.length < 2) return 0;
+  switch (type) {
+    case 'distance':
+    case 'polyline':
+      return pathLength(points);
+    case 'area':
+      return points.length < 3 ? 0 : polygonArea(points);
+    case 'height':
+      return Math.abs(points[points.length - 1].y - points[0].y);
+  }
+};
+
+/** Formats a value in scene units with the user's unit scale; areas use squared units. */
+export const formatMeasurement = (type: MeasurementType, value: number, unitScale: number, unitLabel: string): string => {
+  if (type === 'area') return `${(value * unitScale * unitScale).toFixed(3)} ${unitLabel}²`;
+  return `${(value * unitScale).toFixed(3)} ${unitLabel}`;
+};
@@ -0,0 +1,20 @@
+import type { PlyData } from '../types';
+import type { OctreeWorkerRequest, OctreeWorkerResponse, SplatOctree } from './splatOctree';
+import { runInWorker } from './workerTask';
+import type { WorkerTask } from './workerTask';
+
+export type OctreeBuild = WorkerTask<SplatOctree>;
+
+/**
+ * Builds the octree of `data` in a Web Worker. The point arrays are copied, so the data stays
+ * usable meanwhile.
+ */
+export const buildOctreeInWorker = (data: PlyData): OctreeBuild => {
+  const worker = new Worker(new URL('./splatOctree.worker.ts', import.meta.url), { type: 'module' });
+  const { positions, colors, opacities, scales, rotations, pointCount } = data;
+  const request: OctreeWorkerRequest = { type: 'build', source: { positions, colors, opacities, scales, rotations, pointCount } };
+  return runInWorker<OctreeWorkerResponse, SplatOctree>(worker, request, {
+    description: 'Building the level of detail',
+    readResult: msg => msg.octree,
+  });
+};
@@ -0,0 +1,167 @@
+/**
+ * Statistical outlier scores for splats: each point's mean distance to its nearest neighbours,
+ * expressed in standard deviations from the mean over the whole model. Floaters far from any
+ * surface score high; points on densely sampled surfaces score around zero or below.
+ */
+
+export type OutlierWorkerRequest = { type: 'score'; positions: Float32Array; pointCount: number; neighbors: number };
+
+export type OutlierWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; scores: Float32Array }
+  | { type: 'error'; message: string };
+
+/** Farthest ring of grid cells searched around a point; neighbours beyond count as that far away. */
+const MAX_SEARCH_RINGS = 8;
+
+/** Points sampled to tune the grid cell size. */
+const TUNING_SAMPLES = 2000;
+
+/**
+ * Uniform grid with the points of each cell chained through `next`. Buckets are hashed, so cells
+ * sharing a bucket are told apart by `cellIds`.
+ */
+const buildGrid = (positions: Float32Array, pointCount: number, min: number[], cellSize: number, dims: number[]) => {
+  let bucketCount = 1;
+  while (bucketCount < pointCount) bucketCount *= 2;
+  const heads = new Int32Array(bucketCount).fill(-1);
+  const next = new Int32Array(pointCount);
+  const cellIds = new Float64Array(pointCount);
+  const mask = bucketCount - 1;
+  const cellId = (ix: number, iy: number, iz: number) => ix + dims[0] * (iy + dims[1] * iz);
+  const bucketOf = (id: number) => (Math.imul(id % 0x7fffffff, 0x9e3779b1) ^ Math.floor(id / 0x7fffffff)) & mask;
+  const cellCoordinate = (i: number, k: number) => Math.floor((positions[i * 3 + k] - min[k]) / cellSize);
+
+  for (let i = 0; i < pointCount; i++) {
+    const id = cellId(cellCoordinate(i, 0), cellCoordinate(i, 1), cellCoordinate(i, 2));
+    cellIds[i] = id;
+    const bucket = bucketOf(id);
+    next[i] = heads[bucket];
+    heads[bucket] = i;
+  }
+
+  /** Calls `visit` with every point in cell (ix, iy, iz). */
+  const forEachInCell = (ix: number, iy: number, iz: number, visit: (j: number) => void) => {
+    if (ix < 0 || iy < 0 || iz < 0 || ix >= dims[0] || iy >= dims[1] || iz >= dims[2]) return;
+    const id = cellId(ix, iy, iz);
+    for (let j = heads[bucketOf(id)]; j >= 0; j = next[j]) {
+      if (cellIds[j] === id) visit(j);
+    }
+  };
+  return { forEachInCell, cellCoordinate };
+};
+
+/**
+ * Computes the outlier score of every point.
+ *
+ * @param neighbors Nearest neighbours averaged per point, not counting the point itself.
+ * @param onProgress Called with the completed fraction from time to time.
+ */
+export const computeOutlierScores = (
+  positions: Float32Array,
+  pointCount: number,
+  neighbors: number,
+  onProgress?: (progress: number) => void
+): Float32Array => {
+  const scores = new Float32Array(pointCount);
+  if (pointCount <= neighbors) return scores;
+
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < pointCount; i++) {
+    for (let k = 0; k < 3; k++) {
+      const v = positions[i * 3 + k];
+      if (v < min[k]) min[k] = v;
+      if (v > max[k]) max[k] = v;
+    }
+  }
+  const extent = [0, 1, 2].map(k => max[k] - min[k]);
+  const largest = Math.max(...extent, 1e-9);
+  const volume = extent.reduce((v, e) => v * Math.max(e, largest * 1e-3), 1);
+
+  // Start from cells holding `neighbors` points if they filled the bounding box evenly, then adjust
+  // to the actual density, assuming that the points lie on surfaces
+  let cellSize = Math.cbrt((volume * neighbors) / pointCount);
+  const createGrid = () => {
+    // Cell ids must stay exact in a double
+    cellSize = Math.max(cellSize, largest / 2e5);
+    const dims = extent.map(e => Math.floor(e / cellSize) + 1);
+    return buildGrid(positions, pointCount, min, cellSize, dims);
+  };
+  let grid = createGrid();
+  const sampleStride = Math.max(1, Math.floor(pointCount / TUNING_SAMPLES));
+  let blockTotal = 0, blockSamples = 0;
+  for (let i = 0; i < pointCount; i += sampleStride) {
+    const ix = grid.cellCoordinate(i, 0), iy = grid.cellCoordinate(i, 1), iz = grid.cellCoordinate(i, 2);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) grid.forEachInCell(ix + dx, iy + dy, iz + dz, () => blockTotal++);
+      }
+    }
+    blockSamples++;
+  }
+  const blockMean = blockTotal / blockSamples;
+  const targetBlock = 4 * (neighbors + 1);
+  if (blockMean > 2 * targetBlock || blockMean < targetBlock / 2) {
+    cellSize *= Math.sqrt(targetBlock / blockMean);
+    grid = createGrid();
+  }
+
+  const best = new Float64Array(neighbors);
+  const meanDistances = new Float64Array(pointCount);
+  const progressStep = Math.max(1, Math.floor(pointCount / 100));
+  let found = 0;
+  let qx = 0, qy = 0, qz = 0, self = 0;
+  const consider = (j: number) => {
+    if (j === self) return;
+    const ex = positions[j * 3] - qx, ey = positions[j * 3 + 1] - qy, ez = positions[j * 3 + 2] - qz;
+    const d = ex * ex + ey * ey + ez * ez;
+    if (found === neighbors && d >= best[neighbors - 1]) return;
+    // Insertion into the ascending list of the closest squared distances
+    let k = found < neighbors ? found++ : neighbors - 1;
+    while (k > 0 && best[k - 1] > d) {
+      best[k] = best[k - 1];
+      k--;
+    }
+    best[k] = d;
+  };
+
+  for (let i = 0; i < pointCount; i++) {
+    self = i;
+    qx = positions[i * 3];
+    qy = positions[i * 3 + 1];
+    qz = positions[i * 3 + 2];
+    found = 0;
+    const ix = grid.cellCoordinate(i, 0), iy = grid.cellCoordinate(i, 1), iz = grid.cellCoordinate(i, 2);
+    let ring = 0;
+    for (; ring <= MAX_SEARCH_RINGS; ring++) {
+      // Visit the shell of cells at Chebyshev distance `ring`
+      for (let dx = -ring; dx <= ring; dx++) {
+        for (let dy = -ring; dy <= ring; dy++) {
+          const onShell = Math.abs(dx) === ring || Math.abs(dy) === ring;
+          for (let dz = -ring; dz <= ring; dz += onShell ? 1 : 2 * ring || 1) {
+            grid.forEachInCell(ix + dx, iy + dy, iz + dz, consider);
+          }
+        }
+      }
+      // Points in farther rings are at least `ring` cells away
+      const reach = ring * cellSize;
+      if (found === neighbors && best[neighbors - 1] <= reach * reach) break;
+    }
+    let sum = 0;
+    for (let k = 0; k < neighbors; k++) {
+      sum += k < found ? Math.sqrt(best[k]) : (MAX_SEARCH_RINGS + 1) * cellSize;
+    }
+    meanDistances[i] = sum / neighbors;
+    if (onProgress && i % progressStep === 0) onProgress(i / pointCount);
+  }
+
+  let mean = 0;
+  for (let i = 0; i < pointCount; i++) mean += meanDistances[i];
+  mean /= pointCount;
+  let variance = 0;
+  for (let i = 0; i < pointCount; i++) variance += (meanDistances[i] - mean) ** 2;
+  const std = Math.sqrt(variance / pointCount);
+  for (let i = 0; i < pointCount; i++) scores[i] = std > 0 ? (meanDistances[i] - mean) / std : 0;
+  return scores;
+};
@@ -0,0 +1,14 @@
+import { computeOutlierScores } from './outlierScores';
+import type { OutlierWorkerRequest, OutlierWorkerResponse } from './outlierScores';
+
+const post = (msg: OutlierWorkerResponse, transfer: Transferable[] = []) => self.postMessage(msg, { transfer });
+
+self.onmessage = (e: MessageEvent<OutlierWorkerRequest>) => {
+  const { positions, pointCount, neighbors } = e.data;
+  try {
+    const scores = computeOutlierScores(positions, pointCount, neighbors, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', scores }, [scores.buffer]);
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message || 'Scoring outliers failed.' });
+  }
+};
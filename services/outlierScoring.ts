@@ -0,0 +1,22 @@
+import type { PlyData } from '../types';
+import type { OutlierWorkerRequest, OutlierWorkerResponse } from './outlierScores';
+import { runInWorker } from './workerTask';
+import type { WorkerTask } from './workerTask';
+
+export type OutlierScoring = WorkerTask<Float32Array>;
+
+/**
+ * Computes the outlier scores of `data` in a Web Worker. The positions are copied, so the data
+ * stays usable meanwhile.
+ *
+ * @param onProgress Called with the completed fraction from time to time.
+ */
+export const scoreOutliersInWorker = (data: PlyData, neighbors: number, onProgress?: (progress: number) => void): OutlierScoring => {
+  const worker = new Worker(new URL('./outlierScores.worker.ts', import.meta.url), { type: 'module' });
+  const request: OutlierWorkerRequest = { type: 'score', positions: data.positions, pointCount: data.pointCount, neighbors };
+  return runInWorker<OutlierWorkerResponse, Float32Array>(worker, request, {
+    description: 'Scoring outliers',
+    readResult: msg => msg.scores,
+    onProgress: msg => onProgress?.(msg.progress),
+  });
+};
@@ -0,0 +1,230 @@
+import { DataUtils } from 'three';
+import type { PlyData } from '../types';
+import { SH_C0, SH_TEXELS_PER_POINT, allocateShCoefficients, shDegreeFromRestCount, shRestCoefficientCount } from './sphericalHarmonics';
+import type { PlyElementTable, PlyScalarType } from './plyFormat';
+
+/**
+ * Structured-clone friendly form of `PlyData` exchanged with the decoder worker.
+ * The bounding box travels as [minX, minY, minZ, maxX, maxY, maxZ] and the offset as [x, y, z].
+ */
+export type PlyDataTransfer = Omit<PlyData, 'boundingBox' | 'offset'> & { bounds: number[]; offset: number[] };
+
+export type PlyDecoderRequest = { type: 'parse'; file: File };
+
+export type PlyDecoderResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'partial'; data: PlyDataTransfer }
+  | { type: 'done'; data: PlyDataTransfer }
+  | { type: 'error'; message: string };
+
+/** Buffers to hand over with `postMessage` instead of copying. */
+export const plyDataTransferables = (data: PlyDataTransfer): ArrayBuffer[] =>
+  [data.positions, data.colors, data.opacities, data.scales, data.rotations, data.shCoefficients, ...Object.values(data.scalarProperties ?? {})]
+    .filter((a): a is Float32Array | Uint16Array => !!a)
+    .map(a => a.buffer as ArrayBuffer);
+
+// Properties decoded into the dedicated arrays of `PlyData`; any other scalar property is kept as is
+const DECODED_PROPERTY = /^(x|y|z|red|green|blue|opacity|f_dc_\d+|f_rest_\d+|scale_\d+|rot_\d+)$/;
+
+// Coordinates further from the origin than this are recentered, as 32-bit floats only keep
+// millimeters up to about 10 km
+const RECENTER_THRESHOLD = 1e4;
+
+// Divisors that map integer color channels to [0, 1]; float colors are used as-is.
+const COLOR_NORMALIZERS: Record<PlyScalarType, number> = {
+  char: 127, uchar: 255, short: 32767, ushort: 65535, int: 2147483647, uint: 4294967295, float: 1, double: 1,
+};
+
+export interface PlyVertexDecoder {
+  readonly pointCount: number;
+  /** Number of leading rows decoded so far. */
+  readonly decodedCount: number;
+  /** Decodes rows up to (excluding) `end`; rows must be readable through the element table. */
+  decodeTo: (end: number) => void;
+  /** Copies the rows decoded so far into a standalone partial result. */
+  snapshot: () => PlyDataTransfer;
+  /** Completes decoding; the returned arrays are owned by the caller and the decoder must not be reused. */
+  finish: () => PlyDataTransfer;
+}
+
+/**
+ * Creates a row-by-row decoder from a PLY `vertex` element into the arrays of `PlyData`.
+ * Supports both classic (red, green, blue) and Gaussian Splatting (f_dc_0, f_dc_1, f_dc_2) color properties.
+ * Also decodes scale, rotation and opacity for true splat rendering, and packs higher-order
+ * spherical harmonics (f_rest_*) into a half-float buffer for view-dependent color. Any other
+ * scalar property (intensity, confidence, normals, ...) is kept for coloring by scalar field.
+ * Files far from the origin, like UTM-georeferenced ones, are recentered on their first point,
+ * rounded to whole units; the subtracted offset is returned with the data.
+ *
+ * @throws If the element lacks positions or colors.
+ */
+export const createPlyVertexDecoder = (vertices: PlyElementTable): PlyVertexDecoder => {
+  const pointCount = vertices.count;
+  const properties = vertices.element.properties;
+
+  if (pointCount === 0) throw new Error('No vertices found in PLY file.');
+
+  const has = (name: string) => vertices.indexOf(name) >= 0;
+  const hasPosition = ['x', 'y', 'z'].every(has);
+  const hasClassicColor = ['red', 'green', 'blue'].every(has);
+  const hasSHColor = ['f_dc_0', 'f_dc_1', 'f_dc_2'].every(has);
+  const hasOpacity = has('opacity');
+  const hasSplat = ['scale_0', 'scale_1', 'scale_2'].every(has) && ['rot_0', 'rot_1', 'rot_2', 'rot_3'].every(has);
+
+  if (!hasPosition) throw new Error('PLY file must contain x, y, z properties.');
+  if (!hasClassicColor && !hasSHColor) throw new Error(`PLY file must contain color properties. Found: ${properties.map(p => p.name).join(', ')}`);
+
+  const useSHColor = hasSHColor;
+  const [X, Y, Z] = ['x', 'y', 'z'].map(vertices.indexOf);
+  const [R, G, B] = (useSHColor ? ['f_dc_0', 'f_dc_1', 'f_dc_2'] : ['red', 'green', 'blue']).map(vertices.indexOf);
+  const colorScale = useSHColor ? 1 : 1 / COLOR_NORMALIZERS[properties[R].type];
+  const OPACITY = vertices.indexOf('opacity');
+  const SCALE = ['scale_0', 'scale_1', 'scale_2'].map(vertices.indexOf);
+  const ROT = ['rot_0', 'rot_1', 'rot_2', 'rot_3'].map(vertices.indexOf);
+
+  // f_rest_* is stored channel-major: all coefficients of red, then green, then blue
+  let restCount = 0;
+  while (useSHColor && has(`f_rest_${restCount}`)) restCount++;
+  const shDegree = shDegreeFromRestCount(restCount);
+  const restPerChannel = Math.floor(restCount / 3);
+  const shCoefCount = shRestCoefficientCount(shDegree);
+  const REST = Array.from({ length: restCount }, (_, j) => vertices.indexOf(`f_rest_${j}`));
+  const EXTRA = properties.map((p, index) => ({ name: p.name, index })).filter(p => !DECODED_PROPERTY.test(p.name));
+
+  const positions = new Float32Array(pointCount * 3);
+  const colors = new Float32Array(pointCount * 3);
+  const opacities = new Float32Array(pointCount);
+  const scales = hasSplat ? new Float32Array(pointCount * 3) : undefined;
+  const rotations = hasSplat ? new Float32Array(pointCount * 4) : undefined;
+  const shCoefficients = shDegree > 0 ? allocateShCoefficients(pointCount) : undefined;
+  const extras = EXTRA.map(() => new Float32Array(pointCount));
+  const get = vertices.getValue;
+
+  let decodedCount = 0;
+  let offset: number[] | null = null;
+  let minX = Infinity, minY = Infinity, minZ = Infinity;
+  let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+  const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+  const clamp01 = (x: number) => Math.min(1, Math.max(0, x));
+
+  const decodeTo = (end: number) => {
+    if (!offset && end > 0) {
+      offset = [get(0, X), get(0, Y), get(0, Z)].map(v => (Math.abs(v) > RECENTER_THRESHOLD ? Math.round(v) : 0));
+    }
+    const [ox, oy, oz] = offset ?? [0, 0, 0];
+    for (let i = decodedCount; i < end; i++) {
+      // Subtracted in double precision, before the positions are stored as 32-bit floats
+      const x = get(i, X) - ox;
+      const y = get(i, Y) - oy;
+      const z = get(i, Z) - oz;
+      const posIdx = i * 3;
+      positions[posIdx] = x;
+      positions[posIdx + 1] = y;
+      positions[posIdx + 2] = z;
+
+      if (useSHColor) {
+        colors[posIdx] = clamp01(0.5 + SH_C0 * get(i, R));
+        colors[posIdx + 1] = clamp01(0.5 + SH_C0 * get(i, G));
+        colors[posIdx + 2] = clamp01(0.5 + SH_C0 * get(i, B));
+
+        if (shCoefficients) {
+          // Interleave as [coefficient][rgb] so the shader can read vec3s in order
+          const shBase = i * SH_TEXELS_PER_POINT * 4;
+          for (let k = 0; k < shCoefCount; k++) {
+            for (let c = 0; c < 3; c++) {
+              shCoefficients[shBase + k * 3 + c] = DataUtils.toHalfFloat(get(i, REST[c * restPerChannel + k]));
+            }
+          }
+        }
+      } else {
+        colors[posIdx] = clamp01(get(i, R) * colorScale);
+        colors[posIdx + 1] = clamp01(get(i, G) * colorScale);
+        colors[posIdx + 2] = clamp01(get(i, B) * colorScale);
+      }
+
+      // Opacity is stored as a logit in 3DGS files
+      opacities[i] = hasOpacity ? sigmoid(get(i, OPACITY)) : 1.0;
+
+      if (hasSplat) {
+        const scaleIdx = i * 3;
+        scales![scaleIdx] = Math.exp(get(i, SCALE[0]));
+        scales![scaleIdx + 1] = Math.exp(get(i, SCALE[1]));
+        scales![scaleIdx + 2] = Math.exp(get(i, SCALE[2]));
+
+        const rotIdx = i * 4;
+        // Normalize quaternion
+        let qx = get(i, ROT[0]);
+        let qy = get(i, ROT[1]);
+        let qz = get(i, ROT[2]);
+        let qw = get(i, ROT[3]);
+        const L = Math.sqrt(qx*qx + qy*qy + qz*qz + qw*qw);
+        rotations![rotIdx] = qw / L; // Store as WXYZ for THREE.js convention if needed, but GLSL wants XYZW
+        rotations![rotIdx + 1] = qx / L;
+        rotations![rotIdx + 2] = qy / L;
+        rotations![rotIdx + 3] = qz / L;
+      }
+
+      for (let e = 0; e < EXTRA.length; e++) extras[e][i] = get(i, EXTRA[e].index);
+
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      if (z < minZ) minZ = z;
+      if (z > maxZ) maxZ = z;
+    }
+    decodedCount = Math.max(decodedCount, end);
+  };
+
+  /** The extra properties of the first `count` points, leaving out those without any variation. */
+  const collectScalarProperties = (count: number, copy: boolean) => {
+    const result: Record<string, Float32Array> = {};
+    EXTRA.forEach(({ name }, e) => {
+      const values = extras[e].subarray(0, count);
+      if (values.every(v => v === values[0])) return;
+      result[name] = copy ? values.slice() : extras[e];
+    });
+    return Object.keys(result).length > 0 ? result : undefined;
+  };
+
+  const snapshot = (): PlyDataTransfer => {
+    const n = decodedCount;
+    let partialSh: Uint16Array | undefined;
+    if (shCoefficients) {
+      partialSh = allocateShCoefficients(n);
+      partialSh.set(shCoefficients.subarray(0, n * SH_TEXELS_PER_POINT * 4));
+    }
+    return {
+      positions: positions.slice(0, n * 3),
+      colors: colors.slice(0, n * 3),
+      opacities: opacities.slice(0, n),
+      scales: scales?.slice(0, n * 3),
+      rotations: rotations?.slice(0, n * 4),
+      shDegree,
+      shCoefficients: partialSh,
+      scalarProperties: collectScalarProperties(n, true),
+      bounds: [minX, minY, minZ, maxX, maxY, maxZ],
+      offset: offset ?? [0, 0, 0],
+      pointCount: n,
+      isPartial: true,
+    };
+  };
+
+  const finish = (): PlyDataTransfer => {
+    return {
+      positions, colors, opacities, scales, rotations, shDegree, shCoefficients,
+      scalarProperties: collectScalarProperties(pointCount, false),
+      bounds: [minX, minY, minZ, maxX, maxY, maxZ],
+      offset: offset ?? [0, 0, 0],
+      pointCount,
+    };
+  };
+
+  return {
+    pointCount,
+    get decodedCount() { return decodedCount; },
+    decodeTo,
+    snapshot,
+    finish,
+  };
+};
@@ -0,0 +1,104 @@
+import { createBinaryElementTable, findPlyHeaderEnd, parsePlyHeader, plyElementDataOffset, plyElementStride } from './plyFormat';
+import type { PlyHeader } from './plyFormat';
+import { createPlyVertexDecoder, plyDataTransferables } from './plyDecoder';
+import type { PlyDataTransfer, PlyDecoderRequest, PlyDecoderResponse, PlyVertexDecoder } from './plyDecoder';
+import { SPLAT_FORMATS, findSplatFormat } from './splatFormats';
+import type { SplatFormat } from './splatFormats';
+import { isCompressedPly } from './formats/compressedPly';
+
+// How often a partial cloud is sent back for progressive display.
+const PARTIAL_INTERVAL_MS = 1000;
+// Rows decoded between progress reports when the whole file has to be read first.
+const DECODE_BATCH = 1 << 16;
+
+const post = (msg: PlyDecoderResponse, transfer: ArrayBuffer[] = []) => self.postMessage(msg, { transfer });
+
+const postData = (type: 'partial' | 'done', data: PlyDataTransfer) => post({ type, data }, plyDataTransferables(data));
+
+const PLY_FORMAT = SPLAT_FORMATS.find(f => f.name === 'PLY')!;
+
+/**
+ * Reads `file` through its stream into one buffer. Binary PLY files whose vertex data position is
+ * known from the header are decoded while chunks arrive; other PLYs and the remaining splat formats
+ * are decoded once fully read.
+ */
+const parse = async (file: File) => {
+  const bytes = new Uint8Array(file.size);
+  let loaded = 0;
+  let format: SplatFormat | null = null;
+  let header: PlyHeader | null = null;
+  let decoder: PlyVertexDecoder | null = null;
+  let vertexOffset = 0;
+  let vertexStride = 0;
+  let lastProgress = -1;
+  let lastPartial = performance.now();
+
+  const report = () => {
+    const decoded = decoder ? decoder.decodedCount / decoder.pointCount : 0;
+    const progress = 0.5 * (loaded / Math.max(1, file.size)) + 0.5 * decoded;
+    if (progress - lastProgress >= 0.01) {
+      lastProgress = progress;
+      post({ type: 'progress', progress });
+    }
+    const now = performance.now();
+    if (decoder && decoder.decodedCount > 0 && decoder.decodedCount < decoder.pointCount && now - lastPartial >= PARTIAL_INTERVAL_MS) {
+      lastPartial = now;
+      postData('partial', decoder.snapshot());
+    }
+  };
+
+  const reader = file.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes.set(value, loaded);
+    loaded += value.length;
+
+    if (!format) format = findSplatFormat(file.name, bytes.subarray(0, loaded));
+
+    if (format === PLY_FORMAT && !header) {
+      if (findPlyHeaderEnd(bytes.subarray(0, loaded)) < 0) continue;
+      header = parsePlyHeader(bytes.subarray(0, loaded));
+
+      const vertexIndex = header.elements.findIndex(e => e.name === 'vertex');
+      const offset = vertexIndex >= 0 ? plyElementDataOffset(header, vertexIndex) : null;
+      if (header.format !== 'ascii' && offset !== null && !isCompressedPly(header)) {
+        const element = header.elements[vertexIndex];
+        const littleEndian = header.format === 'binary_little_endian';
+        decoder = createPlyVertexDecoder(createBinaryElementTable(new DataView(bytes.buffer), offset, element, littleEndian));
+        vertexOffset = offset;
+        vertexStride = plyElementStride(element);
+      }
+    }
+
+    if (decoder && vertexStride > 0) {
+      const available = Math.floor((loaded - vertexOffset) / vertexStride);
+      decoder.decodeTo(Math.max(0, Math.min(decoder.pointCount, available)));
+    }
+    report();
+  }
+
+  if (!format) format = findSplatFormat(file.name, bytes.subarray(0, loaded));
+
+  if (!decoder) {
+    const buffer = loaded === bytes.length ? bytes.buffer : bytes.slice(0, loaded).buffer;
+    decoder = createPlyVertexDecoder(await format.decode(buffer));
+    for (let end = DECODE_BATCH; decoder.decodedCount < decoder.pointCount; end += DECODE_BATCH) {
+      decoder.decodeTo(Math.min(decoder.pointCount, end));
+      report();
+    }
+  } else if (decoder.decodedCount < decoder.pointCount) {
+    throw new Error(`PLY file is truncated: found ${decoder.decodedCount} of ${decoder.pointCount} vertices.`);
+  }
+
+  postData('done', decoder.finish());
+};
+
+self.onmessage = async (e: MessageEvent<PlyDecoderRequest>) => {
+  if (e.data.type !== 'parse') return;
+  try {
+    await parse(e.data.file);
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message || 'Failed to parse the model file.' });
+  }
+};
@@ -0,0 +1,19 @@
+import { findSplatFormat } from './splatFormats';
+import { writeGaussianPly } from './plyWriter';
+import type { PlyExportRequest, PlyExportResponse } from './plyExporter';
+
+const post = (msg: PlyExportResponse, transfer: ArrayBuffer[] = []) => self.postMessage(msg, { transfer });
+
+self.onmessage = async (e: MessageEvent<PlyExportRequest>) => {
+  const { file, rows, transform } = e.data;
+  try {
+    // Re-read the original file so that properties the viewer does not keep are preserved
+    const buffer = await file.arrayBuffer();
+    const format = findSplatFormat(file.name, new Uint8Array(buffer, 0, Math.min(16, buffer.byteLength)));
+    const vertices = await format.decode(buffer);
+    const output = writeGaussianPly(vertices, rows, transform);
+    post({ type: 'exported', buffer: output }, [output]);
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message || 'Failed to export the model.' });
+  }
+};
@@ -0,0 +1,93 @@
+import * as THREE from 'three';
+import type { CropSettings, PlyData, SceneModel } from '../types';
+import type { PlyBakeTransform } from './plyWriter';
+import { createCropTester } from './cropVolumes';
+import { modelMatrix, worldToFileMatrix } from './sceneModels';
+import { POINT_DELETED } from './splatSelection';
+
+export interface PlyExportRequest {
+  type: 'export';
+  file: File;
+  rows: Uint32Array;
+  transform: PlyBakeTransform;
+}
+
+export type PlyExportResponse =
+  | { type: 'exported'; buffer: ArrayBuffer }
+  | { type: 'error'; message: string };
+
+/**
+ * Indices of the points kept by the crop volumes (tested in model space, like the vertex shader)
+ * and not deleted. Hidden points are still exported.
+ *
+ * @param crops Crop settings of the drawn models and `model` the index of `plyData`'s model, see `createCropTester`.
+ */
+export const selectExportRows = (plyData: PlyData, crops: CropSettings[], model: number, pointStates?: Uint8Array | null): Uint32Array => {
+  const rows = new Uint32Array(plyData.pointCount);
+  let count = 0;
+  const { positions } = plyData;
+  const keep = createCropTester(crops, model);
+  for (let i = 0; i < plyData.pointCount; i++) {
+    if (pointStates && pointStates[i] & POINT_DELETED) continue;
+    if (keep(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2])) rows[count++] = i;
+  }
+  return rows.slice(0, count);
+};
+
+/**
+ * The model transformations expressed in the coordinates of its file, so that an unmoved model is
+ * written back in its original axes and georeferenced units. Turning and moving the transformations
+ * into the file's frame keeps them a similarity transform.
+ */
+const toBakeTransform = (model: SceneModel): PlyBakeTransform => {
+  const offset = model.plyData?.offset ?? new THREE.Vector3();
+  const matrix = worldToFileMatrix(model)
+    .multiply(modelMatrix(model))
+    .multiply(new THREE.Matrix4().makeTranslation(-offset.x, -offset.y, -offset.z));
+  const p = new THREE.Vector3();
+  const q = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+  matrix.decompose(p, q, scale);
+  return { position: [p.x, p.y, p.z], quaternion: [q.x, q.y, q.z, q.w], scale: (scale.x + scale.y + scale.z) / 3 };
+};
+
+/**
+ * Writes the selected points of the original file as a binary 3DGS PLY in a Web Worker,
+ * with the model transformations baked in.
+ *
+ * @param source The file the model was loaded from.
+ * @param rows Indices of the points to keep, e.g. from `selectExportRows`.
+ * @param model The model in the viewer, whose transformations are baked in.
+ * @returns A promise that resolves with the PLY file contents.
+ */
+export const exportPly = (source: File, rows: Uint32Array, model: SceneModel): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./plyExport.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<PlyExportResponse>) => {
+      worker.terminate();
+      if (e.data.type === 'exported') {
+        resolve(new Blob([e.data.buffer], { type: 'application/octet-stream' }));
+      } else {
+        reject(new Error(e.data.message));
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Failed to export the model.'));
+    };
+    const request: PlyExportRequest = { type: 'export', file: source, rows, transform: toBakeTransform(model) };
+    worker.postMessage(request, [rows.buffer]);
+  });
+
+/** Saves a Blob through a temporary download link. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke once the browser has picked up the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
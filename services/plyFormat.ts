@@ -0,0 +1,325 @@
+/**
+ * PLY header parsing and element access, following the format description at
+ * http://paulbourke.net/dataformats/ply/ including the sized type aliases (int8, float32, ...).
+ */
+
+export type PlyFormat = 'ascii' | 'binary_little_endian' | 'binary_big_endian';
+
+export type PlyScalarType = 'char' | 'uchar' | 'short' | 'ushort' | 'int' | 'uint' | 'float' | 'double';
+
+export interface PlyProperty {
+  name: string;
+  /** Scalar type of the value, or of the list items for list properties. */
+  type: PlyScalarType;
+  /** Type of the item count for list properties. */
+  countType?: PlyScalarType;
+  isList: boolean;
+}
+
+export interface PlyElement {
+  name: string;
+  count: number;
+  properties: PlyProperty[];
+}
+
+export interface PlyHeader {
+  format: PlyFormat;
+  elements: PlyElement[];
+  comments: string[];
+  /** Byte length of the header including the `end_header` line terminator. */
+  byteLength: number;
+}
+
+const TYPE_ALIASES: Record<string, PlyScalarType> = {
+  char: 'char', int8: 'char',
+  uchar: 'uchar', uint8: 'uchar',
+  short: 'short', int16: 'short',
+  ushort: 'ushort', uint16: 'ushort',
+  int: 'int', int32: 'int',
+  uint: 'uint', uint32: 'uint',
+  float: 'float', float32: 'float',
+  double: 'double', float64: 'double',
+};
+
+export const PLY_TYPE_SIZES: Record<PlyScalarType, number> = {
+  char: 1, uchar: 1, short: 2, ushort: 2, int: 4, uint: 4, float: 4, double: 8,
+};
+
+const parseScalarType = (name: string, line: string): PlyScalarType => {
+  const type = TYPE_ALIASES[name];
+  if (!type) throw new Error(`Unknown PLY property type "${name}" in header line "${line}".`);
+  return type;
+};
+
+const END_HEADER = 'end_header';
+
+/**
+ * Finds the end of the PLY header, returning the offset just past the `end_header` line,
+ * or -1 if the header is not complete in `bytes` yet.
+ */
+export const findPlyHeaderEnd = (bytes: Uint8Array): number => {
+  const limit = bytes.length - END_HEADER.length;
+  for (let i = 0; i <= limit; i++) {
+    // Only consider `end_header` at the start of a line
+    if (i > 0 && bytes[i - 1] !== 0x0a) continue;
+    let match = true;
+    for (let j = 0; j < END_HEADER.length; j++) {
+      if (bytes[i + j] !== END_HEADER.charCodeAt(j)) { match = false; break; }
+    }
+    if (!match) continue;
+    let end = i + END_HEADER.length;
+    while (end < bytes.length && (bytes[end] === 0x20 || bytes[end] === 0x0d)) end++;
+    if (end >= bytes.length) return -1;
+    if (bytes[end] === 0x0a) return end + 1;
+  }
+  return -1;
+};
+
+/**
+ * Parses the PLY header at the start of `bytes`.
+ * @throws If the data is not a PLY file or the header is malformed or incomplete.
+ */
+export const parsePlyHeader = (bytes: Uint8Array): PlyHeader => {
+  const byteLength = findPlyHeaderEnd(bytes);
+  if (byteLength < 0) throw new Error('Could not find the end of the PLY header.');
+
+  const lines = new TextDecoder().decode(bytes.subarray(0, byteLength)).split(/\r?\n/);
+  if (lines[0].trim() !== 'ply') throw new Error('Not a PLY file: missing "ply" magic number.');
+
+  let format: PlyFormat | null = null;
+  const elements: PlyElement[] = [];
+  const comments: string[] = [];
+
+  for (const rawLine of lines.slice(1)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const tokens = line.split(/\s+/);
+    switch (tokens[0]) {
+      case 'format': {
+        if (tokens[1] !== 'ascii' && tokens[1] !== 'binary_little_endian' && tokens[1] !== 'binary_big_endian') {
+          throw new Error(`Unsupported PLY format "${tokens[1]}".`);
+        }
+        format = tokens[1];
+        break;
+      }
+      case 'comment':
+      case 'obj_info':
+        comments.push(line.substring(tokens[0].length).trim());
+        break;
+      case 'element': {
+        const count = Number(tokens[2]);
+        if (!tokens[1] || !Number.isInteger(count) || count < 0) throw new Error(`Malformed PLY element line "${line}".`);
+        elements.push({ name: tokens[1], count, properties: [] });
+        break;
+      }
+      case 'property': {
+        const element = elements[elements.length - 1];
+        if (!element) throw new Error(`PLY property "${line}" appears before any element.`);
+        if (tokens[1] === 'list') {
+          if (tokens.length < 5) throw new Error(`Malformed PLY list property "${line}".`);
+          element.properties.push({
+            name: tokens[4],
+            countType: parseScalarType(tokens[2], line),
+            type: parseScalarType(tokens[3], line),
+            isList: true,
+          });
+        } else {
+          if (tokens.length < 3) throw new Error(`Malformed PLY property "${line}".`);
+          element.properties.push({ name: tokens[2], type: parseScalarType(tokens[1], line), isList: false });
+        }
+        break;
+      }
+      case END_HEADER:
+        break;
+      default:
+        throw new Error(`Unrecognized PLY header line "${line}".`);
+    }
+  }
+
+  if (!format) throw new Error('PLY header has no format line.');
+  return { format, elements, comments, byteLength };
+};
+
+type ScalarReader = (view: DataView, offset: number, littleEndian: boolean) => number;
+
+const SCALAR_READERS: Record<PlyScalarType, ScalarReader> = {
+  char: (v, o) => v.getInt8(o),
+  uchar: (v, o) => v.getUint8(o),
+  short: (v, o, le) => v.getInt16(o, le),
+  ushort: (v, o, le) => v.getUint16(o, le),
+  int: (v, o, le) => v.getInt32(o, le),
+  uint: (v, o, le) => v.getUint32(o, le),
+  float: (v, o, le) => v.getFloat32(o, le),
+  double: (v, o, le) => v.getFloat64(o, le),
+};
+
+/**
+ * Random access to the scalar properties of one element.
+ */
+export interface PlyElementTable {
+  element: PlyElement;
+  count: number;
+  /** Index of the named property, or -1 when missing. */
+  indexOf: (name: string) => number;
+  /** Reads property `propertyIndex` of row `row`. */
+  getValue: (row: number, propertyIndex: number) => number;
+}
+
+/** Byte size of one row of a binary element without list properties. */
+export const plyElementStride = (element: PlyElement): number =>
+  element.properties.reduce((sum, p) => sum + PLY_TYPE_SIZES[p.type], 0);
+
+const assertNoLists = (element: PlyElement) => {
+  const list = element.properties.find(p => p.isList);
+  if (list) {
+    throw new Error(`List property "${list.name}" on element "${element.name}" is not supported; only scalar properties can be read.`);
+  }
+};
+
+/**
+ * Returns the byte length of a binary element block starting at `offset`, walking row by row
+ * when the element has variable-length list properties.
+ */
+const binaryElementByteLength = (view: DataView, offset: number, element: PlyElement, littleEndian: boolean): number => {
+  if (!element.properties.some(p => p.isList)) return plyElementStride(element) * element.count;
+  let cursor = offset;
+  for (let row = 0; row < element.count; row++) {
+    for (const p of element.properties) {
+      if (p.isList) {
+        const n = SCALAR_READERS[p.countType!](view, cursor, littleEndian);
+        cursor += PLY_TYPE_SIZES[p.countType!] + n * PLY_TYPE_SIZES[p.type];
+      } else {
+        cursor += PLY_TYPE_SIZES[p.type];
+      }
+    }
+  }
+  return cursor - offset;
+};
+
+/** Reads the body of an ASCII element as whitespace-separated numbers, starting at `lineIndex`. */
+const readAsciiElement = (lines: string[], lineIndex: number, element: PlyElement, values: Float64Array | null) => {
+  const propCount = element.properties.length;
+  let line = lineIndex;
+  for (let row = 0; row < element.count; row++) {
+    // Skip blank lines between rows
+    while (line < lines.length && lines[line].trim() === '') line++;
+    if (line >= lines.length) throw new Error(`PLY file ended after ${row} of ${element.count} "${element.name}" rows.`);
+    if (values) {
+      const tokens = lines[line].trim().split(/\s+/);
+      if (tokens.length < propCount) throw new Error(`PLY "${element.name}" row ${row} has ${tokens.length} values, expected ${propCount}.`);
+      for (let p = 0; p < propCount; p++) values[row * propCount + p] = Number(tokens[p]);
+    }
+    line++;
+  }
+  return line;
+};
+
+/**
+ * Byte offset at which the data of element `elementIndex` starts in a binary file, if it can be
+ * computed from the header alone (i.e. no preceding element has list properties); otherwise null.
+ */
+export const plyElementDataOffset = (header: PlyHeader, elementIndex: number): number | null => {
+  let offset = header.byteLength;
+  for (let e = 0; e < elementIndex; e++) {
+    const element = header.elements[e];
+    if (element.properties.some(p => p.isList)) return null;
+    offset += plyElementStride(element) * element.count;
+  }
+  return offset;
+};
+
+/**
+ * Exposes a binary element whose rows start at `offset` in `view`.
+ * Rows are not bounds-checked, so callers streaming a file must only read rows that have arrived.
+ */
+export const createBinaryElementTable = (view: DataView, offset: number, element: PlyElement, littleEndian: boolean): PlyElementTable => {
+  assertNoLists(element);
+  const names = new Map(element.properties.map((p, i) => [p.name, i]));
+  const stride = plyElementStride(element);
+  const offsets: number[] = [];
+  let rowOffset = 0;
+  for (const p of element.properties) {
+    offsets.push(rowOffset);
+    rowOffset += PLY_TYPE_SIZES[p.type];
+  }
+  const readers = element.properties.map(p => SCALAR_READERS[p.type]);
+  return {
+    element,
+    count: element.count,
+    indexOf: (name) => names.get(name) ?? -1,
+    getValue: (row, p) => readers[p](view, offset + row * stride + offsets[p], littleEndian),
+  };
+};
+
+/**
+ * Locates the named element in a PLY file and exposes its scalar properties.
+ * Elements before it are skipped (including ones with list properties); elements after it are ignored.
+ *
+ * @param buffer The complete file contents.
+ * @param header The parsed header of `buffer`.
+ * @param elementName Element to read, usually `vertex`.
+ * @throws If the element is missing, has list properties, or the file is truncated.
+ */
+export const readPlyElement = (buffer: ArrayBuffer, header: PlyHeader, elementName: string): PlyElementTable => {
+  const elementIndex = header.elements.findIndex(e => e.name === elementName);
+  if (elementIndex < 0) throw new Error(`PLY file has no "${elementName}" element.`);
+  const element = header.elements[elementIndex];
+  assertNoLists(element);
+
+  if (header.format === 'ascii') {
+    const text = new TextDecoder().decode(new Uint8Array(buffer, header.byteLength));
+    const lines = text.split('\n');
+    let line = 0;
+    for (let e = 0; e < elementIndex; e++) {
+      line = readAsciiElement(lines, line, header.elements[e], null);
+    }
+    const propCount = element.properties.length;
+    const values = new Float64Array(element.count * propCount);
+    readAsciiElement(lines, line, element, values);
+    const names = new Map(element.properties.map((p, i) => [p.name, i]));
+    return {
+      element,
+      count: element.count,
+      indexOf: (name) => names.get(name) ?? -1,
+      getValue: (row, p) => values[row * propCount + p],
+    };
+  }
+
+  const littleEndian = header.format === 'binary_little_endian';
+  const view = new DataView(buffer);
+  let offset = header.byteLength;
+  for (let e = 0; e < elementIndex; e++) {
+    offset += binaryElementByteLength(view, offset, header.elements[e], littleEndian);
+  }
+
+  const stride = plyElementStride(element);
+  if (offset + stride * element.count > buffer.byteLength) {
+    throw new Error(`PLY file is truncated: "${elementName}" data needs ${stride * element.count} bytes.`);
+  }
+  return createBinaryElementTable(view, offset, element, littleEndian);
+};
+
+/**
+ * Builds an element table whose values are computed on demand, used to expose other splat
+ * formats under the standard 3DGS vertex property names (x, f_dc_0, opacity, scale_0, rot_0, ...).
+ * Every property reports type `float`.
+ */
+export const createComputedElementTable = (
+  name: string,
+  count: number,
+  columns: [string, (row: number) => number][]
+): PlyElementTable => {
+  const element: PlyElement = {
+    name,
+    count,
+    properties: columns.map(([propertyName]) => ({ name: propertyName, type: 'float', isList: false })),
+  };
+  const names = new Map(columns.map(([propertyName], i) => [propertyName, i]));
+  const getters = columns.map(([, getter]) => getter);
+  return {
+    element,
+    count,
+    indexOf: (propertyName) => names.get(propertyName) ?? -1,
+    getValue: (row, p) => getters[p](row),
+  };
+};
@@ -0,0 +1,133 @@
+import { PLY_TYPE_SIZES } from './plyFormat';
+import type { PlyElementTable, PlyScalarType } from './plyFormat';
+import { shDegreeFromRestCount, shRestCoefficientCount } from './sphericalHarmonics';
+import { rotateShCoefficients, shBandRotations } from './shRotation';
+
+/** Similarity transform baked into exported splats: p' = scale * R(quaternion) * p + position. */
+export interface PlyBakeTransform {
+  position: [number, number, number];
+  /** Rotation as x, y, z, w. */
+  quaternion: [number, number, number, number];
+  scale: number;
+}
+
+type ScalarWriter = (view: DataView, offset: number, value: number) => void;
+
+const SCALAR_WRITERS: Record<PlyScalarType, ScalarWriter> = {
+  char: (v, o, x) => v.setInt8(o, Math.round(x)),
+  uchar: (v, o, x) => v.setUint8(o, Math.round(x)),
+  short: (v, o, x) => v.setInt16(o, Math.round(x), true),
+  ushort: (v, o, x) => v.setUint16(o, Math.round(x), true),
+  int: (v, o, x) => v.setInt32(o, Math.round(x), true),
+  uint: (v, o, x) => v.setUint32(o, Math.round(x), true),
+  float: (v, o, x) => v.setFloat32(o, x, true),
+  double: (v, o, x) => v.setFloat64(o, x, true),
+};
+
+const quaternionToMatrix = ([x, y, z, w]: number[]): number[] => [
+  1 - 2 * (y * y + z * z), 2 * (x * y - z * w), 2 * (x * z + y * w),
+  2 * (x * y + z * w), 1 - 2 * (x * x + z * z), 2 * (y * z - x * w),
+  2 * (x * z - y * w), 2 * (y * z + x * w), 1 - 2 * (x * x + y * y),
+];
+
+/**
+ * Writes the given rows of a vertex table as a binary little-endian PLY, keeping every property
+ * with its original name and type. The transform is baked into x/y/z, nx/ny/nz, scale_* (log),
+ * rot_0..rot_3 (w, x, y, z) and the higher-order SH coefficients f_rest_*.
+ *
+ * @param vertices Source vertex table in 3DGS property naming.
+ * @param rows Indices of the rows to write, in output order.
+ * @param transform Transform to bake into the written splats.
+ */
+export const writeGaussianPly = (vertices: PlyElementTable, rows: Uint32Array, transform: PlyBakeTransform): ArrayBuffer => {
+  const properties = vertices.element.properties;
+  const header = [
+    'ply',
+    'format binary_little_endian 1.0',
+    'comment Exported by Gaussian Splat Viewer',
+    `element vertex ${rows.length}`,
+    ...properties.map(p => `property ${p.type} ${p.name}`),
+    'end_header',
+    '',
+  ].join('\n');
+  const headerBytes = new TextEncoder().encode(header);
+  const stride = properties.reduce((sum, p) => sum + PLY_TYPE_SIZES[p.type], 0);
+  const output = new Uint8Array(headerBytes.length + stride * rows.length);
+  output.set(headerBytes);
+  const view = new DataView(output.buffer);
+
+  const offsets: number[] = [];
+  let rowOffset = 0;
+  for (const p of properties) {
+    offsets.push(rowOffset);
+    rowOffset += PLY_TYPE_SIZES[p.type];
+  }
+  const writers = properties.map(p => SCALAR_WRITERS[p.type]);
+  const indexOf = vertices.indexOf;
+
+  const R = quaternionToMatrix(transform.quaternion);
+  const s = transform.scale;
+  const logScale = Math.log(s);
+  const [tx, ty, tz] = transform.position;
+  const [rx, ry, rz, rw] = transform.quaternion;
+
+  const position = ['x', 'y', 'z'].map(indexOf);
+  const normal = ['nx', 'ny', 'nz'].map(indexOf);
+  const scales = ['scale_0', 'scale_1', 'scale_2'].map(indexOf).filter(p => p >= 0);
+  const rotation = ['rot_0', 'rot_1', 'rot_2', 'rot_3'].map(indexOf);
+  const hasRotation = rotation.every(p => p >= 0);
+  const hasNormal = normal.every(p => p >= 0);
+
+  let restCount = 0;
+  while (indexOf(`f_rest_${restCount}`) >= 0) restCount++;
+  const shDegree = shDegreeFromRestCount(restCount);
+  const restPerChannel = Math.floor(restCount / 3);
+  const shBands = shBandRotations(R, shDegree);
+  const shCoefCount = shRestCoefficientCount(shDegree);
+  const rest = Array.from({ length: restCount }, (_, j) => indexOf(`f_rest_${j}`));
+  const channel: number[] = new Array(shCoefCount).fill(0);
+
+  const values = new Float64Array(properties.length);
+  let base = headerBytes.length;
+  for (let r = 0; r < rows.length; r++) {
+    const row = rows[r];
+    for (let p = 0; p < properties.length; p++) values[p] = vertices.getValue(row, p);
+
+    const x = values[position[0]], y = values[position[1]], z = values[position[2]];
+    values[position[0]] = s * (R[0] * x + R[1] * y + R[2] * z) + tx;
+    values[position[1]] = s * (R[3] * x + R[4] * y + R[5] * z) + ty;
+    values[position[2]] = s * (R[6] * x + R[7] * y + R[8] * z) + tz;
+
+    if (hasNormal) {
+      const nx = values[normal[0]], ny = values[normal[1]], nz = values[normal[2]];
+      values[normal[0]] = R[0] * nx + R[1] * ny + R[2] * nz;
+      values[normal[1]] = R[3] * nx + R[4] * ny + R[5] * nz;
+      values[normal[2]] = R[6] * nx + R[7] * ny + R[8] * nz;
+    }
+
+    for (const p of scales) values[p] += logScale;
+
+    if (hasRotation) {
+      // Hamilton product transform * splat, with the splat quaternion stored w-first
+      const qw = values[rotation[0]], qx = values[rotation[1]], qy = values[rotation[2]], qz = values[rotation[3]];
+      values[rotation[0]] = rw * qw - rx * qx - ry * qy - rz * qz;
+      values[rotation[1]] = rw * qx + rx * qw + ry * qz - rz * qy;
+      values[rotation[2]] = rw * qy - rx * qz + ry * qw + rz * qx;
+      values[rotation[3]] = rw * qz + rx * qy - ry * qx + rz * qw;
+    }
+
+    if (shCoefCount > 0) {
+      // f_rest_* is channel-major: rotate each color channel's coefficients separately
+      for (let c = 0; c < 3; c++) {
+        for (let k = 0; k < shCoefCount; k++) channel[k] = values[rest[c * restPerChannel + k]];
+        rotateShCoefficients(channel, shBands);
+        for (let k = 0; k < shCoefCount; k++) values[rest[c * restPerChannel + k]] = channel[k];
+      }
+    }
+
+    for (let p = 0; p < properties.length; p++) writers[p](view, base + offsets[p], values[p]);
+    base += stride;
+  }
+
+  return output.buffer;
+};
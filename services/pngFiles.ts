@@ -0,0 +1,48 @@
+import { crc32 } from './crc32';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** An uncompressed iTXt chunk, which holds UTF-8 text unlike tEXt. */
+const createTextChunk = (keyword: string, text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  // Keyword, null separator, compression flag and method, empty language tag and translated keyword
+  const data = new Uint8Array([...encoder.encode(keyword), 0, 0, 0, 0, 0, ...encoder.encode(text)]);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set([0x69, 0x54, 0x58, 0x74], 4); // iTXt
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk, 4, 8 + data.length));
+  return chunk;
+};
+
+/**
+ * Adds text entries to a PNG file, right after its header chunk.
+ *
+ * @param entries Keyword/text pairs. Keywords must be 1-79 Latin-1 characters.
+ * @returns A new PNG file.
+ */
+export const addPngText = (png: Uint8Array, entries: Record<string, string>): Uint8Array => {
+  if (PNG_SIGNATURE.some((b, i) => png[i] !== b)) throw new Error('Not a PNG file.');
+  // The signature is followed by the IHDR chunk: length, type, 13 bytes of data and the CRC
+  const headerEnd = 8 + 12 + 13;
+  const chunks = Object.entries(entries).map(([keyword, text]) => createTextChunk(keyword, text));
+  const out = new Uint8Array(png.length + chunks.reduce((sum, c) => sum + c.length, 0));
+  out.set(png.subarray(0, headerEnd), 0);
+  let offset = headerEnd;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  out.set(png.subarray(headerEnd), offset);
+  return out;
+};
+
+/** Encodes the canvas contents as a PNG file. */
+export const canvasToPng = (canvas: HTMLCanvasElement): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) return reject(new Error('Failed to encode the image as PNG.'));
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/png');
+  });
@@ -0,0 +1,57 @@
+import { POINT_DELETED, POINT_HIDDEN } from './splatSelection';
+
+export interface PickOptions {
+  /** Screen position in CSS pixels relative to the viewer's top-left corner. */
+  x: number;
+  y: number;
+  viewport: { width: number; height: number };
+  /** Search radius around the cursor, in CSS pixels. */
+  radius: number;
+  /** Visibility test of a point from its model-space position and index, e.g. the crop tester. */
+  isVisible?: (x: number, y: number, z: number, index: number) => boolean;
+  /** Hidden and deleted points are skipped. */
+  pointStates?: Uint8Array | null;
+}
+
+export interface PickResult {
+  index: number;
+  /** Normalized device depth, for comparing picks made in different models. */
+  depth: number;
+}
+
+/**
+ * Picks the front-most point projected within `radius` pixels of the cursor.
+ *
+ * @param modelViewProjection Column-major model-view-projection matrix, as in `THREE.Matrix4.elements`.
+ * @returns The picked point, or null when nothing is under the cursor.
+ */
+export const pickPoint = (
+  positions: Float32Array,
+  pointCount: number,
+  modelViewProjection: ArrayLike<number>,
+  { x, y, viewport, radius, isVisible, pointStates }: PickOptions
+): PickResult | null => {
+  const m = modelViewProjection;
+  const halfWidth = viewport.width / 2;
+  const halfHeight = viewport.height / 2;
+  const radiusSq = radius * radius;
+  let best = -1;
+  let bestDepth = Infinity;
+
+  for (let i = 0; i < pointCount; i++) {
+    if (pointStates && pointStates[i] & (POINT_HIDDEN | POINT_DELETED)) continue;
+    const px = positions[i * 3], py = positions[i * 3 + 1], pz = positions[i * 3 + 2];
+    const w = m[3] * px + m[7] * py + m[11] * pz + m[15];
+    if (w <= 0) continue;
+    const sx = ((m[0] * px + m[4] * py + m[8] * pz + m[12]) / w + 1) * halfWidth;
+    const sy = (1 - (m[1] * px + m[5] * py + m[9] * pz + m[13]) / w) * halfHeight;
+    const dx = sx - x, dy = sy - y;
+    if (dx * dx + dy * dy > radiusSq) continue;
+    const depth = (m[2] * px + m[6] * py + m[10] * pz + m[14]) / w;
+    if (depth >= bestDepth) continue;
+    if (isVisible && !isVisible(px, py, pz, i)) continue;
+    best = i;
+    bestDepth = depth;
+  }
+  return best < 0 ? null : { index: best, depth: bestDepth };
+};
@@ -0,0 +1,321 @@
+/**
+ * Rigid and similarity registration between point sets: closed-form alignment of point pairs
+ * (Horn's quaternion method) and iterative closest point refinement.
+ *
+ * Transforms are column-major 4x4 matrices, as in `THREE.Matrix4.elements`.
+ */
+import type * as THREE from 'three';
+import type { RegistrationSettings } from '../types';
+
+/** Point pairs needed to estimate a transform. */
+export const MIN_REGISTRATION_PAIRS = 3;
+
+export interface IcpOptions {
+  /** Upper bound on iterations. */
+  maxIterations: number;
+  /** Pairs farther apart than this, in scene units, are ignored. */
+  maxDistance: number;
+  /** Estimate a uniform scale as well as the rotation and translation. */
+  withScale: boolean;
+  /** Stop once the RMS error improves by less than this fraction. */
+  tolerance: number;
+}
+
+export interface IcpResult {
+  matrix: number[];
+  /** RMS distance of the final correspondences. */
+  rmsError: number;
+  iterations: number;
+  /** Number of correspondences used in the last iteration. */
+  pairCount: number;
+}
+
+/**
+ * Messages exchanged between the main thread and the registration worker. Both point sets are in
+ * world space; `initial` is applied to `source` before the first iteration.
+ */
+export type RegistrationRequest = {
+  type: 'icp';
+  source: Float32Array;
+  target: Float32Array;
+  initial: number[];
+  options: IcpOptions;
+};
+
+export type RegistrationResponse =
+  | { type: 'progress'; iteration: number; rmsError: number }
+  | { type: 'done'; result: IcpResult }
+  | { type: 'error'; message: string };
+
+export const identityMatrix = (): number[] => [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+export const multiplyMatrices = (a: ArrayLike<number>, b: ArrayLike<number>): number[] => {
+  const out = new Array(16).fill(0);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) sum += a[k * 4 + row] * b[col * 4 + k];
+      out[col * 4 + row] = sum;
+    }
+  }
+  return out;
+};
+
+/** Transforms packed xyz points, returning a new array. */
+export const transformPoints = (points: Float32Array, m: ArrayLike<number>): Float32Array => {
+  const out = new Float32Array(points.length);
+  for (let i = 0; i < points.length; i += 3) {
+    const x = points[i], y = points[i + 1], z = points[i + 2];
+    out[i] = m[0] * x + m[4] * y + m[8] * z + m[12];
+    out[i + 1] = m[1] * x + m[5] * y + m[9] * z + m[13];
+    out[i + 2] = m[2] * x + m[6] * y + m[10] * z + m[14];
+  }
+  return out;
+};
+
+/** Eigenvector of the largest eigenvalue of a symmetric 4x4 matrix, by cyclic Jacobi rotations. */
+const dominantEigenvector4 = (matrix: number[][]): number[] => {
+  const a = matrix.map(row => row.slice());
+  const v = [[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0], [0, 0, 0, 1]];
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0;
+    for (let p = 0; p < 4; p++) for (let q = p + 1; q < 4; q++) off += a[p][q] * a[p][q];
+    if (off < 1e-24) break;
+    for (let p = 0; p < 4; p++) {
+      for (let q = p + 1; q < 4; q++) {
+        if (Math.abs(a[p][q]) < 1e-30) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < 4; k++) {
+          const akp = a[k][p], akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < 4; k++) {
+          const apk = a[p][k], aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < 4; k++) {
+          const vkp = v[k][p], vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  let best = 0;
+  for (let i = 1; i < 4; i++) if (a[i][i] > a[best][best]) best = i;
+  return [v[0][best], v[1][best], v[2][best], v[3][best]];
+};
+
+/**
+ * Closed-form least-squares transform mapping `source[i]` onto `target[i]` (Horn 1987).
+ * Needs at least three non-collinear pairs.
+ *
+ * @param source Packed xyz points.
+ * @param target Packed xyz points, as many as `source`.
+ * @param withScale Also estimate a uniform scale.
+ * @returns The column-major 4x4 matrix of the transform.
+ */
+export const estimateTransform = (source: ArrayLike<number>, target: ArrayLike<number>, withScale: boolean): number[] => {
+  const n = Math.floor(source.length / 3);
+  if (n < 3) throw new Error('At least three point pairs are needed.');
+
+  const cs = [0, 0, 0], ct = [0, 0, 0];
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < 3; k++) {
+      cs[k] += source[i * 3 + k];
+      ct[k] += target[i * 3 + k];
+    }
+  }
+  for (let k = 0; k < 3; k++) {
+    cs[k] /= n;
+    ct[k] /= n;
+  }
+
+  // Cross-covariance S[j][k] = sum of (source_j * target_k) over centered points
+  const S = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  let sourceVariance = 0;
+  for (let i = 0; i < n; i++) {
+    const x = [source[i * 3] - cs[0], source[i * 3 + 1] - cs[1], source[i * 3 + 2] - cs[2]];
+    const y = [target[i * 3] - ct[0], target[i * 3 + 1] - ct[1], target[i * 3 + 2] - ct[2]];
+    for (let j = 0; j < 3; j++) for (let k = 0; k < 3; k++) S[j][k] += x[j] * y[k];
+    sourceVariance += x[0] * x[0] + x[1] * x[1] + x[2] * x[2];
+  }
+  if (sourceVariance < 1e-20) throw new Error('The picked points coincide.');
+
+  const [[Sxx, Sxy, Sxz], [Syx, Syy, Syz], [Szx, Szy, Szz]] = S;
+  const N = [
+    [Sxx + Syy + Szz, Syz - Szy, Szx - Sxz, Sxy - Syx],
+    [Syz - Szy, Sxx - Syy - Szz, Sxy + Syx, Szx + Sxz],
+    [Szx - Sxz, Sxy + Syx, -Sxx + Syy - Szz, Syz + Szy],
+    [Sxy - Syx, Szx + Sxz, Syz + Szy, -Sxx - Syy + Szz],
+  ];
+  const [w, x, y, z] = dominantEigenvector4(N);
+
+  // Row-major rotation from the unit quaternion (w, x, y, z)
+  const R = [
+    [w * w + x * x - y * y - z * z, 2 * (x * y - w * z), 2 * (x * z + w * y)],
+    [2 * (x * y + w * z), w * w - x * x + y * y - z * z, 2 * (y * z - w * x)],
+    [2 * (x * z - w * y), 2 * (y * z + w * x), w * w - x * x - y * y + z * z],
+  ];
+
+  let scale = 1;
+  if (withScale) {
+    let projected = 0;
+    for (let i = 0; i < n; i++) {
+      const p = [source[i * 3] - cs[0], source[i * 3 + 1] - cs[1], source[i * 3 + 2] - cs[2]];
+      for (let r = 0; r < 3; r++) {
+        const rotated = R[r][0] * p[0] + R[r][1] * p[1] + R[r][2] * p[2];
+        projected += rotated * (target[i * 3 + r] - ct[r]);
+      }
+    }
+    scale = projected / sourceVariance;
+  }
+
+  const t = [0, 1, 2].map(r => ct[r] - scale * (R[r][0] * cs[0] + R[r][1] * cs[1] + R[r][2] * cs[2]));
+  return [
+    scale * R[0][0], scale * R[1][0], scale * R[2][0], 0,
+    scale * R[0][1], scale * R[1][1], scale * R[2][1], 0,
+    scale * R[0][2], scale * R[1][2], scale * R[2][2], 0,
+    t[0], t[1], t[2], 1,
+  ];
+};
+
+/** RMS distance between `target[i]` and `source[i]` moved by `matrix`. */
+export const rmsPairError = (source: ArrayLike<number>, target: ArrayLike<number>, matrix: ArrayLike<number>): number => {
+  const n = Math.floor(source.length / 3);
+  if (n === 0) return 0;
+  const moved = transformPoints(Float32Array.from(source), matrix);
+  let sum = 0;
+  for (let i = 0; i < n * 3; i++) {
+    const d = moved[i] - target[i];
+    sum += d * d;
+  }
+  return Math.sqrt(sum / n);
+};
+
+/**
+ * Uniform grid over points for fixed-radius nearest-neighbour queries.
+ */
+const createNearestNeighbourGrid = (points: Float32Array, cellSize: number) => {
+  const cells = new Map<string, number[]>();
+  const key = (ix: number, iy: number, iz: number) => `${ix},${iy},${iz}`;
+  for (let i = 0; i < points.length / 3; i++) {
+    const k = key(Math.floor(points[i * 3] / cellSize), Math.floor(points[i * 3 + 1] / cellSize), Math.floor(points[i * 3 + 2] / cellSize));
+    const cell = cells.get(k);
+    if (cell) cell.push(i);
+    else cells.set(k, [i]);
+  }
+  const maxDistanceSq = cellSize * cellSize;
+
+  /** Index of the nearest point within `cellSize`, or -1. */
+  return (x: number, y: number, z: number): number => {
+    const ix = Math.floor(x / cellSize), iy = Math.floor(y / cellSize), iz = Math.floor(z / cellSize);
+    let best = -1;
+    let bestDistanceSq = maxDistanceSq;
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const cell = cells.get(key(ix + dx, iy + dy, iz + dz));
+          if (!cell) continue;
+          for (const j of cell) {
+            const ex = points[j * 3] - x, ey = points[j * 3 + 1] - y, ez = points[j * 3 + 2] - z;
+            const d = ex * ex + ey * ey + ez * ez;
+            if (d < bestDistanceSq) {
+              bestDistanceSq = d;
+              best = j;
+            }
+          }
+        }
+      }
+    }
+    return best;
+  };
+};
+
+/**
+ * Refines `initial` so that `source` lands on `target` with point-to-point ICP.
+ *
+ * @param source Packed xyz world-space points of the moving model, already subsampled.
+ * @param target Packed xyz world-space points of the fixed model, already subsampled.
+ * @param onIteration Called after each iteration with its RMS error.
+ */
+export const refineWithIcp = (
+  source: Float32Array,
+  target: Float32Array,
+  initial: number[],
+  options: IcpOptions,
+  onIteration?: (iteration: number, rmsError: number) => void
+): IcpResult => {
+  const nearest = createNearestNeighbourGrid(target, options.maxDistance);
+  let matrix = initial.slice();
+  let previousRms = Infinity;
+  let result: IcpResult = { matrix, rmsError: Infinity, iterations: 0, pairCount: 0 };
+
+  for (let iteration = 1; iteration <= options.maxIterations; iteration++) {
+    const moved = transformPoints(source, matrix);
+    const from: number[] = [];
+    const to: number[] = [];
+    let sum = 0;
+    for (let i = 0; i < moved.length / 3; i++) {
+      const j = nearest(moved[i * 3], moved[i * 3 + 1], moved[i * 3 + 2]);
+      if (j < 0) continue;
+      from.push(moved[i * 3], moved[i * 3 + 1], moved[i * 3 + 2]);
+      to.push(target[j * 3], target[j * 3 + 1], target[j * 3 + 2]);
+      for (let k = 0; k < 3; k++) sum += (moved[i * 3 + k] - target[j * 3 + k]) ** 2;
+    }
+    const pairCount = from.length / 3;
+    if (pairCount < 3) {
+      if (iteration === 1) throw new Error('The models do not overlap within the ICP search distance.');
+      break;
+    }
+    const rmsError = Math.sqrt(sum / pairCount);
+    result = { matrix, rmsError, iterations: iteration, pairCount };
+    onIteration?.(iteration, rmsError);
+    if (iteration > 1 && previousRms - rmsError <= options.tolerance * previousRms) break;
+    previousRms = rmsError;
+
+    matrix = multiplyMatrices(estimateTransform(from, to, options.withScale), matrix);
+  }
+  return result;
+};
+
+/**
+ * Picks up to `maxSamples` points at a regular stride, transformed to world space.
+ *
+ * @param include Optional per-point filter, e.g. to skip cropped or deleted points.
+ */
+export const sampleWorldPoints = (
+  positions: Float32Array,
+  pointCount: number,
+  modelMatrix: ArrayLike<number>,
+  maxSamples: number,
+  include?: (index: number) => boolean
+): Float32Array => {
+  const stride = Math.max(1, Math.floor(pointCount / maxSamples));
+  const picked: number[] = [];
+  for (let i = 0; i < pointCount && picked.length < maxSamples * 3; i += stride) {
+    if (include && !include(i)) continue;
+    picked.push(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]);
+  }
+  return transformPoints(Float32Array.from(picked), modelMatrix);
+};
+
+/**
+ * Records a point picked while choosing pairs: the first pick of a pair must be on the moving
+ * model and the second on the fixed model. Picks on any other model are ignored.
+ *
+ * @param point The picked point in the space of `modelId`.
+ */
+export const addRegistrationPoint = (settings: RegistrationSettings, modelId: string, point: THREE.Vector3): RegistrationSettings => {
+  if (!settings.picking) return settings;
+  if (!settings.pendingMoving) {
+    return modelId === settings.movingModelId ? { ...settings, pendingMoving: point.clone() } : settings;
+  }
+  if (modelId !== settings.fixedModelId) return settings;
+  return { ...settings, pairs: [...settings.pairs, { moving: settings.pendingMoving, fixed: point.clone() }], pendingMoving: null };
+};
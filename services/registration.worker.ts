@@ -0,0 +1,16 @@
+import { refineWithIcp } from './registration';
+import type { RegistrationRequest, RegistrationResponse } from './registration';
+
+const post = (msg: RegistrationResponse) => self.postMessage(msg);
+
+self.onmessage = (e: MessageEvent<RegistrationRequest>) => {
+  const { source, target, initial, options } = e.data;
+  try {
+    const result = refineWithIcp(source, target, initial, options, (iteration, rmsError) =>
+      post({ type: 'progress', iteration, rmsError })
+    );
+    post({ type: 'done', result });
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message || 'ICP alignment failed.' });
+  }
+};
@@ -0,0 +1,20 @@
+import type { RenderQualitySettings, SplatAntialiasing } from '../types';
+
+export const DEFAULT_RENDER_QUALITY: RenderQualitySettings = {
+  antialiasing: 'lowPass',
+  cutoff: 3,
+  premultipliedAlpha: true,
+  exposure: 0,
+  gamma: 1,
+  saturation: 1,
+};
+
+/** Variance in pixels² the low-pass filter adds to every projected splat, as in the reference 3DGS rasterizer. */
+export const LOW_PASS_VARIANCE = 0.3;
+
+/** Values of `u_antialiasing` in the vertex shader. */
+export const SPLAT_ANTIALIASING_MODES: Record<SplatAntialiasing, number> = {
+  none: 0,
+  lowPass: 1,
+  mip: 2,
+};
@@ -0,0 +1,187 @@
+import * as THREE from 'three';
+import type { PlyData, ScalarField, SceneModel } from '../types';
+import { georeferenceOffset, modelMatrix } from './sceneModels';
+import { symmetricEigen3 } from './splatOctree';
+import type { SplatOctree } from './splatOctree';
+
+const PROPERTY_PREFIX = 'property:';
+
+/** Fields computed from every model's data, in the order they are offered. */
+export const BUILT_IN_SCALAR_FIELDS: { field: ScalarField; label: string }[] = [
+  { field: 'x', label: 'X' },
+  { field: 'y', label: 'Y (Elevation)' },
+  { field: 'z', label: 'Z' },
+  { field: 'opacity', label: 'Opacity' },
+  { field: 'splatSize', label: 'Splat Size' },
+  { field: 'cameraDistance', label: 'Distance to Camera' },
+  { field: 'planeDistance', label: 'Distance to Plane' },
+];
+
+export const propertyScalarField = (name: string): ScalarField => `${PROPERTY_PREFIX}${name}`;
+
+/** File property read by `field`, or null for the built-in fields. */
+export const scalarFieldProperty = (field: ScalarField): string | null =>
+  field.startsWith(PROPERTY_PREFIX) ? field.slice(PROPERTY_PREFIX.length) : null;
+
+export const scalarFieldLabel = (field: ScalarField) =>
+  BUILT_IN_SCALAR_FIELDS.find(f => f.field === field)?.label ?? scalarFieldProperty(field) ?? field;
+
+/** Value of `u_scalar_field` in the vertex shader; 0 reads the `a_scalar` attribute. */
+export const scalarFieldShaderIndex = (field: ScalarField): number => {
+  const index = BUILT_IN_SCALAR_FIELDS.findIndex(f => f.field === field);
+  return index < 0 ? 0 : index + 1;
+};
+
+/**
+ * Amount added to the world coordinate a field shows, so that X, Y and Z read in the original
+ * units of georeferenced models; zero for the other fields.
+ */
+export const scalarFieldOffset = (model: SceneModel, field: ScalarField): number =>
+  field === 'x' || field === 'y' || field === 'z' ? georeferenceOffset(model)[field] : 0;
+
+/** Names of the scalar file properties of any of `datas`, sorted. */
+export const scalarPropertyNames = (datas: PlyData[]): string[] =>
+  [...new Set(datas.flatMap(d => Object.keys(d.scalarProperties ?? {})))].sort();
+
+/** What the view-dependent fields are measured from. */
+export interface ScalarFieldContext {
+  cameraPosition: THREE.Vector3;
+  plane: THREE.Plane;
+}
+
+const _point = new THREE.Vector3();
+
+/**
+ * Values of `field` at up to `maxSamples` points spread evenly over a model, computed like in the
+ * vertex shader. Empty when the model lacks the property the field reads.
+ *
+ * @param include Filters points by index, e.g. to leave out cropped ones.
+ */
+export const sampleScalarField = (
+  model: SceneModel,
+  field: ScalarField,
+  context: ScalarFieldContext,
+  maxSamples: number,
+  include?: (index: number) => boolean
+): Float32Array => {
+  const data = model.plyData;
+  if (!data) return new Float32Array(0);
+  const property = scalarFieldProperty(field);
+  const propertyValues = property ? data.scalarProperties?.[property] : undefined;
+  if (property && !propertyValues) return new Float32Array(0);
+
+  const matrix = modelMatrix(model);
+  const offset = scalarFieldOffset(model, field);
+  const { positions, opacities, scales, pointCount } = data;
+  const valueAt = (i: number): number => {
+    switch (field) {
+      case 'opacity':
+        return opacities[i];
+      case 'splatSize':
+        return scales ? Math.max(scales[i * 3], scales[i * 3 + 1], scales[i * 3 + 2]) * model.transformations.scale : 0;
+      default:
+        if (propertyValues) return propertyValues[i];
+    }
+    _point.fromArray(positions, i * 3).applyMatrix4(matrix);
+    switch (field) {
+      case 'x':
+        return _point.x + offset;
+      case 'y':
+        return _point.y + offset;
+      case 'z':
+        return _point.z + offset;
+      case 'cameraDistance':
+        return _point.distanceTo(context.cameraPosition);
+      default:
+        return context.plane.distanceToPoint(_point);
+    }
+  };
+
+  const stride = Math.max(1, Math.floor(pointCount / maxSamples));
+  const values: number[] = [];
+  for (let i = 0; i < pointCount && values.length < maxSamples; i += stride) {
+    if (include && !include(i)) continue;
+    values.push(valueAt(i));
+  }
+  return Float32Array.from(values);
+};
+
+export interface ScalarHistogram {
+  /** Smallest and largest sampled value; the bins split this interval evenly. */
+  min: number;
+  max: number;
+  counts: number[];
+}
+
+/** Histogram of `values` over their own extent, or null when there are none. */
+export const computeScalarHistogram = (values: Float32Array, binCount: number): ScalarHistogram | null => {
+  let min = Infinity, max = -Infinity;
+  for (const v of values) {
+    if (!Number.isFinite(v)) continue;
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  if (min > max) return null;
+  const counts = new Array(binCount).fill(0);
+  const scale = max > min ? binCount / (max - min) : 0;
+  for (const v of values) {
+    if (!Number.isFinite(v)) continue;
+    counts[Math.min(binCount - 1, Math.floor((v - min) * scale))]++;
+  }
+  return { min, max, counts };
+};
+
+/**
+ * Least-squares plane through world-space points (packed xyz), e.g. for measuring the flatness of
+ * a floor or wall. The normal is the direction of least spread, pointing to positive `up`.
+ *
+ * @throws If fewer than three points are given.
+ */
+export const fitPlane = (points: Float32Array, up = new THREE.Vector3(0, 1, 0)): THREE.Plane => {
+  const count = Math.floor(points.length / 3);
+  if (count < 3) throw new Error('Fitting a plane needs at least three points.');
+  const mean = new THREE.Vector3();
+  for (let i = 0; i < count; i++) mean.add(_point.fromArray(points, i * 3));
+  mean.divideScalar(count);
+  const cov = new Float64Array(6);
+  for (let i = 0; i < count; i++) {
+    _point.fromArray(points, i * 3).sub(mean);
+    cov[0] += _point.x * _point.x;
+    cov[1] += _point.x * _point.y;
+    cov[2] += _point.x * _point.z;
+    cov[3] += _point.y * _point.y;
+    cov[4] += _point.y * _point.z;
+    cov[5] += _point.z * _point.z;
+  }
+  const { values, vectors } = symmetricEigen3(cov);
+  const k = values.indexOf(Math.min(...values));
+  const normal = new THREE.Vector3(vectors[k], vectors[3 + k], vectors[6 + k]).normalize();
+  if (normal.dot(up) < 0) normal.negate();
+  return new THREE.Plane().setFromNormalAndCoplanarPoint(normal, mean);
+};
+
+/**
+ * Values of a file property for the level-of-detail proxies of `octree`: every proxy of a node
+ * gets the mean over the points below it.
+ */
+export const proxyScalarValues = (octree: SplatOctree, values: Float32Array): Float32Array => {
+  const result = new Float32Array(octree.proxies.count);
+  const visit = (index: number): [number, number] => {
+    const node = octree.nodes[index];
+    let sum = 0, count = 0;
+    if (node.children.length === 0) {
+      for (let j = node.pointStart; j < node.pointStart + node.pointCount; j++) sum += values[octree.pointOrder[j]];
+      count = node.pointCount;
+    } else {
+      for (const child of node.children) {
+        const [childSum, childCount] = visit(child);
+        sum += childSum;
+        count += childCount;
+      }
+      result.fill(count > 0 ? sum / count : 0, node.proxyStart, node.proxyStart + node.proxyCount);
+    }
+    return [sum, count];
+  };
+  if (octree.nodes.length > 0) visit(0);
+  return result;
+};
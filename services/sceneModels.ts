@@ -0,0 +1,242 @@
+import * as THREE from 'three';
+import { RenderMode } from '../types';
+import type { CoordinateSystem, PlyData, SceneModel, Transformations } from '../types';
+import { SH_TEXELS_PER_POINT, allocateShCoefficients } from './sphericalHarmonics';
+import type { SplatProxies } from './splatOctree';
+
+/** Upper bound on models in the scene, fixed by the shader's per-model uniform arrays. */
+export const MAX_SCENE_MODELS = 8;
+
+const createModelId = () => `model-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createDefaultTransformations = (): Transformations => ({
+  position: new THREE.Vector3(0, 0, 0),
+  rotation: new THREE.Euler(0, 0, 0),
+  scale: 1,
+});
+
+export const createDefaultCoordinateSystem = (): CoordinateSystem => ({ up: '+y', handedness: 'right' });
+
+/** A placeholder for a model whose file has started loading. */
+export const createSceneModel = (name: string): SceneModel => ({
+  id: createModelId(),
+  name,
+  plyData: null,
+  sourceFile: null,
+  isLoading: true,
+  loadingProgress: 0,
+  transformations: createDefaultTransformations(),
+  crop: { volumes: [], selectedVolumeId: null, enabled: false },
+  renderMode: RenderMode.ORIGINAL,
+  splatDataAvailable: false,
+  visible: true,
+  annotations: [],
+  coordinateSystem: createDefaultCoordinateSystem(),
+  origin: new THREE.Vector3(),
+});
+
+/** Models drawn by the viewer, in the order of the shader's model index. */
+export const drawnSceneModels = (models: SceneModel[]): SceneModel[] =>
+  models.filter(m => m.plyData).slice(0, MAX_SCENE_MODELS);
+
+export const updateSceneModel = (models: SceneModel[], id: string, changes: Partial<SceneModel>): SceneModel[] =>
+  models.map(m => (m.id === id ? { ...m, ...changes } : m));
+
+/** World matrix of a model with the given transformations. */
+export const modelMatrixFromTransformations = (transformations: Transformations, target = new THREE.Matrix4()): THREE.Matrix4 =>
+  target.compose(
+    transformations.position,
+    new THREE.Quaternion().setFromEuler(transformations.rotation),
+    new THREE.Vector3().setScalar(transformations.scale)
+  );
+
+const AXES = ['x', 'y', 'z'] as const;
+
+/**
+ * Matrix turning file coordinates in `system` into the viewer's right-handed, Y-up ones: the
+ * shortest rotation of the up axis onto +Y, after mirroring the axis that follows the up axis
+ * (x, y, z cyclically) for left-handed files.
+ */
+export const coordinateSystemMatrix = (system: CoordinateSystem, target = new THREE.Matrix4()): THREE.Matrix4 => {
+  const axis = AXES.indexOf(system.up[1] as 'x' | 'y' | 'z');
+  const up = new THREE.Vector3().setComponent(axis, system.up[0] === '-' ? -1 : 1);
+  target.makeRotationFromQuaternion(new THREE.Quaternion().setFromUnitVectors(up, new THREE.Vector3(0, 1, 0)));
+  if (system.handedness === 'left') {
+    const mirror = new THREE.Vector3(1, 1, 1).setComponent((axis + 1) % 3, -1);
+    target.multiply(new THREE.Matrix4().makeScale(mirror.x, mirror.y, mirror.z));
+  }
+  return target;
+};
+
+/**
+ * World matrix of a model: its decoded positions are moved back by the decoder's offset, relative
+ * to the scene's georeference origin, turned into the viewer's axes and then transformed.
+ */
+export const modelMatrix = (model: SceneModel, target = new THREE.Matrix4()): THREE.Matrix4 => {
+  const shift = model.plyData ? model.plyData.offset.clone().sub(model.origin) : model.origin.clone().negate();
+  const frame = coordinateSystemMatrix(model.coordinateSystem).multiply(new THREE.Matrix4().makeTranslation(shift.x, shift.y, shift.z));
+  return modelMatrixFromTransformations(model.transformations, target).multiply(frame);
+};
+
+/** Matrix taking world coordinates to the original coordinates of `model`'s file, in its axes and units. */
+export const worldToFileMatrix = (model: SceneModel, target = new THREE.Matrix4()): THREE.Matrix4 =>
+  target
+    .makeTranslation(model.origin.x, model.origin.y, model.origin.z)
+    .multiply(coordinateSystemMatrix(model.coordinateSystem).invert());
+
+/**
+ * Offset from world coordinates to georeferenced ones in the viewer's axes, i.e. the scene origin
+ * turned like the model, for showing coordinates in original units.
+ */
+export const georeferenceOffset = (model: SceneModel): THREE.Vector3 =>
+  model.origin.clone().applyMatrix4(coordinateSystemMatrix(model.coordinateSystem));
+
+/** World-space bounds of a model, or null before it has data. */
+export const modelWorldBounds = (model: SceneModel): THREE.Box3 | null =>
+  model.plyData ? model.plyData.boundingBox.clone().applyMatrix4(modelMatrix(model)) : null;
+
+/** Union of the world-space bounds of the visible models that have data. */
+export const sceneWorldBounds = (models: SceneModel[]): THREE.Box3 | null => {
+  let bounds: THREE.Box3 | null = null;
+  for (const model of models) {
+    if (!model.visible) continue;
+    const b = modelWorldBounds(model);
+    if (b) bounds = bounds ? bounds.union(b) : b;
+  }
+  return bounds;
+};
+
+/**
+ * Transformations that move `model` so its bounding box center lands on that of `target`,
+ * keeping its rotation and scale.
+ */
+export const alignModelCenter = (model: SceneModel, target: SceneModel): Transformations | null => {
+  const from = modelWorldBounds(model);
+  const to = modelWorldBounds(target);
+  if (!from || !to) return null;
+  const offset = to.getCenter(new THREE.Vector3()).sub(from.getCenter(new THREE.Vector3()));
+  return { ...model.transformations, position: model.transformations.position.clone().add(offset) };
+};
+
+/**
+ * Transformations of a model moved by `worldMatrix` (column-major, e.g. from registration) after
+ * its current transform. Only rotations, translations and uniform scales can be represented.
+ */
+export const applyWorldMatrix = (transformations: Transformations, worldMatrix: ArrayLike<number>): Transformations => {
+  const matrix = new THREE.Matrix4().fromArray(Array.from(worldMatrix)).multiply(modelMatrixFromTransformations(transformations));
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+  matrix.decompose(position, quaternion, scale);
+  return {
+    position,
+    rotation: new THREE.Euler().setFromQuaternion(quaternion, transformations.rotation.order),
+    scale: (scale.x + scale.y + scale.z) / 3,
+  };
+};
+
+/** The point data of several models concatenated into the buffers of a single draw call. */
+export interface SceneBuffers {
+  positions: Float32Array;
+  colors: Float32Array;
+  opacities: Float32Array;
+  /** Present when any model has splat data; zero for the others. */
+  scales?: Float32Array;
+  rotations?: Float32Array;
+  shDegree: number;
+  shCoefficients?: Uint16Array;
+  /** Index of the model each point belongs to. */
+  modelIndices: Uint8Array;
+  /** First point of each model. */
+  offsets: number[];
+  /** First level-of-detail proxy of each model, or -1 when it has none; all proxies follow the original points. */
+  proxyOffsets: number[];
+  /** Points loaded from the files, before the proxies. */
+  originalPointCount: number;
+  pointCount: number;
+}
+
+/** A run of points in the combined buffers: a model's data or its level-of-detail proxies. */
+type PointRun = Pick<PlyData, 'positions' | 'colors' | 'opacities' | 'scales' | 'rotations' | 'shCoefficients' | 'pointCount'>;
+
+const concat = <T extends Float32Array | Uint16Array>(
+  runs: PointRun[],
+  offsets: number[],
+  out: T,
+  stride: number,
+  pick: (run: PointRun) => T | undefined
+): T => {
+  runs.forEach((run, r) => {
+    const source = pick(run);
+    if (source) out.set(source.subarray(0, run.pointCount * stride), offsets[r] * stride);
+  });
+  return out;
+};
+
+/**
+ * Concatenates the point data of the models, in order, followed by the level-of-detail proxies of
+ * the models that have them. A single model without proxies is passed through without copying.
+ */
+export const combineSceneData = (datas: PlyData[], proxies: (SplatProxies | null)[] = []): SceneBuffers => {
+  const runs: PointRun[] = [...datas];
+  const runModels = datas.map((_, m) => m);
+  proxies.forEach((p, m) => {
+    if (!p) return;
+    runs.push({ ...p, pointCount: p.count });
+    runModels.push(m);
+  });
+
+  const runOffsets: number[] = [];
+  let pointCount = 0;
+  for (const run of runs) {
+    runOffsets.push(pointCount);
+    pointCount += run.pointCount;
+  }
+  const offsets = runOffsets.slice(0, datas.length);
+  const originalPointCount = datas.reduce((sum, d) => sum + d.pointCount, 0);
+  const proxyOffsets = datas.map(() => -1);
+  for (let r = datas.length; r < runs.length; r++) proxyOffsets[runModels[r]] = runOffsets[r];
+
+  const shDegree = Math.max(0, ...datas.map(d => d.shDegree));
+  const hasSplatData = datas.some(d => d.scales && d.rotations);
+  const hasSh = datas.some(d => d.shCoefficients);
+
+  if (runs.length === 1) {
+    const [data] = datas;
+    return {
+      positions: data.positions,
+      colors: data.colors,
+      opacities: data.opacities,
+      scales: data.scales,
+      rotations: data.rotations,
+      shDegree,
+      shCoefficients: data.shCoefficients,
+      modelIndices: new Uint8Array(pointCount),
+      offsets,
+      proxyOffsets,
+      originalPointCount,
+      pointCount,
+    };
+  }
+
+  const modelIndices = new Uint8Array(pointCount);
+  runs.forEach((run, r) => modelIndices.fill(runModels[r], runOffsets[r], runOffsets[r] + run.pointCount));
+
+  return {
+    positions: concat(runs, runOffsets, new Float32Array(pointCount * 3), 3, d => d.positions),
+    colors: concat(runs, runOffsets, new Float32Array(pointCount * 3), 3, d => d.colors),
+    opacities: concat(runs, runOffsets, new Float32Array(pointCount), 1, d => d.opacities),
+    scales: hasSplatData ? concat(runs, runOffsets, new Float32Array(pointCount * 3), 3, d => d.scales) : undefined,
+    rotations: hasSplatData ? concat(runs, runOffsets, new Float32Array(pointCount * 4), 4, d => d.rotations) : undefined,
+    shDegree,
+    // Proxies only carry the view-independent color
+    shCoefficients: hasSh
+      ? concat(runs, runOffsets, allocateShCoefficients(pointCount), SH_TEXELS_PER_POINT * 4, d => d.shCoefficients)
+      : undefined,
+    modelIndices,
+    offsets,
+    proxyOffsets,
+    originalPointCount,
+    pointCount,
+  };
+};
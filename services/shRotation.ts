@@ -0,0 +1,91 @@
+import { shRestCoefficientCount } from './sphericalHarmonics';
+
+// Basis constants of the viewer shader (degrees 1-3), in f_rest coefficient order
+const SH_C1 = 0.4886025119029199;
+const SH_C2 = [1.0925484305920792, -1.0925484305920792, 0.31539156525252005, -1.0925484305920792, 0.5462742152960396];
+const SH_C3 = [-0.5900435899266435, 2.890611442640554, -0.4570457994644658, 0.3731763325901154, -0.4570457994644658, 1.445305721320277, -0.5900435899266435];
+
+const shBasis = (x: number, y: number, z: number): number[] => {
+  const xx = x * x, yy = y * y, zz = z * z;
+  return [
+    -SH_C1 * y, SH_C1 * z, -SH_C1 * x,
+    SH_C2[0] * x * y, SH_C2[1] * y * z, SH_C2[2] * (2 * zz - xx - yy), SH_C2[3] * x * z, SH_C2[4] * (xx - yy),
+    SH_C3[0] * y * (3 * xx - yy), SH_C3[1] * x * y * z, SH_C3[2] * y * (4 * zz - xx - yy),
+    SH_C3[3] * z * (2 * zz - 3 * xx - 3 * yy), SH_C3[4] * x * (4 * zz - xx - yy), SH_C3[5] * z * (xx - yy),
+    SH_C3[6] * x * (xx - 3 * yy),
+  ];
+};
+
+// Generic directions for fitting the band rotation matrices; any 2l+1 of them give an invertible system
+const SAMPLE_DIRECTIONS = [
+  [0.93, 0.21, 0.30], [0.12, 0.95, 0.28], [0.26, 0.17, 0.95], [-0.77, 0.55, 0.31],
+  [0.41, -0.71, 0.57], [-0.33, -0.42, -0.84], [0.67, 0.52, -0.53],
+].map(([x, y, z]) => {
+  const len = Math.hypot(x, y, z);
+  return [x / len, y / len, z / len];
+});
+
+/** Solves A X = B for square A (n x n) and B (n x m) with Gaussian elimination and partial pivoting. */
+const solve = (A: number[][], B: number[][]): number[][] => {
+  const n = A.length;
+  const a = A.map(row => [...row]);
+  const b = B.map(row => [...row]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = a[r][col] / a[col][col];
+      for (let c = col; c < n; c++) a[r][c] -= f * a[col][c];
+      for (let c = 0; c < b[r].length; c++) b[r][c] -= f * b[col][c];
+    }
+  }
+  return b.map((row, r) => row.map(v => v / a[r][r]));
+};
+
+/**
+ * Builds, for each SH band 1..degree, the matrix that re-expresses coefficients after the model is
+ * rotated by `rotation` (row-major 3x3), so that the rotated model shows the same view-dependent color.
+ * Band matrices are fitted exactly from basis evaluations at sample directions.
+ *
+ * @returns Row-major matrices; new coefficients are `M * old` within each band.
+ */
+export const shBandRotations = (rotation: ArrayLike<number>, degree: number): number[][][] => {
+  const r = rotation;
+  const bands: number[][][] = [];
+  for (let band = 1; band <= degree; band++) {
+    const first = shRestCoefficientCount(band - 1);
+    const size = 2 * band + 1;
+    const A: number[][] = [];
+    const B: number[][] = [];
+    for (let i = 0; i < size; i++) {
+      const [x, y, z] = SAMPLE_DIRECTIONS[i];
+      // The rotated model seen along d shows the original color along R^T d
+      const rx = r[0] * x + r[3] * y + r[6] * z;
+      const ry = r[1] * x + r[4] * y + r[7] * z;
+      const rz = r[2] * x + r[5] * y + r[8] * z;
+      A.push(shBasis(x, y, z).slice(first, first + size));
+      B.push(shBasis(rx, ry, rz).slice(first, first + size));
+    }
+    bands.push(solve(A, B));
+  }
+  return bands;
+};
+
+/**
+ * Rotates one color channel's higher-order SH coefficients in place.
+ * @param coefficients Coefficients of bands 1..degree in f_rest order.
+ */
+export const rotateShCoefficients = (coefficients: number[], bands: number[][][]) => {
+  bands.forEach((M, b) => {
+    const first = shRestCoefficientCount(b);
+    const input = coefficients.slice(first, first + M.length);
+    for (let j = 0; j < M.length; j++) {
+      let sum = 0;
+      for (let k = 0; k < M.length; k++) sum += M[j][k] * input[k];
+      coefficients[first + j] = sum;
+    }
+  });
+};
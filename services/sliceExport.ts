@@ -0,0 +1,92 @@
+import * as THREE from 'three';
+import type { PlyData } from '../types';
+
+export interface SliceSource {
+  data: PlyData;
+  /** Transform of the points to the exported coordinates, e.g. world or original file coordinates. */
+  matrix: THREE.Matrix4;
+  /** Whether the point with this index is shown. */
+  include: (index: number) => boolean;
+}
+
+/** Points of a section, with colors in [0, 1]. Positions are doubles, to keep georeferenced coordinates exact. */
+export interface SlicePoints {
+  count: number;
+  positions: Float64Array;
+  colors: Float32Array;
+}
+
+/** Gathers the shown points of `sources`, each transformed by its matrix. */
+export const collectSlicePoints = (sources: SliceSource[]): SlicePoints => {
+  const kept = sources.map(({ data, include }) => {
+    const rows: number[] = [];
+    for (let i = 0; i < data.pointCount; i++) if (include(i)) rows.push(i);
+    return rows;
+  });
+  const count = kept.reduce((sum, rows) => sum + rows.length, 0);
+  const positions = new Float64Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const point = new THREE.Vector3();
+  let n = 0;
+  sources.forEach(({ data, matrix }, s) => {
+    for (const i of kept[s]) {
+      point.fromArray(data.positions, i * 3).applyMatrix4(matrix).toArray(positions, n * 3);
+      colors.set(data.colors.subarray(i * 3, i * 3 + 3), n * 3);
+      n++;
+    }
+  });
+  return { count, positions, colors };
+};
+
+const toByte = (value: number) => Math.round(THREE.MathUtils.clamp(value, 0, 1) * 255);
+
+/** Writes the points as CSV with an `x,y,z,r,g,b` header and colors in 0-255. */
+export const writeSliceCsv = ({ count, positions, colors }: SlicePoints): string => {
+  const lines = ['x,y,z,r,g,b'];
+  for (let i = 0; i < count; i++) {
+    const o = i * 3;
+    lines.push(`${positions[o]},${positions[o + 1]},${positions[o + 2]},${toByte(colors[o])},${toByte(colors[o + 1])},${toByte(colors[o + 2])}`);
+  }
+  return lines.join('\n') + '\n';
+};
+
+// Largest coordinate written as a float; 32-bit floats keep about a millimeter up to here
+const FLOAT_POSITION_LIMIT = 1e4;
+
+/**
+ * Writes the points as a binary little-endian PLY point cloud with uchar colors. Positions are
+ * floats, or doubles when they are too far from the origin for floats, as georeferenced ones are.
+ */
+export const writeSlicePly = ({ count, positions, colors }: SlicePoints): ArrayBuffer => {
+  const useDouble = positions.some(v => Math.abs(v) > FLOAT_POSITION_LIMIT);
+  const positionType = useDouble ? 'double' : 'float';
+  const positionSize = useDouble ? 8 : 4;
+  const header = [
+    'ply',
+    'format binary_little_endian 1.0',
+    'comment Exported by Gaussian Splat Viewer',
+    `element vertex ${count}`,
+    `property ${positionType} x`,
+    `property ${positionType} y`,
+    `property ${positionType} z`,
+    'property uchar red',
+    'property uchar green',
+    'property uchar blue',
+    'end_header',
+    '',
+  ].join('\n');
+  const headerBytes = new TextEncoder().encode(header);
+  const stride = 3 * positionSize + 3;
+  const output = new Uint8Array(headerBytes.length + stride * count);
+  output.set(headerBytes);
+  const view = new DataView(output.buffer);
+  for (let i = 0; i < count; i++) {
+    const offset = headerBytes.length + i * stride;
+    for (let c = 0; c < 3; c++) {
+      if (useDouble) view.setFloat64(offset + c * 8, positions[i * 3 + c], true);
+      else view.setFloat32(offset + c * 4, positions[i * 3 + c], true);
+      view.setUint8(offset + 3 * positionSize + c, toByte(colors[i * 3 + c]));
+    }
+  }
+  return output.buffer;
+};
@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+
+/** Zeroth-order spherical harmonic basis constant, used to turn f_dc_* into RGB. */
+export const SH_C0 = 0.28209479177387814;
+
+/** Highest SH degree stored in 3DGS files (f_rest_0..f_rest_44). */
+export const MAX_SH_DEGREE = 3;
+
+/** RGBA texels reserved per point: 15 higher-order coefficients x 3 channels, padded to 48 floats. */
+export const SH_TEXELS_PER_POINT = 12;
+
+/** Width of the coefficient texture in texels. */
+export const SH_TEXTURE_WIDTH = 4096;
+
+/** Number of higher-order coefficients per color channel for a given degree (excluding DC). */
+export const shRestCoefficientCount = (degree: number): number => (degree + 1) * (degree + 1) - 1;
+
+/**
+ * Derives the SH degree from the number of `f_rest_*` properties in a file.
+ */
+export const shDegreeFromRestCount = (restCount: number): number => {
+  const perChannel = Math.floor(restCount / 3);
+  for (let degree = MAX_SH_DEGREE; degree > 0; degree--) {
+    if (perChannel >= shRestCoefficientCount(degree)) return degree;
+  }
+  return 0;
+};
+
+/**
+ * Allocates the half-float buffer backing the SH texture, sized to a whole number of rows.
+ */
+export const allocateShCoefficients = (pointCount: number): Uint16Array => {
+  const rows = Math.max(1, Math.ceil((pointCount * SH_TEXELS_PER_POINT) / SH_TEXTURE_WIDTH));
+  return new Uint16Array(rows * SH_TEXTURE_WIDTH * 4);
+};
+
+/**
+ * Creates the RGBA half-float texture array sampled by the splat shader with `texelFetch`. The
+ * rows of `coefficients` are split into layers of at most `maxTextureSize` rows, as large scenes
+ * need more rows than a single texture may have; the shader reads the layer height from
+ * `texture.image.height`.
+ *
+ * @returns The texture, or null when the coefficients need more than `maxLayers` layers.
+ */
+export const createShTexture = (coefficients: Uint16Array, maxTextureSize: number, maxLayers: number): THREE.DataArrayTexture | null => {
+  const rows = coefficients.length / (SH_TEXTURE_WIDTH * 4);
+  const layerRows = Math.min(rows, maxTextureSize);
+  const layers = Math.ceil(rows / layerRows);
+  if (layers > maxLayers) return null;
+  // Every layer has the same height, so the last one is padded
+  let data = coefficients;
+  if (layers * layerRows > rows) {
+    data = new Uint16Array(layers * layerRows * SH_TEXTURE_WIDTH * 4);
+    data.set(coefficients);
+  }
+  const texture = new THREE.DataArrayTexture(data, SH_TEXTURE_WIDTH, layerRows, layers);
+  texture.format = THREE.RGBAFormat;
+  texture.type = THREE.HalfFloatType;
+  texture.minFilter = THREE.NearestFilter;
+  texture.magFilter = THREE.NearestFilter;
+  texture.generateMipmaps = false;
+  texture.needsUpdate = true;
+  return texture;
+};
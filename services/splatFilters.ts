@@ -0,0 +1,124 @@
+import type { PlyData, SplatFilterSettings } from '../types';
+
+export const DEFAULT_SPLAT_FILTERS: SplatFilterSettings = {
+  minOpacity: 0,
+  minSize: null,
+  maxSize: null,
+  removeOutliers: false,
+  outlierNeighbors: 8,
+  outlierThreshold: 2,
+};
+
+/** Stands in for an open bound in the shader uniforms; large but finite in single precision. */
+const UNBOUNDED = 1e38;
+
+export const SPLAT_FILTER_SHADER_CHUNK = `
+  uniform float u_filter_min_opacity;
+  uniform vec2 u_filter_size; // Smallest and largest splat size kept, in world units
+  uniform float u_filter_max_outlier; // Largest outlier score kept
+  uniform int u_filter_point_count; // Points before the level-of-detail proxies, which are never filtered
+
+  // Same test as createSplatFilterTester in services/splatFilters.ts
+  bool isFiltered(float opacity, vec3 scale, float outlier, mat4 model_matrix) {
+    if (gl_VertexID >= u_filter_point_count) return false;
+    if (opacity < u_filter_min_opacity) return true;
+    float size = max(scale.x, max(scale.y, scale.z)) * length(model_matrix[0].xyz);
+    if (size > 0.0 && (size < u_filter_size.x || size > u_filter_size.y)) return true;
+    return outlier > u_filter_max_outlier;
+  }
+`;
+
+export interface SplatFilterUniformValues {
+  minOpacity: number;
+  minSize: number;
+  maxSize: number;
+  maxOutlier: number;
+}
+
+/** Values of the filter shader uniforms; the point count is set with the scene buffers. */
+export const packSplatFilterUniforms = (settings: SplatFilterSettings): SplatFilterUniformValues => ({
+  minOpacity: settings.minOpacity,
+  minSize: settings.minSize ?? 0,
+  maxSize: settings.maxSize ?? UNBOUNDED,
+  maxOutlier: settings.removeOutliers ? settings.outlierThreshold : UNBOUNDED,
+});
+
+/** Whether any filter can hide points. */
+export const isSplatFilterActive = (settings: SplatFilterSettings): boolean =>
+  settings.minOpacity > 0 || settings.minSize !== null || settings.maxSize !== null || settings.removeOutliers;
+
+/**
+ * Builds a point test matching the vertex shader, for picking and selection.
+ *
+ * @param modelScale Uniform scale of the model, which splat sizes are multiplied by.
+ * @param outlierScores Scores of the model's points; without them no point counts as an outlier.
+ * @returns A function that is true for points the filters keep.
+ */
+export const createSplatFilterTester = (
+  data: PlyData,
+  settings: SplatFilterSettings,
+  modelScale: number,
+  outlierScores?: Float32Array
+): ((index: number) => boolean) => {
+  if (!isSplatFilterActive(settings)) return () => true;
+  const { opacities, scales } = data;
+  const { minOpacity, minSize, maxSize, maxOutlier } = packSplatFilterUniforms(settings);
+  const scores = settings.removeOutliers ? outlierScores : undefined;
+  return i => {
+    if (opacities[i] < minOpacity) return false;
+    if (scales) {
+      const size = Math.max(scales[i * 3], scales[i * 3 + 1], scales[i * 3 + 2]) * modelScale;
+      if (size > 0 && (size < minSize || size > maxSize)) return false;
+    }
+    return !(scores && scores[i] > maxOutlier);
+  };
+};
+
+export interface SplatFilterCounts {
+  /** Splats hidden by each filter, including those another filter also hides. */
+  opacity: number;
+  size: number;
+  outlier: number;
+  /** Splats hidden by any filter. */
+  total: number;
+}
+
+/**
+ * Counts the points of a model hidden by the filters.
+ *
+ * @param include Leaves points out of the count, e.g. cropped ones.
+ */
+export const countFilteredSplats = (
+  data: PlyData,
+  settings: SplatFilterSettings,
+  modelScale: number,
+  outlierScores?: Float32Array,
+  include?: (index: number) => boolean
+): SplatFilterCounts => {
+  const counts: SplatFilterCounts = { opacity: 0, size: 0, outlier: 0, total: 0 };
+  if (!isSplatFilterActive(settings)) return counts;
+  const { opacities, scales } = data;
+  const { minOpacity, minSize, maxSize, maxOutlier } = packSplatFilterUniforms(settings);
+  const scores = settings.removeOutliers ? outlierScores : undefined;
+  for (let i = 0; i < data.pointCount; i++) {
+    if (include && !include(i)) continue;
+    let hidden = false;
+    if (opacities[i] < minOpacity) {
+      counts.opacity++;
+      hidden = true;
+    }
+    if (scales) {
+      const size = Math.max(scales[i * 3], scales[i * 3 + 1], scales[i * 3 + 2]) * modelScale;
+      if (size > 0 && (size < minSize || size > maxSize)) {
+        counts.size++;
+        hidden = true;
+      }
+    }
+    if (scores && scores[i] > maxOutlier) {
+      counts.outlier++;
+      hidden = true;
+    }
+    if (hidden) counts.total++;
+  }
+  return counts;
+};
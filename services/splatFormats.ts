@@ -0,0 +1,41 @@
+import type { PlyElementTable } from './plyFormat';
+import { decodePly, isPly } from './formats/ply';
+import { decodeAntimatterSplat } from './formats/antimatterSplat';
+import { decodeKsplat } from './formats/ksplat';
+import { decodeSpz } from './formats/spz';
+
+/**
+ * A splat file format the viewer can import. Every format decodes to a vertex table using the
+ * 3DGS PLY property names, which `createPlyVertexDecoder` turns into `PlyData`.
+ */
+export interface SplatFormat {
+  name: string;
+  /** Lower-case file extensions including the dot. */
+  extensions: string[];
+  /** Recognizes the format from the first bytes of the file, when it has a signature. */
+  matches?: (head: Uint8Array) => boolean;
+  decode: (buffer: ArrayBuffer) => PlyElementTable | Promise<PlyElementTable>;
+}
+
+export const SPLAT_FORMATS: SplatFormat[] = [
+  { name: 'PLY', extensions: ['.ply'], matches: isPly, decode: decodePly },
+  { name: 'Splat', extensions: ['.splat'], decode: decodeAntimatterSplat },
+  { name: 'KSplat', extensions: ['.ksplat'], decode: decodeKsplat },
+  { name: 'SPZ', extensions: ['.spz'], decode: decodeSpz },
+];
+
+/** Value for the `accept` attribute of file inputs. */
+export const SPLAT_FILE_ACCEPT = SPLAT_FORMATS.flatMap(f => f.extensions).join(',');
+
+/**
+ * Picks the format of a file, preferring a signature match over the file extension.
+ * @throws If no registered format matches.
+ */
+export const findSplatFormat = (fileName: string, head: Uint8Array): SplatFormat => {
+  const bySignature = SPLAT_FORMATS.find(f => f.matches?.(head));
+  if (bySignature) return bySignature;
+  const name = fileName.toLowerCase();
+  const byExtension = SPLAT_FORMATS.find(f => f.extensions.some(ext => name.endsWith(ext)));
+  if (byExtension) return byExtension;
+  throw new Error(`Unsupported file "${fileName}". Supported formats: ${SPLAT_FILE_ACCEPT}.`);
+};
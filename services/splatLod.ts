@@ -0,0 +1,173 @@
+import * as THREE from 'three';
+import type { SplatOctree } from './splatOctree';
+
+/** A model as seen by the level-of-detail selection. */
+export interface LodModel {
+  /** Null for models drawn in full, e.g. while their octree is being built. */
+  octree: SplatOctree | null;
+  /** Model-to-world matrix. */
+  matrix: THREE.Matrix4;
+  visible: boolean;
+  /** Index of the model's first original point in the shared buffers. */
+  pointOffset: number;
+  pointCount: number;
+  /** Index of the model's first proxy splat in the shared buffers. */
+  proxyOffset: number;
+}
+
+/** Octree nodes drawn for each model, in ascending order; -1 stands for all points of a model without octree. */
+export interface LodSelection {
+  nodes: number[][];
+  splatCount: number;
+}
+
+/** Inner nodes are refined while their proxies are farther apart than this on screen. */
+const MAX_PROXY_SPACING_PIXELS = 1.5;
+
+interface Candidate {
+  model: number;
+  node: number;
+  /** On-screen proxy spacing in pixels; 0 for leaves. */
+  priority: number;
+}
+
+// Max-heap on the priority
+const heapPush = (heap: Candidate[], item: Candidate) => {
+  heap.push(item);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent].priority >= heap[i].priority) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+};
+
+const heapPop = (heap: Candidate[]): Candidate => {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1, right = left + 1;
+      let largest = i;
+      if (left < heap.length && heap[left].priority > heap[largest].priority) largest = left;
+      if (right < heap.length && heap[right].priority > heap[largest].priority) largest = right;
+      if (largest === i) break;
+      [heap[largest], heap[i]] = [heap[i], heap[largest]];
+      i = largest;
+    }
+  }
+  return top;
+};
+
+const _box = new THREE.Box3();
+const _viewProjection = new THREE.Matrix4();
+const _modelViewProjection = new THREE.Matrix4();
+const _inverse = new THREE.Matrix4();
+
+/**
+ * Chooses what to draw for the current view: nodes outside the frustum are skipped, and starting
+ * from the roots, the node whose proxies look coarsest on screen is replaced by its children for as
+ * long as the total stays within `budget` splats.
+ *
+ * @param viewportHeight Height of the drawing area in pixels, for the on-screen proxy spacing.
+ * @param orthographicDistance Distance whose scale an orthographic view shows everywhere, or 0 for
+ * a perspective view; see `applyCameraProjection`.
+ */
+export const selectLodNodes = (models: LodModel[], camera: THREE.PerspectiveCamera, viewportHeight: number, budget: number, orthographicDistance = 0): LodSelection => {
+  const focal = viewportHeight / (2 * Math.tan(camera.fov * Math.PI / 360));
+  _viewProjection.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+  const nodes: number[][] = models.map(() => []);
+  const frustums: (THREE.Frustum | null)[] = [];
+  const cameraPositions: (THREE.Vector3 | null)[] = [];
+  // Orthographic distances in each model's space
+  const modelDistances: number[] = [];
+  const heap: Candidate[] = [];
+  let splatCount = 0;
+
+  const splatsOf = (octree: SplatOctree, node: number) => {
+    const n = octree.nodes[node];
+    return n.children.length === 0 ? n.pointCount : n.proxyCount;
+  };
+
+  /** Queues a node unless it is outside the view; returns its splat count. */
+  const consider = (m: number, node: number) => {
+    const octree = models[m].octree!;
+    const n = octree.nodes[node];
+    _box.min.fromArray(n.min);
+    _box.max.fromArray(n.max);
+    if (!frustums[m]!.intersectsBox(_box)) return 0;
+    // Spacing and distance are both in model space, so the model's scale cancels out
+    const distance = modelDistances[m] || _box.distanceToPoint(cameraPositions[m]!);
+    const priority = n.spacing === 0 ? 0 : distance > 0 ? n.spacing / distance * focal : Infinity;
+    heapPush(heap, { model: m, node, priority });
+    return splatsOf(octree, node);
+  };
+
+  models.forEach((model, m) => {
+    frustums.push(null);
+    cameraPositions.push(null);
+    if (!model.visible) return;
+    if (!model.octree) {
+      nodes[m].push(-1);
+      splatCount += model.pointCount;
+      return;
+    }
+    // Test the nodes in model space rather than transforming every box
+    _modelViewProjection.multiplyMatrices(_viewProjection, model.matrix);
+    frustums[m] = new THREE.Frustum().setFromProjectionMatrix(_modelViewProjection);
+    cameraPositions[m] = camera.position.clone().applyMatrix4(_inverse.copy(model.matrix).invert());
+    modelDistances[m] = orthographicDistance / model.matrix.getMaxScaleOnAxis();
+    splatCount += consider(m, 0);
+  });
+
+  while (heap.length > 0) {
+    const { model: m, node, priority } = heapPop(heap);
+    const octree = models[m].octree!;
+    const children = octree.nodes[node].children;
+    if (children.length === 0 || priority <= MAX_PROXY_SPACING_PIXELS) {
+      nodes[m].push(node);
+      continue;
+    }
+    const childSplats = children.reduce((sum, child) => sum + splatsOf(octree, child), 0);
+    if (splatCount - splatsOf(octree, node) + childSplats > budget) {
+      nodes[m].push(node);
+      continue;
+    }
+    splatCount -= splatsOf(octree, node);
+    for (const child of children) splatCount += consider(m, child);
+  }
+
+  nodes.forEach(list => list.sort((a, b) => a - b));
+  return { nodes, splatCount };
+};
+
+export const sameLodSelection = (a: LodSelection, b: LodSelection) =>
+  a.splatCount === b.splatCount &&
+  a.nodes.length === b.nodes.length &&
+  a.nodes.every((list, m) => list.length === b.nodes[m].length && list.every((node, i) => node === b.nodes[m][i]));
+
+/** Indices into the shared buffers of every splat in `selection`. */
+export const buildDrawList = (models: LodModel[], selection: LodSelection): Uint32Array => {
+  const out = new Uint32Array(selection.splatCount);
+  let k = 0;
+  selection.nodes.forEach((list, m) => {
+    const model = models[m];
+    for (const node of list) {
+      if (node < 0) {
+        for (let i = 0; i < model.pointCount; i++) out[k++] = model.pointOffset + i;
+        continue;
+      }
+      const octree = model.octree!;
+      const n = octree.nodes[node];
+      if (n.children.length === 0) {
+        for (let j = n.pointStart; j < n.pointStart + n.pointCount; j++) out[k++] = model.pointOffset + octree.pointOrder[j];
+      } else {
+        for (let j = 0; j < n.proxyCount; j++) out[k++] = model.proxyOffset + n.proxyStart + j;
+      }
+    }
+  });
+  return out;
+};
@@ -0,0 +1,444 @@
+import type { PlyData } from '../types';
+
+/**
+ * Spatial hierarchy over one model's splats, in model space. Leaves hold the original points;
+ * every inner node holds merged "proxy" splats that stand in for its whole subtree when it is far
+ * away. Proxies only carry the base color: higher-order spherical harmonics and selection edits
+ * apply to the original points.
+ */
+export interface SplatOctree {
+  /** The root is the first node. */
+  nodes: OctreeNode[];
+  /** Point indices grouped by leaf; each leaf owns one contiguous range. */
+  pointOrder: Uint32Array;
+  proxies: SplatProxies;
+  /** Number of original points. */
+  pointCount: number;
+}
+
+export interface OctreeNode {
+  /** Tight bounds of the points below the node. */
+  min: [number, number, number];
+  max: [number, number, number];
+  /** Indices into `SplatOctree.nodes`; empty for leaves. */
+  children: number[];
+  /** Range of `pointOrder` held by a leaf. */
+  pointStart: number;
+  pointCount: number;
+  /** Range of the proxy splats of an inner node. */
+  proxyStart: number;
+  proxyCount: number;
+  /** Distance between neighbouring proxies; 0 for leaves, which are drawn at full detail. */
+  spacing: number;
+}
+
+/** Merged splats in the layout of `PlyData`. */
+export interface SplatProxies {
+  positions: Float32Array;
+  colors: Float32Array;
+  opacities: Float32Array;
+  scales?: Float32Array;
+  rotations?: Float32Array;
+  count: number;
+}
+
+/** Point data the octree is built from. */
+export type OctreeSource = Pick<PlyData, 'positions' | 'colors' | 'opacities' | 'scales' | 'rotations' | 'pointCount'>;
+
+export type OctreeWorkerRequest = { type: 'build'; source: OctreeSource };
+
+export type OctreeWorkerResponse =
+  | { type: 'done'; octree: SplatOctree }
+  | { type: 'error'; message: string };
+
+/** Nodes with more points are split. */
+export const MAX_LEAF_POINTS = 32768;
+const MAX_DEPTH = 12;
+/** Inner nodes merge their subtree on a grid with this many cells along each edge. */
+const PROXY_GRID = 64;
+
+// Per-cell sums: weight, position (3), second moments (6), color (3), coverage, members
+const CELL_STRIDE = 15;
+
+type Vec3 = [number, number, number];
+
+// --- Covariance helpers ---
+
+/**
+ * Covariance (xx, xy, xz, yy, yz, zz) of splat `i`, built exactly like the vertex shader does from
+ * its scale and WXYZ-stored rotation.
+ */
+const splatCovariance = (scales: Float32Array, rotations: Float32Array, i: number, out: Float64Array) => {
+  const w = rotations[i * 4], a = rotations[i * 4 + 1], b = rotations[i * 4 + 2], c = rotations[i * 4 + 3];
+  const len = Math.hypot(w, a, b, c) || 1;
+  // The shader reads the stored quaternion as (x, y, z, w) = (a, b, c, w)
+  const x = a / len, y = b / len, z = c / len, qw = w / len;
+  // Columns of the shader's rotation matrix
+  const r00 = 1 - 2 * (y * y + z * z), r10 = 2 * (x * y - z * qw), r20 = 2 * (x * z + y * qw);
+  const r01 = 2 * (x * y + z * qw), r11 = 1 - 2 * (x * x + z * z), r21 = 2 * (y * z - x * qw);
+  const r02 = 2 * (x * z - y * qw), r12 = 2 * (y * z + x * qw), r22 = 1 - 2 * (x * x + y * y);
+  const s0 = scales[i * 3] ** 2, s1 = scales[i * 3 + 1] ** 2, s2 = scales[i * 3 + 2] ** 2;
+  // V = R * S^2 * R^T, where column k of R is (r0k, r1k, r2k)
+  out[0] = r00 * r00 * s0 + r01 * r01 * s1 + r02 * r02 * s2;
+  out[1] = r00 * r10 * s0 + r01 * r11 * s1 + r02 * r12 * s2;
+  out[2] = r00 * r20 * s0 + r01 * r21 * s1 + r02 * r22 * s2;
+  out[3] = r10 * r10 * s0 + r11 * r11 * s1 + r12 * r12 * s2;
+  out[4] = r10 * r20 * s0 + r11 * r21 * s1 + r12 * r22 * s2;
+  out[5] = r20 * r20 * s0 + r21 * r21 * s1 + r22 * r22 * s2;
+};
+
+/**
+ * Eigen decomposition of a symmetric 3x3 matrix (xx, xy, xz, yy, yz, zz) by Jacobi rotations.
+ *
+ * @returns Eigenvalues, and the eigenvectors as the columns of a row-major 3x3 matrix.
+ */
+export const symmetricEigen3 = (m: ArrayLike<number>): { values: Vec3; vectors: number[] } => {
+  const a = [
+    [m[0], m[1], m[2]],
+    [m[1], m[3], m[4]],
+    [m[2], m[4], m[5]],
+  ];
+  const v = [
+    [1, 0, 0],
+    [0, 1, 0],
+    [0, 0, 1],
+  ];
+  for (let sweep = 0; sweep < 50; sweep++) {
+    const off = a[0][1] ** 2 + a[0][2] ** 2 + a[1][2] ** 2;
+    if (off < 1e-30 * (a[0][0] ** 2 + a[1][1] ** 2 + a[2][2] ** 2) || off === 0) break;
+    for (let p = 0; p < 2; p++) {
+      for (let q = p + 1; q < 3; q++) {
+        if (a[p][q] === 0) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1), s = t * c;
+        for (let k = 0; k < 3; k++) {
+          const akp = a[k][p], akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < 3; k++) {
+          const apk = a[p][k], aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < 3; k++) {
+          const vkp = v[k][p], vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  return { values: [a[0][0], a[1][1], a[2][2]], vectors: [...v[0], ...v[1], ...v[2]] };
+};
+
+/**
+ * Writes the scale and WXYZ rotation that make the shader reproduce covariance `cov`.
+ * The shader's rotation matrix must equal the eigenvector matrix, which is the inverse of the
+ * usual quaternion matrix, so the quaternion of the eigenvectors is conjugated.
+ */
+const covarianceToSplat = (cov: ArrayLike<number>, scales: Float32Array, rotations: Float32Array, i: number) => {
+  const { values, vectors: e } = symmetricEigen3(cov);
+  // Make the eigenvectors a proper rotation
+  const det = e[0] * (e[4] * e[8] - e[5] * e[7]) - e[1] * (e[3] * e[8] - e[5] * e[6]) + e[2] * (e[3] * e[7] - e[4] * e[6]);
+  if (det < 0) {
+    e[2] = -e[2];
+    e[5] = -e[5];
+    e[8] = -e[8];
+  }
+  // Quaternion of the row-major rotation matrix e (Shepperd's method)
+  let qw: number, qx: number, qy: number, qz: number;
+  const trace = e[0] + e[4] + e[8];
+  if (trace > 0) {
+    const s = 0.5 / Math.sqrt(trace + 1);
+    qw = 0.25 / s;
+    qx = (e[7] - e[5]) * s;
+    qy = (e[2] - e[6]) * s;
+    qz = (e[3] - e[1]) * s;
+  } else if (e[0] > e[4] && e[0] > e[8]) {
+    const s = 2 * Math.sqrt(1 + e[0] - e[4] - e[8]);
+    qw = (e[7] - e[5]) / s;
+    qx = 0.25 * s;
+    qy = (e[1] + e[3]) / s;
+    qz = (e[2] + e[6]) / s;
+  } else if (e[4] > e[8]) {
+    const s = 2 * Math.sqrt(1 + e[4] - e[0] - e[8]);
+    qw = (e[2] - e[6]) / s;
+    qx = (e[1] + e[3]) / s;
+    qy = 0.25 * s;
+    qz = (e[5] + e[7]) / s;
+  } else {
+    const s = 2 * Math.sqrt(1 + e[8] - e[0] - e[4]);
+    qw = (e[3] - e[1]) / s;
+    qx = (e[2] + e[6]) / s;
+    qy = (e[5] + e[7]) / s;
+    qz = 0.25 * s;
+  }
+  rotations[i * 4] = qw;
+  rotations[i * 4 + 1] = -qx;
+  rotations[i * 4 + 2] = -qy;
+  rotations[i * 4 + 3] = -qz;
+  for (let k = 0; k < 3; k++) scales[i * 3 + k] = Math.sqrt(Math.max(values[k], 1e-20));
+};
+
+/** Product of the two largest of three values, a stand-in for a splat's projected area. */
+const largestPairProduct = (a: number, b: number, c: number) => {
+  const min = Math.min(a, b, c);
+  return min === a ? b * c : min === b ? a * c : a * b;
+};
+
+// --- Building ---
+
+/** Growable proxy buffers, copied into `SplatProxies` at the end. */
+const createProxyBuffers = (hasSplat: boolean) => {
+  let capacity = 1024;
+  let count = 0;
+  const buffers = {
+    positions: new Float32Array(capacity * 3),
+    colors: new Float32Array(capacity * 3),
+    opacities: new Float32Array(capacity),
+    scales: hasSplat ? new Float32Array(capacity * 3) : undefined,
+    rotations: hasSplat ? new Float32Array(capacity * 4) : undefined,
+  };
+  const grow = <T extends Float32Array>(array: T, stride: number): T => {
+    const next = new Float32Array(capacity * stride) as T;
+    next.set(array);
+    return next;
+  };
+  return {
+    buffers,
+    get count() {
+      return count;
+    },
+    /** Reserves one proxy and returns its index. */
+    add: () => {
+      if (count === capacity) {
+        capacity *= 2;
+        buffers.positions = grow(buffers.positions, 3);
+        buffers.colors = grow(buffers.colors, 3);
+        buffers.opacities = grow(buffers.opacities, 1);
+        if (buffers.scales) buffers.scales = grow(buffers.scales, 3);
+        if (buffers.rotations) buffers.rotations = grow(buffers.rotations, 4);
+      }
+      return count++;
+    },
+    finish: (): SplatProxies => ({
+      positions: buffers.positions.slice(0, count * 3),
+      colors: buffers.colors.slice(0, count * 3),
+      opacities: buffers.opacities.slice(0, count),
+      scales: buffers.scales?.slice(0, count * 3),
+      rotations: buffers.rotations?.slice(0, count * 4),
+      count,
+    }),
+  };
+};
+
+/**
+ * Builds the octree of a model. Nodes are split at their center until they hold at most
+ * `MAX_LEAF_POINTS` points; inner nodes then merge their children's splats bottom-up, one proxy
+ * per occupied grid cell, matching the cell's mean position, covariance and coverage.
+ */
+export const buildSplatOctree = (source: OctreeSource): SplatOctree => {
+  const { positions, colors, opacities, scales, rotations, pointCount } = source;
+  const hasSplat = !!(scales && rotations);
+  const nodes: OctreeNode[] = [];
+  const pointOrder = new Uint32Array(pointCount);
+  for (let i = 0; i < pointCount; i++) pointOrder[i] = i;
+  const scratch = new Uint32Array(pointCount);
+
+  let min: Vec3 = [Infinity, Infinity, Infinity];
+  let max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < pointCount; i++) {
+    for (let k = 0; k < 3; k++) {
+      const v = positions[i * 3 + k];
+      if (v < min[k]) min[k] = v;
+      if (v > max[k]) max[k] = v;
+    }
+  }
+  if (pointCount === 0) min = max = [0, 0, 0];
+  const rootCenter: Vec3 = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+  const rootHalf = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2], 1e-6) / 2;
+
+  const proxies = createProxyBuffers(hasSplat);
+  const cellOfKey = new Int32Array(PROXY_GRID ** 3).fill(-1);
+  const usedKeys: number[] = [];
+  let cells = new Float64Array(4096 * CELL_STRIDE);
+  let covCells = hasSplat ? new Float64Array(4096 * 6) : null;
+  const cov = new Float64Array(6);
+
+  /** Adds one splat to the merge grid of the node being built. */
+  const accumulate = (
+    center: Vec3, half: number,
+    p: ArrayLike<number>, c: ArrayLike<number>, pi: number,
+    opacity: number, memberCov: Float64Array | null, area: number
+  ) => {
+    const cellSize = (2 * half) / PROXY_GRID;
+    const ix = Math.min(PROXY_GRID - 1, Math.max(0, Math.floor((p[pi] - center[0] + half) / cellSize)));
+    const iy = Math.min(PROXY_GRID - 1, Math.max(0, Math.floor((p[pi + 1] - center[1] + half) / cellSize)));
+    const iz = Math.min(PROXY_GRID - 1, Math.max(0, Math.floor((p[pi + 2] - center[2] + half) / cellSize)));
+    const key = ix + PROXY_GRID * (iy + PROXY_GRID * iz);
+    let cell = cellOfKey[key];
+    if (cell < 0) {
+      cell = usedKeys.length;
+      cellOfKey[key] = cell;
+      usedKeys.push(key);
+      if ((cell + 1) * CELL_STRIDE > cells.length) {
+        const next = new Float64Array(cells.length * 2);
+        next.set(cells);
+        cells = next;
+        if (covCells) {
+          const nextCov = new Float64Array(covCells.length * 2);
+          nextCov.set(covCells);
+          covCells = nextCov;
+        }
+      }
+      cells.fill(0, cell * CELL_STRIDE, (cell + 1) * CELL_STRIDE);
+      covCells?.fill(0, cell * 6, (cell + 1) * 6);
+    }
+    const weight = Math.max(opacity * area, 1e-30);
+    const x = p[pi], y = p[pi + 1], z = p[pi + 2];
+    const o = cell * CELL_STRIDE;
+    cells[o] += weight;
+    cells[o + 1] += weight * x;
+    cells[o + 2] += weight * y;
+    cells[o + 3] += weight * z;
+    cells[o + 4] += weight * x * x;
+    cells[o + 5] += weight * x * y;
+    cells[o + 6] += weight * x * z;
+    cells[o + 7] += weight * y * y;
+    cells[o + 8] += weight * y * z;
+    cells[o + 9] += weight * z * z;
+    cells[o + 10] += weight * c[pi];
+    cells[o + 11] += weight * c[pi + 1];
+    cells[o + 12] += weight * c[pi + 2];
+    cells[o + 13] += opacity * area;
+    cells[o + 14] += 1;
+    if (memberCov && covCells) {
+      for (let k = 0; k < 6; k++) covCells[cell * 6 + k] += weight * memberCov[k];
+    }
+  };
+
+  /** Turns the filled grid cells into proxies. */
+  const emitCells = (): [number, number] => {
+    const start = proxies.count;
+    const { buffers } = proxies;
+    for (let cell = 0; cell < usedKeys.length; cell++) {
+      const o = cell * CELL_STRIDE;
+      const w = cells[o];
+      const i = proxies.add();
+      const mx = cells[o + 1] / w, my = cells[o + 2] / w, mz = cells[o + 3] / w;
+      buffers.positions[i * 3] = mx;
+      buffers.positions[i * 3 + 1] = my;
+      buffers.positions[i * 3 + 2] = mz;
+      buffers.colors[i * 3] = cells[o + 10] / w;
+      buffers.colors[i * 3 + 1] = cells[o + 11] / w;
+      buffers.colors[i * 3 + 2] = cells[o + 12] / w;
+      if (covCells && buffers.scales && buffers.rotations) {
+        // Spread of the member centers plus the members' own extent
+        cov[0] = cells[o + 4] / w - mx * mx + covCells[cell * 6] / w;
+        cov[1] = cells[o + 5] / w - mx * my + covCells[cell * 6 + 1] / w;
+        cov[2] = cells[o + 6] / w - mx * mz + covCells[cell * 6 + 2] / w;
+        cov[3] = cells[o + 7] / w - my * my + covCells[cell * 6 + 3] / w;
+        cov[4] = cells[o + 8] / w - my * mz + covCells[cell * 6 + 4] / w;
+        cov[5] = cells[o + 9] / w - mz * mz + covCells[cell * 6 + 5] / w;
+        covarianceToSplat(cov, buffers.scales, buffers.rotations, i);
+        const s = buffers.scales;
+        const mergedArea = largestPairProduct(s[i * 3], s[i * 3 + 1], s[i * 3 + 2]);
+        // Opacity times area is conserved, so a merged surface stays as opaque as its parts
+        buffers.opacities[i] = Math.min(1, cells[o + 13] / Math.max(mergedArea, 1e-30));
+      } else {
+        buffers.opacities[i] = cells[o + 13] / cells[o + 14];
+      }
+      cellOfKey[usedKeys[cell]] = -1;
+    }
+    usedKeys.length = 0;
+    return [start, proxies.count - start];
+  };
+
+  const memberCov = new Float64Array(6);
+
+  const build = (start: number, count: number, center: Vec3, half: number, depth: number): number => {
+    const index = nodes.length;
+    const node: OctreeNode = {
+      min: [Infinity, Infinity, Infinity],
+      max: [-Infinity, -Infinity, -Infinity],
+      children: [],
+      pointStart: start,
+      pointCount: 0,
+      proxyStart: 0,
+      proxyCount: 0,
+      spacing: 0,
+    };
+    nodes.push(node);
+
+    if (count <= MAX_LEAF_POINTS || depth >= MAX_DEPTH) {
+      node.pointCount = count;
+      for (let j = start; j < start + count; j++) {
+        const p = pointOrder[j] * 3;
+        for (let k = 0; k < 3; k++) {
+          const v = positions[p + k];
+          if (v < node.min[k]) node.min[k] = v;
+          if (v > node.max[k]) node.max[k] = v;
+        }
+      }
+      return index;
+    }
+
+    // Stable counting sort of the node's points into octants
+    const octantCounts = new Array(8).fill(0);
+    const octantOf = (i: number) =>
+      (positions[i * 3] > center[0] ? 1 : 0) | (positions[i * 3 + 1] > center[1] ? 2 : 0) | (positions[i * 3 + 2] > center[2] ? 4 : 0);
+    for (let j = start; j < start + count; j++) octantCounts[octantOf(pointOrder[j])]++;
+    const octantStarts = new Array(8);
+    for (let o = 0, sum = start; o < 8; o++) {
+      octantStarts[o] = sum;
+      sum += octantCounts[o];
+    }
+    const cursor = [...octantStarts];
+    for (let j = start; j < start + count; j++) scratch[cursor[octantOf(pointOrder[j])]++] = pointOrder[j];
+    pointOrder.set(scratch.subarray(start, start + count), start);
+
+    const childHalf = half / 2;
+    for (let o = 0; o < 8; o++) {
+      if (octantCounts[o] === 0) continue;
+      const childCenter: Vec3 = [
+        center[0] + (o & 1 ? childHalf : -childHalf),
+        center[1] + (o & 2 ? childHalf : -childHalf),
+        center[2] + (o & 4 ? childHalf : -childHalf),
+      ];
+      node.children.push(build(octantStarts[o], octantCounts[o], childCenter, childHalf, depth + 1));
+    }
+
+    // Merge the children's splats: original points of leaves, proxies of inner nodes
+    const { buffers } = proxies;
+    for (const childIndex of node.children) {
+      const child = nodes[childIndex];
+      for (let k = 0; k < 3; k++) {
+        node.min[k] = Math.min(node.min[k], child.min[k]);
+        node.max[k] = Math.max(node.max[k], child.max[k]);
+      }
+      if (child.children.length === 0) {
+        for (let j = child.pointStart; j < child.pointStart + child.pointCount; j++) {
+          const i = pointOrder[j];
+          if (hasSplat) splatCovariance(scales!, rotations!, i, memberCov);
+          const area = hasSplat ? largestPairProduct(scales![i * 3], scales![i * 3 + 1], scales![i * 3 + 2]) : 1;
+          accumulate(center, half, positions, colors, i * 3, opacities[i], hasSplat ? memberCov : null, area);
+        }
+      } else {
+        for (let i = child.proxyStart; i < child.proxyStart + child.proxyCount; i++) {
+          const s = buffers.scales;
+          if (hasSplat) splatCovariance(s!, buffers.rotations!, i, memberCov);
+          const area = s ? largestPairProduct(s[i * 3], s[i * 3 + 1], s[i * 3 + 2]) : 1;
+          accumulate(center, half, buffers.positions, buffers.colors, i * 3, buffers.opacities[i], hasSplat ? memberCov : null, area);
+        }
+      }
+    }
+    [node.proxyStart, node.proxyCount] = emitCells();
+    node.spacing = (2 * half) / PROXY_GRID;
+    return index;
+  };
+
+  build(0, pointCount, rootCenter, rootHalf, 0);
+  return { nodes, pointOrder, proxies: proxies.finish(), pointCount };
+};
@@ -0,0 +1,17 @@
+import { buildSplatOctree } from './splatOctree';
+import type { OctreeWorkerRequest, OctreeWorkerResponse } from './splatOctree';
+
+self.onmessage = (e: MessageEvent<OctreeWorkerRequest>) => {
+  try {
+    const octree = buildSplatOctree(e.data.source);
+    const { proxies } = octree;
+    const transfer = [octree.pointOrder, proxies.positions, proxies.colors, proxies.opacities, proxies.scales, proxies.rotations]
+      .filter((a): a is Float32Array | Uint32Array => !!a)
+      .map(a => a.buffer);
+    const response: OctreeWorkerResponse = { type: 'done', octree };
+    self.postMessage(response, { transfer });
+  } catch (err: any) {
+    const response: OctreeWorkerResponse = { type: 'error', message: err?.message || 'Building the level of detail failed.' };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,158 @@
+/**
+ * Per-point edit state kept alongside `PlyData`: one byte of flags per point, uploaded to the
+ * shaders as the `a_state` attribute.
+ */
+export const POINT_SELECTED = 1;
+/** Temporarily removed from view; still exported. */
+export const POINT_HIDDEN = 2;
+/** Removed from view and from exports. */
+export const POINT_DELETED = 4;
+
+export type SelectionOp = 'replace' | 'add' | 'subtract';
+
+/** Point states of each fully loaded model, keyed by model id. */
+export type PointStatesByModel = Record<string, Uint8Array>;
+
+/** A closed screen-space test, in CSS pixels relative to the viewer's top-left corner. */
+export type ScreenRegion =
+  | { type: 'rect'; x0: number; y0: number; x1: number; y1: number }
+  | { type: 'lasso'; points: [number, number][] }
+  | { type: 'brush'; points: [number, number][]; radius: number };
+
+export interface PointStateCounts {
+  selected: number;
+  hidden: number;
+  deleted: number;
+}
+
+export const createPointStates = (pointCount: number): Uint8Array => new Uint8Array(pointCount);
+
+const insidePolygon = (points: [number, number][], x: number, y: number): boolean => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i];
+    const [xj, yj] = points[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+const distanceToSegmentSq = (px: number, py: number, ax: number, ay: number, bx: number, by: number): number => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq)) : 0;
+  const ex = px - (ax + t * dx);
+  const ey = py - (ay + t * dy);
+  return ex * ex + ey * ey;
+};
+
+const createRegionTest = (region: ScreenRegion): ((x: number, y: number) => boolean) => {
+  switch (region.type) {
+    case 'rect': {
+      const minX = Math.min(region.x0, region.x1), maxX = Math.max(region.x0, region.x1);
+      const minY = Math.min(region.y0, region.y1), maxY = Math.max(region.y0, region.y1);
+      return (x, y) => x >= minX && x <= maxX && y >= minY && y <= maxY;
+    }
+    case 'lasso':
+      return (x, y) => region.points.length >= 3 && insidePolygon(region.points, x, y);
+    case 'brush': {
+      const { points, radius } = region;
+      const radiusSq = radius * radius;
+      // The stroke is the polyline through the pointer samples, thickened by the radius
+      return (x, y) => {
+        for (let i = 0; i < points.length; i++) {
+          const [ax, ay] = points[Math.max(0, i - 1)];
+          if (distanceToSegmentSq(x, y, ax, ay, points[i][0], points[i][1]) <= radiusSq) return true;
+        }
+        return false;
+      };
+    }
+  }
+};
+
+/**
+ * Applies a screen-space selection to the points projected by `modelViewProjection`
+ * (column-major, as in `THREE.Matrix4.elements`). Hidden and deleted points, points behind
+ * the camera and points rejected by `isVisible` keep their selection unchanged. Occlusion is
+ * not taken into account, so regions select through the whole depth of the model.
+ *
+ * @returns A new state array; `states` is not modified.
+ */
+export const selectPointsInRegion = (
+  positions: Float32Array,
+  states: Uint8Array,
+  modelViewProjection: ArrayLike<number>,
+  viewport: { width: number; height: number },
+  region: ScreenRegion,
+  op: SelectionOp,
+  isVisible?: (x: number, y: number, z: number, index: number) => boolean
+): Uint8Array => {
+  const next = states.slice();
+  const test = createRegionTest(region);
+  const m = modelViewProjection;
+  const halfWidth = viewport.width / 2;
+  const halfHeight = viewport.height / 2;
+
+  for (let i = 0; i < next.length; i++) {
+    const state = next[i];
+    if (state & (POINT_HIDDEN | POINT_DELETED)) continue;
+    const x = positions[i * 3], y = positions[i * 3 + 1], z = positions[i * 3 + 2];
+
+    let inside = false;
+    const w = m[3] * x + m[7] * y + m[11] * z + m[15];
+    if (w > 0 && (!isVisible || isVisible(x, y, z, i))) {
+      const sx = ((m[0] * x + m[4] * y + m[8] * z + m[12]) / w + 1) * halfWidth;
+      const sy = (1 - (m[1] * x + m[5] * y + m[9] * z + m[13]) / w) * halfHeight;
+      inside = test(sx, sy);
+    } else if (op !== 'replace') {
+      continue;
+    }
+
+    if (op === 'subtract') {
+      if (inside) next[i] = state & ~POINT_SELECTED;
+    } else if (inside) {
+      next[i] = state | POINT_SELECTED;
+    } else if (op === 'replace') {
+      next[i] = state & ~POINT_SELECTED;
+    }
+  }
+  return next;
+};
+
+const mapStates = (states: Uint8Array, fn: (state: number) => number): Uint8Array => {
+  const next = new Uint8Array(states.length);
+  for (let i = 0; i < states.length; i++) next[i] = fn(states[i]);
+  return next;
+};
+
+const isEditable = (state: number) => (state & (POINT_HIDDEN | POINT_DELETED)) === 0;
+
+export const selectAllPoints = (states: Uint8Array) =>
+  mapStates(states, s => (isEditable(s) ? s | POINT_SELECTED : s));
+
+export const clearSelection = (states: Uint8Array) => mapStates(states, s => s & ~POINT_SELECTED);
+
+export const invertSelection = (states: Uint8Array) =>
+  mapStates(states, s => (isEditable(s) ? s ^ POINT_SELECTED : s));
+
+/** Hides the selected points and drops them from the selection. */
+export const hideSelected = (states: Uint8Array) =>
+  mapStates(states, s => (s & POINT_SELECTED ? (s & ~POINT_SELECTED) | POINT_HIDDEN : s));
+
+export const unhideAll = (states: Uint8Array) => mapStates(states, s => s & ~POINT_HIDDEN);
+
+/** Deletes the selected points and drops them from the selection. */
+export const deleteSelected = (states: Uint8Array) =>
+  mapStates(states, s => (s & POINT_SELECTED ? (s & ~POINT_SELECTED) | POINT_DELETED : s));
+
+export const countPointStates = (states: Uint8Array): PointStateCounts => {
+  const counts: PointStateCounts = { selected: 0, hidden: 0, deleted: 0 };
+  for (let i = 0; i < states.length; i++) {
+    const s = states[i];
+    if (s & POINT_SELECTED) counts.selected++;
+    if (s & POINT_HIDDEN) counts.hidden++;
+    if (s & POINT_DELETED) counts.deleted++;
+  }
+  return counts;
+};
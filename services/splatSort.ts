@@ -0,0 +1,87 @@
+/**
+ * Messages exchanged between the main thread and the splat sort worker.
+ */
+export type SortWorkerRequest =
+  | { type: 'setPositions'; positions: Float32Array; pointCount: number; modelIndices?: Uint8Array }
+  /** Restricts the following sorts to `indices`, or lifts the restriction when null. */
+  | { type: 'setSubset'; indices: Uint32Array | null }
+  | { type: 'sort'; viewMatrices: Float32Array; id: number };
+
+export interface SortWorkerResponse {
+  type: 'sorted';
+  indices: Uint32Array;
+  id: number;
+}
+
+const DEPTH_BUCKETS = 256 * 256;
+
+/**
+ * Orders points back-to-front for alpha blending using a single-pass 16-bit counting sort
+ * over their view-space depth.
+ *
+ * @param positions Packed xyz positions in model space.
+ * @param pointCount Number of points in `positions`.
+ * @param viewMatrices Column-major model-view matrices (16 elements each), as in `THREE.Matrix4.elements`.
+ * @param out Optional output buffer to reuse; allocated when missing or too small.
+ * @param modelIndices Which matrix of `viewMatrices` applies to each point; the first one when omitted.
+ * @param subset Indices of the points to sort; all `pointCount` points when omitted.
+ * @returns Point indices ordered from farthest to nearest.
+ */
+export const sortSplatsByDepth = (
+  positions: Float32Array,
+  pointCount: number,
+  viewMatrices: ArrayLike<number>,
+  out?: Uint32Array,
+  modelIndices?: Uint8Array,
+  subset?: Uint32Array
+): Uint32Array => {
+  const count = subset ? subset.length : pointCount;
+  const indices = out && out.length >= count ? out : new Uint32Array(count);
+  if (count === 0) return indices;
+
+  // Only the third row of each model-view matrix is needed for view-space z.
+  const modelCount = Math.floor(viewMatrices.length / 16);
+  const rows = new Float64Array(modelCount * 4);
+  for (let m = 0; m < modelCount; m++) {
+    rows[m * 4] = viewMatrices[m * 16 + 2];
+    rows[m * 4 + 1] = viewMatrices[m * 16 + 6];
+    rows[m * 4 + 2] = viewMatrices[m * 16 + 10];
+    rows[m * 4 + 3] = viewMatrices[m * 16 + 14];
+  }
+
+  const depths = new Float32Array(count);
+  let minDepth = Infinity, maxDepth = -Infinity;
+  for (let k = 0; k < count; k++) {
+    const i = subset ? subset[k] : k;
+    const p = i * 3;
+    const r = modelIndices ? modelIndices[i] * 4 : 0;
+    // The camera looks down -z, so negate to get a distance that grows away from the viewer.
+    const d = -(rows[r] * positions[p] + rows[r + 1] * positions[p + 1] + rows[r + 2] * positions[p + 2] + rows[r + 3]);
+    depths[k] = d;
+    if (d < minDepth) minDepth = d;
+    if (d > maxDepth) maxDepth = d;
+  }
+
+  const range = maxDepth - minDepth;
+  const depthInv = range > 1e-12 ? (DEPTH_BUCKETS - 1) / range : 0;
+  const buckets = new Uint32Array(count);
+  const counts = new Uint32Array(DEPTH_BUCKETS);
+  for (let k = 0; k < count; k++) {
+    // Invert the key so that the farthest points land in the first buckets.
+    const key = (DEPTH_BUCKETS - 1) - ((depths[k] - minDepth) * depthInv | 0);
+    buckets[k] = key;
+    counts[key]++;
+  }
+
+  let total = 0;
+  for (let k = 0; k < DEPTH_BUCKETS; k++) {
+    const c = counts[k];
+    counts[k] = total;
+    total += c;
+  }
+
+  for (let k = 0; k < count; k++) {
+    indices[counts[buckets[k]]++] = subset ? subset[k] : k;
+  }
+  return indices;
+};
@@ -0,0 +1,22 @@
+import { sortSplatsByDepth } from './splatSort';
+import type { SortWorkerRequest, SortWorkerResponse } from './splatSort';
+
+let positions: Float32Array | null = null;
+let pointCount = 0;
+let modelIndices: Uint8Array | undefined;
+let subset: Uint32Array | undefined;
+
+self.onmessage = (e: MessageEvent<SortWorkerRequest>) => {
+  const msg = e.data;
+  if (msg.type === 'setPositions') {
+    positions = msg.positions;
+    pointCount = msg.pointCount;
+    modelIndices = msg.modelIndices;
+  } else if (msg.type === 'setSubset') {
+    subset = msg.indices ?? undefined;
+  } else if (msg.type === 'sort' && positions) {
+    const indices = sortSplatsByDepth(positions, pointCount, msg.viewMatrices, undefined, modelIndices, subset);
+    const response: SortWorkerResponse = { type: 'sorted', indices, id: msg.id };
+    self.postMessage(response, { transfer: [indices.buffer] });
+  }
+};
@@ -0,0 +1,110 @@
+import type { SortWorkerRequest, SortWorkerResponse } from './splatSort';
+
+export interface SplatSorter {
+  /**
+   * Requests a re-sort if the view direction turned enough, or a model moved, since the last one.
+   *
+   * @param viewMatrix Column-major camera view matrix.
+   * @param modelMatrices Column-major world matrix of each model, indexed like `modelIndices`.
+   * @param subset Points to sort and draw, e.g. those chosen by the level of detail; all when
+   *   omitted. A different array re-sorts at once; it is transferred to the worker.
+   */
+  update: (viewMatrix: ArrayLike<number>, modelMatrices: ArrayLike<number>[], subset?: Uint32Array) => void;
+  /** Forces a re-sort on the next update, e.g. after the draw order was overwritten. */
+  invalidate: () => void;
+  dispose: () => void;
+}
+
+// Sorting by linear view-space depth only depends on the view direction, so camera
+// translation never invalidates the order. Re-sort once it turns by about a degree.
+const RESORT_DOT_THRESHOLD = 0.99985;
+
+const multiplyInto = (a: ArrayLike<number>, b: ArrayLike<number>, out: Float32Array, offset: number) => {
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      out[offset + col * 4 + row] =
+        a[row] * b[col * 4] + a[4 + row] * b[col * 4 + 1] + a[8 + row] * b[col * 4 + 2] + a[12 + row] * b[col * 4 + 3];
+    }
+  }
+};
+
+/**
+ * Creates a back-to-front sorter that runs in a Web Worker.
+ * At most one sort is in flight; requests made meanwhile collapse into the latest one.
+ *
+ * @param positions Packed xyz positions of the points to sort, each in its model's space.
+ * @param pointCount Number of points.
+ * @param onSorted Called with the farthest-to-nearest order of the points to draw after each sort.
+ * @param modelIndices Model of each point when several models share the buffers.
+ */
+export const createSplatSorter = (
+  positions: Float32Array,
+  pointCount: number,
+  onSorted: (indices: Uint32Array) => void,
+  modelIndices?: Uint8Array
+): SplatSorter => {
+  const worker = new Worker(new URL('./splatSort.worker.ts', import.meta.url), { type: 'module' });
+  let busy = false;
+  let pending: Float32Array | null = null;
+  let lastDir: [number, number, number] | null = null;
+  let lastModels: number[] = [];
+  let lastSubset: Uint32Array | undefined;
+  let nextId = 0;
+  let disposed = false;
+
+  const post = (msg: SortWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(msg, transfer);
+
+  const send = (viewMatrices: Float32Array) => {
+    busy = true;
+    post({ type: 'sort', viewMatrices, id: nextId++ });
+  };
+
+  worker.onmessage = (e: MessageEvent<SortWorkerResponse>) => {
+    if (disposed) return;
+    busy = false;
+    onSorted(e.data.indices);
+    if (pending) {
+      const next = pending;
+      pending = null;
+      send(next);
+    }
+  };
+
+  post({ type: 'setPositions', positions, pointCount, modelIndices });
+
+  return {
+    update: (viewMatrix, modelMatrices, subset) => {
+      if (subset !== lastSubset) {
+        lastSubset = subset;
+        lastDir = null;
+        if (subset) post({ type: 'setSubset', indices: subset }, [subset.buffer]);
+        else post({ type: 'setSubset', indices: null });
+      }
+      const dx = viewMatrix[2], dy = viewMatrix[6], dz = viewMatrix[10];
+      const len = Math.hypot(dx, dy, dz);
+      if (len < 1e-12) return;
+      const dir: [number, number, number] = [dx / len, dy / len, dz / len];
+      const models = modelMatrices.flatMap(m => Array.from(m));
+      const modelsChanged = models.length !== lastModels.length || models.some((v, i) => v !== lastModels[i]);
+      if (!modelsChanged && lastDir && dir[0] * lastDir[0] + dir[1] * lastDir[1] + dir[2] * lastDir[2] > RESORT_DOT_THRESHOLD) {
+        return;
+      }
+      lastDir = dir;
+      lastModels = models;
+      const matrices = new Float32Array(modelMatrices.length * 16);
+      modelMatrices.forEach((m, i) => multiplyInto(viewMatrix, m, matrices, i * 16));
+      if (busy) {
+        pending = matrices;
+      } else {
+        send(matrices);
+      }
+    },
+    invalidate: () => {
+      lastDir = null;
+    },
+    dispose: () => {
+      disposed = true;
+      worker.terminate();
+    },
+  };
+};
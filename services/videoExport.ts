@@ -0,0 +1,103 @@
+import type { VideoExportFormat } from '../types';
+import { createZipWriter } from './zipWriter';
+import { canvasToPng } from './pngFiles';
+import { createWebmMuxer } from './webmMuxer';
+import type { WebmCodec } from './webmMuxer';
+
+export interface FrameSequenceOptions {
+  frameCount: number;
+  fps: number;
+  width: number;
+  height: number;
+  format: VideoExportFormat;
+  /**
+   * Renders frame `index` at `width` x `height`. The canvas may be reused between calls; it is
+   * read before the next frame is requested.
+   */
+  renderFrame: (index: number) => HTMLCanvasElement;
+  onProgress?: (framesDone: number) => void;
+  signal?: AbortSignal;
+}
+
+// Encoders with a VP9 and a VP8 fallback, paired with their Matroska codec ids
+const VIDEO_CODECS: [string, WebmCodec][] = [['vp09.00.10.08', 'V_VP9'], ['vp8', 'V_VP8']];
+
+// Frames waiting in the encoder before rendering pauses, which bounds memory at high resolutions
+const MAX_ENCODE_QUEUE = 4;
+
+/** Seconds between key frames, so that players can seek. */
+const KEY_FRAME_INTERVAL = 2;
+
+const nextTask = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new Error('The export was cancelled.');
+};
+
+const exportPngSequence = async ({ frameCount, renderFrame, onProgress, signal }: FrameSequenceOptions): Promise<Blob> => {
+  const zip = createZipWriter();
+  const digits = Math.max(4, String(frameCount - 1).length);
+  for (let i = 0; i < frameCount; i++) {
+    throwIfAborted(signal);
+    zip.addFile(`frame_${String(i).padStart(digits, '0')}.png`, await canvasToPng(renderFrame(i)));
+    onProgress?.(i + 1);
+  }
+  return zip.finalize();
+};
+
+const exportWebm = async ({ frameCount, fps, width, height, renderFrame, onProgress, signal }: FrameSequenceOptions): Promise<Blob> => {
+  if (typeof VideoEncoder === 'undefined') {
+    throw new Error('This browser cannot encode video. Export a PNG sequence instead.');
+  }
+  const bitrate = Math.round(width * height * fps * 0.1);
+  let chosen: { config: VideoEncoderConfig; codec: WebmCodec } | null = null;
+  for (const [codec, webmCodec] of VIDEO_CODECS) {
+    const config: VideoEncoderConfig = { codec, width, height, bitrate, framerate: fps };
+    if ((await VideoEncoder.isConfigSupported(config)).supported) {
+      chosen = { config, codec: webmCodec };
+      break;
+    }
+  }
+  if (!chosen) throw new Error(`This browser cannot encode WebM video at ${width}x${height}.`);
+
+  const muxer = createWebmMuxer({ width, height, codec: chosen.codec });
+  let encodeError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: chunk => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      muxer.addFrame(data, chunk.timestamp, chunk.type === 'key');
+    },
+    error: e => { encodeError = e; },
+  });
+  encoder.configure(chosen.config);
+
+  // Timestamps come from the frame index, never from the wall clock
+  const frameDuration = 1e6 / fps;
+  try {
+    for (let i = 0; i < frameCount; i++) {
+      throwIfAborted(signal);
+      if (encodeError) throw encodeError;
+      const frame = new VideoFrame(renderFrame(i), { timestamp: Math.round(i * frameDuration), duration: Math.round(frameDuration) });
+      encoder.encode(frame, { keyFrame: i % Math.max(1, Math.round(fps * KEY_FRAME_INTERVAL)) === 0 });
+      frame.close();
+      onProgress?.(i + 1);
+      do await nextTask(); while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE);
+    }
+    await encoder.flush();
+    if (encodeError) throw encodeError;
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  return muxer.finalize(frameCount * frameDuration);
+};
+
+/**
+ * Renders `frameCount` frames one after another and packs them as a WebM video (WebCodecs) or a
+ * ZIP of PNG images. Frames are timed by their index, so the result does not depend on how fast
+ * they render.
+ */
+export const exportFrameSequence = async (options: FrameSequenceOptions): Promise<Blob> => {
+  if (options.frameCount < 1) throw new Error('There are no frames to export.');
+  return options.format === 'webm' ? exportWebm(options) : exportPngSequence(options);
+};
@@ -0,0 +1,631 @@
+import * as THREE from 'three';
+import { CropMode, CropShape, RenderMode } from '../types';
+import { COLORMAPS } from './colormaps';
+import { DEFAULT_RENDER_QUALITY } from './renderQuality';
+import { BUILT_IN_SCALAR_FIELDS, scalarFieldProperty } from './scalarFields';
+import { DEFAULT_SPLAT_FILTERS } from './splatFilters';
+import type {
+  AppearanceSettings,
+  CameraBookmark,
+  CameraPathSettings,
+  CameraPose,
+  CameraProjection,
+  ClipPlane,
+  ClippingSettings,
+  ColormapName,
+  ColormapSettings,
+  CropSettings,
+  CropVolume,
+  HelperSettings,
+  NavigationMode,
+  NavigationSettings,
+  RenderQualitySettings,
+  ScalarField,
+  SplatAntialiasing,
+  SplatFilterSettings,
+  UpAxis,
+  SceneModel,
+  Transformations,
+} from '../types';
+
+/**
+ * Serializable snapshot of the view: camera and navigation, display, quality, colormap, filter and
+ * clipping settings, saved viewpoints and the settings of each model. Models are referenced by file
+ * name; their point data is not included.
+ */
+export const VIEW_STATE_VERSION = 2;
+
+type Vec3 = [number, number, number];
+
+export interface SerializedPose {
+  position: Vec3;
+  target: Vec3;
+  fov: number;
+}
+
+/** The current viewpoint, with how it is projected and navigated. */
+export interface SerializedCamera extends SerializedPose {
+  projection: CameraProjection;
+  navigationMode: NavigationMode;
+  flySpeed: number;
+}
+
+export interface SerializedCropVolume {
+  id: string;
+  shape: CropShape;
+  mode: CropMode;
+  center: Vec3;
+  /** Euler angles in radians, XYZ order. */
+  rotation: Vec3;
+  size: Vec3;
+  enabled: boolean;
+}
+
+export interface SerializedClipPlane {
+  id: string;
+  center: Vec3;
+  /** Euler angles in radians, XYZ order. */
+  rotation: Vec3;
+  enabled: boolean;
+  slab: boolean;
+  thickness: number;
+}
+
+export interface SerializedColormap {
+  field: ScalarField;
+  colormap: ColormapName;
+  range: [number, number] | null;
+  /** Reference plane of the `planeDistance` field, as in `THREE.Plane`. */
+  plane: { normal: Vec3; constant: number };
+}
+
+export interface SerializedModel {
+  /** Name of the file the model was loaded from. */
+  file: string;
+  visible: boolean;
+  renderMode: RenderMode;
+  position: Vec3;
+  /** Euler angles in radians, XYZ order. */
+  rotation: Vec3;
+  scale: number;
+  up: UpAxis;
+  handedness: 'right' | 'left';
+  crop: {
+    enabled: boolean;
+    selectedVolumeId: string | null;
+    volumes: SerializedCropVolume[];
+  };
+}
+
+export interface ViewState {
+  version: typeof VIEW_STATE_VERSION;
+  camera: SerializedCamera | null;
+  appearance: AppearanceSettings;
+  helpers: HelperSettings;
+  quality: RenderQualitySettings;
+  colormap: SerializedColormap;
+  filters: SplatFilterSettings;
+  models: SerializedModel[];
+  bookmarks: (SerializedPose & { id: string; name: string })[];
+  cameraPath: CameraPathSettings;
+  clipping: {
+    enabled: boolean;
+    selectedPlaneId: string | null;
+    planes: SerializedClipPlane[];
+  };
+}
+
+/** The settings App holds that make up a view, see `unsavedViewSettings`. */
+export interface ViewSettings {
+  camera: CameraPose | null;
+  navigation: NavigationSettings;
+  appearance: AppearanceSettings;
+  helpers: HelperSettings;
+  quality: RenderQualitySettings;
+  colormap: ColormapSettings;
+  filters: SplatFilterSettings;
+  clipping: ClippingSettings;
+  models: SceneModel[];
+  bookmarks: CameraBookmark[];
+  cameraPath: CameraPathSettings;
+}
+
+/**
+ * Settings restored from a view, apart from the models, which are restored as their files load.
+ * The navigation is null when the view has no camera.
+ */
+export type RestoredViewSettings = Omit<ViewSettings, 'models' | 'navigation'> & { navigation: NavigationSettings | null };
+
+/** Settings a serialized model restores on a loaded model. */
+export type RestoredModelSettings = Pick<SceneModel, 'visible' | 'renderMode' | 'transformations' | 'crop' | 'coordinateSystem'>;
+
+/**
+ * Upgrades a state saved in format version `n` to version `n + 1`. Add an entry whenever the
+ * format changes, so that old links and project files keep opening.
+ */
+const MIGRATIONS: Record<number, (state: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 2 added the coordinate system of each model, the projection, navigation mode and fly
+  // speed of the camera, the render quality, colormap, splat filter and clipping settings
+  1: state => ({
+    ...state,
+    camera: isRecord(state.camera) ? { projection: 'perspective', navigationMode: 'orbit', flySpeed: 0.1, ...state.camera } : state.camera,
+    models: Array.isArray(state.models) ? state.models.map(m => (isRecord(m) ? { up: '+y', handedness: 'right', ...m } : m)) : state.models,
+    quality: { ...DEFAULT_RENDER_QUALITY },
+    colormap: { field: 'y', colormap: 'viridis', range: null, plane: { normal: [0, 1, 0], constant: 0 } },
+    filters: { ...DEFAULT_SPLAT_FILTERS },
+    clipping: { enabled: true, selectedPlaneId: null, planes: [] },
+  }),
+};
+
+const UP_AXES: UpAxis[] = ['+x', '-x', '+y', '-y', '+z', '-z'];
+const SPLAT_ANTIALIASING: SplatAntialiasing[] = ['none', 'lowPass', 'mip'];
+const COLORMAP_NAMES = Object.keys(COLORMAPS) as ColormapName[];
+const PROJECTIONS: CameraProjection[] = ['perspective', 'orthographic'];
+const NAVIGATION_MODES: NavigationMode[] = ['orbit', 'fly', 'trackball'];
+
+const HASH_PREFIX = 'view=';
+
+// --- Serialization ---
+
+const vec3 = (v: THREE.Vector3 | THREE.Euler): Vec3 => [v.x, v.y, v.z];
+
+// Saved in XYZ order, which is what the rotation sliders edit
+const xyzRotation = (rotation: THREE.Euler): Vec3 =>
+  vec3(new THREE.Euler().setFromQuaternion(new THREE.Quaternion().setFromEuler(rotation), 'XYZ'));
+
+const serializePose = (pose: CameraPose): SerializedPose => ({ position: vec3(pose.position), target: vec3(pose.target), fov: pose.fov });
+
+const serializeCropVolume = (volume: CropVolume): SerializedCropVolume => ({
+  id: volume.id,
+  shape: volume.shape,
+  mode: volume.mode,
+  center: vec3(volume.center),
+  rotation: vec3(volume.rotation),
+  size: vec3(volume.size),
+  enabled: volume.enabled,
+});
+
+const serializeModel = (model: SceneModel): SerializedModel => {
+  const { position, rotation, scale } = model.transformations;
+  return {
+    file: model.name,
+    visible: model.visible,
+    renderMode: model.renderMode,
+    position: vec3(position),
+    rotation: xyzRotation(rotation),
+    scale,
+    up: model.coordinateSystem.up,
+    handedness: model.coordinateSystem.handedness,
+    crop: {
+      enabled: model.crop.enabled,
+      selectedVolumeId: model.crop.selectedVolumeId,
+      volumes: model.crop.volumes.map(serializeCropVolume),
+    },
+  };
+};
+
+const serializeClipPlane = (plane: ClipPlane): SerializedClipPlane => ({
+  id: plane.id,
+  center: vec3(plane.center),
+  rotation: xyzRotation(plane.rotation),
+  enabled: plane.enabled,
+  slab: plane.slab,
+  thickness: plane.thickness,
+});
+
+// Models still loading have no final settings yet
+const isSavedModel = (model: SceneModel) => !!model.plyData && !model.isLoading;
+
+export const serializeViewState = (view: ViewSettings): ViewState => ({
+  version: VIEW_STATE_VERSION,
+  camera: view.camera
+    ? {
+        ...serializePose(view.camera),
+        projection: view.navigation.projection,
+        navigationMode: view.navigation.mode,
+        flySpeed: view.navigation.flySpeed,
+      }
+    : null,
+  appearance: { ...view.appearance },
+  helpers: { ...view.helpers },
+  quality: { ...view.quality },
+  colormap: {
+    field: view.colormap.field,
+    colormap: view.colormap.colormap,
+    range: view.colormap.range && [...view.colormap.range],
+    plane: { normal: vec3(view.colormap.plane.normal), constant: view.colormap.plane.constant },
+  },
+  filters: { ...view.filters },
+  models: view.models.filter(isSavedModel).map(serializeModel),
+  bookmarks: view.bookmarks.map(b => ({ id: b.id, name: b.name, ...serializePose(b) })),
+  cameraPath: { ...view.cameraPath },
+  clipping: {
+    enabled: view.clipping.enabled,
+    selectedPlaneId: view.clipping.selectedPlaneId,
+    planes: view.clipping.planes.map(serializeClipPlane),
+  },
+});
+
+// --- Validation ---
+
+const fail = (path: string, expected: string): never => {
+  throw new Error(`Invalid view state: ${path || 'the root'} should be ${expected}.`);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readObject = (value: unknown, path: string): Record<string, unknown> => (isRecord(value) ? value : fail(path, 'an object'));
+
+const readNumber = (value: unknown, path: string, min = -Infinity, max = Infinity): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+    ? value
+    : fail(path, Number.isFinite(min) || Number.isFinite(max) ? `a number between ${min} and ${max}` : 'a number');
+
+const readInteger = (value: unknown, path: string, min: number, max: number): number =>
+  Number.isInteger(value) ? readNumber(value, path, min, max) : fail(path, `an integer between ${min} and ${max}`);
+
+const readString = (value: unknown, path: string): string => (typeof value === 'string' ? value : fail(path, 'a string'));
+
+const readBoolean = (value: unknown, path: string): boolean => (typeof value === 'boolean' ? value : fail(path, 'true or false'));
+
+const readOneOf = <T extends string,>(value: unknown, path: string, options: readonly T[]): T =>
+  options.includes(value as T) ? (value as T) : fail(path, `one of ${options.map(o => `"${o}"`).join(', ')}`);
+
+const readArray = <T,>(value: unknown, path: string, readItem: (item: unknown, path: string) => T): T[] =>
+  Array.isArray(value) ? value.map((item, i) => readItem(item, `${path}[${i}]`)) : fail(path, 'an array');
+
+const readVec3 = (value: unknown, path: string): Vec3 =>
+  Array.isArray(value) && value.length === 3 ? (value.map((v, i) => readNumber(v, `${path}[${i}]`)) as Vec3) : fail(path, 'an array of 3 numbers');
+
+const readPose = (value: unknown, path: string): SerializedPose => {
+  const o = readObject(value, path);
+  return {
+    position: readVec3(o.position, `${path}.position`),
+    target: readVec3(o.target, `${path}.target`),
+    fov: readNumber(o.fov, `${path}.fov`, 1, 179),
+  };
+};
+
+const readCamera = (value: unknown, path: string): SerializedCamera => {
+  const o = readObject(value, path);
+  return {
+    ...readPose(o, path),
+    projection: readOneOf(o.projection, `${path}.projection`, PROJECTIONS),
+    navigationMode: readOneOf(o.navigationMode, `${path}.navigationMode`, NAVIGATION_MODES),
+    flySpeed: readNumber(o.flySpeed, `${path}.flySpeed`, 1e-6),
+  };
+};
+
+const readCropVolume = (value: unknown, path: string): SerializedCropVolume => {
+  const o = readObject(value, path);
+  return {
+    id: readString(o.id, `${path}.id`),
+    shape: readInteger(o.shape, `${path}.shape`, CropShape.BOX, CropShape.CYLINDER),
+    mode: readInteger(o.mode, `${path}.mode`, CropMode.INCLUDE, CropMode.EXCLUDE),
+    center: readVec3(o.center, `${path}.center`),
+    rotation: readVec3(o.rotation, `${path}.rotation`),
+    size: readVec3(o.size, `${path}.size`),
+    enabled: readBoolean(o.enabled, `${path}.enabled`),
+  };
+};
+
+const readModel = (value: unknown, path: string): SerializedModel => {
+  const o = readObject(value, path);
+  const crop = readObject(o.crop, `${path}.crop`);
+  return {
+    file: readString(o.file, `${path}.file`),
+    visible: readBoolean(o.visible, `${path}.visible`),
+    renderMode: readInteger(o.renderMode, `${path}.renderMode`, RenderMode.ORIGINAL, RenderMode.SPLAT),
+    position: readVec3(o.position, `${path}.position`),
+    rotation: readVec3(o.rotation, `${path}.rotation`),
+    scale: readNumber(o.scale, `${path}.scale`, 1e-6),
+    up: readOneOf(o.up, `${path}.up`, UP_AXES),
+    handedness: readOneOf(o.handedness, `${path}.handedness`, ['right', 'left'] as const),
+    crop: {
+      enabled: readBoolean(crop.enabled, `${path}.crop.enabled`),
+      selectedVolumeId: crop.selectedVolumeId === null ? null : readString(crop.selectedVolumeId, `${path}.crop.selectedVolumeId`),
+      volumes: readArray(crop.volumes, `${path}.crop.volumes`, readCropVolume),
+    },
+  };
+};
+
+const readAppearance = (value: unknown, path: string): AppearanceSettings => {
+  const o = readObject(value, path);
+  const backgroundColor = readString(o.backgroundColor, `${path}.backgroundColor`);
+  if (!/^#[0-9a-f]{6}$/i.test(backgroundColor)) fail(`${path}.backgroundColor`, 'a color like "#1a202c"');
+  return {
+    pointSize: readNumber(o.pointSize, `${path}.pointSize`, 0),
+    opacity: readNumber(o.opacity, `${path}.opacity`, 0, 1),
+    backgroundColor,
+    splatScale: readNumber(o.splatScale, `${path}.splatScale`, 0),
+    shDegree: readInteger(o.shDegree, `${path}.shDegree`, 0, 3),
+  };
+};
+
+const readHelpers = (value: unknown, path: string): HelperSettings => {
+  const o = readObject(value, path);
+  return { showAxes: readBoolean(o.showAxes, `${path}.showAxes`), showGrid: readBoolean(o.showGrid, `${path}.showGrid`) };
+};
+
+// The limits are the ranges of the quality sliders
+const readQuality = (value: unknown, path: string): RenderQualitySettings => {
+  const o = readObject(value, path);
+  return {
+    antialiasing: readOneOf(o.antialiasing, `${path}.antialiasing`, SPLAT_ANTIALIASING),
+    cutoff: readNumber(o.cutoff, `${path}.cutoff`, 1.5, 4),
+    premultipliedAlpha: readBoolean(o.premultipliedAlpha, `${path}.premultipliedAlpha`),
+    exposure: readNumber(o.exposure, `${path}.exposure`, -3, 3),
+    gamma: readNumber(o.gamma, `${path}.gamma`, 0.5, 2.5),
+    saturation: readNumber(o.saturation, `${path}.saturation`, 0, 2),
+  };
+};
+
+/** Reads a built-in field, or a file property that is checked once the models have loaded. */
+const readScalarField = (value: unknown, path: string): ScalarField => {
+  const field = readString(value, path) as ScalarField;
+  return BUILT_IN_SCALAR_FIELDS.some(f => f.field === field) || scalarFieldProperty(field)
+    ? field
+    : fail(path, `one of ${BUILT_IN_SCALAR_FIELDS.map(f => `"${f.field}"`).join(', ')} or "property:<name>"`);
+};
+
+const readColormap = (value: unknown, path: string): SerializedColormap => {
+  const o = readObject(value, path);
+  const plane = readObject(o.plane, `${path}.plane`);
+  const normal = readVec3(plane.normal, `${path}.plane.normal`);
+  if (normal.every(v => v === 0)) fail(`${path}.plane.normal`, 'a nonzero vector');
+  const range =
+    o.range === null
+      ? null
+      : Array.isArray(o.range) && o.range.length === 2
+        ? (o.range.map((v, i) => readNumber(v, `${path}.range[${i}]`)) as [number, number])
+        : fail(`${path}.range`, 'null or an array of 2 numbers');
+  return {
+    field: readScalarField(o.field, `${path}.field`),
+    colormap: readOneOf(o.colormap, `${path}.colormap`, COLORMAP_NAMES),
+    range,
+    plane: { normal, constant: readNumber(plane.constant, `${path}.plane.constant`) },
+  };
+};
+
+const readFilters = (value: unknown, path: string): SplatFilterSettings => {
+  const o = readObject(value, path);
+  return {
+    minOpacity: readNumber(o.minOpacity, `${path}.minOpacity`, 0, 1),
+    minSize: o.minSize === null ? null : readNumber(o.minSize, `${path}.minSize`, 0),
+    maxSize: o.maxSize === null ? null : readNumber(o.maxSize, `${path}.maxSize`, 0),
+    removeOutliers: readBoolean(o.removeOutliers, `${path}.removeOutliers`),
+    outlierNeighbors: readInteger(o.outlierNeighbors, `${path}.outlierNeighbors`, 1, 32),
+    outlierThreshold: readNumber(o.outlierThreshold, `${path}.outlierThreshold`, 0.5, 5),
+  };
+};
+
+const readCameraPath = (value: unknown, path: string): CameraPathSettings => {
+  const o = readObject(value, path);
+  return {
+    keyframeIds: readArray(o.keyframeIds, `${path}.keyframeIds`, readString),
+    segmentDuration: readNumber(o.segmentDuration, `${path}.segmentDuration`, 0.01),
+    loop: readBoolean(o.loop, `${path}.loop`),
+  };
+};
+
+const readClipPlane = (value: unknown, path: string): SerializedClipPlane => {
+  const o = readObject(value, path);
+  return {
+    id: readString(o.id, `${path}.id`),
+    center: readVec3(o.center, `${path}.center`),
+    rotation: readVec3(o.rotation, `${path}.rotation`),
+    enabled: readBoolean(o.enabled, `${path}.enabled`),
+    slab: readBoolean(o.slab, `${path}.slab`),
+    thickness: readNumber(o.thickness, `${path}.thickness`, 0),
+  };
+};
+
+const readClipping = (value: unknown, path: string): ViewState['clipping'] => {
+  const o = readObject(value, path);
+  return {
+    enabled: readBoolean(o.enabled, `${path}.enabled`),
+    selectedPlaneId: o.selectedPlaneId === null ? null : readString(o.selectedPlaneId, `${path}.selectedPlaneId`),
+    planes: readArray(o.planes, `${path}.planes`, readClipPlane),
+  };
+};
+
+/**
+ * Checks and upgrades a parsed view state, e.g. from `JSON.parse`.
+ *
+ * @throws An error naming the first invalid field, or when the state comes from a newer version.
+ */
+export const parseViewState = (value: unknown): ViewState => {
+  let state = readObject(value, '');
+  const version = readInteger(state.version, 'version', 1, Number.MAX_SAFE_INTEGER);
+  if (version > VIEW_STATE_VERSION) {
+    throw new Error(`This view was saved by a newer version of the viewer (format ${version}); this one reads up to format ${VIEW_STATE_VERSION}.`);
+  }
+  for (let v = version; v < VIEW_STATE_VERSION; v++) state = { ...MIGRATIONS[v](state), version: v + 1 };
+
+  return {
+    version: VIEW_STATE_VERSION,
+    camera: state.camera === null ? null : readCamera(state.camera, 'camera'),
+    appearance: readAppearance(state.appearance, 'appearance'),
+    helpers: readHelpers(state.helpers, 'helpers'),
+    quality: readQuality(state.quality, 'quality'),
+    colormap: readColormap(state.colormap, 'colormap'),
+    filters: readFilters(state.filters, 'filters'),
+    models: readArray(state.models, 'models', readModel),
+    bookmarks: readArray(state.bookmarks, 'bookmarks', (item, path) => ({
+      ...readPose(item, path),
+      id: readString(readObject(item, path).id, `${path}.id`),
+      name: readString(readObject(item, path).name, `${path}.name`),
+    })),
+    cameraPath: readCameraPath(state.cameraPath, 'cameraPath'),
+    clipping: readClipping(state.clipping, 'clipping'),
+  };
+};
+
+/** Parses the text of a project file. */
+export const parseViewStateJson = (text: string): ViewState => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('The project file is not valid JSON.');
+  }
+  return parseViewState(value);
+};
+
+// --- URL hash ---
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+/** URL hash (without the `#`) that encodes `state`. */
+export const encodeViewStateHash = (state: ViewState): string =>
+  HASH_PREFIX + toBase64Url(new TextEncoder().encode(JSON.stringify(state)));
+
+/**
+ * Reads the view state from a URL hash.
+ *
+ * @returns The state, or null when the hash holds none.
+ */
+export const decodeViewStateHash = (hash: string): ViewState | null => {
+  const body = hash.replace(/^#/, '');
+  if (!body.startsWith(HASH_PREFIX)) return null;
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(fromBase64Url(body.slice(HASH_PREFIX.length)));
+  } catch {
+    throw new Error('The view link is damaged: its state could not be decoded.');
+  }
+  try {
+    return parseViewState(JSON.parse(text));
+  } catch (e: any) {
+    throw e instanceof SyntaxError ? new Error('The view link is damaged: its state is not valid JSON.') : e;
+  }
+};
+
+// --- Restoring ---
+
+export const cameraPoseFromState = (pose: SerializedPose): CameraPose => ({
+  position: new THREE.Vector3(...pose.position),
+  target: new THREE.Vector3(...pose.target),
+  fov: pose.fov,
+});
+
+export const bookmarksFromState = (state: ViewState): CameraBookmark[] =>
+  state.bookmarks.map(b => ({ id: b.id, name: b.name, ...cameraPoseFromState(b) }));
+
+export const cropFromState = (crop: SerializedModel['crop']): CropSettings => ({
+  enabled: crop.enabled,
+  selectedVolumeId: crop.volumes.some(v => v.id === crop.selectedVolumeId) ? crop.selectedVolumeId : null,
+  volumes: crop.volumes.map(v => ({
+    id: v.id,
+    shape: v.shape,
+    mode: v.mode,
+    center: new THREE.Vector3(...v.center),
+    rotation: new THREE.Euler(...v.rotation),
+    size: new THREE.Vector3(...v.size),
+    enabled: v.enabled,
+  })),
+});
+
+const colormapFromState = (state: ViewState): ColormapSettings => ({
+  field: state.colormap.field,
+  colormap: state.colormap.colormap,
+  range: state.colormap.range && [...state.colormap.range],
+  plane: new THREE.Plane(new THREE.Vector3(...state.colormap.plane.normal), state.colormap.plane.constant).normalize(),
+});
+
+const clippingFromState = (state: ViewState): ClippingSettings => ({
+  enabled: state.clipping.enabled,
+  selectedPlaneId: state.clipping.planes.some(p => p.id === state.clipping.selectedPlaneId) ? state.clipping.selectedPlaneId : null,
+  planes: state.clipping.planes.map(p => ({
+    id: p.id,
+    center: new THREE.Vector3(...p.center),
+    rotation: new THREE.Euler(...p.rotation),
+    enabled: p.enabled,
+    slab: p.slab,
+    thickness: p.thickness,
+  })),
+});
+
+/**
+ * Settings to apply to a loaded model from its serialized entry. Splat rendering falls back to
+ * original colors when the file has no splat data.
+ */
+export const modelSettingsFromState = (model: SerializedModel, splatDataAvailable: boolean): RestoredModelSettings => {
+  const transformations: Transformations = {
+    position: new THREE.Vector3(...model.position),
+    rotation: new THREE.Euler(...model.rotation),
+    scale: model.scale,
+  };
+  return {
+    visible: model.visible,
+    renderMode: model.renderMode === RenderMode.SPLAT && !splatDataAvailable ? RenderMode.ORIGINAL : model.renderMode,
+    transformations,
+    crop: cropFromState(model.crop),
+    coordinateSystem: { up: model.up, handedness: model.handedness },
+  };
+};
+
+export const viewSettingsFromState = (state: ViewState): RestoredViewSettings => ({
+  camera: state.camera && cameraPoseFromState(state.camera),
+  navigation: state.camera && { mode: state.camera.navigationMode, flySpeed: state.camera.flySpeed, projection: state.camera.projection },
+  appearance: { ...state.appearance },
+  helpers: { ...state.helpers },
+  quality: { ...state.quality },
+  colormap: colormapFromState(state),
+  filters: { ...state.filters },
+  clipping: clippingFromState(state),
+  bookmarks: bookmarksFromState(state),
+  cameraPath: { ...state.cameraPath, keyframeIds: [...state.cameraPath.keyframeIds] },
+});
+
+// --- Round trip ---
+
+const collectDifferences = (saved: unknown, restored: unknown, path: string, out: string[]) => {
+  if (saved instanceof THREE.Euler && restored instanceof THREE.Euler) {
+    // Rotations are saved in XYZ order, so compare the orientations rather than the angles
+    const a = new THREE.Quaternion().setFromEuler(saved);
+    const b = new THREE.Quaternion().setFromEuler(restored);
+    if (1 - Math.abs(a.dot(b)) > 1e-9) out.push(path);
+  } else if (typeof saved === 'number' && typeof restored === 'number') {
+    if (Math.abs(saved - restored) > 1e-9 * Math.max(1, Math.abs(saved))) out.push(path);
+  } else if (typeof saved === 'object' && saved !== null && typeof restored === 'object' && restored !== null) {
+    const keys = new Set([...Object.keys(saved), ...Object.keys(restored)]);
+    for (const key of keys) {
+      collectDifferences((saved as Record<string, unknown>)[key], (restored as Record<string, unknown>)[key], `${path}.${key}`, out);
+    }
+  } else if (saved !== restored) {
+    out.push(path);
+  }
+};
+
+/**
+ * Saves `view`, reads it back like a link or project file and compares the result with `view`, so
+ * that a setting added to App or to one of the settings types without a place in the format shows up.
+ * A development check; saving does not depend on it.
+ *
+ * @returns Paths like "clipping.planes[0].slab" of the settings that are not restored as they were.
+ * @throws When the saved view does not pass `parseViewState`.
+ */
+export const unsavedViewSettings = (view: ViewSettings): string[] => {
+  const state = parseViewState(JSON.parse(JSON.stringify(serializeViewState(view))));
+  const { models, ...settings } = view;
+  const differences: string[] = [];
+  // Without a camera there is nothing to carry the navigation settings
+  collectDifferences({ ...settings, navigation: view.camera && settings.navigation }, viewSettingsFromState(state), 'view', differences);
+  models.filter(isSavedModel).forEach((model, i) => {
+    const restored = modelSettingsFromState(state.models[i], model.splatDataAvailable);
+    const current = Object.fromEntries(Object.keys(restored).map(key => [key, model[key as keyof RestoredModelSettings]]));
+    collectDifferences({ file: model.name, ...current }, { file: state.models[i].file, ...restored }, `view.models[${i}]`, differences);
+  });
+  return differences.map(path => path.replace(/^view\./, '').replace(/\.(\d+)(?=\.|$)/g, '[$1]'));
+};
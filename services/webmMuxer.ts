@@ -0,0 +1,129 @@
+/**
+ * Minimal WebM (Matroska) writer for a single video track of encoded frames, e.g. from a
+ * WebCodecs `VideoEncoder`. The file is assembled in memory once all frames are added; it has no
+ * cue index, so players seek by scanning clusters.
+ */
+
+export type WebmCodec = 'V_VP8' | 'V_VP9';
+
+export interface WebmMuxer {
+  /**
+   * Appends an encoded frame. Frames must be added in presentation order.
+   *
+   * @param timestamp Presentation time in microseconds.
+   */
+  addFrame: (data: Uint8Array, timestamp: number, keyFrame: boolean) => void;
+  /**
+   * Returns the file; no frames can be added afterwards.
+   *
+   * @param duration Length of the video in microseconds.
+   */
+  finalize: (duration: number) => Blob;
+}
+
+type EbmlValue = Uint8Array | EbmlElement[];
+type EbmlElement = [id: number, value: EbmlValue];
+
+const idBytes = (id: number): number[] => {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return bytes;
+};
+
+/** Element sizes always use the 8-byte form, which keeps the encoding simple. */
+const sizeBytes = (size: number): number[] => {
+  const bytes = [0x01];
+  for (let i = 6; i >= 0; i--) bytes.push(Math.floor(size / 2 ** (i * 8)) & 0xff);
+  return bytes;
+};
+
+const uint = (value: number): Uint8Array => {
+  const bytes: number[] = [];
+  for (let v = value; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return Uint8Array.from(bytes.length > 0 ? bytes : [0]);
+};
+
+const float64 = (value: number): Uint8Array => {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  return new Uint8Array(view.buffer);
+};
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+/** Serializes elements into blob parts, returning their total size. */
+const writeElements = (elements: EbmlElement[], parts: BlobPart[]): number => {
+  let total = 0;
+  for (const [id, value] of elements) {
+    const children: BlobPart[] = [];
+    const size = value instanceof Uint8Array ? (children.push(value), value.length) : writeElements(value, children);
+    const header = Uint8Array.from([...idBytes(id), ...sizeBytes(size)]);
+    parts.push(header, ...children);
+    total += header.length + size;
+  }
+  return total;
+};
+
+// Block timecodes are signed 16-bit offsets from the cluster timecode, in milliseconds
+const MAX_CLUSTER_SPAN = 30000;
+
+export const createWebmMuxer = (options: { width: number; height: number; codec: WebmCodec }): WebmMuxer => {
+  const clusters: EbmlElement[] = [];
+  let cluster: EbmlElement[] | null = null;
+  let clusterTime = 0;
+
+  return {
+    addFrame: (data, timestamp, keyFrame) => {
+      const time = Math.round(timestamp / 1000);
+      // Start clusters on key frames so each one decodes independently
+      if (!cluster || (keyFrame && time > clusterTime) || time - clusterTime > MAX_CLUSTER_SPAN) {
+        cluster = [[0xe7, uint(time)]]; // Timecode
+        clusterTime = time;
+        clusters.push([0x1f43b675, cluster]); // Cluster
+      }
+      const block = new Uint8Array(4 + data.length);
+      const view = new DataView(block.buffer);
+      block[0] = 0x81; // Track number 1
+      view.setInt16(1, time - clusterTime);
+      block[3] = keyFrame ? 0x80 : 0;
+      block.set(data, 4);
+      cluster.push([0xa3, block]); // SimpleBlock
+    },
+    finalize: (duration) => {
+      const parts: BlobPart[] = [];
+      writeElements([
+        [0x1a45dfa3, [ // EBML
+          [0x4286, uint(1)], // EBMLVersion
+          [0x42f7, uint(1)], // EBMLReadVersion
+          [0x42f2, uint(4)], // EBMLMaxIDLength
+          [0x42f3, uint(8)], // EBMLMaxSizeLength
+          [0x4282, text('webm')], // DocType
+          [0x4287, uint(2)], // DocTypeVersion
+          [0x4285, uint(2)], // DocTypeReadVersion
+        ]],
+        [0x18538067, [ // Segment
+          [0x1549a966, [ // Info
+            [0x2ad7b1, uint(1000000)], // TimecodeScale: milliseconds
+            [0x4489, float64(duration / 1000)], // Duration
+            [0x4d80, text('gaussian-splat-viewer')], // MuxingApp
+            [0x5741, text('gaussian-splat-viewer')], // WritingApp
+          ]],
+          [0x1654ae6b, [ // Tracks
+            [0xae, [ // TrackEntry
+              [0xd7, uint(1)], // TrackNumber
+              [0x73c5, uint(1)], // TrackUID
+              [0x83, uint(1)], // TrackType: video
+              [0x86, text(options.codec)], // CodecID
+              [0xe0, [ // Video
+                [0xb0, uint(options.width)], // PixelWidth
+                [0xba, uint(options.height)], // PixelHeight
+              ]],
+            ]],
+          ]],
+          ...clusters,
+        ]],
+      ], parts);
+      return new Blob(parts, { type: 'video/webm' });
+    },
+  };
+};
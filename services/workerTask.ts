@@ -0,0 +1,57 @@
+/** A computation running in a Web Worker, see `runInWorker`. */
+export interface WorkerTask<T> {
+  result: Promise<T>;
+  /** Stops the worker; the promise rejects. */
+  cancel: () => void;
+}
+
+/** Replies of a task worker: any number of progress updates, then `done` or `error`. */
+type TaskResponse = { type: 'progress' } | { type: 'done' } | { type: 'error'; message: string };
+
+/**
+ * Posts one request to `worker` and settles with its reply. The worker is terminated once the
+ * task has finished, failed or been cancelled.
+ *
+ * @param description What the task does, for the error messages, e.g. "ICP alignment".
+ * @param readResult Reads the result from the `done` reply.
+ * @param onProgress Called with each `progress` reply.
+ * @param transfer Buffers of `request` moved to the worker instead of copied.
+ */
+export const runInWorker = <Response extends TaskResponse, T>(
+  worker: Worker,
+  request: unknown,
+  options: {
+    description: string;
+    readResult: (msg: Extract<Response, { type: 'done' }>) => T;
+    onProgress?: (msg: Extract<Response, { type: 'progress' }>) => void;
+    transfer?: Transferable[];
+  }
+): WorkerTask<T> => {
+  const { description, readResult, onProgress, transfer = [] } = options;
+  let rejectResult: (err: Error) => void = () => {};
+  const result = new Promise<T>((resolve, reject) => {
+    rejectResult = reject;
+    worker.onmessage = (e: MessageEvent<Response>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        onProgress?.(msg as Extract<Response, { type: 'progress' }>);
+        return;
+      }
+      worker.terminate();
+      if (msg.type === 'done') resolve(readResult(msg as Extract<Response, { type: 'done' }>));
+      else reject(new Error((msg as Extract<TaskResponse, { type: 'error' }>).message));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || `${description} failed.`));
+    };
+  });
+  worker.postMessage(request, transfer);
+  return {
+    result,
+    cancel: () => {
+      worker.terminate();
+      rejectResult(new Error(`${description} was cancelled.`));
+    },
+  };
+};
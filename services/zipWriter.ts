@@ -0,0 +1,89 @@
+/**
+ * Minimal ZIP archive writer. Files are stored uncompressed, which suits already-compressed
+ * content such as PNG frames. Archives are limited to 4 GB and 65535 files (no ZIP64).
+ */
+import { crc32 } from './crc32';
+
+/** MS-DOS time and date fields of `date`. */
+const dosDateTime = (date: Date): [number, number] => [
+  (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+];
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+export interface ZipWriter {
+  addFile: (name: string, data: Uint8Array) => void;
+  /** Returns the archive; no files can be added afterwards. */
+  finalize: () => Blob;
+}
+
+export const createZipWriter = (): ZipWriter => {
+  const parts: BlobPart[] = [];
+  const entries: ZipEntry[] = [];
+  const [time, date] = dosDateTime(new Date());
+  const encoder = new TextEncoder();
+  let offset = 0;
+
+  return {
+    addFile: (fileName, data) => {
+      if (entries.length >= 0xffff) throw new Error('Too many files for a ZIP archive.');
+      if (offset + data.length + 30 + fileName.length > 0xffffffff) throw new Error('The archive would exceed 4 GB.');
+      const name = encoder.encode(fileName);
+      const entry: ZipEntry = { name, crc: crc32(data), size: data.length, offset };
+
+      const header = new DataView(new ArrayBuffer(30));
+      header.setUint32(0, 0x04034b50, true); // Local file header signature
+      header.setUint16(4, 20, true); // Version needed to extract
+      header.setUint16(6, 0, true); // Flags
+      header.setUint16(8, 0, true); // Stored
+      header.setUint16(10, time, true);
+      header.setUint16(12, date, true);
+      header.setUint32(14, entry.crc, true);
+      header.setUint32(18, entry.size, true);
+      header.setUint32(22, entry.size, true);
+      header.setUint16(26, name.length, true);
+      header.setUint16(28, 0, true); // Extra field length
+
+      parts.push(header.buffer, name, data);
+      entries.push(entry);
+      offset += 30 + name.length + data.length;
+    },
+    finalize: () => {
+      const directoryOffset = offset;
+      let directorySize = 0;
+      for (const entry of entries) {
+        const record = new DataView(new ArrayBuffer(46));
+        record.setUint32(0, 0x02014b50, true); // Central directory signature
+        record.setUint16(4, 20, true); // Version made by
+        record.setUint16(6, 20, true); // Version needed to extract
+        record.setUint16(8, 0, true);
+        record.setUint16(10, 0, true);
+        record.setUint16(12, time, true);
+        record.setUint16(14, date, true);
+        record.setUint32(16, entry.crc, true);
+        record.setUint32(20, entry.size, true);
+        record.setUint32(24, entry.size, true);
+        record.setUint16(28, entry.name.length, true);
+        // Extra, comment, disk number and attributes stay zero
+        record.setUint32(42, entry.offset, true);
+        parts.push(record.buffer, entry.name);
+        directorySize += 46 + entry.name.length;
+      }
+
+      const end = new DataView(new ArrayBuffer(22));
+      end.setUint32(0, 0x06054b50, true); // End of central directory signature
+      end.setUint16(8, entries.length, true);
+      end.setUint16(10, entries.length, true);
+      end.setUint32(12, directorySize, true);
+      end.setUint32(16, directoryOffset, true);
+      parts.push(end.buffer);
+      return new Blob(parts, { type: 'application/zip' });
+    },
+  };
+};
@@ -10,11 +10,28 @@ export enum RenderMode {
 export interface PlyData {
   positions: Float32Array;
   colors: Float32Array;
-  elevations: Float32Array;
+  /** Per-point opacity in [0, 1]; all ones when the file has no `opacity` property. */
+  opacities: Float32Array;
   scales?: Float32Array;
   rotations?: Float32Array;
+  /** Highest spherical harmonic degree available (0 when the file only has DC color). */
+  shDegree: number;
+  /** Half-float RGBA texel data with the higher-order SH coefficients, see `services/sphericalHarmonics.ts`. */
+  shCoefficients?: Uint16Array;
+  /**
+   * Other scalar vertex properties of the file, such as `intensity` or `confidence`, by property
+   * name; properties with the same value at every point are left out.
+   */
+  scalarProperties?: Record<string, Float32Array>;
   boundingBox: THREE.Box3;
+  /**
+   * Subtracted from the file's positions while decoding, so that georeferenced coordinates far from
+   * the origin keep their precision in 32-bit floats; zero for files near the origin.
+   */
+  offset: THREE.Vector3;
   pointCount: number;
+  /** Set on the incomplete clouds shown while a large file is still loading. */
+  isPartial?: boolean;
 }
 
 export interface Transformations {
@@ -23,17 +40,298 @@ export interface Transformations {
   scale: number;
 }
 
+export enum CropShape {
+  BOX = 0,
+  SPHERE = 1,
+  CYLINDER = 2,
+}
+
+export enum CropMode {
+  INCLUDE = 0,
+  EXCLUDE = 1,
+}
+
+/**
+ * An oriented crop volume in model space. The shape is a unit box, sphere or Y-aligned cylinder
+ * centered at the origin, scaled by `size`, rotated by `rotation` and moved to `center`.
+ */
+export interface CropVolume {
+  id: string;
+  shape: CropShape;
+  mode: CropMode;
+  center: THREE.Vector3;
+  rotation: THREE.Euler;
+  size: THREE.Vector3;
+  enabled: boolean;
+}
+
+/**
+ * Points are kept when they are inside any enabled include volume (or there is none)
+ * and outside every enabled exclude volume.
+ */
 export interface CropSettings {
-  min: THREE.Vector3;
-  max: THREE.Vector3;
+  volumes: CropVolume[];
+  selectedVolumeId: string | null;
   enabled: boolean;
 }
 
+/** Axis of a model file that points up, in the file's own coordinates. */
+export type UpAxis = '+x' | '-x' | '+y' | '-y' | '+z' | '-z';
+
+/** How the axes of a model file map onto the viewer's right-handed, Y-up world. */
+export interface CoordinateSystem {
+  up: UpAxis;
+  handedness: 'right' | 'left';
+}
+
+/** One loaded cloud in the scene, with its own transform, crop and display settings. */
+export interface SceneModel {
+  id: string;
+  name: string;
+  /** Null until the first points of the file have been decoded. */
+  plyData: PlyData | null;
+  /** The file the model was loaded from, set once it has loaded completely. */
+  sourceFile: File | null;
+  isLoading: boolean;
+  loadingProgress: number;
+  transformations: Transformations;
+  crop: CropSettings;
+  renderMode: RenderMode;
+  splatDataAvailable: boolean;
+  visible: boolean;
+  annotations: Annotation[];
+  coordinateSystem: CoordinateSystem;
+  /**
+   * Georeference offset of the scene in file coordinates, shared by the models loaded from the same
+   * georeferenced area; world coordinates are relative to it. Zero for models near the origin.
+   */
+  origin: THREE.Vector3;
+}
+
+/** A note pinned to a point of a model, in the model's own space so it follows its transformations. */
+export interface Annotation {
+  id: string;
+  title: string;
+  description: string;
+  /** CSS color like "#f43f5e" of the marker and label. */
+  color: string;
+  position: THREE.Vector3;
+}
+
+export interface AnnotationSettings {
+  /** Clicks on the cloud add an annotation to the model under the cursor. */
+  placing: boolean;
+  /** Annotation whose description is shown and edited. */
+  selectedId: string | null;
+}
+
+export type SelectionTool = 'none' | 'rect' | 'lasso' | 'brush';
+
+export interface SelectionSettings {
+  tool: SelectionTool;
+  /** Brush radius in CSS pixels. */
+  brushRadius: number;
+}
+
+export type MeasurementType = 'distance' | 'polyline' | 'area' | 'height';
+
+/** A measurement between picked points, in world space. */
+export interface Measurement {
+  id: string;
+  type: MeasurementType;
+  points: THREE.Vector3[];
+}
+
+export interface MeasurementSettings {
+  /** Tool used for the next clicks on the cloud, or null while orbiting. */
+  tool: MeasurementType | null;
+  measurements: Measurement[];
+  /** Points picked so far for the measurement being drawn. */
+  draft: THREE.Vector3[];
+  /** Real-world units per scene unit. */
+  unitScale: number;
+  unitLabel: string;
+}
+
+/** A correspondence picked for point-pair registration, each point in its own model's space. */
+export interface RegistrationPair {
+  moving: THREE.Vector3;
+  fixed: THREE.Vector3;
+}
+
+export interface RegistrationSettings {
+  /** Model whose transformations are changed by the alignment. */
+  movingModelId: string | null;
+  /** Model the moving one is aligned to. */
+  fixedModelId: string | null;
+  /** Clicks on the cloud pick pairs: first on the moving model, then on the fixed one. */
+  picking: boolean;
+  pairs: RegistrationPair[];
+  /** Moving-model point of the pair being picked. */
+  pendingMoving: THREE.Vector3 | null;
+  /** Also estimate a uniform scale, e.g. for scans without a metric scale. */
+  withScale: boolean;
+  /** ICP ignores point pairs farther apart than this fraction of the fixed model's size. */
+  icpMaxDistance: number;
+  /** RMS distance in scene units after the last alignment, and how it was measured. */
+  lastResult: { method: 'pairs' | 'icp'; rmsError: number; pairCount: number } | null;
+}
+
+/** A camera viewpoint in world space. */
+export interface CameraPose {
+  position: THREE.Vector3;
+  /** Orbit center the camera looks at. */
+  target: THREE.Vector3;
+  /** Vertical field of view in degrees. */
+  fov: number;
+}
+
+export interface CameraBookmark extends CameraPose {
+  id: string;
+  name: string;
+}
+
+/** A fly-through through saved viewpoints. */
+export interface CameraPathSettings {
+  /** Bookmark ids in flight order; a bookmark may appear more than once. */
+  keyframeIds: string[];
+  /** Seconds between consecutive keyframes. */
+  segmentDuration: number;
+  /** Fly from the last keyframe back to the first and repeat. */
+  loop: boolean;
+}
+
+export type NavigationMode = 'orbit' | 'fly' | 'trackball';
+
+/**
+ * Orthographic views show what the perspective view shows at the orbit target, without
+ * foreshortening, so that switching keeps the framing.
+ */
+export type CameraProjection = 'perspective' | 'orthographic';
+
+export interface NavigationSettings {
+  mode: NavigationMode;
+  /** Fly-mode speed as a fraction of the scene size per second. */
+  flySpeed: number;
+  projection: CameraProjection;
+}
+
+export interface ScreenshotSettings {
+  /** Image size as a multiple of the canvas size. */
+  scale: number;
+  /** Leave the background transparent instead of filling it with the background color. */
+  transparent: boolean;
+}
+
+export type VideoExportSource = 'path' | 'turntable';
+export type VideoExportFormat = 'webm' | 'png';
+
+export interface VideoExportSettings {
+  /** Follow the camera path, or orbit once around the scene center from the current view. */
+  source: VideoExportSource;
+  format: VideoExportFormat;
+  /** Frame size in pixels, independent of the window. */
+  width: number;
+  height: number;
+  fps: number;
+  /** Seconds for one turntable revolution. */
+  turntableDuration: number;
+}
+
+export type ColormapName = 'viridis' | 'turbo' | 'magma' | 'grayscale' | 'diverging';
+
+/**
+ * Per-point value shown by the colormap render mode: a world axis, the opacity, the longest splat
+ * axis in world units, the distance to the camera, the signed distance to `ColormapSettings.plane`,
+ * or a scalar property of the file as `property:<name>`.
+ */
+export type ScalarField = 'x' | 'y' | 'z' | 'opacity' | 'splatSize' | 'cameraDistance' | 'planeDistance' | `property:${string}`;
+
+export interface ColormapSettings {
+  field: ScalarField;
+  colormap: ColormapName;
+  /** Values at the ends of the colormap, which values outside are clamped to; null follows the data. */
+  range: [number, number] | null;
+  /** Reference plane of the `planeDistance` field, in world space. */
+  plane: THREE.Plane;
+}
+
 export interface AppearanceSettings {
   pointSize: number;
   opacity: number;
   backgroundColor: string;
   splatScale: number;
+  /** Cap on the spherical harmonic degree evaluated in splat mode (0-3). */
+  shDegree: number;
+}
+
+/** Octree level of detail and frustum culling for large scenes. */
+export interface LodSettings {
+  enabled: boolean;
+  /** Most splats drawn per frame; distant parts of the scene are merged to stay below it. */
+  splatBudget: number;
+}
+
+/**
+ * How small splats are filtered against aliasing: not at all, with the 0.3 px low-pass dilation of
+ * the reference rasterizer, or with the dilation and opacity compensation of Mip-Splatting.
+ */
+export type SplatAntialiasing = 'none' | 'lowPass' | 'mip';
+
+/** Splat rasterization and color grading options. */
+export interface RenderQualitySettings {
+  antialiasing: SplatAntialiasing;
+  /** Distance from a splat's center, in standard deviations, beyond which it is cut off. */
+  cutoff: number;
+  /** Blends color multiplied by alpha, which avoids dark fringes around soft splat edges. */
+  premultipliedAlpha: boolean;
+  /** Brightness change in stops. */
+  exposure: number;
+  /** Colors are raised to the power 1 / gamma; 1 leaves them as they are. */
+  gamma: number;
+  /** 0 is grayscale, 1 the original colors. */
+  saturation: number;
+}
+
+/**
+ * Splat quality filters, applied on top of the crop. Level-of-detail proxies, which stand in for
+ * many splats, are never filtered.
+ */
+export interface SplatFilterSettings {
+  /** Splats less opaque than this are hidden; 0 keeps all of them. */
+  minOpacity: number;
+  /**
+   * Range of splat sizes kept, as the longest axis in world units; null leaves that side open.
+   * Points without splat scales are not affected.
+   */
+  minSize: number | null;
+  maxSize: number | null;
+  /** Hides splats whose outlier score (see `services/outlierScores.ts`) exceeds `outlierThreshold`. */
+  removeOutliers: boolean;
+  /** Nearest neighbours averaged for the outlier score. */
+  outlierNeighbors: number;
+  /** Standard deviations above the mean neighbour distance beyond which a splat is an outlier. */
+  outlierThreshold: number;
+}
+
+/** A plane through `center` that cuts the whole scene; its normal is the local +Y axis after `rotation`. */
+export interface ClipPlane {
+  id: string;
+  /** World-space point on the plane. */
+  center: THREE.Vector3;
+  rotation: THREE.Euler;
+  enabled: boolean;
+  /** Keep only a slab of `thickness` around the plane instead of removing what lies in front of it. */
+  slab: boolean;
+  /** Slab thickness in world units. */
+  thickness: number;
+}
+
+export interface ClippingSettings {
+  enabled: boolean;
+  planes: ClipPlane[];
+  /** Plane edited by the gizmo. */
+  selectedPlaneId: string | null;
 }
 
 export interface HelperSettings {
@@ -44,4 +342,6 @@ export interface HelperSettings {
 export interface PerformanceStats {
   fps: number;
   pointCount: number;
+  /** Splats drawn in the last frame while the level of detail is active, otherwise null. */
+  drawnCount: number | null;
 }
\ No newline at end of file